@@ -0,0 +1,108 @@
+import { toRelativeOmadaPath } from './utils/omadaPath.js';
+
+export const ACCESS_MODES = ['read-only', 'confirm-writes', 'full'] as const;
+
+export type AccessMode = (typeof ACCESS_MODES)[number];
+
+export interface AccessCheckOptions {
+  confirmed?: boolean;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * POST endpoints that only read data. Patterns are matched against the path after the
+ * `/openapi/v{n}/{omadacId}` (or `/openapi/v{n}/msp/{mspId}`) prefix.
+ */
+export const DEFAULT_READ_ONLY_POST_PATTERNS: readonly RegExp[] = [
+  /^\/sites\/statistic$/,
+  /^\/sites\/[^/]+\/stat\/[^/]+\/client-stat-5min$/,
+  /^\/sites\/[^/]+\/stat\/olt\/[^/]+\/ddm\/info$/,
+  /^\/sites\/[^/]+\/aps\/ports\/capability$/,
+  /^\/sites\/[^/]+\/lan-networks\/es(-native)?$/,
+  /^\/sites\/[^/]+\/hotspot\/vouchers\/batch\/print$/,
+  /^\/sites\/[^/]+\/hotspot\/voucher-groups\/batch\/print-unused$/,
+  /^\/upgrade\/models$/,
+  /^\/upgrade\/plan\/(sites|firmware)$/,
+  /^\/upgrade\/overview\/firmwares\/release-note$/,
+  /^\/security\/threat-map(\/threats|\/threat-count)?$/,
+  /^\/security\/blocked-country$/,
+  /^\/customers\/client-count$/
+];
+
+export class AccessPolicyError extends Error {
+  public readonly code = 'ACCESS_DENIED';
+
+  constructor(
+    public readonly mode: AccessMode,
+    public readonly method: string,
+    public readonly path: string,
+    public readonly reason: string
+  ) {
+    super(`Omada ${method} ${path} blocked by ${mode} access policy: ${reason}`);
+    this.name = 'AccessPolicyError';
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return {
+      error: this.code,
+      mode: this.mode,
+      method: this.method,
+      path: this.path,
+      reason: this.reason
+    };
+  }
+}
+
+export class AccessPolicy {
+  private readonly readOnlyPatterns: readonly RegExp[];
+
+  constructor(
+    public readonly mode: AccessMode = 'full',
+    additionalReadOnlyPatterns: readonly RegExp[] = []
+  ) {
+    this.readOnlyPatterns = [...DEFAULT_READ_ONLY_POST_PATTERNS, ...additionalReadOnlyPatterns];
+  }
+
+  public isReadOperation(method: string, url: string): boolean {
+    const normalizedMethod = method.toUpperCase();
+    if (SAFE_METHODS.includes(normalizedMethod)) {
+      return true;
+    }
+
+    if (normalizedMethod !== 'POST') {
+      return false;
+    }
+
+    const relativePath = toRelativeOmadaPath(url);
+    return this.readOnlyPatterns.some((pattern) => pattern.test(relativePath));
+  }
+
+  /**
+   * Throws an {@link AccessPolicyError} when the request is not permitted under the current mode.
+   */
+  public assertAllowed(method: string, url: string, options: AccessCheckOptions = {}): void {
+    const normalizedMethod = method.toUpperCase();
+    if (this.mode === 'full' || this.isReadOperation(normalizedMethod, url)) {
+      return;
+    }
+
+    if (this.mode === 'read-only') {
+      throw new AccessPolicyError(
+        this.mode,
+        normalizedMethod,
+        url,
+        'The server is configured as read-only; mutating controller operations are disabled.'
+      );
+    }
+
+    if (!options.confirmed) {
+      throw new AccessPolicyError(
+        this.mode,
+        normalizedMethod,
+        url,
+        'Mutating controller operations require explicit confirmation. Repeat the call with `confirm: true` once the change has been approved.'
+      );
+    }
+  }
+}
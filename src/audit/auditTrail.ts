@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { z } from 'zod';
+
+import { allows, type AuthorizationGrant } from '../authz/authorizationPolicy.js';
+import type { AuditEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { parseTimeInput } from '../utils/timeRange.js';
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  principal?: string;
+  type?: AuditEvent['type'];
+  outcome?: AuditEvent['outcome'];
+  limit?: number;
+}
+
+/** Query with the time bounds resolved to epoch milliseconds, as passed to sinks. */
+export interface ResolvedAuditQuery extends Omit<AuditQuery, 'since' | 'until'> {
+  start?: number;
+  end?: number;
+  limit: number;
+}
+
+/** Storage backend of the audit trail. Sinks only ever append; old entries are removed by retention. */
+export interface AuditSink {
+  readonly name: string;
+  append(event: AuditEvent): Promise<void>;
+  /** Returns matching events, newest first. */
+  query(query: ResolvedAuditQuery): Promise<AuditEvent[]>;
+  close(): Promise<void>;
+}
+
+/** Who is acting: set by `wrapToolHandler` for the duration of a tool call. */
+export interface AuditContext {
+  sessionId?: string;
+  principal?: string;
+  tool?: string;
+}
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+
+export interface AuditConfig {
+  file?: string;
+  sqliteFile?: string;
+  /** Size in bytes at which the JSONL file is rotated. */
+  maxBytes: number;
+  retentionDays: number;
+}
+
+const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+
+const positiveIntegerSchema = z
+  .string()
+  .optional()
+  .transform((value) => (value ? Number.parseInt(value, 10) : undefined))
+  .pipe(z.number().int().positive().optional());
+
+const auditEnvSchema = z.object({
+  file: z.string().min(1).optional(),
+  sqliteFile: z.string().min(1).optional(),
+  maxBytes: positiveIntegerSchema,
+  retentionDays: positiveIntegerSchema
+});
+
+export function loadAuditConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AuditConfig {
+  const parsed = auditEnvSchema.safeParse({
+    file: env.OMADA_AUDIT_FILE,
+    sqliteFile: env.OMADA_AUDIT_SQLITE_FILE,
+    maxBytes: env.OMADA_AUDIT_MAX_BYTES,
+    retentionDays: env.OMADA_AUDIT_RETENTION_DAYS
+  });
+
+  if (!parsed.success) {
+    const messages = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid audit configuration:\n${messages.join('\n')}`);
+  }
+
+  return {
+    file: parsed.data.file,
+    sqliteFile: parsed.data.sqliteFile,
+    maxBytes: parsed.data.maxBytes ?? DEFAULT_AUDIT_MAX_BYTES,
+    retentionDays: parsed.data.retentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS
+  };
+}
+
+/** Validates query string parameters of the HTTP audit route. */
+export const auditQuerySchema = z.object({
+  since: z.string().min(1).optional(),
+  until: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  principal: z.string().min(1).optional(),
+  type: z.enum(['tool', 'controller']).optional(),
+  outcome: z.enum(['success', 'error', 'denied']).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional()
+});
+
+export function matchesAuditQuery(event: AuditEvent, query: ResolvedAuditQuery): boolean {
+  const time = Date.parse(event.timestamp);
+  return (
+    (query.start === undefined || time >= query.start) &&
+    (query.end === undefined || time <= query.end) &&
+    (!query.tool || event.tool === query.tool) &&
+    (!query.principal || event.principal === query.principal) &&
+    (!query.type || event.type === query.type) &&
+    (!query.outcome || event.outcome === query.outcome)
+  );
+}
+
+/**
+ * Limits what a caller may read: principals whose grant lacks the `config-writes` category only
+ * see their own entries. Without a grant (stdio, or HTTP without a policy) nothing is restricted.
+ */
+export function scopeAuditQuery(query: AuditQuery, grant: AuthorizationGrant | undefined): AuditQuery {
+  if (!grant || allows(grant.categories, 'config-writes')) {
+    return query;
+  }
+
+  return { ...query, principal: grant.principal };
+}
+
+/**
+ * Append-only record of tool invocations and controller mutations, written to every configured
+ * sink. Recording never fails the audited call: sink errors are logged instead.
+ */
+export class AuditTrail {
+  private sinks: AuditSink[] = [];
+
+  private readonly context = new AsyncLocalStorage<AuditContext>();
+
+  public get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  public configure(sinks: AuditSink[]): void {
+    this.sinks = sinks;
+    logger.info('Audit trail configured', { sinks: sinks.map((sink) => sink.name) });
+  }
+
+  public runWithContext<T>(context: AuditContext, callback: () => T): T {
+    return this.context.run(context, callback);
+  }
+
+  public currentContext(): AuditContext | undefined {
+    return this.context.getStore();
+  }
+
+  public async record(event: Omit<AuditEvent, 'timestamp'>): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entry: AuditEvent = { timestamp: new Date().toISOString(), ...event };
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        try {
+          await sink.append(entry);
+        } catch (error) {
+          logger.error('Failed to write audit event', {
+            sink: sink.name,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      })
+    );
+  }
+
+  /** Queries the first sink, which is the SQLite database when one is configured. */
+  public async query(query: AuditQuery = {}): Promise<AuditEvent[]> {
+    const [sink] = this.sinks;
+    if (!sink) {
+      throw new Error('The audit trail is disabled. Set OMADA_AUDIT_FILE or OMADA_AUDIT_SQLITE_FILE to enable it.');
+    }
+
+    const now = Date.now();
+    return sink.query({
+      tool: query.tool,
+      principal: query.principal,
+      type: query.type,
+      outcome: query.outcome,
+      start: query.since ? parseTimeInput(query.since, now) : undefined,
+      end: query.until ? parseTimeInput(query.until, now) : undefined,
+      limit: query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT
+    });
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.close()));
+    this.sinks = [];
+  }
+}
+
+export const auditTrail = new AuditTrail();
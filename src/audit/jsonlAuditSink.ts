@@ -0,0 +1,137 @@
+import { appendFile, mkdir, readdir, readFile, rename, stat, unlink } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { AuditEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+import { type AuditSink, matchesAuditQuery, type ResolvedAuditQuery } from './auditTrail.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes one JSON object per line. When the file would grow beyond `maxBytes` it is renamed to
+ * `<name>-<timestamp><ext>` and a new file is started; rotated files older than the retention
+ * period are deleted.
+ */
+export class JsonlAuditSink implements AuditSink {
+  public readonly name = 'jsonl';
+
+  private size?: number;
+
+  private pending: Promise<void> = Promise.resolve();
+
+  private readonly directory: string;
+
+  private readonly baseName: string;
+
+  private readonly extension: string;
+
+  constructor(
+    private readonly file: string,
+    private readonly maxBytes: number,
+    private readonly retentionDays: number
+  ) {
+    this.directory = path.dirname(file);
+    this.extension = path.extname(file);
+    this.baseName = path.basename(file, this.extension);
+  }
+
+  public append(event: AuditEvent): Promise<void> {
+    // Serialize writes so that lines never interleave and rotation sees the final size.
+    const write = this.pending.then(() => this.write(`${JSON.stringify(event)}\n`));
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  public async query(query: ResolvedAuditQuery): Promise<AuditEvent[]> {
+    await this.pending;
+
+    const events: AuditEvent[] = [];
+    for (const file of [this.file, ...(await this.rotatedFiles())]) {
+      const stats = await stat(file).catch(() => undefined);
+      if (!stats) {
+        continue;
+      }
+      // Files are scanned newest first, so a file last written before the range ends the search.
+      if (query.start !== undefined && stats.mtimeMs < query.start) {
+        break;
+      }
+
+      const lines = (await readFile(file, 'utf8')).split('\n').reverse();
+      for (const line of lines) {
+        const event = this.parse(line);
+        if (event && matchesAuditQuery(event, query)) {
+          events.push(event);
+          if (events.length >= query.limit) {
+            return events;
+          }
+        }
+      }
+    }
+
+    return events;
+  }
+
+  public async close(): Promise<void> {
+    await this.pending;
+  }
+
+  private async write(line: string): Promise<void> {
+    if (this.size === undefined) {
+      await mkdir(this.directory, { recursive: true });
+      this.size = (await stat(this.file).catch(() => undefined))?.size ?? 0;
+      await this.applyRetention();
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(this.file, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const suffix = new Date().toISOString().replace(/[:.]/g, '-');
+    const target = path.join(this.directory, `${this.baseName}-${suffix}${this.extension}`);
+    await rename(this.file, target);
+    this.size = 0;
+    logger.info('Audit log rotated', { file: target });
+    await this.applyRetention();
+  }
+
+  private async applyRetention(): Promise<void> {
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    for (const file of await this.rotatedFiles()) {
+      const stats = await stat(file).catch(() => undefined);
+      if (stats && stats.mtimeMs < cutoff) {
+        await unlink(file);
+        logger.info('Expired audit log removed', { file });
+      }
+    }
+  }
+
+  /** Rotated files, newest first. */
+  private async rotatedFiles(): Promise<string[]> {
+    const prefix = `${this.baseName}-`;
+    const entries = await readdir(this.directory).catch(() => [] as string[]);
+    return entries
+      .filter((entry) => entry.startsWith(prefix) && entry.endsWith(this.extension))
+      .sort()
+      .reverse()
+      .map((entry) => path.join(this.directory, entry));
+  }
+
+  private parse(line: string): AuditEvent | undefined {
+    if (line.trim().length === 0) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(line) as AuditEvent;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { type AuditConfig, type AuditSink, auditTrail } from './auditTrail.js';
+import { JsonlAuditSink } from './jsonlAuditSink.js';
+import { SqliteAuditSink } from './sqliteAuditSink.js';
+
+/**
+ * Opens the configured sinks and enables the audit trail. The SQLite sink comes first so that
+ * queries use its indexes; the trail stays disabled when neither file is configured.
+ */
+export async function setupAuditTrail(config: AuditConfig): Promise<void> {
+  const sinks: AuditSink[] = [];
+  if (config.sqliteFile) {
+    sinks.push(await SqliteAuditSink.open(config.sqliteFile, config.retentionDays));
+  }
+  if (config.file) {
+    sinks.push(new JsonlAuditSink(config.file, config.maxBytes, config.retentionDays));
+  }
+
+  if (sinks.length > 0) {
+    auditTrail.configure(sinks);
+  }
+}
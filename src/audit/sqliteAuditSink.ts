@@ -0,0 +1,170 @@
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+
+import type { AuditEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+import type { AuditSink, ResolvedAuditQuery } from './auditTrail.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+interface AuditRow {
+  timestamp: string;
+  type: AuditEvent['type'];
+  outcome: AuditEvent['outcome'];
+  session_id: string | null;
+  principal: string | null;
+  tool: string | null;
+  args: string | null;
+  controller: string | null;
+  method: string | null;
+  path: string | null;
+  error_code: number | null;
+  error: string | null;
+  duration_ms: number | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS audit_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  type TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  session_id TEXT,
+  principal TEXT,
+  tool TEXT,
+  args TEXT,
+  controller TEXT,
+  method TEXT,
+  path TEXT,
+  error_code INTEGER,
+  error TEXT,
+  duration_ms INTEGER
+);
+CREATE INDEX IF NOT EXISTS audit_events_timestamp ON audit_events (timestamp);
+CREATE INDEX IF NOT EXISTS audit_events_principal ON audit_events (principal, timestamp);
+CREATE INDEX IF NOT EXISTS audit_events_tool ON audit_events (tool, timestamp);
+`;
+
+/**
+ * Stores audit events in a SQLite database using the `node:sqlite` module, which requires
+ * Node.js 22.13 or newer. Rows older than the retention period are deleted hourly.
+ */
+export class SqliteAuditSink implements AuditSink {
+  public readonly name = 'sqlite';
+
+  private readonly retentionTimer: NodeJS.Timeout;
+
+  private constructor(
+    private readonly database: DatabaseSync,
+    private readonly retentionDays: number
+  ) {
+    this.applyRetention();
+    this.retentionTimer = setInterval(() => this.applyRetention(), RETENTION_INTERVAL_MS);
+    this.retentionTimer.unref();
+  }
+
+  public static async open(file: string, retentionDays: number): Promise<SqliteAuditSink> {
+    // Older releases lack node:sqlite or only ship it behind --experimental-sqlite.
+    const unsupported = new Error(`OMADA_AUDIT_SQLITE_FILE requires Node.js 22.13 or newer (running ${process.version})`);
+    const [major, minor] = process.versions.node.split('.').map(Number);
+    if (major < 22 || (major === 22 && minor < 13)) {
+      throw unsupported;
+    }
+
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = await import('node:sqlite');
+    } catch {
+      throw unsupported;
+    }
+
+    mkdirSync(path.dirname(file), { recursive: true });
+    const database = new sqlite.DatabaseSync(file);
+    database.exec(SCHEMA);
+    return new SqliteAuditSink(database, retentionDays);
+  }
+
+  public async append(event: AuditEvent): Promise<void> {
+    this.database
+      .prepare(
+        `INSERT INTO audit_events
+          (timestamp, type, outcome, session_id, principal, tool, args, controller, method, path, error_code, error, duration_ms)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.timestamp,
+        event.type,
+        event.outcome,
+        event.sessionId ?? null,
+        event.principal ?? null,
+        event.tool ?? null,
+        event.args === undefined ? null : JSON.stringify(event.args),
+        event.controller ?? null,
+        event.method ?? null,
+        event.path ?? null,
+        event.errorCode ?? null,
+        event.error ?? null,
+        event.durationMs ?? null
+      );
+  }
+
+  public async query(query: ResolvedAuditQuery): Promise<AuditEvent[]> {
+    const conditions: string[] = [];
+    const parameters: SQLInputValue[] = [];
+    const addCondition = (condition: string, value: SQLInputValue | undefined) => {
+      if (value !== undefined && value !== '') {
+        conditions.push(condition);
+        parameters.push(value);
+      }
+    };
+
+    addCondition('timestamp >= ?', query.start === undefined ? undefined : new Date(query.start).toISOString());
+    addCondition('timestamp <= ?', query.end === undefined ? undefined : new Date(query.end).toISOString());
+    addCondition('tool = ?', query.tool);
+    addCondition('principal = ?', query.principal);
+    addCondition('type = ?', query.type);
+    addCondition('outcome = ?', query.outcome);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.database
+      .prepare(`SELECT * FROM audit_events ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`)
+      .all(...parameters, query.limit) as unknown as AuditRow[];
+
+    return rows.map((row) => this.toEvent(row));
+  }
+
+  public async close(): Promise<void> {
+    clearInterval(this.retentionTimer);
+    this.database.close();
+  }
+
+  private applyRetention(): void {
+    const cutoff = new Date(Date.now() - this.retentionDays * DAY_MS).toISOString();
+    const result = this.database.prepare('DELETE FROM audit_events WHERE timestamp < ?').run(cutoff);
+    if (Number(result.changes) > 0) {
+      logger.info('Expired audit events removed', { count: Number(result.changes) });
+    }
+  }
+
+  private toEvent(row: AuditRow): AuditEvent {
+    return {
+      timestamp: row.timestamp,
+      type: row.type,
+      outcome: row.outcome,
+      sessionId: row.session_id ?? undefined,
+      principal: row.principal ?? undefined,
+      tool: row.tool ?? undefined,
+      args: row.args === null ? undefined : (JSON.parse(row.args) as unknown),
+      controller: row.controller ?? undefined,
+      method: row.method ?? undefined,
+      path: row.path ?? undefined,
+      errorCode: row.error_code ?? undefined,
+      error: row.error ?? undefined,
+      durationMs: row.duration_ms ?? undefined
+    };
+  }
+}
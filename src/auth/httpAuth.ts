@@ -0,0 +1,405 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { z } from 'zod';
+
+import type { AuthPrincipal } from '../types/index.js';
+import { isIpv4InCidr, type Ipv4Cidr, parseIpv4Cidr } from '../utils/ip.js';
+
+import { type JwtClaims, JwtVerificationError, JwtVerifier } from './jwtVerifier.js';
+
+export const HTTP_AUTH_MODES = ['none', 'token', 'oauth', 'header'] as const;
+
+export type HttpAuthMode = (typeof HTTP_AUTH_MODES)[number];
+
+/** Header carrying {@link HttpAuthConfig.proxySecret} from the reverse proxy in `header` mode. */
+export const PROXY_SECRET_HEADER = 'x-mcp-proxy-secret';
+
+export interface StaticToken {
+  name: string;
+  token: string;
+}
+
+export interface OAuthResourceConfig {
+  issuer: string;
+  audience: string[];
+  jwksUrl?: string;
+  jwksFile?: string;
+  requiredScopes: string[];
+  /** Public URL of the MCP endpoint, advertised as `resource` in the protected-resource metadata. */
+  resource?: string;
+}
+
+export interface HttpAuthConfig {
+  mode: HttpAuthMode;
+  tokens: StaticToken[];
+  oauth?: OAuthResourceConfig;
+  /** Header carrying the caller identity set by a trusted reverse proxy (`header` mode). */
+  identityHeader?: string;
+  /** Secret the proxy sends in {@link PROXY_SECRET_HEADER}; identity headers without it are rejected. */
+  proxySecret?: string;
+  /** Source addresses (IPv4 addresses or CIDR ranges, or IPv6 addresses) the identity header is accepted from. */
+  trustedProxies: string[];
+}
+
+const listStringSchema = z
+  .string()
+  .optional()
+  .transform((value) =>
+    value
+      ? value
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length > 0)
+      : []
+  );
+
+const authEnvSchema = z.object({
+  mode: z
+    .enum(HTTP_AUTH_MODES, {
+      errorMap: () => ({ message: `MCP_HTTP_AUTH_MODE must be one of: ${HTTP_AUTH_MODES.join(', ')}` })
+    })
+    .optional(),
+  tokens: listStringSchema,
+  issuer: z.string().url({ message: 'MCP_HTTP_OAUTH_ISSUER must be a valid URL' }).optional(),
+  audience: listStringSchema,
+  jwksUrl: z.string().url({ message: 'MCP_HTTP_OAUTH_JWKS_URL must be a valid URL' }).optional(),
+  jwksFile: z.string().min(1).optional(),
+  requiredScopes: listStringSchema,
+  resource: z.string().url({ message: 'MCP_HTTP_OAUTH_RESOURCE must be a valid URL' }).optional(),
+  identityHeader: z.string().min(1).optional(),
+  proxySecret: z.string().min(16, { message: 'MCP_HTTP_AUTH_PROXY_SECRET must be at least 16 characters' }).optional(),
+  trustedProxies: listStringSchema
+});
+
+/** Parses `name:token` entries; entries without a name are numbered in order. */
+function parseStaticTokens(entries: string[]): StaticToken[] {
+  return entries.map((entry, index) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      return { name: `token-${index + 1}`, token: entry };
+    }
+
+    return { name: entry.slice(0, separator), token: entry.slice(separator + 1) };
+  });
+}
+
+export function loadHttpAuthConfig(env: NodeJS.ProcessEnv = process.env): HttpAuthConfig {
+  const parsed = authEnvSchema.safeParse({
+    mode: env.MCP_HTTP_AUTH_MODE?.trim().toLowerCase() || undefined,
+    tokens: env.MCP_HTTP_AUTH_TOKENS,
+    issuer: env.MCP_HTTP_OAUTH_ISSUER,
+    audience: env.MCP_HTTP_OAUTH_AUDIENCE,
+    jwksUrl: env.MCP_HTTP_OAUTH_JWKS_URL,
+    jwksFile: env.MCP_HTTP_OAUTH_JWKS_FILE,
+    requiredScopes: env.MCP_HTTP_OAUTH_REQUIRED_SCOPES,
+    resource: env.MCP_HTTP_OAUTH_RESOURCE,
+    identityHeader: env.MCP_HTTP_AUTH_IDENTITY_HEADER?.trim().toLowerCase() || undefined,
+    proxySecret: env.MCP_HTTP_AUTH_PROXY_SECRET || undefined,
+    trustedProxies: env.MCP_HTTP_AUTH_TRUSTED_PROXIES
+  });
+
+  if (!parsed.success) {
+    const messages = parsed.error.issues.map((issue) => issue.message);
+    throw new Error(`Invalid HTTP authentication configuration:\n${messages.join('\n')}`);
+  }
+
+  const data = parsed.data;
+  const tokens = parseStaticTokens(data.tokens);
+  const mode = data.mode ?? (data.issuer ? 'oauth' : tokens.length > 0 ? 'token' : 'none');
+
+  if (mode === 'token' && tokens.length === 0) {
+    throw new Error('MCP_HTTP_AUTH_TOKENS is required when MCP_HTTP_AUTH_MODE is token');
+  }
+
+  const names = tokens.map((token) => token.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate MCP_HTTP_AUTH_TOKENS name: ${duplicate}`);
+  }
+
+  if (mode === 'header') {
+    if (!data.identityHeader) {
+      throw new Error('MCP_HTTP_AUTH_IDENTITY_HEADER is required when MCP_HTTP_AUTH_MODE is header');
+    }
+    // Anyone who can reach the port could otherwise claim any identity.
+    if (!data.proxySecret && data.trustedProxies.length === 0) {
+      throw new Error(
+        'MCP_HTTP_AUTH_PROXY_SECRET or MCP_HTTP_AUTH_TRUSTED_PROXIES is required when MCP_HTTP_AUTH_MODE is header'
+      );
+    }
+
+    const invalid = data.trustedProxies.find((entry) => !entry.includes(':') && !parseIpv4Cidr(entry));
+    if (invalid) {
+      throw new Error(`Invalid MCP_HTTP_AUTH_TRUSTED_PROXIES entry: ${invalid}`);
+    }
+
+    return {
+      mode,
+      tokens,
+      identityHeader: data.identityHeader,
+      proxySecret: data.proxySecret,
+      trustedProxies: data.trustedProxies
+    };
+  }
+
+  if (mode !== 'oauth') {
+    return { mode, tokens, trustedProxies: [] };
+  }
+
+  if (!data.issuer) {
+    throw new Error('MCP_HTTP_OAUTH_ISSUER is required when MCP_HTTP_AUTH_MODE is oauth');
+  }
+  if (!data.jwksUrl && !data.jwksFile) {
+    throw new Error('MCP_HTTP_OAUTH_JWKS_URL or MCP_HTTP_OAUTH_JWKS_FILE is required when MCP_HTTP_AUTH_MODE is oauth');
+  }
+
+  const audience = data.audience.length > 0 ? data.audience : data.resource ? [data.resource] : [];
+  if (audience.length === 0) {
+    throw new Error('MCP_HTTP_OAUTH_AUDIENCE or MCP_HTTP_OAUTH_RESOURCE is required when MCP_HTTP_AUTH_MODE is oauth');
+  }
+
+  return {
+    mode,
+    tokens,
+    trustedProxies: [],
+    oauth: {
+      issuer: data.issuer,
+      audience,
+      jwksUrl: data.jwksUrl,
+      jwksFile: data.jwksFile,
+      requiredScopes: data.requiredScopes,
+      resource: data.resource
+    }
+  };
+}
+
+export type HttpAuthErrorCode = 'invalid_request' | 'invalid_token' | 'insufficient_scope';
+
+/** Authentication failure, mapped to a 401 or 403 response with a `WWW-Authenticate` challenge. */
+export class HttpAuthError extends Error {
+  constructor(
+    public readonly status: 401 | 403,
+    public readonly code: HttpAuthErrorCode | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpAuthError';
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/** Compares a presented secret with the expected one in constant time. */
+export function secretMatches(candidate: string, secret: string): boolean {
+  return timingSafeEqual(digest(candidate), digest(secret));
+}
+
+function extractScopes(claims: JwtClaims): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter((scope) => scope.length > 0);
+  }
+  if (Array.isArray(claims.scp)) {
+    return claims.scp.filter((scope): scope is string => typeof scope === 'string');
+  }
+  if (typeof claims.scp === 'string') {
+    return claims.scp.split(' ').filter((scope) => scope.length > 0);
+  }
+
+  return [];
+}
+
+/** Reads the principal attached by {@link HttpAuthenticator.authenticate} from MCP request auth info. */
+export function getAuthPrincipal(authInfo: AuthInfo | undefined): AuthPrincipal | undefined {
+  return authInfo?.extra?.principal as AuthPrincipal | undefined;
+}
+
+/**
+ * Authenticates requests to the Streamable HTTP endpoint with static bearer tokens, OAuth 2.1 JWT
+ * access tokens, or an identity header set by a trusted reverse proxy. The result is the SDK
+ * `AuthInfo`, which the transport forwards to MCP request handlers as `extra.authInfo`.
+ */
+export class HttpAuthenticator {
+  private readonly tokenDigests: { name: string; digest: Buffer }[];
+
+  private readonly verifier?: JwtVerifier;
+
+  private readonly trustedProxyRanges: Ipv4Cidr[];
+
+  private readonly trustedProxyAddresses: string[];
+
+  constructor(private readonly config: HttpAuthConfig) {
+    this.tokenDigests = config.tokens.map((token) => ({ name: token.name, digest: digest(token.token) }));
+    this.trustedProxyRanges = config.trustedProxies.flatMap((entry) => parseIpv4Cidr(entry) ?? []);
+    this.trustedProxyAddresses = config.trustedProxies
+      .filter((entry) => entry.includes(':'))
+      .map((entry) => entry.toLowerCase());
+    if (config.oauth) {
+      this.verifier = new JwtVerifier({
+        issuer: config.oauth.issuer,
+        audience: config.oauth.audience,
+        jwksUrl: config.oauth.jwksUrl,
+        jwksFile: config.oauth.jwksFile
+      });
+    }
+  }
+
+  public get mode(): HttpAuthMode {
+    return this.config.mode;
+  }
+
+  public get enabled(): boolean {
+    return this.config.mode !== 'none';
+  }
+
+  public get oauthEnabled(): boolean {
+    return this.config.mode === 'oauth';
+  }
+
+  /** Returns the auth info for the request, `undefined` when authentication is disabled, or throws {@link HttpAuthError}. */
+  public async authenticate(req: IncomingMessage): Promise<AuthInfo | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const identity = this.config.identityHeader ? req.headers[this.config.identityHeader] : undefined;
+    if (typeof identity === 'string' && identity.trim().length > 0) {
+      if (!this.fromTrustedProxy(req)) {
+        throw new HttpAuthError(401, 'invalid_request', `${this.config.identityHeader} is only accepted from the trusted proxy`);
+      }
+
+      const id = identity.trim();
+      const principal: AuthPrincipal = { id, method: 'header', clientId: id, scopes: [] };
+      return { token: '', clientId: id, scopes: [], extra: { principal } };
+    }
+
+    const token = this.extractToken(req);
+    const staticToken = this.matchStaticToken(token);
+    if (staticToken) {
+      const principal: AuthPrincipal = { id: staticToken, method: 'token', clientId: staticToken, scopes: [] };
+      return { token, clientId: staticToken, scopes: [], extra: { principal } };
+    }
+
+    if (!this.verifier || !this.config.oauth) {
+      throw new HttpAuthError(401, 'invalid_token', 'Invalid access token');
+    }
+
+    let claims: JwtClaims;
+    try {
+      claims = await this.verifier.verify(token);
+    } catch (error) {
+      if (error instanceof JwtVerificationError) {
+        throw new HttpAuthError(401, 'invalid_token', error.message);
+      }
+      throw error;
+    }
+
+    const scopes = extractScopes(claims);
+    const missing = this.config.oauth.requiredScopes.filter((scope) => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new HttpAuthError(403, 'insufficient_scope', `Missing required scopes: ${missing.join(' ')}`);
+    }
+
+    const clientId = claims.client_id ?? claims.azp ?? claims.sub ?? 'unknown-client';
+    const principal: AuthPrincipal = {
+      id: claims.sub ?? clientId,
+      method: 'oauth',
+      clientId,
+      scopes,
+      claims
+    };
+
+    return {
+      token,
+      clientId,
+      scopes,
+      expiresAt: claims.exp,
+      resource: this.config.oauth.resource ? new URL(this.config.oauth.resource) : undefined,
+      extra: { principal }
+    };
+  }
+
+  /** Builds the `WWW-Authenticate` header for a rejected request. */
+  public challenge(error: HttpAuthError, resourceMetadataUrl?: string): string {
+    const parts = ['realm="tplink-omada-mcp"'];
+    if (error.code) {
+      parts.push(`error="${error.code}"`, `error_description="${error.message.replace(/"/g, "'")}"`);
+    }
+    if (error.code === 'insufficient_scope' && this.config.oauth) {
+      parts.push(`scope="${this.config.oauth.requiredScopes.join(' ')}"`);
+    }
+    if (resourceMetadataUrl) {
+      parts.push(`resource_metadata="${resourceMetadataUrl}"`);
+    }
+
+    return `Bearer ${parts.join(', ')}`;
+  }
+
+  /** RFC 9728 metadata for the MCP endpoint. `resource` is used when no public URL is configured. */
+  public protectedResourceMetadata(resource: string): OAuthProtectedResourceMetadata {
+    const oauth = this.config.oauth;
+    return {
+      resource: oauth?.resource ?? resource,
+      authorization_servers: oauth ? [oauth.issuer] : [],
+      scopes_supported: oauth && oauth.requiredScopes.length > 0 ? oauth.requiredScopes : undefined,
+      bearer_methods_supported: ['header'],
+      resource_name: 'TP-Link Omada MCP server'
+    };
+  }
+
+  private extractToken(req: IncomingMessage): string {
+    const authorization = req.headers.authorization;
+    if (authorization) {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+      if (!match) {
+        throw new HttpAuthError(401, 'invalid_request', 'Authorization header must use the Bearer scheme');
+      }
+      return match[1];
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      return apiKey;
+    }
+
+    // No credentials at all: challenge without an error code (RFC 6750 section 3.1).
+    throw new HttpAuthError(401, undefined, 'Authentication required');
+  }
+
+  /** Checks the proxy secret and source address of a request carrying the identity header. */
+  private fromTrustedProxy(req: IncomingMessage): boolean {
+    if (this.config.proxySecret) {
+      const secret = req.headers[PROXY_SECRET_HEADER];
+      if (typeof secret !== 'string' || !secretMatches(secret, this.config.proxySecret)) {
+        return false;
+      }
+    }
+
+    if (this.config.trustedProxies.length === 0) {
+      return true;
+    }
+
+    const address = (req.socket.remoteAddress ?? '').toLowerCase();
+    const ipv4 = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+    return (
+      this.trustedProxyAddresses.includes(address) || this.trustedProxyRanges.some((range) => isIpv4InCidr(ipv4, range))
+    );
+  }
+
+  private matchStaticToken(token: string): string | undefined {
+    const candidate = digest(token);
+    // Compare fixed-length digests in constant time and check every entry to avoid timing leaks.
+    let match: string | undefined;
+    for (const entry of this.tokenDigests) {
+      if (timingSafeEqual(entry.digest, candidate) && !match) {
+        match = entry.name;
+      }
+    }
+
+    return match;
+  }
+}
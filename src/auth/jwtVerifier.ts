@@ -0,0 +1,285 @@
+import { constants, createPublicKey, type JsonWebKey, type KeyObject, verify } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+import axios from 'axios';
+
+import { logger } from '../utils/logger.js';
+
+/** Asymmetric JWS algorithms accepted for access tokens. Shared-secret (HS*) and `none` are never accepted. */
+export const JWT_ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA'
+] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  scope?: string;
+  scp?: string | string[];
+  client_id?: string;
+  azp?: string;
+  [key: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+  }
+}
+
+export interface JwtVerifierOptions {
+  issuer: string;
+  /** Accepted `aud` values; the token must name at least one of them. */
+  audience: string[];
+  jwksUrl?: string;
+  jwksFile?: string;
+  /** Allowed clock skew in seconds for `exp` and `nbf`. */
+  clockTolerance?: number;
+  /** Minimum time between JWKS downloads triggered by an unknown key ID, in milliseconds. */
+  jwksCooldown?: number;
+  requestTimeout?: number;
+}
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+const DEFAULT_JWKS_COOLDOWN_MS = 30_000;
+const DEFAULT_JWKS_TIMEOUT_MS = 5_000;
+
+const DIGESTS: Record<JwtAlgorithm, string | undefined> = {
+  RS256: 'sha256',
+  RS384: 'sha384',
+  RS512: 'sha512',
+  PS256: 'sha256',
+  PS384: 'sha384',
+  PS512: 'sha512',
+  ES256: 'sha256',
+  ES384: 'sha384',
+  ES512: 'sha512',
+  EdDSA: undefined
+};
+
+/** Key types each algorithm family signs with; EC algorithms also fix the curve. */
+const KEY_TYPES: Record<JwtAlgorithm, { types: string[]; curve?: string }> = {
+  RS256: { types: ['rsa'] },
+  RS384: { types: ['rsa'] },
+  RS512: { types: ['rsa'] },
+  PS256: { types: ['rsa', 'rsa-pss'] },
+  PS384: { types: ['rsa', 'rsa-pss'] },
+  PS512: { types: ['rsa', 'rsa-pss'] },
+  ES256: { types: ['ec'], curve: 'prime256v1' },
+  ES384: { types: ['ec'], curve: 'secp384r1' },
+  ES512: { types: ['ec'], curve: 'secp521r1' },
+  EdDSA: { types: ['ed25519', 'ed448'] }
+};
+
+function isJwtAlgorithm(value: string | undefined): value is JwtAlgorithm {
+  return (JWT_ALGORITHMS as readonly string[]).includes(value ?? '');
+}
+
+function decodeSegment<T>(segment: string, label: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new JwtVerificationError(`Malformed token ${label}`);
+  }
+  // Valid JSON such as `null`, numbers or arrays is not a JOSE header or claims set.
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new JwtVerificationError(`Malformed token ${label}`);
+  }
+  return value as T;
+}
+
+/**
+ * Verifies JWT access tokens signed by an OAuth authorization server, using keys from a JWKS
+ * document that is read from a local file or downloaded (and re-downloaded when a token names an
+ * unknown key ID).
+ */
+export class JwtVerifier {
+  private keys = new Map<string, { key: KeyObject; alg?: string }>();
+
+  private lastFetch = 0;
+
+  private pendingFetch?: Promise<void>;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    if (!options.jwksUrl && !options.jwksFile) {
+      throw new Error('A JWKS URL or file is required to verify access tokens');
+    }
+
+    if (options.jwksFile) {
+      this.loadKeys(JSON.parse(readFileSync(options.jwksFile, 'utf8')) as { keys?: Jwk[] });
+    }
+  }
+
+  public async verify(token: string): Promise<JwtClaims> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new JwtVerificationError('Token is not a JWT');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment<JwtHeader>(encodedHeader, 'header');
+    if (!isJwtAlgorithm(header.alg)) {
+      throw new JwtVerificationError(`Unsupported token algorithm: ${header.alg ?? 'none'}`);
+    }
+
+    const entry = await this.findKey(header.kid);
+    if (entry.alg && entry.alg !== header.alg) {
+      throw new JwtVerificationError(`Token algorithm ${header.alg} does not match key algorithm ${entry.alg}`);
+    }
+    // Keys without `alg` must still fit the algorithm: Node ignores PSS padding for EC keys.
+    const expected = KEY_TYPES[header.alg];
+    if (
+      !expected.types.includes(entry.key.asymmetricKeyType ?? '') ||
+      (expected.curve !== undefined && entry.key.asymmetricKeyDetails?.namedCurve !== expected.curve)
+    ) {
+      throw new JwtVerificationError(`Token algorithm ${header.alg} does not fit the signing key`);
+    }
+
+    let valid: boolean;
+    try {
+      valid = verify(
+        DIGESTS[header.alg],
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        {
+          key: entry.key,
+          dsaEncoding: 'ieee-p1363',
+          padding: header.alg.startsWith('PS') ? constants.RSA_PKCS1_PSS_PADDING : undefined
+        },
+        Buffer.from(encodedSignature, 'base64url')
+      );
+    } catch (error) {
+      // For example a PS* algorithm against an EC key, which the key's own `alg` does not rule out.
+      throw new JwtVerificationError(
+        `Token signature could not be checked: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!valid) {
+      throw new JwtVerificationError('Invalid token signature');
+    }
+
+    const claims = decodeSegment<JwtClaims>(encodedPayload, 'payload');
+    this.validateClaims(claims);
+    return claims;
+  }
+
+  private validateClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+    if (claims.iss !== this.options.issuer) {
+      throw new JwtVerificationError(`Unexpected token issuer: ${claims.iss ?? 'none'}`);
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+    if (!audiences.some((audience) => this.options.audience.includes(audience))) {
+      throw new JwtVerificationError('Token was not issued for this server');
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw new JwtVerificationError('Token has no expiry');
+    }
+    if (claims.exp + tolerance < now) {
+      throw new JwtVerificationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      throw new JwtVerificationError('Token is not valid yet');
+    }
+  }
+
+  private async findKey(kid: string | undefined): Promise<{ key: KeyObject; alg?: string }> {
+    const cached = this.lookup(kid);
+    if (cached) {
+      return cached;
+    }
+
+    // Key rotation: re-download the key set for unknown key IDs, at most once per cooldown.
+    const cooldown = this.options.jwksCooldown ?? DEFAULT_JWKS_COOLDOWN_MS;
+    if (this.options.jwksUrl && Date.now() - this.lastFetch >= cooldown) {
+      this.pendingFetch ??= this.fetchKeys().finally(() => {
+        this.pendingFetch = undefined;
+      });
+      await this.pendingFetch;
+    }
+
+    const refreshed = this.lookup(kid);
+    if (!refreshed) {
+      throw new JwtVerificationError(kid ? `Unknown token signing key: ${kid}` : 'No signing key available');
+    }
+
+    return refreshed;
+  }
+
+  private lookup(kid: string | undefined): { key: KeyObject; alg?: string } | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+
+    // Tokens without a key ID are only accepted when the key set is unambiguous.
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.lastFetch = Date.now();
+    const url = this.options.jwksUrl as string;
+    try {
+      const response = await axios.get<{ keys?: Jwk[] }>(url, {
+        timeout: this.options.requestTimeout ?? DEFAULT_JWKS_TIMEOUT_MS
+      });
+      this.loadKeys(response.data);
+    } catch (error) {
+      logger.error('Failed to download JWKS', {
+        url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private loadKeys(document: { keys?: Jwk[] }): void {
+    const keys = new Map<string, { key: KeyObject; alg?: string }>();
+    for (const [index, jwk] of (document.keys ?? []).entries()) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+
+      try {
+        keys.set(jwk.kid ?? `key-${index}`, { key: createPublicKey({ key: jwk, format: 'jwk' }), alg: jwk.alg });
+      } catch (error) {
+        logger.warn('Ignoring unusable JWKS key', {
+          kid: jwk.kid,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.keys = keys;
+    logger.info('Loaded JWKS signing keys', { keys: keys.size });
+  }
+}
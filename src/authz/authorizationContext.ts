@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+import { allows, AuthorizationError, type AuthorizationGrant, type ToolCategory } from './authorizationPolicy.js';
+
+const grantStorage = new AsyncLocalStorage<AuthorizationGrant | undefined>();
+
+const toolCategories = new Map<string, ToolCategory>();
+
+/** Reads the grant that the HTTP transport attached to the request auth info. */
+export function getAuthorizationGrant(authInfo: AuthInfo | undefined): AuthorizationGrant | undefined {
+  return authInfo?.extra?.grant as AuthorizationGrant | undefined;
+}
+
+/**
+ * Runs `callback` on behalf of the given grant so that controller and site checks deeper in the
+ * call stack apply to it. Without a grant (stdio, or HTTP without a policy) nothing is restricted.
+ */
+export function runWithGrant<T>(grant: AuthorizationGrant | undefined, callback: () => T): T {
+  return grantStorage.run(grant, callback);
+}
+
+export function currentGrant(): AuthorizationGrant | undefined {
+  return grantStorage.getStore();
+}
+
+export function setToolCategory(tool: string, category: ToolCategory): void {
+  toolCategories.set(tool, category);
+}
+
+/** Tools without a registered category are treated as configuration writes. */
+export function getToolCategory(tool: string): ToolCategory {
+  return toolCategories.get(tool) ?? 'config-writes';
+}
+
+export function isCategoryAllowed(grant: AuthorizationGrant | undefined, category: ToolCategory): boolean {
+  return !grant || allows(grant.categories, category);
+}
+
+export function isToolAllowed(grant: AuthorizationGrant | undefined, tool: string): boolean {
+  return isCategoryAllowed(grant, getToolCategory(tool));
+}
+
+export function assertToolAllowed(grant: AuthorizationGrant | undefined, tool: string): void {
+  if (!isToolAllowed(grant, tool)) {
+    throw new AuthorizationError(
+      grant?.principal ?? 'unknown',
+      `tool ${tool} requires the ${getToolCategory(tool)} category`
+    );
+  }
+}
+
+export function isControllerAllowed(controller: string): boolean {
+  const grant = currentGrant();
+  return !grant || allows(grant.controllers, controller);
+}
+
+export function assertControllerAllowed(controller: string): void {
+  const grant = currentGrant();
+  if (grant && !allows(grant.controllers, controller)) {
+    throw new AuthorizationError(grant.principal, `controller ${controller} is not granted`);
+  }
+}
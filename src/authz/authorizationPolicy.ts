@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs';
+
+import { z } from 'zod';
+
+import type { AuthPrincipal } from '../types/index.js';
+import { toRelativeOmadaPath } from '../utils/omadaPath.js';
+
+/**
+ * Tool categories that policies grant. `read` covers lookups, `client-actions` block, reconnect
+ * or rename clients, `device-actions` reboot, locate, adopt or move devices, and `config-writes`
+ * covers everything that changes controller configuration, including raw API calls.
+ */
+export const TOOL_CATEGORIES = ['read', 'client-actions', 'device-actions', 'config-writes'] as const;
+
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+export const WILDCARD = '*';
+
+/** What one principal may do. Each list may contain `*` to allow everything. */
+export interface AuthorizationGrant {
+  principal: string;
+  controllers: string[];
+  /** Site IDs or site names. */
+  sites: string[];
+  categories: (ToolCategory | typeof WILDCARD)[];
+}
+
+export class AuthorizationError extends Error {
+  public readonly code = 'FORBIDDEN';
+
+  constructor(
+    public readonly principal: string,
+    public readonly reason: string
+  ) {
+    super(`Principal "${principal}" is not authorized: ${reason}`);
+    this.name = 'AuthorizationError';
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return {
+      error: this.code,
+      principal: this.principal,
+      reason: this.reason
+    };
+  }
+}
+
+const entrySchema = z.string().min(1);
+
+const grantSchema = z.object({
+  controllers: z.array(entrySchema).default([WILDCARD]),
+  sites: z.array(entrySchema).default([WILDCARD]),
+  categories: z.array(z.enum([...TOOL_CATEGORIES, WILDCARD]))
+});
+
+const policySchema = z.object({
+  principals: z.record(entrySchema, grantSchema).default({}),
+  /** Grant for authenticated principals that are not listed; they are denied everything when omitted. */
+  default: grantSchema.optional()
+});
+
+type GrantDefinition = z.infer<typeof grantSchema>;
+
+export function allows(entries: readonly string[], value: string): boolean {
+  return entries.includes(WILDCARD) || entries.includes(value);
+}
+
+/** Sites match by ID or, case-insensitively, by name. */
+export function grantsSite(grant: AuthorizationGrant, site: { siteId: string; name?: string }): boolean {
+  if (allows(grant.sites, site.siteId)) {
+    return true;
+  }
+
+  const name = site.name?.toLowerCase();
+  return name !== undefined && grant.sites.some((entry) => entry.toLowerCase() === name);
+}
+
+const DOT_SEGMENT = /(^|[/\\])(\.|%2e){1,2}([/\\]|$)/i;
+const ENCODED_SEPARATOR = /%2f|%2e|%5c/i;
+
+/**
+ * Applies a site grant to a controller request URL. The path is checked the way the HTTP client
+ * will send it, after `.` and `..` segments are resolved, and paths with dot segments or encoded
+ * separators in the site ID are rejected outright. Returns the site ID when it is not granted by ID,
+ * so the caller can still match it by name, or `undefined` when the request is allowed.
+ */
+export function resolveGrantedSite(grant: AuthorizationGrant, method: string, url: string): string | undefined {
+  if (grant.sites.includes(WILDCARD)) {
+    return undefined;
+  }
+
+  const [rawPath] = url.split('?');
+  if (DOT_SEGMENT.test(rawPath)) {
+    throw new AuthorizationError(grant.principal, `path ${rawPath} contains dot segments`);
+  }
+
+  const relativePath = toRelativeOmadaPath(new URL(rawPath, 'http://omada.invalid').pathname);
+  const match = /^\/sites\/([^/]+)/.exec(relativePath);
+  if (!match) {
+    if (method === 'GET' && relativePath === '/sites') {
+      return undefined;
+    }
+    throw new AuthorizationError(grant.principal, `controller-level endpoint ${relativePath} requires access to all sites`);
+  }
+  if (ENCODED_SEPARATOR.test(match[1])) {
+    throw new AuthorizationError(grant.principal, `site ID ${match[1]} contains encoded separators`);
+  }
+
+  const siteId = decodeURIComponent(match[1]);
+  return grant.sites.includes(siteId) ? undefined : siteId;
+}
+
+/**
+ * Maps principals to the controllers, sites and tool categories they may use. Loaded from the
+ * JSON file referenced by `MCP_HTTP_AUTHZ_POLICY_FILE`.
+ */
+export class AuthorizationPolicy {
+  private readonly principals: Map<string, GrantDefinition>;
+
+  private readonly defaultGrant?: GrantDefinition;
+
+  constructor(definition: unknown) {
+    const parsed = policySchema.safeParse(definition);
+    if (!parsed.success) {
+      const messages = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+      throw new Error(`Invalid authorization policy:\n${messages.join('\n')}`);
+    }
+
+    this.principals = new Map(Object.entries(parsed.data.principals));
+    this.defaultGrant = parsed.data.default;
+  }
+
+  public static fromFile(path: string): AuthorizationPolicy {
+    return new AuthorizationPolicy(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  public get principalNames(): string[] {
+    return [...this.principals.keys()];
+  }
+
+  public grantFor(principal: AuthPrincipal): AuthorizationGrant {
+    const definition = this.principals.get(principal.id) ?? this.defaultGrant;
+    if (!definition) {
+      return { principal: principal.id, controllers: [], sites: [], categories: [] };
+    }
+
+    return { principal: principal.id, ...definition };
+  }
+}
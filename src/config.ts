@@ -1,5 +1,9 @@
+import { readFileSync } from 'node:fs';
+
 import { z } from 'zod';
 
+import { ACCESS_MODES, type AccessMode } from './accessPolicy.js';
+
 const booleanStringSchema = z
   .union([z.literal('true'), z.literal('false')])
   .optional()
@@ -11,6 +15,26 @@ const numericStringSchema = z
   .transform((value) => (value ? Number.parseInt(value, 10) : undefined))
   .pipe(z.number().positive().optional());
 
+function nonNegativeIntegerSchema(variable: string) {
+  return z
+    .string()
+    .optional()
+    .transform((value) => (value ? Number.parseInt(value, 10) : undefined))
+    .pipe(z.number({ invalid_type_error: `${variable} must be a number` }).int().min(0).optional());
+}
+
+const listStringSchema = z
+  .string()
+  .optional()
+  .transform((value) =>
+    value
+      ? value
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length > 0)
+      : undefined
+  );
+
 const envSchema = z.object({
   baseUrl: z.string().url({ message: 'OMADA_BASE_URL must be a valid URL' }),
   clientId: z.string().min(1, 'OMADA_CLIENT_ID is required'),
@@ -19,7 +43,35 @@ const envSchema = z.object({
   siteId: z.string().min(1).optional(),
   strictSsl: booleanStringSchema,
   requestTimeout: numericStringSchema,
-  proxyUrl: z.string().url().optional()
+  proxyUrl: z.string().url().optional(),
+  openApiGroups: listStringSchema,
+  openApiDir: z.string().min(1).optional(),
+  accessMode: z
+    .enum(ACCESS_MODES, {
+      errorMap: () => ({ message: `OMADA_ACCESS_MODE must be one of: ${ACCESS_MODES.join(', ')}` })
+    })
+    .optional(),
+  readOnlyAllowlist: listStringSchema,
+  cacheEnabled: z
+    .union([z.literal('true'), z.literal('false')])
+    .optional()
+    .transform((value) => value === 'true'),
+  cacheTtl: nonNegativeIntegerSchema('OMADA_CACHE_TTL'),
+  cacheMaxEntries: numericStringSchema,
+  cacheTtlRules: listStringSchema,
+  resourcePollInterval: numericStringSchema,
+  maxConcurrency: numericStringSchema,
+  rateLimit: nonNegativeIntegerSchema('OMADA_RATE_LIMIT'),
+  rateLimitBurst: numericStringSchema,
+  retryMax: nonNegativeIntegerSchema('OMADA_RETRY_MAX'),
+  retryBaseDelay: numericStringSchema,
+  retryMaxDelay: numericStringSchema,
+  retryNonIdempotent: z
+    .union([z.literal('true'), z.literal('false')])
+    .optional()
+    .transform((value) => value === 'true'),
+  circuitBreakerThreshold: nonNegativeIntegerSchema('OMADA_CIRCUIT_BREAKER_THRESHOLD'),
+  circuitBreakerReset: numericStringSchema
 });
 
 export interface EnvironmentConfig {
@@ -31,8 +83,42 @@ export interface EnvironmentConfig {
   strictSsl: boolean;
   requestTimeout?: number;
   proxyUrl?: string;
+  openApiGroups?: string[];
+  openApiDir?: string;
+  accessMode: AccessMode;
+  readOnlyAllowlist?: string[];
+  cacheEnabled: boolean;
+  cacheTtl: number;
+  cacheMaxEntries: number;
+  cacheTtlRules?: string[];
+  resourcePollInterval: number;
+  /** Maximum number of concurrent requests to the controller. */
+  maxConcurrency: number;
+  /** Requests per second; 0 disables rate limiting. */
+  rateLimit: number;
+  rateLimitBurst: number;
+  /** Retries for network errors, timeouts, 5xx and 429 responses; 0 disables retries. */
+  retryMax: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  /** Also retry non-idempotent methods such as POST. */
+  retryNonIdempotent: boolean;
+  /** Consecutive failures that suspend requests to the controller; 0 disables the circuit breaker. */
+  circuitBreakerThreshold: number;
+  circuitBreakerReset: number;
 }
 
+const DEFAULT_CACHE_TTL_MS = 10_000;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_RATE_LIMIT = 10;
+const DEFAULT_RETRY_MAX = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 250;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5_000;
+const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_BREAKER_RESET_MS = 30_000;
+
 export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EnvironmentConfig {
   const parsed = envSchema.safeParse({
     baseUrl: env.OMADA_BASE_URL,
@@ -42,7 +128,25 @@ export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Environ
     siteId: env.OMADA_SITE_ID,
     strictSsl: env.OMADA_STRICT_SSL,
     requestTimeout: env.OMADA_TIMEOUT,
-    proxyUrl: env.OMADA_PROXY_URL
+    proxyUrl: env.OMADA_PROXY_URL,
+    openApiGroups: env.OMADA_OPENAPI_GROUPS,
+    openApiDir: env.OMADA_OPENAPI_DIR,
+    accessMode: env.OMADA_ACCESS_MODE,
+    readOnlyAllowlist: env.OMADA_READ_ONLY_ALLOWLIST,
+    cacheEnabled: env.OMADA_CACHE_ENABLED,
+    cacheTtl: env.OMADA_CACHE_TTL,
+    cacheMaxEntries: env.OMADA_CACHE_MAX_ENTRIES,
+    cacheTtlRules: env.OMADA_CACHE_TTL_RULES,
+    resourcePollInterval: env.OMADA_RESOURCE_POLL_INTERVAL,
+    maxConcurrency: env.OMADA_MAX_CONCURRENCY,
+    rateLimit: env.OMADA_RATE_LIMIT,
+    rateLimitBurst: env.OMADA_RATE_LIMIT_BURST,
+    retryMax: env.OMADA_RETRY_MAX,
+    retryBaseDelay: env.OMADA_RETRY_BASE_DELAY,
+    retryMaxDelay: env.OMADA_RETRY_MAX_DELAY,
+    retryNonIdempotent: env.OMADA_RETRY_NON_IDEMPOTENT,
+    circuitBreakerThreshold: env.OMADA_CIRCUIT_BREAKER_THRESHOLD,
+    circuitBreakerReset: env.OMADA_CIRCUIT_BREAKER_RESET
   });
 
   if (!parsed.success) {
@@ -58,6 +162,191 @@ export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Environ
     siteId: parsed.data.siteId,
     strictSsl: parsed.data.strictSsl ?? true,
     requestTimeout: parsed.data.requestTimeout,
-    proxyUrl: parsed.data.proxyUrl
+    proxyUrl: parsed.data.proxyUrl,
+    openApiGroups: parsed.data.openApiGroups,
+    openApiDir: parsed.data.openApiDir,
+    accessMode: parsed.data.accessMode ?? 'full',
+    readOnlyAllowlist: parsed.data.readOnlyAllowlist,
+    cacheEnabled: parsed.data.cacheEnabled,
+    cacheTtl: parsed.data.cacheTtl ?? DEFAULT_CACHE_TTL_MS,
+    cacheMaxEntries: parsed.data.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+    cacheTtlRules: parsed.data.cacheTtlRules,
+    resourcePollInterval: parsed.data.resourcePollInterval ?? DEFAULT_RESOURCE_POLL_INTERVAL_MS,
+    maxConcurrency: parsed.data.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY,
+    rateLimit: parsed.data.rateLimit ?? DEFAULT_RATE_LIMIT,
+    rateLimitBurst: parsed.data.rateLimitBurst ?? 2 * (parsed.data.rateLimit ?? DEFAULT_RATE_LIMIT),
+    retryMax: parsed.data.retryMax ?? DEFAULT_RETRY_MAX,
+    retryBaseDelay: parsed.data.retryBaseDelay ?? DEFAULT_RETRY_BASE_DELAY_MS,
+    retryMaxDelay: parsed.data.retryMaxDelay ?? DEFAULT_RETRY_MAX_DELAY_MS,
+    retryNonIdempotent: parsed.data.retryNonIdempotent,
+    circuitBreakerThreshold: parsed.data.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+    circuitBreakerReset: parsed.data.circuitBreakerReset ?? DEFAULT_CIRCUIT_BREAKER_RESET_MS
   };
 }
+
+export interface ControllerConfig extends EnvironmentConfig {
+  name: string;
+}
+
+export interface ControllersConfig {
+  primaryController: string;
+  controllers: ControllerConfig[];
+}
+
+const DEFAULT_CONTROLLER_NAME = 'default';
+
+/** Per-controller settings, named after the single-controller variables without the `OMADA_` prefix. */
+const CONTROLLER_SETTINGS = {
+  BASE_URL: 'baseUrl',
+  CLIENT_ID: 'clientId',
+  CLIENT_SECRET: 'clientSecret',
+  OMADAC_ID: 'omadacId',
+  SITE_ID: 'siteId',
+  STRICT_SSL: 'strictSsl',
+  TIMEOUT: 'requestTimeout',
+  PROXY_URL: 'proxyUrl',
+  ACCESS_MODE: 'accessMode'
+} as const;
+
+type ControllerSetting = keyof typeof CONTROLLER_SETTINGS;
+
+const controllerNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/, 'Controller names may only contain letters, digits, ".", "_" and "-"');
+
+const controllerFileSchema = z.union([
+  z.array(z.record(z.unknown())),
+  z.object({
+    primary: z.string().optional(),
+    controllers: z.array(z.record(z.unknown()))
+  })
+]);
+
+/**
+ * Loads every configured controller. Controllers come from the JSON file in `OMADA_CONTROLLERS_FILE`,
+ * from indexed `OMADA_CONTROLLER_<n>_<SETTING>` variables and from the single-controller variables
+ * (`OMADA_BASE_URL`, ...), which describe a controller named `OMADA_CONTROLLER_NAME` (default `default`).
+ * Settings such as the cache and OpenAPI groups are shared and read from the regular variables.
+ */
+export function loadControllersFromEnv(env: NodeJS.ProcessEnv = process.env): ControllersConfig {
+  const controllers: ControllerConfig[] = [];
+  let filePrimary: string | undefined;
+
+  if (env.OMADA_BASE_URL) {
+    controllers.push(loadController(env.OMADA_CONTROLLER_NAME ?? DEFAULT_CONTROLLER_NAME, env));
+  }
+
+  if (env.OMADA_CONTROLLERS_FILE) {
+    const file = readControllersFile(env.OMADA_CONTROLLERS_FILE);
+    filePrimary = file.primary;
+    for (const entry of file.controllers) {
+      controllers.push(loadController(String(entry.name ?? ''), env, fileEntryToSettings(entry)));
+    }
+  }
+
+  for (const index of findControllerIndexes(env)) {
+    const prefix = `OMADA_CONTROLLER_${index}_`;
+    const settings: Partial<Record<ControllerSetting, string>> = {};
+    for (const setting of Object.keys(CONTROLLER_SETTINGS) as ControllerSetting[]) {
+      settings[setting] = env[`${prefix}${setting}`];
+    }
+    controllers.push(loadController(env[`${prefix}NAME`] ?? `controller${index}`, env, settings));
+  }
+
+  if (controllers.length === 0) {
+    throw new Error(
+      'Invalid environment configuration:\nConfigure a controller with OMADA_BASE_URL, OMADA_CONTROLLERS_FILE or OMADA_CONTROLLER_<n>_BASE_URL'
+    );
+  }
+
+  const names = new Set<string>();
+  for (const controller of controllers) {
+    if (names.has(controller.name)) {
+      throw new Error(`Duplicate Omada controller name "${controller.name}"`);
+    }
+    names.add(controller.name);
+  }
+
+  const primaryController = env.OMADA_PRIMARY_CONTROLLER ?? filePrimary ?? controllers[0].name;
+  if (!names.has(primaryController)) {
+    throw new Error(
+      `Primary controller "${primaryController}" is not configured. Known controllers: ${[...names].join(', ')}`
+    );
+  }
+
+  return { primaryController, controllers };
+}
+
+function loadController(
+  name: string,
+  env: NodeJS.ProcessEnv,
+  settings?: Partial<Record<ControllerSetting, string>>
+): ControllerConfig {
+  const parsedName = controllerNameSchema.safeParse(name);
+  if (!parsedName.success) {
+    throw new Error(`Invalid Omada controller name "${name}": ${parsedName.error.issues[0]?.message}`);
+  }
+
+  // Indexed and file-based controllers never inherit connection settings from the single-controller variables.
+  const controllerEnv: NodeJS.ProcessEnv = { ...env };
+  if (settings) {
+    delete controllerEnv.OMADA_CONTROLLER_ID;
+    for (const setting of Object.keys(CONTROLLER_SETTINGS) as ControllerSetting[]) {
+      const value = settings[setting];
+      if (value !== undefined) {
+        controllerEnv[`OMADA_${setting}`] = value;
+      } else if (setting !== 'ACCESS_MODE') {
+        delete controllerEnv[`OMADA_${setting}`];
+      }
+    }
+  }
+
+  try {
+    return { name, ...loadConfigFromEnv(controllerEnv) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Controller "${name}": ${message}`);
+  }
+}
+
+function readControllersFile(path: string): { primary?: string; controllers: Record<string, unknown>[] } {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Unable to read OMADA_CONTROLLERS_FILE "${path}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = controllerFileSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new Error(`OMADA_CONTROLLERS_FILE "${path}" must contain an array of controllers or { primary, controllers }`);
+  }
+
+  return Array.isArray(parsed.data) ? { controllers: parsed.data } : parsed.data;
+}
+
+function fileEntryToSettings(entry: Record<string, unknown>): Partial<Record<ControllerSetting, string>> {
+  const settings: Partial<Record<ControllerSetting, string>> = {};
+  for (const [setting, key] of Object.entries(CONTROLLER_SETTINGS) as [ControllerSetting, string][]) {
+    const value = entry[key];
+    if (value !== undefined && value !== null) {
+      settings[setting] = String(value);
+    }
+  }
+
+  return settings;
+}
+
+function findControllerIndexes(env: NodeJS.ProcessEnv): number[] {
+  const indexes = new Set<number>();
+  for (const key of Object.keys(env)) {
+    const match = /^OMADA_CONTROLLER_(\d+)_/.exec(key);
+    if (match) {
+      indexes.add(Number.parseInt(match[1], 10));
+    }
+  }
+
+  return [...indexes].sort((left, right) => left - right);
+}
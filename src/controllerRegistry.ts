@@ -0,0 +1,81 @@
+import { assertControllerAllowed, isControllerAllowed } from './authz/authorizationContext.js';
+import type { ControllerConfig, ControllersConfig } from './config.js';
+import { OmadaClient } from './omadaClient.js';
+import type { ControllerDiagnostics, OmadaControllerStatus } from './types/index.js';
+
+export class UnknownControllerError extends Error {
+  constructor(
+    public readonly controller: string,
+    public readonly available: string[]
+  ) {
+    super(`Unknown Omada controller "${controller}". Available controllers: ${available.join(', ')}`);
+    this.name = 'UnknownControllerError';
+  }
+}
+
+/**
+ * Holds one {@link OmadaClient} per configured controller. Tools resolve their `controller`
+ * argument here; omitting it selects the primary controller.
+ */
+export class ControllerRegistry {
+  private readonly entries = new Map<string, { config: ControllerConfig; client: OmadaClient }>();
+
+  public readonly primaryController: string;
+
+  constructor(config: ControllersConfig) {
+    for (const controller of config.controllers) {
+      this.entries.set(controller.name, { config: controller, client: new OmadaClient(controller) });
+    }
+    this.primaryController = config.primaryController;
+  }
+
+  public get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  public get(controller?: string): OmadaClient {
+    const name = controller ?? this.primaryController;
+    // Authorize before the lookup so that denied callers cannot probe for controller names.
+    assertControllerAllowed(name);
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new UnknownControllerError(name, this.names);
+    }
+
+    return entry.client;
+  }
+
+  /**
+   * Runs the readiness checks of the named controller, or of every controller the caller may use.
+   * See `OmadaClient.diagnose`.
+   */
+  public async diagnose(controller?: string, refresh = false): Promise<ControllerDiagnostics[]> {
+    const names = controller ? [controller] : this.names.filter((name) => isControllerAllowed(name));
+    return Promise.all(
+      names.map(async (name) => ({
+        name,
+        primary: name === this.primaryController,
+        ...(await this.get(name).diagnose(refresh))
+      }))
+    );
+  }
+
+  /** Probes every controller the caller may use in parallel and reports reachability and token state. */
+  public async describe(): Promise<OmadaControllerStatus[]> {
+    return Promise.all(
+      [...this.entries.entries()]
+        .filter(([name]) => isControllerAllowed(name))
+        .map(async ([name, { config, client }]) => ({
+          name,
+          primary: name === this.primaryController,
+          baseUrl: config.baseUrl,
+          omadacId: config.omadacId,
+          siteId: config.siteId,
+          accessMode: client.accessMode,
+          ...(await client.checkReachability()),
+          token: client.tokenState,
+          circuitState: client.circuitState
+        }))
+    );
+  }
+}
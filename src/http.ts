@@ -1,18 +1,42 @@
-import { randomUUID } from 'node:crypto';
 import http from 'node:http';
 import type { IncomingMessage, IncomingHttpHeaders, ServerResponse } from 'node:http';
 
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-
-import { loadConfigFromEnv } from './config.js';
-import { OmadaClient } from './omadaClient.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { auditQuerySchema, auditTrail, loadAuditConfigFromEnv, scopeAuditQuery } from './audit/auditTrail.js';
+import { setupAuditTrail } from './audit/setupAuditTrail.js';
+import {
+    getAuthPrincipal,
+    HttpAuthError,
+    HttpAuthenticator,
+    loadHttpAuthConfig,
+    secretMatches
+} from './auth/httpAuth.js';
+import { type AuthorizationGrant, AuthorizationPolicy } from './authz/authorizationPolicy.js';
+import { loadControllersFromEnv } from './config.js';
+import { ControllerRegistry } from './controllerRegistry.js';
+import { HttpSessionManager, SessionLimitError } from './httpSessionManager.js';
+import { metrics, setMetricsSources } from './metrics/omadaMetrics.js';
 import { createServer as createMcpServer } from './server.js';
 import { logger } from './utils/logger.js';
+import { KeyedRateLimiter } from './utils/rateLimit.js';
 
 const DEFAULT_PORT = 3000;
 const DEFAULT_HOST = '0.0.0.0';
 const DEFAULT_PATH = '/mcp';
+const DEFAULT_AUDIT_PATH = '/audit';
 const HEALTH_PATH = '/healthz';
+const READINESS_PATH = '/readyz';
+const DEFAULT_METRICS_PATH = '/metrics';
+const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+const DEFAULT_RATE_LIMIT_PER_IP = 300;
+const DEFAULT_RATE_LIMIT_PER_SESSION = 120;
+const DEFAULT_MAX_SESSIONS = 100;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Same limit the SDK transport applies when it reads the body itself.
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
 const TRUE_STRINGS = ['1', 'true', 'yes', 'y', 'on'];
 const FALSE_STRINGS = ['0', 'false', 'no', 'n', 'off'];
 
@@ -32,6 +56,20 @@ function resolvePort(value: string | undefined, fallback: number): number {
     return parsed;
 }
 
+function resolveNonNegativeInteger(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined || value.trim().length === 0) {
+        return fallback;
+    }
+
+    const parsed = Number.parseInt(value, 10);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        logger.warn('Invalid MCP HTTP setting provided', { name, provided: value, fallback });
+        return fallback;
+    }
+
+    return parsed;
+}
+
 function normalizePath(path: string): string {
     if (!path) {
         return DEFAULT_PATH;
@@ -93,15 +131,59 @@ function getRequestUrl(req: IncomingMessage, fallbackPort: number): URL | undefi
     }
 }
 
-function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+function sendJson(
+    res: ServerResponse,
+    statusCode: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+): void {
     const payload = JSON.stringify(body);
     res.writeHead(statusCode, {
+        ...headers,
         'Content-Type': 'application/json',
         'Content-Length': Buffer.byteLength(payload)
     });
     res.end(payload);
 }
 
+function sendJsonRpcError(res: ServerResponse, statusCode: number, code: number, message: string): void {
+    sendJson(res, statusCode, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/** Resolves to `undefined` when the body exceeds `limit` bytes. */
+async function readRequestBody(req: IncomingMessage, limit: number): Promise<string | undefined> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    for await (const chunk of req) {
+        const bufferChunk = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : (chunk as Buffer);
+        length += bufferChunk.length;
+        if (length > limit) {
+            return undefined;
+        }
+        chunks.push(bufferChunk);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function isMetricsRequestAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+    if (!token) {
+        return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return match !== null && secretMatches(match[1].trim(), token);
+}
+
+function sendRateLimited(res: ServerResponse, retryAfterMs: number): void {
+    sendJson(
+        res,
+        429,
+        { error: 'rate_limited', error_description: 'Too many requests; retry later' },
+        { 'Retry-After': String(Math.max(Math.ceil(retryAfterMs / 1000), 1)) }
+    );
+}
+
 function sanitizeHeaders(headers: IncomingHttpHeaders): Record<string, unknown> {
     const sanitized: Record<string, unknown> = {};
 
@@ -121,7 +203,7 @@ function sanitizeHeaders(headers: IncomingHttpHeaders): Record<string, unknown>
 }
 
 function sanitizeHeaderValue(key: string, value: string): string {
-    const sanitized = isSensitiveKey(key) ? maskValue(value) : value;
+    const sanitized = isSensitiveKey(key) ? maskValue(value, key) : value;
     return typeof sanitized === 'string' ? sanitized : String(sanitized);
 }
 
@@ -131,7 +213,7 @@ function sanitizePayload(payload: unknown): unknown {
     }
 
     if (typeof payload === 'string') {
-        return isLikelySensitiveString(payload) ? maskValue(payload) : payload;
+        return isLikelySensitiveString(payload) ? maskValue(payload, '') : payload;
     }
 
     if (Array.isArray(payload)) {
@@ -141,7 +223,7 @@ function sanitizePayload(payload: unknown): unknown {
     if (typeof payload === 'object') {
         const sanitized: Record<string, unknown> = {};
         for (const [key, value] of Object.entries(payload)) {
-            sanitized[key] = isSensitiveKey(key) ? maskValue(value) : sanitizePayload(value);
+            sanitized[key] = isSensitiveKey(key) ? maskValue(value, key) : sanitizePayload(value);
         }
         return sanitized;
     }
@@ -156,6 +238,8 @@ function isSensitiveKey(key: string): boolean {
         normalized.includes('token') ||
         normalized.includes('secret') ||
         normalized.includes('password') ||
+        normalized.includes('passphrase') ||
+        normalized.includes('securitykey') ||
         normalized.includes('cookie') ||
         normalized.includes('client-id')
     );
@@ -165,9 +249,15 @@ function isLikelySensitiveString(value: string): boolean {
     return value.length > 16 && /[A-Za-z0-9+/=]{16,}/.test(value);
 }
 
-function maskValue(value: unknown): unknown {
+/** Passwords and passphrases are short enough that a partial reveal would give most of them away. */
+function isSecretKey(key: string): boolean {
+    const normalized = key.toLowerCase();
+    return normalized.includes('password') || normalized.includes('passphrase') || normalized.includes('securitykey');
+}
+
+function maskValue(value: unknown, key: string): unknown {
     if (typeof value === 'string') {
-        if (value.length <= 8) {
+        if (value.length <= 8 || isSecretKey(key)) {
             return '********';
         }
         return `${value.slice(0, 4)}…${value.slice(-4)}`;
@@ -184,6 +274,36 @@ function maskValue(value: unknown): unknown {
     return '********';
 }
 
+async function handleAuditRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    grant: AuthorizationGrant | undefined
+): Promise<void> {
+    if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Method Not Allowed' }, { Allow: 'GET' });
+        return;
+    }
+
+    const parsed = auditQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!parsed.success) {
+        const messages = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+        sendJson(res, 400, { error: 'invalid_request', error_description: messages.join('; ') });
+        return;
+    }
+
+    try {
+        const events = await auditTrail.query(scopeAuditQuery(parsed.data, grant));
+        logger.info('Audit trail queried', { principal: grant?.principal, count: events.length });
+        sendJson(res, 200, { events });
+    } catch (error) {
+        sendJson(res, 400, {
+            error: 'invalid_request',
+            error_description: error instanceof Error ? error.message : String(error)
+        });
+    }
+}
+
 async function createShutdownHandler(
     signal: NodeJS.Signals,
     closeHttp: () => Promise<void>,
@@ -205,17 +325,33 @@ async function createShutdownHandler(
 }
 
 async function main(): Promise<void> {
-    const config = loadConfigFromEnv();
+    const config = loadControllersFromEnv();
+    const primary = config.controllers.find((controller) => controller.name === config.primaryController);
     logger.info('Loaded Omada configuration', {
-        baseUrl: config.baseUrl,
-        omadacId: config.omadacId,
-        siteId: config.siteId ?? null,
-        strictSsl: config.strictSsl,
-        requestTimeout: config.requestTimeout ?? null,
-        proxyConfigured: Boolean(config.proxyUrl)
+        primaryController: config.primaryController,
+        controllers: config.controllers.map((controller) => ({
+            name: controller.name,
+            baseUrl: controller.baseUrl,
+            omadacId: controller.omadacId,
+            siteId: controller.siteId ?? null,
+            strictSsl: controller.strictSsl,
+            requestTimeout: controller.requestTimeout ?? null,
+            proxyConfigured: Boolean(controller.proxyUrl),
+            accessMode: controller.accessMode
+        })),
+        openApiGroups: primary?.openApiGroups ?? []
     });
-    const client = new OmadaClient(config);
-    const mcpServer = createMcpServer(client);
+    const registry = new ControllerRegistry(config);
+    await setupAuditTrail(loadAuditConfigFromEnv());
+    const authenticator = new HttpAuthenticator(loadHttpAuthConfig());
+    const policyFile = process.env.MCP_HTTP_AUTHZ_POLICY_FILE;
+    const authorizationPolicy = policyFile ? AuthorizationPolicy.fromFile(policyFile) : undefined;
+    const createSessionServer = () =>
+        createMcpServer(registry, {
+            openApiGroups: primary?.openApiGroups,
+            openApiDir: primary?.openApiDir,
+            resourcePollInterval: primary?.resourcePollInterval
+        });
 
     const allowedHosts = parseList(process.env.MCP_HTTP_ALLOWED_HOSTS);
     const allowedOrigins = parseList(process.env.MCP_HTTP_ALLOWED_ORIGINS);
@@ -232,28 +368,76 @@ async function main(): Promise<void> {
     }
 
     const enableStatefulSessions = parsedStateful ?? true;
-    const sessionIdGenerator = enableStatefulSessions ? () => randomUUID() : undefined;
 
     if (!enableStatefulSessions) {
         logger.info('Starting HTTP transport in stateless mode; Mcp-Session-Id headers are optional');
     }
 
-    const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator,
-        allowedHosts,
-        allowedOrigins,
-        enableDnsRebindingProtection
-    });
-
-    transport.onerror = (error) => {
-        logger.error('Streamable HTTP transport error', { error });
-    };
-
-    await mcpServer.connect(transport);
+    const maxSessions = resolveNonNegativeInteger(
+        'MCP_HTTP_MAX_SESSIONS',
+        process.env.MCP_HTTP_MAX_SESSIONS,
+        DEFAULT_MAX_SESSIONS
+    );
+    const sessionIdleTimeoutMs = resolveNonNegativeInteger(
+        'MCP_HTTP_SESSION_IDLE_TIMEOUT',
+        process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT,
+        DEFAULT_SESSION_IDLE_TIMEOUT_MS
+    );
 
     const port = resolvePort(process.env.MCP_HTTP_PORT ?? process.env.PORT, DEFAULT_PORT);
     const host = process.env.MCP_HTTP_HOST ?? process.env.HOST ?? DEFAULT_HOST;
     const endpointPath = normalizePath(process.env.MCP_HTTP_PATH ?? DEFAULT_PATH);
+    const auditPath = auditTrail.enabled
+        ? normalizePath(process.env.MCP_HTTP_AUDIT_PATH ?? DEFAULT_AUDIT_PATH)
+        : undefined;
+    const metricsEnabled = parseBoolean(process.env.MCP_HTTP_METRICS_ENABLED) ?? true;
+    const metricsPath = normalizePath(process.env.MCP_HTTP_METRICS_PATH ?? DEFAULT_METRICS_PATH);
+    const metricsToken = process.env.MCP_HTTP_METRICS_TOKEN;
+    setMetricsSources({
+        activeSessions: () => sessions.size,
+        cacheStats: () =>
+            registry.names.flatMap((name) => {
+                const stats = registry.get(name).cacheStats;
+                return stats ? [{ controller: name, ...stats }] : [];
+            })
+    });
+    const metadataPaths = [PROTECTED_RESOURCE_METADATA_PATH, `${PROTECTED_RESOURCE_METADATA_PATH}${endpointPath}`];
+    // Limits in requests per minute; 0 disables the limiter.
+    const ipRateLimit = resolveNonNegativeInteger(
+        'MCP_HTTP_RATE_LIMIT_PER_IP',
+        process.env.MCP_HTTP_RATE_LIMIT_PER_IP,
+        DEFAULT_RATE_LIMIT_PER_IP
+    );
+    const sessionRateLimit = resolveNonNegativeInteger(
+        'MCP_HTTP_RATE_LIMIT_PER_SESSION',
+        process.env.MCP_HTTP_RATE_LIMIT_PER_SESSION,
+        DEFAULT_RATE_LIMIT_PER_SESSION
+    );
+    const ipLimiter = ipRateLimit > 0 ? new KeyedRateLimiter(ipRateLimit) : undefined;
+    const sessionLimiter = sessionRateLimit > 0 ? new KeyedRateLimiter(sessionRateLimit) : undefined;
+    const sessions = new HttpSessionManager({
+        createServer: createSessionServer,
+        transportOptions: { allowedHosts, allowedOrigins, enableDnsRebindingProtection },
+        maxSessions,
+        idleTimeoutMs: sessionIdleTimeoutMs,
+        onSessionClosed: (session) => sessionLimiter?.delete(session.id)
+    });
+
+    if (authorizationPolicy) {
+        logger.info('HTTP authorization policy loaded', {
+            file: policyFile,
+            principals: authorizationPolicy.principalNames
+        });
+        if (!authenticator.enabled) {
+            logger.warn('The authorization policy has no effect while HTTP authentication is disabled');
+        }
+    }
+
+    if (authenticator.enabled) {
+        logger.info('HTTP authentication enabled', { mode: authenticator.mode });
+    } else if (!LOOPBACK_HOSTS.includes(host)) {
+        logger.warn('HTTP authentication is disabled while listening on a non-loopback address', { host });
+    }
 
     const httpServer = http.createServer(async (req, res) => {
         const url = getRequestUrl(req, port);
@@ -269,15 +453,6 @@ async function main(): Promise<void> {
             headers: sanitizeHeaders(req.headers)
         });
 
-        const bodyChunks: Buffer[] = [];
-        const shouldCaptureBody = (req.method ?? 'GET').toUpperCase() !== 'GET';
-        if (shouldCaptureBody) {
-            req.on('data', (chunk) => {
-                const bufferChunk = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
-                bodyChunks.push(bufferChunk);
-            });
-        }
-
         logger.info('HTTP request received', {
             method: req.method,
             path: url.pathname,
@@ -291,7 +466,62 @@ async function main(): Promise<void> {
             return;
         }
 
-        if (url.pathname !== endpointPath) {
+        if (url.pathname === READINESS_PATH) {
+            // Only names, latency and failed checks: the probe is unauthenticated like /healthz.
+            const controllers = await registry.diagnose();
+            const ready = controllers.every((controller) => controller.ready);
+            if (!ready) {
+                logger.warn('Readiness check failed', {
+                    controllers: controllers
+                        .filter((controller) => !controller.ready)
+                        .map((controller) => ({ name: controller.name, problems: controller.problems }))
+                });
+            }
+            sendJson(res, ready ? 200 : 503, {
+                status: ready ? 'ready' : 'not-ready',
+                controllers: controllers.map((controller) => ({
+                    name: controller.name,
+                    ready: controller.ready,
+                    latencyMs: controller.latencyMs,
+                    tokenExpiresIn: controller.tokenExpiresIn,
+                    problems: controller.problems
+                }))
+            });
+            return;
+        }
+
+        if (metricsEnabled && url.pathname === metricsPath) {
+            if (!isMetricsRequestAuthorized(req, metricsToken)) {
+                logger.warn('HTTP request rejected', { reason: 'metrics-unauthorized', path: url.pathname });
+                sendJson(res, 401, { error: 'unauthorized' }, { 'WWW-Authenticate': 'Bearer realm="metrics"' });
+                return;
+            }
+
+            const body = metrics.render();
+            res.writeHead(200, {
+                'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+                'Content-Length': Buffer.byteLength(body)
+            });
+            res.end(body);
+            return;
+        }
+
+        const clientAddress = req.socket.remoteAddress ?? 'unknown';
+        const ipRetryAfter = ipLimiter?.consume(clientAddress) ?? 0;
+        if (ipRetryAfter > 0) {
+            logger.warn('HTTP request rejected', { reason: 'rate-limited', scope: 'ip', clientAddress });
+            sendRateLimited(res, ipRetryAfter);
+            return;
+        }
+
+        if (authenticator.oauthEnabled && metadataPaths.includes(url.pathname)) {
+            logger.debug('Protected resource metadata served');
+            sendJson(res, 200, authenticator.protectedResourceMetadata(`${url.origin}${endpointPath}`));
+            return;
+        }
+
+        const isAuditRequest = auditPath !== undefined && url.pathname === auditPath;
+        if (url.pathname !== endpointPath && !isAuditRequest) {
             logger.warn('HTTP request rejected', {
                 reason: 'unexpected-path',
                 expected: endpointPath,
@@ -301,36 +531,156 @@ async function main(): Promise<void> {
             return;
         }
 
+        let authInfo: AuthInfo | undefined;
         try {
-            await transport.handleRequest(req, res);
-            if (!res.headersSent) {
-                logger.debug('Transport completed without sending response headers');
+            authInfo = await authenticator.authenticate(req);
+        } catch (error) {
+            if (!(error instanceof HttpAuthError)) {
+                // Throwing here would be an unhandled rejection in the request listener.
+                logger.error('HTTP authentication failed', {
+                    error: error instanceof Error ? error.message : String(error),
+                    method: req.method,
+                    path: url.pathname
+                });
+                sendJson(res, 500, { error: 'Internal Server Error' });
+                return;
             }
-            logger.info('MCP request handled successfully', {
+
+            logger.warn('HTTP request rejected', {
+                reason: 'unauthenticated',
+                status: error.status,
+                error: error.message,
+                method: req.method,
+                path: url.pathname
+            });
+            const resourceMetadataUrl = authenticator.oauthEnabled
+                ? `${url.origin}${PROTECTED_RESOURCE_METADATA_PATH}${endpointPath}`
+                : undefined;
+            sendJson(
+                res,
+                error.status,
+                { error: error.code ?? 'unauthorized', error_description: error.message },
+                { 'WWW-Authenticate': authenticator.challenge(error, resourceMetadataUrl) }
+            );
+            return;
+        }
+
+        const principal = getAuthPrincipal(authInfo);
+        const grant = principal && authorizationPolicy ? authorizationPolicy.grantFor(principal) : undefined;
+        if (authInfo && grant) {
+            authInfo.extra = { ...authInfo.extra, grant };
+        }
+
+        if (isAuditRequest) {
+            await handleAuditRequest(req, res, url, grant);
+            return;
+        }
+
+        (req as IncomingMessage & { auth?: AuthInfo }).auth = authInfo;
+
+        // The body is read only now: reading switches the stream to flowing mode, and chunks
+        // emitted while authentication was pending would never be seen.
+        let parsedBody: unknown;
+        if (req.method === 'POST') {
+            const rawBody = await readRequestBody(req, MAX_BODY_BYTES);
+            if (rawBody === undefined) {
+                logger.warn('HTTP request rejected', { reason: 'body-too-large', limit: MAX_BODY_BYTES });
+                sendJsonRpcError(res, 413, -32000, 'Payload Too Large');
+                return;
+            }
+
+            try {
+                parsedBody = JSON.parse(rawBody) as unknown;
+            } catch {
+                logger.warn('HTTP request rejected', { reason: 'invalid-json', length: rawBody.length });
+                sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON');
+                return;
+            }
+
+            logger.debug('HTTP request body', {
+                method: req.method,
                 path: url.pathname,
-                method: req.method
+                length: rawBody.length,
+                body: sanitizePayload(parsedBody)
             });
+        }
 
-            if (shouldCaptureBody) {
-                const rawBody = bodyChunks.length > 0 ? Buffer.concat(bodyChunks).toString('utf8') : '';
-                let parsedBody: unknown = rawBody;
-                if (rawBody.length === 0) {
-                    parsedBody = null;
-                } else {
+        try {
+            if (!enableStatefulSessions) {
+                await sessions.handleStateless(req, res, parsedBody);
+            } else {
+                const requestSessionId = req.headers['mcp-session-id'];
+                if (typeof requestSessionId === 'string') {
+                    const session = sessions.get(requestSessionId);
+                    if (!session) {
+                        logger.warn('HTTP request rejected', { reason: 'unknown-session', sessionId: requestSessionId });
+                        sendJsonRpcError(res, 404, -32001, 'Session not found');
+                        return;
+                    }
+
+                    // Sessions are bound to the principal that initialized them.
+                    if (principal && session.principal && session.principal !== principal.id) {
+                        logger.warn('HTTP request rejected', {
+                            reason: 'session-principal-mismatch',
+                            sessionId: requestSessionId,
+                            principal: principal.id
+                        });
+                        sendJson(res, 403, {
+                            error: 'forbidden',
+                            error_description: 'Session belongs to another principal'
+                        });
+                        return;
+                    }
+
+                    const sessionRetryAfter = sessionLimiter?.consume(requestSessionId) ?? 0;
+                    if (sessionRetryAfter > 0) {
+                        logger.warn('HTTP request rejected', {
+                            reason: 'rate-limited',
+                            scope: 'session',
+                            sessionId: requestSessionId
+                        });
+                        sendRateLimited(res, sessionRetryAfter);
+                        return;
+                    }
+
+                    await sessions.handle(session, req, res, parsedBody);
+                } else if (req.method === 'POST' && isInitializeRequest(parsedBody)) {
+                    let session;
                     try {
-                        parsedBody = JSON.parse(rawBody);
-                    } catch {
-                        parsedBody = rawBody;
+                        session = await sessions.initialize(req, res, parsedBody, principal?.id);
+                    } catch (error) {
+                        if (!(error instanceof SessionLimitError)) {
+                            throw error;
+                        }
+                        sendJsonRpcError(res, 503, -32000, 'Service Unavailable: too many open sessions');
+                        return;
+                    }
+
+                    if (session && principal) {
+                        logger.info('HTTP session authenticated', {
+                            sessionId: session.id,
+                            principal: principal.id,
+                            clientId: principal.clientId,
+                            method: principal.method,
+                            grant: grant
+                                ? { controllers: grant.controllers, sites: grant.sites, categories: grant.categories }
+                                : undefined
+                        });
                     }
+                } else {
+                    logger.warn('HTTP request rejected', { reason: 'missing-session', method: req.method });
+                    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+                    return;
                 }
+            }
 
-                logger.debug('HTTP request body', {
-                    method: req.method,
-                    path: url.pathname,
-                    length: rawBody.length,
-                    body: sanitizePayload(parsedBody)
-                });
+            if (!res.headersSent) {
+                logger.debug('Transport completed without sending response headers');
             }
+            logger.info('MCP request handled successfully', {
+                path: url.pathname,
+                method: req.method
+            });
         } catch (error) {
             logger.error('Failed to handle MCP HTTP request', { error });
             if (!res.headersSent) {
@@ -359,6 +709,20 @@ async function main(): Promise<void> {
             logger.info('HTTP health check available', {
                 endpoint: `http://${displayHost}:${port}${HEALTH_PATH}`
             });
+            logger.info('HTTP readiness check available', {
+                endpoint: `http://${displayHost}:${port}${READINESS_PATH}`
+            });
+            if (metricsEnabled) {
+                logger.info('HTTP metrics available', {
+                    endpoint: `http://${displayHost}:${port}${metricsPath}`,
+                    protected: Boolean(metricsToken)
+                });
+            }
+            if (auditPath) {
+                logger.info('HTTP audit trail available', {
+                    endpoint: `http://${displayHost}:${port}${auditPath}`
+                });
+            }
             logger.info('HTTP server ready');
             resolve();
         });
@@ -369,7 +733,10 @@ async function main(): Promise<void> {
         new Promise((resolve) => {
             httpServer.close(() => resolve());
         });
-    const closeServer: ShutdownHandler = () => mcpServer.close();
+    const closeServer: ShutdownHandler = async () => {
+        await sessions.closeAll();
+        await auditTrail.close();
+    };
 
     for (const signal of ['SIGINT', 'SIGTERM'] as const) {
         process.on(signal, () => {
@@ -0,0 +1,198 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  StreamableHTTPServerTransport,
+  type StreamableHTTPServerTransportOptions
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+import { mcpSessionDuration, mcpSessionEvents } from './metrics/omadaMetrics.js';
+import { logger } from './utils/logger.js';
+
+export type SessionCloseReason = 'terminated' | 'expired' | 'shutdown' | 'closed';
+
+export interface HttpSession {
+  id: string;
+  /** Principal that initialized the session; later requests must come from the same principal. */
+  principal?: string;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Requests (including open SSE streams) currently being handled. */
+  activeRequests: number;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  closeReason?: SessionCloseReason;
+}
+
+export interface HttpSessionManagerOptions {
+  createServer: () => McpServer;
+  transportOptions: Pick<
+    StreamableHTTPServerTransportOptions,
+    'allowedHosts' | 'allowedOrigins' | 'enableDnsRebindingProtection'
+  >;
+  /** Maximum number of open sessions; 0 means unlimited. */
+  maxSessions: number;
+  /** Sessions without requests for this long are closed; 0 disables the idle timeout. */
+  idleTimeoutMs: number;
+  onSessionClosed?: (session: HttpSession, reason: SessionCloseReason) => void;
+}
+
+export class SessionLimitError extends Error {
+  constructor(public readonly maxSessions: number) {
+    super(`The server already has the maximum of ${maxSessions} open sessions`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Owns one transport and MCP server per client session of the Streamable HTTP endpoint. Sessions
+ * are created by `initialize` requests, routed by their `Mcp-Session-Id`, and closed on `DELETE`,
+ * after the idle timeout, or on shutdown.
+ */
+export class HttpSessionManager {
+  private readonly sessions = new Map<string, HttpSession>();
+
+  private readonly sweepTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: HttpSessionManagerOptions) {
+    if (options.idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(
+        () => void this.closeIdleSessions(),
+        Math.min(options.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+      );
+      this.sweepTimer.unref();
+    }
+  }
+
+  public get size(): number {
+    return this.sessions.size;
+  }
+
+  public get(sessionId: string): HttpSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /** Creates a session for an `initialize` request and returns it once the transport assigned its ID. */
+  public async initialize(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown,
+    principal?: string
+  ): Promise<HttpSession | undefined> {
+    if (this.options.maxSessions > 0 && this.sessions.size >= this.options.maxSessions) {
+      mcpSessionEvents.inc({ event: 'rejected' });
+      logger.warn('HTTP session rejected', { reason: 'max-sessions', maxSessions: this.options.maxSessions, principal });
+      throw new SessionLimitError(this.options.maxSessions);
+    }
+
+    const server = this.options.createServer();
+    let session: HttpSession | undefined;
+    const transport = new StreamableHTTPServerTransport({
+      ...this.options.transportOptions,
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        const now = Date.now();
+        session = { id: sessionId, principal, createdAt: now, lastActivityAt: now, activeRequests: 0, transport, server };
+        this.sessions.set(sessionId, session);
+        mcpSessionEvents.inc({ event: 'created' });
+        logger.info('HTTP session created', { sessionId, principal, sessions: this.sessions.size });
+      },
+      onsessionclosed: (sessionId) => {
+        const closing = this.sessions.get(sessionId);
+        if (closing) {
+          closing.closeReason = 'terminated';
+        }
+      }
+    });
+    this.attach(transport);
+    await server.connect(transport);
+
+    await transport.handleRequest(req, res, body);
+    if (!session) {
+      // The initialize request was rejected, so no session exists to own the pair.
+      await server.close();
+    }
+    return session;
+  }
+
+  public async handle(session: HttpSession, req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    session.lastActivityAt = Date.now();
+    session.activeRequests += 1;
+    res.once('close', () => {
+      session.activeRequests -= 1;
+      session.lastActivityAt = Date.now();
+    });
+
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /** Stateless mode: a fresh transport and server per request, closed when the response ends. */
+  public async handleStateless(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      ...this.options.transportOptions,
+      sessionIdGenerator: undefined
+    });
+    transport.onerror = (error) => {
+      logger.error('Streamable HTTP transport error', { error });
+    };
+    res.once('close', () => void server.close());
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  public async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+    await Promise.all([...this.sessions.values()].map((session) => this.close(session, 'shutdown')));
+  }
+
+  private attach(transport: StreamableHTTPServerTransport): void {
+    transport.onerror = (error) => {
+      logger.error('Streamable HTTP transport error', { sessionId: transport.sessionId, error });
+    };
+    // Runs for every way a session ends: DELETE, idle timeout, shutdown or a transport failure.
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+      if (!session) {
+        return;
+      }
+
+      this.sessions.delete(session.id);
+      const reason = session.closeReason ?? 'closed';
+      const durationMs = Date.now() - session.createdAt;
+      mcpSessionEvents.inc({ event: reason });
+      mcpSessionDuration.observe({}, durationMs / 1000);
+      logger.info('HTTP session closed', {
+        sessionId: session.id,
+        principal: session.principal,
+        reason,
+        durationMs,
+        sessions: this.sessions.size
+      });
+      this.options.onSessionClosed?.(session, reason);
+    };
+  }
+
+  private async close(session: HttpSession, reason: SessionCloseReason): Promise<void> {
+    session.closeReason = reason;
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.error('Failed to close HTTP session', { sessionId: session.id, error });
+    }
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    const idle = [...this.sessions.values()].filter(
+      (session) => session.activeRequests === 0 && session.lastActivityAt < cutoff
+    );
+    await Promise.all(idle.map((session) => this.close(session, 'expired')));
+  }
+}
@@ -1,13 +1,26 @@
-import { loadConfigFromEnv } from './config.js';
-import { OmadaClient } from './omadaClient.js';
+import { loadAuditConfigFromEnv } from './audit/auditTrail.js';
+import { setupAuditTrail } from './audit/setupAuditTrail.js';
+import { loadControllersFromEnv } from './config.js';
+import { ControllerRegistry } from './controllerRegistry.js';
 import { startServer } from './server.js';
 import { logger } from './utils/logger.js';
 
 async function main(): Promise<void> {
   logger.info('Starting stdio server');
-  const config = loadConfigFromEnv();
-  const client = new OmadaClient(config);
-  await startServer(client);
+  const config = loadControllersFromEnv();
+  const primary = config.controllers.find((controller) => controller.name === config.primaryController);
+  logger.info('Loaded Omada configuration', {
+    controllers: config.controllers.map((controller) => controller.name),
+    primaryController: config.primaryController,
+    accessMode: primary?.accessMode
+  });
+  const registry = new ControllerRegistry(config);
+  await setupAuditTrail(loadAuditConfigFromEnv());
+  await startServer(registry, undefined, {
+    openApiGroups: primary?.openApiGroups,
+    openApiDir: primary?.openApiDir,
+    resourcePollInterval: primary?.resourcePollInterval
+  });
 }
 
 main().catch((error) => {
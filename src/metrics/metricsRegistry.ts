@@ -0,0 +1,191 @@
+export type MetricLabels = Record<string, string | number>;
+
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Series beyond this number per metric are dropped so that unexpected label values cannot grow memory. */
+const MAX_SERIES_PER_METRIC = 2000;
+
+interface Metric {
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([left], [right]) => left.localeCompare(right)));
+}
+
+abstract class LabelledMetric<Series> implements Metric {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: Series }>();
+
+  constructor(
+    public readonly name: string,
+    protected readonly help: string,
+    protected readonly type: 'counter' | 'histogram'
+  ) {}
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected entry(labels: MetricLabels, create: () => Series): { labels: MetricLabels; value: Series } | undefined {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      if (this.series.size >= MAX_SERIES_PER_METRIC) {
+        return undefined;
+      }
+      entry = { labels: { ...labels }, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: Series): string[];
+}
+
+export class Counter extends LabelledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: MetricLabels = {}, amount = 1): void {
+    const entry = this.entry(labels, () => 0);
+    if (entry) {
+      entry.value += amount;
+    }
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramSeries> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: readonly number[] = DEFAULT_DURATION_BUCKETS
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    if (!entry) {
+      return;
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.value.counts[index] += 1;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count += 1;
+  }
+
+  /** Starts a timer; calling the returned function observes the elapsed seconds. */
+  public startTimer(): (labels: MetricLabels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (labels) => this.observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+  }
+
+  protected renderSeries(labels: MetricLabels, value: HistogramSeries): string[] {
+    const lines = this.buckets.map(
+      (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${value.counts[index]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+export interface CollectedSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/** Counter or gauge whose samples are read from another component on every scrape. */
+export class CollectedMetric implements Metric {
+  constructor(
+    public readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge',
+    private readonly collect: () => CollectedSample[]
+  ) {}
+
+  public render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.collect().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+    ];
+  }
+}
+
+/** Minimal in-process metrics registry rendered in the Prometheus text exposition format. */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric & { name: string }>();
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public collected(
+    name: string,
+    help: string,
+    type: 'counter' | 'gauge',
+    collect: () => CollectedSample[]
+  ): CollectedMetric {
+    return this.register(new CollectedMetric(name, help, type, collect));
+  }
+
+  public histogram(name: string, help: string, buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  public render(): string {
+    return `${[...this.metrics.values()].flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric & { name: string }>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
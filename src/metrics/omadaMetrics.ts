@@ -0,0 +1,81 @@
+import { type CollectedSample, MetricsRegistry } from './metricsRegistry.js';
+
+export interface ControllerCacheStats {
+  controller: string;
+  hits: number;
+  misses: number;
+}
+
+/** Runtime state read on every scrape; set by the transport that serves `/metrics`. */
+export interface MetricsSources {
+  activeSessions?: () => number;
+  cacheStats?: () => ControllerCacheStats[];
+}
+
+const sources: MetricsSources = {};
+
+export function setMetricsSources(next: MetricsSources): void {
+  Object.assign(sources, next);
+}
+
+export const metrics = new MetricsRegistry();
+
+export const mcpRequests = metrics.counter('omada_mcp_requests_total', 'MCP requests by JSON-RPC method and outcome.');
+
+export const mcpRequestDuration = metrics.histogram(
+  'omada_mcp_request_duration_seconds',
+  'Duration of MCP requests by JSON-RPC method.'
+);
+
+export const toolInvocations = metrics.counter(
+  'omada_tool_invocations_total',
+  'Tool invocations by tool name and outcome (success, error or denied).'
+);
+
+export const toolDuration = metrics.histogram('omada_tool_duration_seconds', 'Duration of tool invocations by tool name.');
+
+export const apiRequests = metrics.counter(
+  'omada_api_requests_total',
+  'Omada controller requests by controller, method, path template and HTTP status.'
+);
+
+export const apiRequestDuration = metrics.histogram(
+  'omada_api_request_duration_seconds',
+  'Latency of Omada controller requests by controller, method, path template and HTTP status.'
+);
+
+export const tokenRefreshes = metrics.counter(
+  'omada_token_refreshes_total',
+  'Omada access token requests by controller, grant type and outcome.'
+);
+
+export const mcpSessionEvents = metrics.counter(
+  'omada_mcp_session_events_total',
+  'HTTP session lifecycle events: created, rejected, terminated, expired, shutdown or closed.'
+);
+
+export const mcpSessionDuration = metrics.histogram(
+  'omada_mcp_session_duration_seconds',
+  'Lifetime of closed HTTP sessions.',
+  [1, 10, 60, 300, 900, 1800, 3600, 7200, 14_400, 86_400]
+);
+
+metrics.collected('omada_mcp_active_sessions', 'Open MCP sessions on the HTTP transport.', 'gauge', () => [
+  { labels: {}, value: sources.activeSessions?.() ?? 0 }
+]);
+
+function cacheSamples(select: (stats: ControllerCacheStats) => number): CollectedSample[] {
+  return (sources.cacheStats?.() ?? []).map((stats) => ({ labels: { controller: stats.controller }, value: select(stats) }));
+}
+
+metrics.collected('omada_cache_hits_total', 'Response cache hits by controller.', 'counter', () =>
+  cacheSamples((stats) => stats.hits)
+);
+
+metrics.collected('omada_cache_misses_total', 'Response cache misses by controller.', 'counter', () =>
+  cacheSamples((stats) => stats.misses)
+);
+
+metrics.collected('omada_cache_hit_ratio', 'Share of response cache lookups served from the cache.', 'gauge', () =>
+  cacheSamples((stats) => (stats.hits + stats.misses > 0 ? stats.hits / (stats.hits + stats.misses) : 0))
+);
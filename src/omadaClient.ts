@@ -3,24 +3,150 @@ import https from 'node:https';
 import axios, {
   type AxiosInstance,
   type AxiosRequestConfig,
-  type AxiosRequestHeaders
+  type AxiosRequestHeaders,
+  type AxiosResponse
 } from 'axios';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 
+import { AccessPolicy, AccessPolicyError } from './accessPolicy.js';
+import { auditTrail } from './audit/auditTrail.js';
+import { currentGrant } from './authz/authorizationContext.js';
+import { AuthorizationError, grantsSite, resolveGrantedSite } from './authz/authorizationPolicy.js';
 import type { EnvironmentConfig } from './config.js';
+import { apiRequestDuration, apiRequests, tokenRefreshes } from './metrics/omadaMetrics.js';
+import { type CircuitState, RequestScheduler } from './requestScheduler.js';
+import { type CacheStore, type CacheTtlRule, MemoryCacheStore, ResponseCache } from './responseCache.js';
+import type { OmadaApiContext, OmadaApiVersion } from './services/apiContext.js';
+import {
+  type ClientBatchConfig,
+  type ClientDeleteFilter,
+  type ClientQuery,
+  ClientService
+} from './services/clientService.js';
+import { type AdoptCredentials, type DeviceQuery, DeviceService } from './services/deviceService.js';
+import {
+  type AclRule,
+  type AclRuleSettings,
+  type AclType,
+  FirewallService,
+  type GatewayAclMode,
+  type NatAlgSettings,
+  type OneToOneNat,
+  type OneToOneNatSettings,
+  type PortForwardReport,
+  type PortForwardSettings
+} from './services/firewallService.js';
+import {
+  type FirmwareChannel,
+  FirmwareService,
+  type FirmwareStatusQuery,
+  type UpgradePlan,
+  type UpgradePlanRequest,
+  type UpgradePlanUpdate,
+  type UpgradeScheduleRequest
+} from './services/firmwareService.js';
+import {
+  type HotspotAuthRecord,
+  HotspotService,
+  type PrintableVoucher,
+  type VoucherFormat,
+  type VoucherGroupRequest,
+  type VoucherGroupSummary,
+  type VoucherStatisticsQuery
+} from './services/hotspotService.js';
+import {
+  type AlertLogQuery,
+  type AuditLogQuery,
+  type EventLogQuery,
+  LogService,
+  type ResolveAlertsRequest
+} from './services/logService.js';
+import {
+  type BackupFile,
+  type BackupLocation,
+  MaintenanceService,
+  type MaintenanceWaitOptions,
+  type SiteRestoreEntry
+} from './services/maintenanceService.js';
+import { type DashboardMetric, MonitorService } from './services/monitorService.js';
+import {
+  type LanNetwork,
+  type LanNetworkSettings,
+  type LanNetworkSummary,
+  NetworkService
+} from './services/networkService.js';
+import {
+  type IpsThreat,
+  type RogueAp,
+  SecurityService,
+  type ThreatMapQuery,
+  type ThreatOperation,
+  type ThreatQuery,
+  type WidsEvent
+} from './services/securityService.js';
+import {
+  type PortName,
+  type PowerCycleOptions,
+  SwitchService,
+  type SwitchPortsReport,
+  type SwitchVlanInterface
+} from './services/switchService.js';
+import {
+  type ApSsidOverride,
+  type SsidSettings,
+  type SsidSummary,
+  WirelessService,
+  type WlanGroup
+} from './services/wirelessService.js';
 import type {
+  AuditEvent,
+  ControllerDiagnostics,
+  DiagnosticProblem,
+  FirmwareRolloutPreview,
+  FirmwareStatusReport,
+  ListPage,
+  LogPage,
+  OmadaActionResult,
   OmadaApiResponse,
   OmadaClientInfo,
+  OmadaControllerStatus,
   OmadaDeviceInfo,
+  OmadaLogEntry,
+  OmadaRequestOptions,
   OmadaSiteSummary,
+  OmadaTokenState,
   PaginatedResult,
-  TokenResult
+  RuleSetDiff,
+  SecurityReport,
+  SiteHealthReport,
+  TokenResult,
+  UpgradeSchedulePreview
 } from './types/index.js';
 import { logger } from './utils/logger.js';
+import { toOmadaPathTemplate, toRelativeOmadaPath } from './utils/omadaPath.js';
+import type { TimeRangeInput } from './utils/timeRange.js';
+
+export interface OmadaClientOptions extends EnvironmentConfig {
+  /** Controller name recorded in the audit trail. */
+  name?: string;
+  /** Overrides the in-memory store used by the response cache. */
+  cacheStore?: CacheStore;
+}
 
-export type OmadaClientOptions = EnvironmentConfig;
+export interface OmadaOperationRequest extends OmadaRequestOptions {
+  method: string;
+  path: string;
+  siteId?: string;
+  pathParams?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
 
 const TOKEN_EXPIRY_BUFFER_SECONDS = 30;
+/** Diagnostics are reused for this long so that readiness probes do not hammer the token endpoint. */
+const DIAGNOSTICS_CACHE_TTL_MS = 10_000;
+/** Site list reused to check site grants, so restricted principals do not page `/sites` per request. */
+const GRANT_SITES_TTL_MS = 30_000;
 const DEFAULT_PAGE_SIZE = 200;
 
 export class OmadaClient {
@@ -34,18 +160,73 @@ export class OmadaClient {
 
   private readonly siteId?: string;
 
+  private readonly name?: string;
+
+  private readonly strictSsl: boolean;
+
+  private readonly proxyConfigured: boolean;
+
+  private diagnostics?: { startedAt: number; result: Promise<Omit<ControllerDiagnostics, 'name' | 'primary'>> };
+
+  private grantSites?: { startedAt: number; result: Promise<OmadaSiteSummary[]> };
+
   private readonly omadacId: string;
 
   private readonly clientId: string;
 
   private readonly clientSecret: string;
 
+  private readonly accessPolicy: AccessPolicy;
+
+  private readonly cache?: ResponseCache;
+
+  private readonly scheduler: RequestScheduler;
+
+  private readonly devices: DeviceService;
+
+  private readonly clients: ClientService;
+
+  private readonly logs: LogService;
+
+  private readonly monitor: MonitorService;
+
+  private readonly firmware: FirmwareService;
+
+  private readonly maintenance: MaintenanceService;
+
+  private readonly wireless: WirelessService;
+
+  private readonly switches: SwitchService;
+
+  private readonly networks: NetworkService;
+
+  private readonly firewall: FirewallService;
+
+  private readonly hotspot: HotspotService;
+
+  private readonly security: SecurityService;
+
   constructor(options: OmadaClientOptions) {
     this.siteId = options.siteId;
+    this.name = options.name;
+    this.strictSsl = options.strictSsl;
+    this.proxyConfigured = Boolean(options.proxyUrl);
+    this.accessPolicy = new AccessPolicy(
+      options.accessMode,
+      (options.readOnlyAllowlist ?? []).map((pattern) => compileAllowlistPattern(pattern))
+    );
     this.clientId = options.clientId;
     this.clientSecret = options.clientSecret;
     this.omadacId = options.omadacId;
 
+    if (options.cacheEnabled) {
+      this.cache = new ResponseCache({
+        defaultTtlMs: options.cacheTtl,
+        rules: (options.cacheTtlRules ?? []).map((rule) => parseCacheTtlRule(rule)),
+        store: options.cacheStore ?? new MemoryCacheStore(options.cacheMaxEntries)
+      });
+    }
+
     const httpsAgent = options.proxyUrl
       ? new HttpsProxyAgent(options.proxyUrl)
       : new https.Agent({ rejectUnauthorized: options.strictSsl });
@@ -68,38 +249,883 @@ export class OmadaClient {
     }
 
     this.http = axios.create(axiosOptions);
+    this.scheduler = new RequestScheduler({
+      controller: options.name ?? options.baseUrl,
+      maxConcurrency: options.maxConcurrency,
+      rateLimit: options.rateLimit,
+      rateLimitBurst: options.rateLimitBurst,
+      maxRetries: options.retryMax,
+      retryBaseDelayMs: options.retryBaseDelay,
+      retryMaxDelayMs: options.retryMaxDelay,
+      retryNonIdempotent: options.retryNonIdempotent,
+      circuitBreakerThreshold: options.circuitBreakerThreshold,
+      circuitBreakerResetMs: options.circuitBreakerReset
+    });
+
+    const apiContext: OmadaApiContext = {
+      request: (config, requestOptions) => this.request(config, requestOptions),
+      execute: async (config, requestOptions) => this.ensureSuccess(await this.request(config, requestOptions)),
+      get: (path, params) => this.get(path, params),
+      fetchPaginated: (path, params) => this.fetchPaginated(path, params),
+      ensureSuccess: (response) => this.ensureSuccess(response),
+      buildOmadaPath: (relativePath, version) => this.buildOmadaPath(relativePath, version),
+      resolveSiteId: (siteId) => this.resolveSiteId(siteId)
+    };
+    this.devices = new DeviceService(apiContext);
+    this.clients = new ClientService(apiContext);
+    this.logs = new LogService(apiContext);
+    this.monitor = new MonitorService(apiContext, this.devices);
+    this.firmware = new FirmwareService(apiContext, () => this.listSites());
+    this.maintenance = new MaintenanceService(apiContext);
+    this.wireless = new WirelessService(apiContext, this.devices);
+    this.switches = new SwitchService(apiContext, this.devices);
+    this.networks = new NetworkService(apiContext);
+    this.firewall = new FirewallService(apiContext, this.networks);
+    this.hotspot = new HotspotService(apiContext, this.clients);
+    this.security = new SecurityService(apiContext, this.clients);
   }
 
   public async listSites(): Promise<OmadaSiteSummary[]> {
-    return this.fetchPaginated<OmadaSiteSummary>(this.buildOmadaPath('/sites'));
+    const sites = await this.fetchPaginated<OmadaSiteSummary>(this.buildOmadaPath('/sites'));
+    const grant = currentGrant();
+    return grant ? sites.filter((site) => grantsSite(grant, site)) : sites;
   }
 
   public async listDevices(siteId?: string): Promise<OmadaDeviceInfo[]> {
-    const resolvedSiteId = this.resolveSiteId(siteId);
-    return this.fetchPaginated<OmadaDeviceInfo>(
-      this.buildOmadaPath(`/sites/${encodeURIComponent(resolvedSiteId)}/devices`)
-    );
+    return this.devices.listDevices(siteId);
   }
 
   public async listClients(siteId?: string): Promise<OmadaClientInfo[]> {
-    const resolvedSiteId = this.resolveSiteId(siteId);
-    return this.fetchPaginated<OmadaClientInfo>(
-      this.buildOmadaPath(`/sites/${encodeURIComponent(resolvedSiteId)}/clients`)
-    );
+    return this.clients.listClients(siteId);
+  }
+
+  public async searchDevices(query?: DeviceQuery, siteId?: string): Promise<ListPage<Partial<OmadaDeviceInfo>>> {
+    return this.devices.searchDevices(query, siteId);
   }
 
   public async getDevice(identifier: string, siteId?: string): Promise<OmadaDeviceInfo | undefined> {
-    const devices = await this.listDevices(siteId);
-    return devices.find((device) => device.mac === identifier || device.deviceId === identifier);
+    return this.devices.getDevice(identifier, siteId);
+  }
+
+  public async searchClients(query?: ClientQuery, siteId?: string): Promise<ListPage<Partial<OmadaClientInfo>>> {
+    return this.clients.searchClients(query, siteId);
   }
 
   public async getClient(identifier: string, siteId?: string): Promise<OmadaClientInfo | undefined> {
-    const clients = await this.listClients(siteId);
-    return clients.find((client) => client.mac === identifier || client.id === identifier);
+    return this.clients.getClient(identifier, siteId);
+  }
+
+  public async blockClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.blockClient(identifier, siteId, options);
+  }
+
+  public async unblockClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.unblockClient(identifier, siteId, options);
+  }
+
+  public async reconnectClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.reconnectClient(identifier, siteId, options);
+  }
+
+  public async rebootClient(
+    identifier: string,
+    deviceId?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.rebootClient(identifier, deviceId, siteId, options);
+  }
+
+  public async renameClient(
+    identifier: string,
+    name: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.renameClient(identifier, name, siteId, options);
+  }
+
+  public async batchConfigClients(
+    identifiers: string[],
+    config: ClientBatchConfig,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.batchConfigClients(identifiers, config, siteId, options);
+  }
+
+  public async deleteClients(
+    filter: ClientDeleteFilter,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clients.deleteClients(filter, siteId, options);
+  }
+
+  public async rebootDevice(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.rebootDevice(identifier, siteId, options);
+  }
+
+  public async locateDevice(
+    identifier: string,
+    enable: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.locateDevice(identifier, enable, siteId, options);
+  }
+
+  public async adoptDevice(
+    identifier: string,
+    credentials: AdoptCredentials,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.adoptDevice(identifier, credentials, siteId, options);
+  }
+
+  public async getDeviceAdoptResult(identifier: string, siteId?: string): Promise<unknown> {
+    return this.devices.getAdoptResult(identifier, siteId);
+  }
+
+  public async batchAdoptDevices(
+    identifiers: string[],
+    credentials: AdoptCredentials,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.batchAdoptDevices(identifiers, credentials, siteId, options);
+  }
+
+  public async forgetDevice(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.forgetDevice(identifier, siteId, options);
+  }
+
+  public async getDeviceForgetStatus(forgetId: string, identifier?: string, siteId?: string): Promise<unknown> {
+    return this.devices.getForgetStatus(forgetId, identifier, siteId);
+  }
+
+  public async moveDevicesToSite(
+    identifiers: string[],
+    targetSiteId: string,
+    stackIds?: string[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.moveDevicesToSite(identifiers, targetSiteId, stackIds, siteId, options);
+  }
+
+  public async rebootStack(
+    stackId: string,
+    memberIdentifiers?: string[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.rebootStack(stackId, memberIdentifiers, siteId, options);
+  }
+
+  public async locateStack(
+    stackId: string,
+    enable: boolean,
+    memberIdentifiers?: string[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.devices.locateStack(stackId, enable, memberIdentifiers, siteId, options);
+  }
+
+  public async listEventLogs(query?: EventLogQuery, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    return this.logs.listEventLogs(query, siteId);
+  }
+
+  public async listAlertLogs(query?: AlertLogQuery, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    return this.logs.listAlertLogs(query, siteId);
+  }
+
+  public async listAuditLogs(query?: AuditLogQuery, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    return this.logs.listAuditLogs(query, siteId);
+  }
+
+  public async resolveAlerts(
+    request: ResolveAlertsRequest,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.logs.resolveAlerts(request, siteId, options);
+  }
+
+  public async getDashboardMetric<T = unknown>(
+    metric: DashboardMetric,
+    range?: TimeRangeInput,
+    siteId?: string
+  ): Promise<T> {
+    return this.monitor.getDashboardMetric<T>(metric, range, siteId);
+  }
+
+  public async getSiteHealth(range?: TimeRangeInput, siteId?: string): Promise<SiteHealthReport> {
+    return this.monitor.getSiteHealth(range, siteId);
+  }
+
+  public async getFirmwareStatus(query?: FirmwareStatusQuery): Promise<FirmwareStatusReport> {
+    return this.firmware.getFirmwareStatus(query);
+  }
+
+  public async getFirmwareReleaseNotes(firmware: string, channel?: FirmwareChannel): Promise<unknown> {
+    return this.firmware.getReleaseNotes(firmware, channel);
+  }
+
+  public async listUpgradePlans(): Promise<UpgradePlan[]> {
+    return this.firmware.listUpgradePlans();
+  }
+
+  public async createUpgradePlan(
+    request: UpgradePlanRequest,
+    dryRun?: boolean,
+    options?: OmadaRequestOptions
+  ): Promise<FirmwareRolloutPreview | OmadaActionResult> {
+    return this.firmware.createUpgradePlan(request, dryRun, options);
+  }
+
+  public async updateUpgradePlan(
+    planId: string,
+    update: UpgradePlanUpdate,
+    dryRun?: boolean,
+    options?: OmadaRequestOptions
+  ): Promise<FirmwareRolloutPreview | OmadaActionResult> {
+    return this.firmware.updateUpgradePlan(planId, update, dryRun, options);
+  }
+
+  public async deleteUpgradePlan(planId: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    return this.firmware.deleteUpgradePlan(planId, options);
+  }
+
+  public async listUpgradeSchedules(siteId?: string): Promise<unknown> {
+    return this.firmware.listUpgradeSchedules(siteId);
+  }
+
+  public async createUpgradeSchedule(
+    request: UpgradeScheduleRequest,
+    siteId?: string,
+    dryRun?: boolean,
+    options?: OmadaRequestOptions
+  ): Promise<UpgradeSchedulePreview | OmadaActionResult> {
+    return this.firmware.createUpgradeSchedule(request, siteId, dryRun, options);
+  }
+
+  public async updateUpgradeSchedule(
+    scheduleId: string,
+    request: UpgradeScheduleRequest,
+    siteId?: string,
+    dryRun?: boolean,
+    options?: OmadaRequestOptions
+  ): Promise<UpgradeSchedulePreview | OmadaActionResult> {
+    return this.firmware.updateUpgradeSchedule(scheduleId, request, siteId, dryRun, options);
+  }
+
+  public async deleteUpgradeSchedule(
+    scheduleId: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.firmware.deleteUpgradeSchedule(scheduleId, siteId, options);
+  }
+
+  public async backupController(
+    location: BackupLocation,
+    retainUser?: boolean,
+    wait?: MaintenanceWaitOptions,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.maintenance.backupController(location, retainUser, wait, options);
+  }
+
+  public async backupSites(
+    siteIds: string[],
+    location: BackupLocation,
+    wait?: MaintenanceWaitOptions,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.maintenance.backupSites(siteIds, location, wait, options);
+  }
+
+  public async getBackupStatus(siteId?: string): Promise<{ status: 'running' | 'idle' }> {
+    return this.maintenance.getBackupStatus(siteId);
+  }
+
+  public async listBackupFiles(siteId?: string): Promise<BackupFile[]> {
+    return this.maintenance.listBackupFiles(siteId);
+  }
+
+  public async restoreController(
+    location: BackupLocation,
+    file: string,
+    skipDevice?: boolean,
+    wait?: MaintenanceWaitOptions,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.maintenance.restoreController(location, file, skipDevice, wait, options);
+  }
+
+  public async restoreSites(
+    entries: SiteRestoreEntry[],
+    location: BackupLocation,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.maintenance.restoreSites(entries, location, options);
+  }
+
+  public async getRestoreStatus(): Promise<{ status: 'finished' | 'prepared' | 'running' | 'failed' }> {
+    return this.maintenance.getRestoreStatus();
+  }
+
+  public async listWlanGroups(siteId?: string): Promise<WlanGroup[]> {
+    return this.wireless.listWlanGroups(siteId);
+  }
+
+  public async listSsids(wlanGroup?: string, siteId?: string): Promise<SsidSummary[]> {
+    return this.wireless.listSsids(wlanGroup, siteId);
+  }
+
+  public async getSsid(ssid: string, wlanGroup?: string, siteId?: string): Promise<Record<string, unknown>> {
+    return this.wireless.getSsid(ssid, wlanGroup, siteId);
+  }
+
+  public async createSsid(
+    settings: SsidSettings & { name: string },
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.wireless.createSsid(settings, wlanGroup, siteId, options);
+  }
+
+  public async updateSsid(
+    ssid: string,
+    settings: SsidSettings,
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.wireless.updateSsid(ssid, settings, wlanGroup, siteId, options);
+  }
+
+  public async deleteSsid(
+    ssid: string,
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.wireless.deleteSsid(ssid, wlanGroup, siteId, options);
+  }
+
+  public async getApWlanConfig(apIdentifier: string, siteId?: string): Promise<Record<string, unknown>> {
+    return this.wireless.getApWlanConfig(apIdentifier, siteId);
+  }
+
+  public async setApSsidOverrides(
+    apIdentifier: string,
+    overrides: ApSsidOverride[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.wireless.setApSsidOverrides(apIdentifier, overrides, siteId, options);
+  }
+
+  public async setApWlanGroup(
+    apIdentifier: string,
+    wlanGroup: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.wireless.setApWlanGroup(apIdentifier, wlanGroup, siteId, options);
+  }
+
+  public async getSwitchPorts(switchIdentifier: string, ports?: number[], siteId?: string): Promise<SwitchPortsReport> {
+    return this.switches.getSwitchPorts(switchIdentifier, ports, siteId);
+  }
+
+  public async setSwitchPortStatus(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.setPortStatus(switchIdentifier, ports, enabled, siteId, options);
+  }
+
+  public async setSwitchPortPoeMode(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.setPortPoeMode(switchIdentifier, ports, enabled, siteId, options);
+  }
+
+  public async setSwitchPortProfile(
+    switchIdentifier: string,
+    port: number,
+    profile: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.setPortProfile(switchIdentifier, port, profile, siteId, options);
+  }
+
+  public async setSwitchPortProfileOverride(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.setPortProfileOverride(switchIdentifier, ports, enabled, siteId, options);
+  }
+
+  public async setSwitchPortNames(
+    switchIdentifier: string,
+    names: PortName[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.setPortNames(switchIdentifier, names, siteId, options);
+  }
+
+  public async powerCycleSwitchPorts(
+    switchIdentifier: string,
+    ports: number[],
+    siteId?: string,
+    cycle?: PowerCycleOptions,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.switches.powerCyclePorts(switchIdentifier, ports, siteId, cycle, options);
+  }
+
+  public async listSwitchVlanInterfaces(switchIdentifier: string, siteId?: string): Promise<SwitchVlanInterface[]> {
+    return this.switches.listVlanInterfaces(switchIdentifier, siteId);
+  }
+
+  public async listLanNetworks(siteId?: string): Promise<LanNetworkSummary[]> {
+    return this.networks.listLanNetworks(siteId);
+  }
+
+  public async getLanNetwork(identifier: string, siteId?: string): Promise<LanNetwork> {
+    return this.networks.getLanNetwork(identifier, siteId);
+  }
+
+  public async createLanNetwork(
+    settings: LanNetworkSettings & { name: string; vlanId: number },
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.networks.createLanNetwork(settings, siteId, options);
+  }
+
+  public async updateLanNetwork(
+    identifier: string,
+    settings: LanNetworkSettings,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.networks.updateLanNetwork(identifier, settings, siteId, options);
+  }
+
+  public async deleteLanNetwork(identifier: string, siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    return this.networks.deleteLanNetwork(identifier, siteId, options);
+  }
+
+  public async listAcls(type: AclType, siteId?: string): Promise<(AclRule & { summary: string })[]> {
+    return this.firewall.listAcls(type, siteId);
+  }
+
+  public async getGatewayAclMode(siteId?: string): Promise<{ mode: GatewayAclMode }> {
+    return this.firewall.getGatewayAclMode(siteId);
+  }
+
+  public async setGatewayAclMode(
+    mode: GatewayAclMode,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.setGatewayAclMode(mode, siteId, dryRun, options);
+  }
+
+  public async createAcl(
+    type: AclType,
+    settings: AclRuleSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.createAcl(type, settings, siteId, dryRun, options);
+  }
+
+  public async updateAcl(
+    type: AclType,
+    identifier: string,
+    settings: AclRuleSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.updateAcl(type, identifier, settings, siteId, dryRun, options);
+  }
+
+  public async deleteAcl(
+    type: AclType,
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.deleteAcl(type, identifier, siteId, dryRun, options);
+  }
+
+  public async listPortForwards(includeUpnp = false, siteId?: string): Promise<PortForwardReport> {
+    return this.firewall.listPortForwards(includeUpnp, siteId);
+  }
+
+  public async createPortForward(
+    settings: PortForwardSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.createPortForward(settings, siteId, dryRun, options);
+  }
+
+  public async updatePortForward(
+    identifier: string,
+    settings: PortForwardSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.updatePortForward(identifier, settings, siteId, dryRun, options);
+  }
+
+  public async deletePortForward(
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.deletePortForward(identifier, siteId, dryRun, options);
+  }
+
+  public async listOneToOneNats(siteId?: string): Promise<(OneToOneNat & { summary: string })[]> {
+    return this.firewall.listOneToOneNats(siteId);
+  }
+
+  public async createOneToOneNat(
+    settings: OneToOneNatSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.createOneToOneNat(settings, siteId, dryRun, options);
+  }
+
+  public async updateOneToOneNat(
+    identifier: string,
+    settings: OneToOneNatSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.updateOneToOneNat(identifier, settings, siteId, dryRun, options);
+  }
+
+  public async deleteOneToOneNat(
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.deleteOneToOneNat(identifier, siteId, dryRun, options);
+  }
+
+  public async getNatAlg(siteId?: string): Promise<NatAlgSettings> {
+    return this.firewall.getNatAlg(siteId);
+  }
+
+  public async setNatAlg(
+    settings: Partial<NatAlgSettings>,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetDiff | OmadaActionResult> {
+    return this.firewall.setNatAlg(settings, siteId, dryRun, options);
+  }
+
+  public async listVoucherGroups(siteId?: string): Promise<VoucherGroupSummary[]> {
+    return this.hotspot.listVoucherGroups(siteId);
+  }
+
+  public async createVoucherGroup(
+    request: VoucherGroupRequest,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.hotspot.createVoucherGroup(request, siteId, options);
+  }
+
+  public async getUnusedVouchers(
+    groups: string[] | undefined,
+    format: VoucherFormat = 'table',
+    siteId?: string
+  ): Promise<PrintableVoucher[] | string> {
+    return this.hotspot.getUnusedVouchers(groups, format, siteId);
+  }
+
+  public async getVoucherStatistics(query: VoucherStatisticsQuery = {}, siteId?: string): Promise<Record<string, unknown>> {
+    return this.hotspot.getVoucherStatistics(query, siteId);
+  }
+
+  public async listHotspotAuthRecords(searchKey?: string, siteId?: string): Promise<HotspotAuthRecord[]> {
+    return this.hotspot.listHotspotAuthRecords(searchKey, siteId);
+  }
+
+  public async authorizeHotspotClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.hotspot.authorizeClient(identifier, siteId, options);
+  }
+
+  public async unauthorizeHotspotClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.hotspot.unauthorizeClient(identifier, siteId, options);
+  }
+
+  public async disconnectHotspotClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.hotspot.disconnectClient(identifier, siteId, options);
+  }
+
+  public async listRogueAps(siteId?: string): Promise<RogueAp[]> {
+    return this.security.listRogueAps(siteId);
+  }
+
+  public async scanRogueAps(siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    return this.security.scanRogueAps(siteId, options);
+  }
+
+  public async listWidsEvents(siteId?: string): Promise<WidsEvent[]> {
+    return this.security.listWidsEvents(siteId);
+  }
+
+  public async listWidsBlacklist(siteId?: string): Promise<Record<string, unknown>[]> {
+    return this.security.listWidsBlacklist(siteId);
+  }
+
+  public async removeWidsBlacklistEntry(
+    stationMac: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.security.removeWidsBlacklistEntry(stationMac, siteId, options);
+  }
+
+  public async listThreats(query: ThreatQuery = {}, siteId?: string): Promise<LogPage<IpsThreat>> {
+    return this.security.listThreats(query, siteId);
+  }
+
+  public async getThreat(threatId: string, time: string, siteId?: string): Promise<IpsThreat> {
+    return this.security.getThreat(threatId, time, siteId);
+  }
+
+  public async getThreatSummary(range?: TimeRangeInput): Promise<Record<string, unknown>> {
+    return this.security.getThreatSummary(range);
+  }
+
+  public async handleThreats(
+    operation: ThreatOperation,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.security.handleThreats(operation, siteId, options);
+  }
+
+  public async getThreatMap(query: ThreatMapQuery = {}, siteId?: string): Promise<Record<string, unknown>> {
+    return this.security.getThreatMap(query, siteId);
+  }
+
+  public async listBlockedCountries(siteId?: string): Promise<string[]> {
+    return this.security.listBlockedCountries(siteId);
+  }
+
+  public async setCountryBlocked(
+    country: string,
+    blocked: boolean,
+    siteIds?: string[],
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.security.setCountryBlocked(country, blocked, siteIds, options);
+  }
+
+  public async getSecurityReport(range?: TimeRangeInput, siteId?: string): Promise<SecurityReport> {
+    return this.security.getSecurityReport(range, siteId);
+  }
+
+  /** Cache hit/miss counters, or `undefined` when response caching is disabled. */
+  public get cacheStats(): { hits: number; misses: number } | undefined {
+    return this.cache?.stats;
+  }
+
+  public get circuitState(): CircuitState {
+    return this.scheduler.circuitState;
+  }
+
+  public get accessMode(): AccessPolicy['mode'] {
+    return this.accessPolicy.mode;
+  }
+
+  /** Whether the access policy treats the request as a read, including allowlisted read-style POSTs. */
+  public isReadOperation(method: string, url: string): boolean {
+    return this.accessPolicy.isReadOperation(method, url);
+  }
+
+  /** Reports the cached token without contacting the controller. */
+  public get tokenState(): OmadaTokenState {
+    return {
+      hasAccessToken: Boolean(this.accessToken),
+      hasRefreshToken: Boolean(this.refreshToken),
+      expiresAt: this.tokenExpiresAt ? new Date(this.tokenExpiresAt).toISOString() : undefined,
+      expired: !this.tokenExpiresAt || Date.now() >= this.tokenExpiresAt
+    };
+  }
+
+  /**
+   * Checks that the controller answers on its unauthenticated `/api/info` endpoint. Never throws.
+   */
+  public async checkReachability(): Promise<
+    Pick<OmadaControllerStatus, 'reachable' | 'latencyMs' | 'controllerVersion' | 'error'>
+  > {
+    const startedAt = Date.now();
+    try {
+      const { data } = await this.http.get<OmadaApiResponse<{ controllerVer?: string }>>('/api/info');
+      return {
+        reachable: true,
+        latencyMs: Date.now() - startedAt,
+        controllerVersion: data?.result?.controllerVer
+      };
+    } catch (error) {
+      logger.warn('Omada controller unreachable', {
+        baseUrl: this.http.defaults.baseURL,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return {
+        reachable: false,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Checks that the controller is reachable and that an access token can be obtained. Results are
+   * cached for a few seconds unless `refresh` is set. Never throws.
+   */
+  public async diagnose(refresh = false): Promise<Omit<ControllerDiagnostics, 'name' | 'primary'>> {
+    if (!refresh && this.diagnostics && Date.now() - this.diagnostics.startedAt < DIAGNOSTICS_CACHE_TTL_MS) {
+      return this.diagnostics.result;
+    }
+
+    const result = this.runDiagnostics();
+    this.diagnostics = { startedAt: Date.now(), result };
+    return result;
+  }
+
+  private async runDiagnostics(): Promise<Omit<ControllerDiagnostics, 'name' | 'primary'>> {
+    const problems: DiagnosticProblem[] = [];
+    const reachability = await this.checkReachability();
+    if (!reachability.reachable) {
+      problems.push({ check: 'reachability', message: reachability.error ?? 'Controller is unreachable' });
+    }
+
+    let authenticated = false;
+    if (reachability.reachable) {
+      try {
+        await this.ensureAccessToken();
+        authenticated = true;
+      } catch (error) {
+        problems.push({ check: 'authentication', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (this.circuitState === 'open') {
+      problems.push({ check: 'circuit', message: 'Requests are suspended after repeated controller failures' });
+    }
+
+    const baseUrl = this.http.defaults.baseURL ?? '';
+    return {
+      ready: problems.length === 0,
+      checkedAt: new Date().toISOString(),
+      baseUrl,
+      ...reachability,
+      authenticated,
+      token: this.tokenState,
+      tokenExpiresIn: this.tokenExpiresAt ? Math.max(Math.round((this.tokenExpiresAt - Date.now()) / 1000), 0) : undefined,
+      tls: { enabled: baseUrl.startsWith('https:'), verified: this.strictSsl },
+      proxy: this.proxyConfigured,
+      circuitState: this.circuitState,
+      problems
+    };
   }
 
-  public async callApi<T = unknown>(config: AxiosRequestConfig): Promise<T> {
-    return this.request<T>(config);
+  /** Sends a raw request; its responses are never served from the cache. */
+  public async callApi<T = unknown>(config: AxiosRequestConfig, options: OmadaRequestOptions = {}): Promise<T> {
+    return this.request<T>(config, { ...options, cache: false });
+  }
+
+  /**
+   * Invokes an OpenAPI operation by its path template, substituting `{omadacId}`, `{siteId}`
+   * and any other path parameters before unwrapping the Omada response envelope.
+   */
+  public async invokeOperation<T = unknown>(operation: OmadaOperationRequest): Promise<T> {
+    const url = this.resolvePathTemplate(operation.path, operation.pathParams ?? {}, operation.siteId);
+    const response = await this.request<OmadaApiResponse<T>>(
+      {
+        method: operation.method.toUpperCase(),
+        url,
+        params: operation.query,
+        data: operation.body
+      },
+      { confirmed: operation.confirmed }
+    );
+
+    return this.ensureSuccess(response);
   }
 
   private async fetchPaginated<T>(
@@ -133,9 +1159,32 @@ export class OmadaClient {
     return records;
   }
 
-  private buildOmadaPath(relativePath: string): string {
+  private buildOmadaPath(relativePath: string, version: OmadaApiVersion = 'v1'): string {
     const normalized = relativePath.startsWith('/') ? relativePath : `/${relativePath}`;
-    return `/openapi/v1/${encodeURIComponent(this.omadacId)}${normalized}`;
+    return `/openapi/${version}/${encodeURIComponent(this.omadacId)}${normalized}`;
+  }
+
+  private resolvePathTemplate(
+    template: string,
+    pathParams: Record<string, string>,
+    siteId?: string
+  ): string {
+    return template.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+      if (name === 'omadacId') {
+        return encodeURIComponent(this.omadacId);
+      }
+
+      if (name === 'siteId') {
+        return encodeURIComponent(this.resolveSiteId(pathParams.siteId ?? siteId));
+      }
+
+      const value = pathParams[name];
+      if (value === undefined || value === '') {
+        throw new Error(`Missing value for path parameter "${name}" in ${template}`);
+      }
+
+      return encodeURIComponent(value);
+    });
   }
 
   private resolveSiteId(siteId?: string): string {
@@ -150,6 +1199,45 @@ export class OmadaClient {
     throw new Error('A site id must be provided either in the environment or as a parameter.');
   }
 
+  /**
+   * Applies the caller's site grant to the resolved request path. Principals limited to particular
+   * sites may only use site-scoped endpoints of those sites, plus the (filtered) site list.
+   */
+  private async assertSiteGranted(method: string, url: string): Promise<void> {
+    const grant = currentGrant();
+    const siteId = grant ? resolveGrantedSite(grant, method, url) : undefined;
+    if (!grant || !siteId) {
+      return;
+    }
+
+    // Grants may name sites instead of IDs. The site list is reused for a while and reloaded once
+    // when it lacks the site, which may have been created since.
+    let site = (await this.sitesForGrants()).find((candidate) => candidate.siteId === siteId);
+    if (!site) {
+      site = (await this.sitesForGrants(true)).find((candidate) => candidate.siteId === siteId);
+    }
+    if (!site || !grantsSite(grant, site)) {
+      throw new AuthorizationError(grant.principal, `site ${siteId} is not granted`);
+    }
+  }
+
+  private async sitesForGrants(refresh = false): Promise<OmadaSiteSummary[]> {
+    if (!refresh && this.grantSites && Date.now() - this.grantSites.startedAt < GRANT_SITES_TTL_MS) {
+      return this.grantSites.result;
+    }
+
+    const result = this.fetchPaginated<OmadaSiteSummary>(this.buildOmadaPath('/sites'));
+    const entry = { startedAt: Date.now(), result };
+    this.grantSites = entry;
+    // A failed load must not be reused.
+    result.catch(() => {
+      if (this.grantSites === entry) {
+        this.grantSites = undefined;
+      }
+    });
+    return result;
+  }
+
   private ensureSuccess<T>(response: OmadaApiResponse<T>): T {
     if (response.errorCode !== 0) {
       logger.error('Omada API error', {
@@ -197,15 +1285,15 @@ export class OmadaClient {
     }
 
     try {
-      const { data } = await this.http.post<OmadaApiResponse<TokenResult>>(
-        '/openapi/authorize/token',
-        body,
-        { params }
+      const { data } = await this.scheduler.schedule('POST', () =>
+        this.http.post<OmadaApiResponse<TokenResult>>('/openapi/authorize/token', body, { params })
       );
 
       const token = this.ensureSuccess(data);
       this.setToken(token);
+      tokenRefreshes.inc({ controller: this.metricsController, grant_type: grantType, outcome: 'success' });
     } catch (error) {
+      tokenRefreshes.inc({ controller: this.metricsController, grant_type: grantType, outcome: 'error' });
       logger.error('Omada authentication failed', {
         grantType,
         baseUrl: this.http.defaults.baseURL,
@@ -234,6 +1322,30 @@ export class OmadaClient {
     return this.request<T>({ method: 'GET', url: path, params });
   }
 
+  private get metricsController(): string {
+    return this.name ?? 'default';
+  }
+
+  /** Sends one attempt and records its latency by path template and HTTP status. */
+  private async measure<T>(method: string, url: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const observeDuration = apiRequestDuration.startTimer();
+    let status = 'error';
+    try {
+      const response = await this.http.request<T>(config);
+      status = String(response.status);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        status = String(error.response.status);
+      }
+      throw error;
+    } finally {
+      const labels = { controller: this.metricsController, method, path: toOmadaPathTemplate(url), status };
+      apiRequests.inc(labels);
+      observeDuration(labels);
+    }
+  }
+
   private isAuthErrorCode(errorCode?: number): boolean {
     if (errorCode === undefined) {
       return false;
@@ -242,7 +1354,87 @@ export class OmadaClient {
     return [-44106, -44111, -44112, -44113, -44114, -44116].includes(errorCode);
   }
 
-  private async request<T>(config: AxiosRequestConfig, retry = true): Promise<T> {
+  private async request<T>(config: AxiosRequestConfig, options: OmadaRequestOptions = {}): Promise<T> {
+    const method = (config.method ?? 'GET').toUpperCase();
+    const url = config.url ?? '';
+
+    if (this.accessPolicy.isReadOperation(method, url)) {
+      return this.dispatch<T>(config, method, url, options);
+    }
+
+    // Mutations are recorded in the audit trail whether they succeed, fail or are denied.
+    const startedAt = Date.now();
+    try {
+      const response = await this.dispatch<T>(config, method, url, options);
+      const errorCode = (response as { errorCode?: number } | undefined)?.errorCode;
+      this.recordMutation(config, method, url, startedAt, {
+        outcome: errorCode === undefined || errorCode === 0 ? 'success' : 'error',
+        errorCode,
+        error: errorCode ? (response as { msg?: string }).msg : undefined
+      });
+      return response;
+    } catch (error) {
+      this.recordMutation(config, method, url, startedAt, {
+        outcome: error instanceof AccessPolicyError || error instanceof AuthorizationError ? 'denied' : 'error',
+        errorCode: axios.isAxiosError(error)
+          ? (error.response?.data as { errorCode?: number } | undefined)?.errorCode
+          : undefined,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async dispatch<T>(
+    config: AxiosRequestConfig,
+    method: string,
+    url: string,
+    options: OmadaRequestOptions
+  ): Promise<T> {
+    // Enforce the access policy before authenticating so blocked calls never reach the controller.
+    this.accessPolicy.assertAllowed(method, url, options);
+    await this.assertSiteGranted(method, url);
+
+    if (!this.cache) {
+      return this.send<T>(config);
+    }
+
+    if (method === 'GET' && options.cache !== false) {
+      return this.cache.getOrLoad<T>(
+        url,
+        config.params as Record<string, unknown> | undefined,
+        () => this.send<T>(config),
+        (response) => (response as { errorCode?: number } | undefined)?.errorCode === 0
+      );
+    }
+
+    const response = await this.send<T>(config);
+    if (!this.accessPolicy.isReadOperation(method, url)) {
+      this.cache.invalidateFor(url);
+    }
+    return response;
+  }
+
+  private recordMutation(
+    config: AxiosRequestConfig,
+    method: string,
+    url: string,
+    startedAt: number,
+    result: Pick<AuditEvent, 'outcome' | 'errorCode' | 'error'>
+  ): void {
+    void auditTrail.record({
+      type: 'controller',
+      ...auditTrail.currentContext(),
+      controller: this.name,
+      method,
+      path: toRelativeOmadaPath(url),
+      args: OmadaClient.sanitizePayload(config.data),
+      durationMs: Date.now() - startedAt,
+      ...result
+    });
+  }
+
+  private async send<T>(config: AxiosRequestConfig, retry = true): Promise<T> {
     await this.ensureAccessToken();
 
     const requestConfig: AxiosRequestConfig = {
@@ -267,11 +1459,11 @@ export class OmadaClient {
       url,
       headers: this.sanitizeHeaders(requestConfig.headers as AxiosRequestHeaders | undefined),
       params: requestConfig.params ?? null,
-      data: this.sanitizePayload(requestConfig.data)
+      data: OmadaClient.sanitizePayload(requestConfig.data)
     });
 
     try {
-      const response = await this.http.request<T>(requestConfig);
+      const response = await this.scheduler.schedule(method, () => this.measure<T>(method, url, requestConfig));
       logger.info('Omada response', {
         method,
         url,
@@ -283,7 +1475,7 @@ export class OmadaClient {
         url,
         status: response.status,
         headers: this.sanitizeHeaders(response.headers as AxiosRequestHeaders | undefined),
-        data: this.sanitizePayload(response.data)
+        data: OmadaClient.sanitizePayload(response.data)
       });
       return response.data;
     } catch (error) {
@@ -299,7 +1491,7 @@ export class OmadaClient {
           url,
           status: error.response.status,
           headers: this.sanitizeHeaders(error.response.headers as AxiosRequestHeaders | undefined),
-          data: this.sanitizePayload(error.response.data)
+          data: OmadaClient.sanitizePayload(error.response.data)
         });
       }
 
@@ -313,7 +1505,7 @@ export class OmadaClient {
       if (status === 401 || status === 403 || this.isAuthErrorCode(errorCode)) {
         this.clearToken();
         await this.ensureAccessToken();
-        return this.request<T>(config, false);
+        return this.send<T>(config, false);
       }
 
       throw error;
@@ -327,43 +1519,56 @@ export class OmadaClient {
 
     const sanitized: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(headers)) {
-      sanitized[key] = this.isSensitiveKey(key) ? this.maskValue(value) : value;
+      sanitized[key] = OmadaClient.isSensitiveKey(key) ? OmadaClient.maskValue(value, key) : value;
     }
 
     return sanitized;
   }
 
-  private sanitizePayload(payload: unknown): unknown {
+  /**
+   * Masks credentials and other sensitive keys anywhere in a payload before it is logged or returned.
+   */
+  public static sanitizePayload(payload: unknown): unknown {
     if (!payload || typeof payload !== 'object') {
       return payload;
     }
 
     if (Array.isArray(payload)) {
-      return payload.map((item) => this.sanitizePayload(item));
+      return payload.map((item) => OmadaClient.sanitizePayload(item));
     }
 
     const sanitized: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(payload)) {
-      sanitized[key] = this.isSensitiveKey(key) ? this.maskValue(value) : this.sanitizePayload(value);
+      sanitized[key] = OmadaClient.isSensitiveKey(key)
+        ? OmadaClient.maskValue(value, key)
+        : OmadaClient.sanitizePayload(value);
     }
 
     return sanitized;
   }
 
-  private isSensitiveKey(key: string): boolean {
+  private static isSensitiveKey(key: string): boolean {
     const normalized = key.toLowerCase();
     return (
       normalized.includes('authorization') ||
       normalized.includes('token') ||
       normalized.includes('secret') ||
       normalized.includes('password') ||
+      normalized.includes('passphrase') ||
+      normalized.includes('securitykey') ||
       normalized.includes('client_id')
     );
   }
 
-  private maskValue(value: unknown): unknown {
+  /** Passwords and passphrases are short enough that a partial reveal would give most of them away. */
+  private static isSecretKey(key: string): boolean {
+    const normalized = key.toLowerCase();
+    return normalized.includes('password') || normalized.includes('passphrase') || normalized.includes('securitykey');
+  }
+
+  private static maskValue(value: unknown, key: string): unknown {
     if (typeof value === 'string') {
-      if (value.length <= 8) {
+      if (value.length <= 8 || OmadaClient.isSecretKey(key)) {
         return '********';
       }
       return `${value.slice(0, 4)}…${value.slice(-4)}`;
@@ -380,3 +1585,30 @@ export class OmadaClient {
     return '********';
   }
 }
+
+function compileAllowlistPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(
+      `Invalid OMADA_READ_ONLY_ALLOWLIST pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function parseCacheTtlRule(rule: string): CacheTtlRule {
+  const separator = rule.lastIndexOf('=');
+  const ttlMs = separator > 0 ? Number.parseInt(rule.slice(separator + 1), 10) : Number.NaN;
+  if (Number.isNaN(ttlMs) || ttlMs < 0) {
+    throw new Error(`Invalid OMADA_CACHE_TTL_RULES entry "${rule}": expected <pattern>=<milliseconds>`);
+  }
+
+  const pattern = rule.slice(0, separator);
+  try {
+    return { pattern: new RegExp(pattern), ttlMs };
+  } catch (error) {
+    throw new Error(
+      `Invalid OMADA_CACHE_TTL_RULES pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
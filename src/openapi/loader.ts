@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { OpenApiDocument, OpenApiParameter, OpenApiSchema } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+import type { SchemaComponents } from './schemaToZod.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const ALL_GROUPS_KEYWORDS = ['all', '*'];
+
+// Resolves to <package root>/docs/openapi from both src/ and dist/.
+export const DEFAULT_OPENAPI_DIR = fileURLToPath(new URL('../../docs/openapi', import.meta.url));
+
+export type OpenApiHttpMethod = (typeof HTTP_METHODS)[number];
+
+export interface OpenApiOperationDefinition {
+  group: string;
+  operationId: string;
+  toolName: string;
+  method: OpenApiHttpMethod;
+  path: string;
+  summary: string;
+  tags: string[];
+  pathParameters: OpenApiParameter[];
+  queryParameters: OpenApiParameter[];
+  requestBody?: OpenApiSchema;
+  requestBodyRequired: boolean;
+  components: SchemaComponents;
+}
+
+const documentCache = new Map<string, OpenApiDocument>();
+
+export function listOpenApiGroups(directory: string = DEFAULT_OPENAPI_DIR): string[] {
+  return readdirSync(directory)
+    .filter((file) => /^\d+-.+\.json$/.test(file))
+    .map((file) => file.replace(/\.json$/, ''))
+    .sort();
+}
+
+/**
+ * Resolves configured group selectors (e.g. `07-monitor`, `monitor` or `all`) to spec file names.
+ */
+export function resolveOpenApiGroups(selectors: string[], directory: string = DEFAULT_OPENAPI_DIR): string[] {
+  const available = listOpenApiGroups(directory);
+  if (selectors.some((selector) => ALL_GROUPS_KEYWORDS.includes(selector.toLowerCase()))) {
+    return available;
+  }
+
+  const resolved = new Set<string>();
+  for (const selector of selectors) {
+    const normalized = selector.toLowerCase();
+    const match = available.find(
+      (group) => group === normalized || group.replace(/^\d+-/, '') === normalized
+    );
+
+    if (match) {
+      resolved.add(match);
+    } else {
+      logger.warn('Unknown OpenAPI group requested', { group: selector, available });
+    }
+  }
+
+  return [...resolved];
+}
+
+export function loadOpenApiOperations(
+  selectors: string[],
+  directory: string = DEFAULT_OPENAPI_DIR
+): OpenApiOperationDefinition[] {
+  const operations: OpenApiOperationDefinition[] = [];
+  const usedToolNames = new Set<string>();
+
+  for (const group of resolveOpenApiGroups(selectors, directory)) {
+    const document = readDocument(directory, group);
+    const components = document.components?.schemas ?? {};
+
+    for (const [operationPath, pathItem] of Object.entries(document.paths)) {
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation?.operationId || operation.deprecated) {
+          continue;
+        }
+
+        const toolName = buildToolName(operation.operationId, usedToolNames);
+        usedToolNames.add(toolName);
+
+        const parameters = operation.parameters ?? [];
+        const requestContent = operation.requestBody?.content ?? {};
+        const requestBody = requestContent['application/json']?.schema ?? Object.values(requestContent)[0]?.schema;
+
+        operations.push({
+          group,
+          operationId: operation.operationId,
+          toolName,
+          method,
+          path: operationPath,
+          summary: operation.summary ?? operation.operationId,
+          tags: operation.tags ?? [],
+          pathParameters: parameters.filter((parameter) => parameter.in === 'path'),
+          queryParameters: parameters.filter((parameter) => parameter.in === 'query'),
+          requestBody,
+          requestBodyRequired: operation.requestBody?.required ?? false,
+          components
+        });
+      }
+    }
+  }
+
+  logger.info('Loaded OpenAPI operations', { count: operations.length, directory });
+  return operations;
+}
+
+function readDocument(directory: string, group: string): OpenApiDocument {
+  const filePath = path.join(directory, `${group}.json`);
+  const cached = documentCache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  const document = JSON.parse(readFileSync(filePath, 'utf8')) as OpenApiDocument;
+  documentCache.set(filePath, document);
+  return document;
+}
+
+function buildToolName(operationId: string, usedToolNames: Set<string>): string {
+  const base = `omada.api.${operationId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+  let candidate = base;
+  let suffix = 2;
+
+  // Operation IDs are only unique within a single spec file.
+  while (usedToolNames.has(candidate)) {
+    candidate = `${base}_${suffix}`;
+    suffix += 1;
+  }
+
+  return candidate;
+}
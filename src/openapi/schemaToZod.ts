@@ -0,0 +1,163 @@
+import { z } from 'zod';
+
+import type { OpenApiSchema } from '../types/index.js';
+
+const MAX_SCHEMA_DEPTH = 6;
+const COMPONENT_REF_PREFIX = '#/components/schemas/';
+
+export type SchemaComponents = Record<string, OpenApiSchema>;
+
+export function openApiSchemaToZod(
+  schema: OpenApiSchema | undefined,
+  components: SchemaComponents,
+  depth = 0,
+  seenRefs: ReadonlySet<string> = new Set()
+): z.ZodTypeAny {
+  if (!schema || depth > MAX_SCHEMA_DEPTH) {
+    return z.unknown();
+  }
+
+  if (schema.$ref) {
+    // Recursive component references are truncated to keep the generated schema finite.
+    if (seenRefs.has(schema.$ref)) {
+      return z.unknown();
+    }
+
+    const resolved = resolveRef(schema.$ref, components);
+    const nextSeen = new Set(seenRefs).add(schema.$ref);
+    return withDescription(openApiSchemaToZod(resolved, components, depth, nextSeen), schema.description);
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants && variants.length > 0) {
+    const converted = variants.map((variant) => openApiSchemaToZod(variant, components, depth + 1, seenRefs));
+    const union = converted.length === 1 ? converted[0] : z.union(converted as [z.ZodTypeAny, z.ZodTypeAny]);
+    return withDescription(union, schema.description);
+  }
+
+  if (schema.allOf && schema.allOf.length > 0) {
+    const merged = schema.allOf.reduce<OpenApiSchema>(
+      (accumulator, part) =>
+        mergeObjectSchemas(accumulator, (part.$ref ? resolveRef(part.$ref, components) : part) ?? {}),
+      { type: 'object' }
+    );
+    return withDescription(openApiSchemaToZod(merged, components, depth, seenRefs), schema.description);
+  }
+
+  return withDescription(convertTypedSchema(schema, components, depth, seenRefs), schema.description);
+}
+
+function convertTypedSchema(
+  schema: OpenApiSchema,
+  components: SchemaComponents,
+  depth: number,
+  seenRefs: ReadonlySet<string>
+): z.ZodTypeAny {
+  if (schema.enum && schema.enum.length > 0) {
+    return convertEnum(schema.enum);
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      let result = z.string();
+      if (schema.minLength !== undefined) {
+        result = result.min(schema.minLength);
+      }
+      if (schema.maxLength !== undefined) {
+        result = result.max(schema.maxLength);
+      }
+      return result;
+    }
+    case 'integer':
+    case 'number': {
+      let result = schema.type === 'integer' ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) {
+        result = result.min(schema.minimum);
+      }
+      if (schema.maximum !== undefined) {
+        result = result.max(schema.maximum);
+      }
+      return result;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'array': {
+      let result = z.array(openApiSchemaToZod(schema.items, components, depth + 1, seenRefs));
+      if (schema.minItems !== undefined) {
+        result = result.min(schema.minItems);
+      }
+      if (schema.maxItems !== undefined) {
+        result = result.max(schema.maxItems);
+      }
+      return result;
+    }
+    case 'object':
+    case undefined:
+      return convertObject(schema, components, depth, seenRefs);
+    default:
+      return z.unknown();
+  }
+}
+
+function convertObject(
+  schema: OpenApiSchema,
+  components: SchemaComponents,
+  depth: number,
+  seenRefs: ReadonlySet<string>
+): z.ZodTypeAny {
+  const properties = schema.properties ?? {};
+  const propertyNames = Object.keys(properties);
+
+  if (propertyNames.length === 0) {
+    const valueSchema =
+      typeof schema.additionalProperties === 'object'
+        ? openApiSchemaToZod(schema.additionalProperties, components, depth + 1, seenRefs)
+        : z.unknown();
+    return z.record(z.string(), valueSchema);
+  }
+
+  const required = new Set(schema.required ?? []);
+  const shape: z.ZodRawShape = {};
+  for (const name of propertyNames) {
+    const property = openApiSchemaToZod(properties[name], components, depth + 1, seenRefs);
+    shape[name] = required.has(name) ? property : property.optional();
+  }
+
+  return z.object(shape).passthrough();
+}
+
+function convertEnum(values: unknown[]): z.ZodTypeAny {
+  if (values.every((value): value is string => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  const literals = values
+    .filter((value): value is string | number | boolean => ['string', 'number', 'boolean'].includes(typeof value))
+    .map((value): z.ZodTypeAny => z.literal(value));
+
+  if (literals.length === 0) {
+    return z.unknown();
+  }
+
+  return literals.length === 1 ? literals[0] : z.union(literals as [z.ZodTypeAny, z.ZodTypeAny]);
+}
+
+function mergeObjectSchemas(target: OpenApiSchema, source: OpenApiSchema): OpenApiSchema {
+  return {
+    ...target,
+    properties: { ...(target.properties ?? {}), ...(source.properties ?? {}) },
+    required: [...(target.required ?? []), ...(source.required ?? [])]
+  };
+}
+
+function resolveRef(ref: string, components: SchemaComponents): OpenApiSchema | undefined {
+  if (!ref.startsWith(COMPONENT_REF_PREFIX)) {
+    return undefined;
+  }
+
+  return components[ref.slice(COMPONENT_REF_PREFIX.length)];
+}
+
+function withDescription(schema: z.ZodTypeAny, description: string | undefined): z.ZodTypeAny {
+  return description ? schema.describe(description) : schema;
+}
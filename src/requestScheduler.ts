@@ -0,0 +1,223 @@
+import axios from 'axios';
+
+import { logger } from './utils/logger.js';
+import { delay, TokenBucket } from './utils/rateLimit.js';
+
+export interface RequestSchedulerOptions {
+  /** Name used in logs and errors. */
+  controller: string;
+  /** Maximum number of requests in flight at once. */
+  maxConcurrency: number;
+  /** Sustained requests per second; 0 disables rate limiting. */
+  rateLimit: number;
+  /** Number of requests that may be sent at once after an idle period. */
+  rateLimitBurst: number;
+  /** Retries after the first attempt; 0 disables retries. */
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Also retry POST, PATCH and other non-idempotent methods. */
+  retryNonIdempotent: boolean;
+  /** Consecutive failures that open the circuit; 0 disables the circuit breaker. */
+  circuitBreakerThreshold: number;
+  /** Time the circuit stays open before a trial request is let through. */
+  circuitBreakerResetMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** Thrown without contacting the controller while the circuit breaker is open. */
+export class CircuitOpenError extends Error {
+  public readonly code = 'CONTROLLER_UNAVAILABLE';
+
+  constructor(
+    public readonly controller: string,
+    public readonly retryAt: Date
+  ) {
+    super(
+      `Omada controller "${controller}" is unavailable after repeated failures; requests are suspended until ${retryAt.toISOString()}`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * `unavailable` covers network errors, timeouts and 5xx responses, which also count towards the
+ * circuit breaker; `throttled` is a 429 response. Other errors are not retried.
+ */
+function classifyFailure(error: unknown): 'unavailable' | 'throttled' | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return 'unavailable';
+  }
+  if (status === 429) {
+    return 'throttled';
+  }
+  return status >= 500 ? 'unavailable' : undefined;
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+
+  const header = error.response?.headers?.['retry-after'] as string | undefined;
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Sends controller requests with bounded concurrency, a token-bucket rate limit, retries with
+ * exponential backoff and full jitter, and a circuit breaker that fails fast while the controller
+ * is down.
+ */
+export class RequestScheduler {
+  private readonly bucket?: TokenBucket;
+
+  private active = 0;
+
+  private readonly waiting: (() => void)[] = [];
+
+  private state: CircuitState = 'closed';
+
+  private consecutiveFailures = 0;
+
+  private openUntil = 0;
+
+  private trialInFlight = false;
+
+  constructor(private readonly options: RequestSchedulerOptions) {
+    if (options.rateLimit > 0) {
+      this.bucket = new TokenBucket(Math.max(options.rateLimitBurst, 1), options.rateLimit);
+    }
+  }
+
+  public get circuitState(): CircuitState {
+    return this.state;
+  }
+
+  public async schedule<T>(method: string, operation: () => Promise<T>): Promise<T> {
+    const retryable = this.options.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method.toUpperCase());
+
+    for (let attempt = 0; ; attempt += 1) {
+      this.enterCircuit();
+      await this.bucket?.take();
+      await this.acquireSlot();
+
+      let backoffMs: number;
+      try {
+        const result = await operation();
+        this.recordResult(undefined);
+        return result;
+      } catch (error) {
+        const failure = classifyFailure(error);
+        this.recordResult(failure);
+        if (!failure || !retryable || attempt >= this.options.maxRetries || this.state === 'open') {
+          throw error;
+        }
+
+        backoffMs = this.backoff(attempt, error);
+        logger.warn('Retrying Omada request', {
+          controller: this.options.controller,
+          method,
+          attempt: attempt + 1,
+          backoffMs,
+          reason: failure,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      } finally {
+        this.releaseSlot();
+      }
+
+      await delay(backoffMs);
+    }
+  }
+
+  private backoff(attempt: number, error: unknown): number {
+    const exponential = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+    const jittered = Math.round(Math.random() * exponential);
+    const requested = retryAfterMs(error);
+    return requested === undefined ? jittered : Math.min(Math.max(requested, jittered), this.options.retryMaxDelayMs);
+  }
+
+  private enterCircuit(): void {
+    if (this.options.circuitBreakerThreshold === 0 || this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half-open';
+      logger.info('Omada circuit half-open; sending a trial request', { controller: this.options.controller });
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.options.controller, new Date(this.openUntil));
+  }
+
+  /** Any response other than an `unavailable` failure shows that the controller is reachable. */
+  private recordResult(failure: ReturnType<typeof classifyFailure>): void {
+    if (this.options.circuitBreakerThreshold === 0) {
+      return;
+    }
+
+    const wasTrial = this.state === 'half-open';
+    this.trialInFlight = false;
+
+    if (failure !== 'unavailable') {
+      if (this.state !== 'closed') {
+        logger.info('Omada circuit closed', { controller: this.options.controller });
+      }
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return;
+    }
+
+    this.consecutiveFailures += 1;
+    if (wasTrial || this.consecutiveFailures >= this.options.circuitBreakerThreshold) {
+      this.state = 'open';
+      this.openUntil = Date.now() + this.options.circuitBreakerResetMs;
+      logger.warn('Omada circuit opened', {
+        controller: this.options.controller,
+        consecutiveFailures: this.consecutiveFailures,
+        retryAt: new Date(this.openUntil).toISOString()
+      });
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active += 1;
+      return;
+    }
+
+    // The releasing request hands its slot over, so `active` stays unchanged.
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active -= 1;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { ListResourcesResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+
+import { clientListUri, clientUri, deviceListUri, deviceUri, sitesUri } from './resourceUri.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+function toResourceContents(uri: URL, payload: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(payload, null, 2)
+      }
+    ]
+  };
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) {
+    throw new Error(`Missing resource URI variable: ${name}`);
+  }
+
+  return decodeURIComponent(resolved);
+}
+
+/**
+ * Registers read-only `omada://` resources for sites, devices and clients. Resources are always
+ * served from the primary controller; use the tools with a `controller` argument for the others.
+ */
+export function registerOmadaResources(server: McpServer, registry: ControllerRegistry): void {
+  const listSiteIds = async (): Promise<string[]> => (await registry.get().listSites()).map((site) => site.siteId);
+
+  const completeSiteId = async (value: string): Promise<string[]> =>
+    (await listSiteIds()).filter((siteId) => siteId.startsWith(value));
+
+  server.registerResource(
+    'omada-sites',
+    sitesUri(),
+    {
+      title: 'Omada sites',
+      description: 'All sites configured on the primary Omada controller.',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri) => toResourceContents(uri, await registry.get().listSites())
+  );
+
+  server.registerResource(
+    'omada-site-devices',
+    new ResourceTemplate('omada://sites/{siteId}/devices', {
+      list: async (): Promise<ListResourcesResult> => {
+        const sites = await registry.get().listSites();
+        return {
+          resources: sites.map((site) => ({
+            uri: deviceListUri(site.siteId),
+            name: `${site.name} devices`,
+            mimeType: JSON_MIME_TYPE
+          }))
+        };
+      },
+      complete: { siteId: completeSiteId }
+    }),
+    {
+      title: 'Site devices',
+      description: 'Devices provisioned in a site. Subscribe to be notified when a device status changes.',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => toResourceContents(uri, await registry.get().listDevices(variable(variables, 'siteId')))
+  );
+
+  server.registerResource(
+    'omada-device',
+    new ResourceTemplate('omada://sites/{siteId}/devices/{mac}', {
+      list: async (): Promise<ListResourcesResult> => {
+        const client = registry.get();
+        const resources: ListResourcesResult['resources'] = [];
+        for (const siteId of await listSiteIds()) {
+          for (const device of await client.listDevices(siteId)) {
+            resources.push({
+              uri: deviceUri(siteId, device.mac),
+              name: device.name ?? device.mac,
+              description: [device.type, device.model].filter(Boolean).join(' ') || undefined,
+              mimeType: JSON_MIME_TYPE
+            });
+          }
+        }
+        return { resources };
+      },
+      complete: { siteId: completeSiteId }
+    }),
+    {
+      title: 'Omada device',
+      description: 'A single device by MAC address. Subscribe to be notified when its status changes.',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => {
+      const siteId = variable(variables, 'siteId');
+      const mac = variable(variables, 'mac');
+      const device = await registry.get().getDevice(mac, siteId);
+      if (!device) {
+        throw new Error(`Device ${mac} not found in site ${siteId}`);
+      }
+
+      return toResourceContents(uri, device);
+    }
+  );
+
+  server.registerResource(
+    'omada-site-clients',
+    new ResourceTemplate('omada://sites/{siteId}/clients', {
+      list: async (): Promise<ListResourcesResult> => {
+        const sites = await registry.get().listSites();
+        return {
+          resources: sites.map((site) => ({
+            uri: clientListUri(site.siteId),
+            name: `${site.name} clients`,
+            mimeType: JSON_MIME_TYPE
+          }))
+        };
+      },
+      complete: { siteId: completeSiteId }
+    }),
+    {
+      title: 'Site clients',
+      description: 'Clients connected to a site. Subscribe to be notified when clients connect or disconnect.',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => toResourceContents(uri, await registry.get().listClients(variable(variables, 'siteId')))
+  );
+
+  server.registerResource(
+    'omada-client',
+    new ResourceTemplate('omada://sites/{siteId}/clients/{mac}', {
+      list: async (): Promise<ListResourcesResult> => {
+        const client = registry.get();
+        const resources: ListResourcesResult['resources'] = [];
+        for (const siteId of await listSiteIds()) {
+          for (const entry of await client.listClients(siteId)) {
+            resources.push({
+              uri: clientUri(siteId, entry.mac),
+              name: entry.name ?? entry.hostName ?? entry.mac,
+              mimeType: JSON_MIME_TYPE
+            });
+          }
+        }
+        return { resources };
+      },
+      complete: { siteId: completeSiteId }
+    }),
+    {
+      title: 'Omada client',
+      description:
+        'A single client by MAC address. Subscribe to be notified when it connects, disconnects or roams to another AP or SSID.',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri, variables) => {
+      const siteId = variable(variables, 'siteId');
+      const mac = variable(variables, 'mac');
+      const client = await registry.get().getClient(mac, siteId);
+      if (!client) {
+        throw new Error(`Client ${mac} not found in site ${siteId}`);
+      }
+
+      return toResourceContents(uri, client);
+    }
+  );
+}
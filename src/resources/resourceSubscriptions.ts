@@ -0,0 +1,163 @@
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import type { OmadaClientInfo, OmadaDeviceInfo } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { isSameMac } from '../utils/mac.js';
+
+import { type OmadaResourceTarget, parseResourceUri } from './resourceUri.js';
+
+interface Subscription {
+  target: OmadaResourceTarget;
+  fingerprint?: string;
+}
+
+interface SiteSnapshot {
+  devices?: OmadaDeviceInfo[];
+  clients?: OmadaClientInfo[];
+}
+
+/**
+ * Tracks `resources/subscribe` requests and polls the primary controller while at least one
+ * subscription is active. A `notifications/resources/updated` notification is sent whenever the
+ * watched state of a resource changes: device status for devices and connection state (connected,
+ * AP, SSID) for clients.
+ */
+export class ResourceSubscriptionManager {
+  private readonly subscriptions = new Map<string, Subscription>();
+
+  private timer?: NodeJS.Timeout;
+
+  private polling = false;
+
+  constructor(
+    private readonly registry: ControllerRegistry,
+    private readonly notify: (uri: string) => Promise<void>,
+    private readonly intervalMs: number
+  ) {}
+
+  public async subscribe(uri: string): Promise<void> {
+    const target = parseResourceUri(uri);
+    if (!target) {
+      throw new Error(`Unsupported Omada resource URI: ${uri}`);
+    }
+
+    const previous = this.subscriptions.get(uri);
+    const subscription: Subscription = { target };
+    this.subscriptions.set(uri, subscription);
+    try {
+      // Record the current state so the first poll only reports real changes.
+      subscription.fingerprint = await this.fingerprint(target, new Map());
+    } catch (error) {
+      // A failed subscribe must not leave a subscription behind that the client does not know of.
+      if (this.subscriptions.get(uri) === subscription) {
+        if (previous) {
+          this.subscriptions.set(uri, previous);
+        } else {
+          this.subscriptions.delete(uri);
+        }
+      }
+      if (this.subscriptions.size === 0) {
+        this.stop();
+      }
+      throw error;
+    }
+    this.ensureTimer();
+
+    logger.info('Resource subscribed', { uri, subscriptions: this.subscriptions.size });
+  }
+
+  public unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+
+    logger.info('Resource unsubscribed', { uri, subscriptions: this.subscriptions.size });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private ensureTimer(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.intervalMs);
+    // Polling must not keep the process alive once the transport has closed.
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    // Skip overlapping ticks when the controller is slower than the poll interval.
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    const snapshots = new Map<string, SiteSnapshot>();
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        try {
+          const fingerprint = await this.fingerprint(subscription.target, snapshots);
+          if (fingerprint !== subscription.fingerprint) {
+            subscription.fingerprint = fingerprint;
+            logger.info('Resource updated', { uri });
+            await this.notify(uri);
+          }
+        } catch (error) {
+          logger.warn('Resource poll failed', {
+            uri,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async fingerprint(target: OmadaResourceTarget, snapshots: Map<string, SiteSnapshot>): Promise<string> {
+    const client = this.registry.get();
+
+    if (target.kind === 'sites') {
+      const sites = await client.listSites();
+      return JSON.stringify(sites.map((site) => [site.siteId, site.name]).sort());
+    }
+
+    const snapshot = snapshots.get(target.siteId) ?? {};
+    snapshots.set(target.siteId, snapshot);
+
+    if (target.kind === 'devices' || target.kind === 'device') {
+      snapshot.devices ??= await client.listDevices(target.siteId);
+      if (target.kind === 'devices') {
+        return JSON.stringify(snapshot.devices.map((device) => [device.mac, device.status]).sort());
+      }
+
+      const device = snapshot.devices.find((candidate) => isSameMac(candidate.mac, target.mac));
+      return JSON.stringify(device ? { status: device.status } : null);
+    }
+
+    snapshot.clients ??= await client.listClients(target.siteId);
+    if (target.kind === 'clients') {
+      return JSON.stringify(
+        snapshot.clients
+          .filter((candidate) => candidate.active !== false)
+          .map((candidate) => candidate.mac)
+          .sort()
+      );
+    }
+
+    const match = snapshot.clients.find((candidate) => isSameMac(candidate.mac, target.mac));
+    return JSON.stringify({
+      connected: Boolean(match && match.active !== false),
+      apMac: match?.apMac,
+      ssid: match?.ssid
+    });
+  }
+}
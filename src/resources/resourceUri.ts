@@ -0,0 +1,65 @@
+export const RESOURCE_SCHEME = 'omada:';
+
+export type OmadaResourceTarget =
+  | { kind: 'sites' }
+  | { kind: 'devices'; siteId: string }
+  | { kind: 'device'; siteId: string; mac: string }
+  | { kind: 'clients'; siteId: string }
+  | { kind: 'client'; siteId: string; mac: string };
+
+export function sitesUri(): string {
+  return 'omada://sites';
+}
+
+export function deviceListUri(siteId: string): string {
+  return `omada://sites/${encodeURIComponent(siteId)}/devices`;
+}
+
+export function deviceUri(siteId: string, mac: string): string {
+  return `${deviceListUri(siteId)}/${encodeURIComponent(mac)}`;
+}
+
+export function clientListUri(siteId: string): string {
+  return `omada://sites/${encodeURIComponent(siteId)}/clients`;
+}
+
+export function clientUri(siteId: string, mac: string): string {
+  return `${clientListUri(siteId)}/${encodeURIComponent(mac)}`;
+}
+
+/**
+ * Parses an `omada://` resource URI. Returns `undefined` for URIs that do not address a
+ * supported resource.
+ */
+export function parseResourceUri(uri: string): OmadaResourceTarget | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
+
+  if (url.protocol !== RESOURCE_SCHEME || url.hostname !== 'sites') {
+    return undefined;
+  }
+
+  const segments = url.pathname
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => decodeURIComponent(segment));
+
+  if (segments.length === 0) {
+    return { kind: 'sites' };
+  }
+
+  const [siteId, collection, mac] = segments;
+  if (segments.length > 3 || (collection !== 'devices' && collection !== 'clients')) {
+    return undefined;
+  }
+
+  if (!mac) {
+    return collection === 'devices' ? { kind: 'devices', siteId } : { kind: 'clients', siteId };
+  }
+
+  return collection === 'devices' ? { kind: 'device', siteId, mac } : { kind: 'client', siteId, mac };
+}
@@ -0,0 +1,202 @@
+import { logger } from './utils/logger.js';
+import { toRelativeOmadaPath } from './utils/omadaPath.js';
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for {@link ResponseCache}. Implementations may be swapped (e.g. for a shared
+ * store) as long as they honour the expiry stored with each entry.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  keys(): Iterable<string>;
+  clear(): void;
+}
+
+export interface CacheTtlRule {
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+export interface ResponseCacheOptions {
+  defaultTtlMs: number;
+  rules?: CacheTtlRule[];
+  store?: CacheStore;
+}
+
+/**
+ * TTLs for frequently used endpoints, matched against the path after `/openapi/v{n}/{omadacId}`.
+ * Configured rules take precedence over these defaults.
+ */
+export const DEFAULT_CACHE_TTL_RULES: readonly CacheTtlRule[] = [
+  { pattern: /^\/sites$/, ttlMs: 300_000 },
+  { pattern: /^\/sites\/[^/]+\/devices$/, ttlMs: 30_000 },
+  { pattern: /^\/sites\/[^/]+\/clients$/, ttlMs: 15_000 },
+  { pattern: /\/(adopt-result|status|result|backup\/files)$/, ttlMs: 0 }
+];
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  public get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Re-insert to keep the map ordered by recent use for eviction.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  public set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public keys(): Iterable<string> {
+    return [...this.entries.keys()];
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class ResponseCache {
+  private readonly store: CacheStore;
+
+  private readonly rules: readonly CacheTtlRule[];
+
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  private hits = 0;
+
+  private misses = 0;
+
+  constructor(private readonly options: ResponseCacheOptions) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.rules = [...(options.rules ?? []), ...DEFAULT_CACHE_TTL_RULES];
+  }
+
+  public static buildKey(url: string, params?: Record<string, unknown>): string {
+    if (!params) {
+      return url;
+    }
+
+    const entries = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .sort(([left], [right]) => left.localeCompare(right));
+
+    return entries.length > 0 ? `${url}?${JSON.stringify(entries)}` : url;
+  }
+
+  public get stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Returns a cached value or runs the loader. Concurrent calls with the same key share a single
+   * in-flight request. Values rejected by `shouldStore` (e.g. Omada error envelopes) are not cached.
+   * Every caller gets its own copy, so mutating a result never alters the cached entry.
+   */
+  public async getOrLoad<T>(
+    url: string,
+    params: Record<string, unknown> | undefined,
+    loader: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const ttlMs = this.ttlFor(url);
+    if (ttlMs <= 0) {
+      return loader();
+    }
+
+    const key = ResponseCache.buildKey(url, params);
+    const cached = this.store.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.hits += 1;
+      logger.info('Omada cache hit', { key, expiresInMs: cached.expiresAt - Date.now() });
+      return structuredClone(cached.value) as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.hits += 1;
+      logger.debug('Omada cache coalesced request', { key });
+      return pending.then((value) => structuredClone(value) as T);
+    }
+
+    this.misses += 1;
+    logger.debug('Omada cache miss', { key, ttlMs });
+
+    const load = (async () => {
+      try {
+        const value = await loader();
+        if (shouldStore(value)) {
+          this.store.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  /**
+   * Drops cached entries affected by a mutating request. Site-scoped mutations invalidate that
+   * site's data plus controller-level listings; anything else clears the whole cache.
+   */
+  public invalidateFor(url: string): void {
+    const siteMatch = /\/sites\/([^/?]+)/.exec(url);
+    if (!siteMatch) {
+      this.clear();
+      logger.info('Omada cache cleared', { reason: url });
+      return;
+    }
+
+    const sitePrefix = `/sites/${siteMatch[1]}`;
+    let removed = 0;
+    for (const key of this.store.keys()) {
+      const path = toRelativeOmadaPath(key);
+      if (path.startsWith(`${sitePrefix}/`) || path === sitePrefix || !path.startsWith('/sites/')) {
+        this.store.delete(key);
+        removed += 1;
+      }
+    }
+
+    logger.info('Omada cache invalidated', { site: siteMatch[1], removed, reason: url });
+  }
+
+  public clear(): void {
+    this.store.clear();
+  }
+
+  private ttlFor(url: string): number {
+    const path = toRelativeOmadaPath(url);
+    const rule = this.rules.find((candidate) => candidate.pattern.test(path));
+    return rule ? rule.ttlMs : this.options.defaultTtlMs;
+  }
+}
@@ -1,53 +1,79 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import type {
-  CallToolResult,
-  ServerNotification,
-  ServerRequest
-} from '@modelcontextprotocol/sdk/types.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
-import type { OmadaClient } from './omadaClient.js';
+import { getAuthorizationGrant, isCategoryAllowed, isToolAllowed, runWithGrant } from './authz/authorizationContext.js';
+import { AuthorizationError } from './authz/authorizationPolicy.js';
+import type { ControllerRegistry } from './controllerRegistry.js';
+import { mcpRequestDuration, mcpRequests } from './metrics/omadaMetrics.js';
+import { registerOmadaResources } from './resources/omadaResources.js';
+import { ResourceSubscriptionManager } from './resources/resourceSubscriptions.js';
+import { DEVICE_STATUSES } from './services/deviceService.js';
+import { registerAuditTools } from './tools/auditTools.js';
+import { registerClientTools } from './tools/clientTools.js';
+import {
+  clientIdSchema,
+  confirmSchema,
+  controllerInputSchema,
+  deviceIdSchema,
+  listOptionsSchema,
+  safeSerialize,
+  siteInputSchema,
+  toToolResult,
+  wrapToolHandler
+} from './tools/common.js';
+import { registerControllerTools } from './tools/controllerTools.js';
+import { registerDeviceTools } from './tools/deviceTools.js';
+import { registerFirewallTools } from './tools/firewallTools.js';
+import { registerFirmwareTools } from './tools/firmwareTools.js';
+import { registerHotspotTools } from './tools/hotspotTools.js';
+import { registerLogTools } from './tools/logTools.js';
+import { registerMaintenanceTools } from './tools/maintenanceTools.js';
+import { registerMonitorTools } from './tools/monitorTools.js';
+import { registerNetworkTools } from './tools/networkTools.js';
+import { registerOpenApiTools } from './tools/openApiTools.js';
+import { registerSecurityTools } from './tools/securityTools.js';
+import { registerSwitchTools } from './tools/switchTools.js';
+import { registerWirelessTools } from './tools/wirelessTools.js';
 import { logger } from './utils/logger.js';
 
-const siteInputSchema = z.object({
-  siteId: z.string().min(1).optional()
+const ipCidrSchema = z.string().min(1).describe('IPv4 address or CIDR range, e.g. 192.168.10.0/24.');
+
+const deviceListSchema = siteInputSchema.merge(listOptionsSchema).extend({
+  status: z.enum(DEVICE_STATUSES).optional(),
+  online: z.boolean().optional(),
+  type: z.string().min(1).optional().describe('Device type, e.g. gateway, switch or ap.'),
+  model: z.string().min(1).optional().describe('Model substring.'),
+  name: z.string().min(1).optional().describe('Name substring.'),
+  ipCidr: ipCidrSchema.optional(),
+  tag: z.string().min(1).optional(),
+  search: z.string().min(1).optional().describe('Controller-side fuzzy search over name, MAC and IP.')
 });
 
-const clientIdSchema = siteInputSchema.extend({
-  clientId: z.string().min(1, 'clientId (MAC or client identifier) is required')
+const clientListSchema = siteInputSchema.merge(listOptionsSchema).extend({
+  online: z.boolean().optional(),
+  wireless: z.boolean().optional(),
+  ssid: z.string().min(1).optional(),
+  vlan: z.number().int().min(0).max(4094).optional(),
+  name: z.string().min(1).optional().describe('Name or hostname substring.'),
+  ipCidr: ipCidrSchema.optional(),
+  apMac: z.string().min(1).optional(),
+  deviceType: z.string().min(1).optional(),
+  blocked: z.boolean().optional(),
+  search: z.string().min(1).optional().describe('Controller-side fuzzy search over name, MAC, IP, SSID and AP.')
 });
 
-const deviceIdSchema = siteInputSchema.extend({
-  deviceId: z.string().min(1, 'deviceId (MAC or device identifier) is required')
-});
-
-const customRequestSchema = z.object({
+const customRequestSchema = controllerInputSchema.extend({
   method: z.string().default('GET'),
   url: z.string().min(1, 'A controller API path is required'),
   params: z.record(z.string(), z.unknown()).optional(),
   data: z.unknown().optional(),
-  siteId: z.string().min(1).optional()
+  siteId: z.string().min(1).optional(),
+  confirm: confirmSchema
 });
 
-function toToolResult(value: unknown) {
-  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? '';
-
-  return {
-    content: text ? [{ type: 'text' as const, text }] : []
-  };
-}
-
-function safeSerialize(value: unknown) {
-  try {
-    return JSON.stringify(value);
-  } catch {
-    return '[unserializable]';
-  }
-}
-
 function summarizeSuccess(method: string, result: unknown): Record<string, unknown> | undefined {
   if (!result || typeof result !== 'object') {
     return undefined;
@@ -78,41 +104,35 @@ function summarizeSuccess(method: string, result: unknown): Record<string, unkno
   return undefined;
 }
 
-type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
-
-function wrapToolHandler<Args extends z.ZodRawShape>(
-  name: string,
-  handler: (
-    args: z.objectOutputType<Args, z.ZodTypeAny>,
-    extra: ToolExtra
-  ) => Promise<CallToolResult>
-): (
-  args: z.objectOutputType<Args, z.ZodTypeAny>,
-  extra: ToolExtra
-) => Promise<CallToolResult> {
-  return async (
-    args: z.objectOutputType<Args, z.ZodTypeAny>,
-    extra: ToolExtra
-  ): Promise<CallToolResult> => {
-    const sessionId = extra.sessionId ?? 'unknown-session';
-    logger.info('Tool invoked', { tool: name, sessionId, args: safeSerialize(args) });
-
-    try {
-      const result = await handler(args, extra);
-      logger.info('Tool completed', { tool: name, sessionId });
-      return result;
-    } catch (error) {
-      logger.error('Tool failed', {
-        tool: name,
-        sessionId,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
-    }
-  };
+/** Drops tools the caller is not authorized to call from a `tools/list` result. */
+function filterToolList<T>(result: T, allowed: (name: string) => boolean): T {
+  const payload = result as { tools?: { name: string }[] };
+  if (!Array.isArray(payload.tools)) {
+    return result;
+  }
+
+  return { ...result, tools: payload.tools.filter((tool) => allowed(tool.name)) };
+}
+
+/** Resource requests that return controller state; they need the `read` category like lookup tools. */
+const RESOURCE_READ_METHODS = new Set(['resources/read', 'resources/subscribe']);
+
+/** Resource listings and the key that holds their entries. */
+const RESOURCE_LIST_KEYS: Record<string, string> = {
+  'resources/list': 'resources',
+  'resources/templates/list': 'resourceTemplates'
+};
+
+export interface CreateServerOptions {
+  openApiGroups?: string[];
+  openApiDir?: string;
+  /** Interval in milliseconds at which subscribed resources are polled for changes. */
+  resourcePollInterval?: number;
 }
 
-export function createServer(client: OmadaClient): McpServer {
+const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 30_000;
+
+export function createServer(registry: ControllerRegistry, options: CreateServerOptions = {}): McpServer {
   const server = new McpServer({
     name: 'tplink-omada-mcp',
     version: '0.1.0'
@@ -135,13 +155,29 @@ export function createServer(client: OmadaClient): McpServer {
         logFields.params = safeSerialize((request as { params: unknown }).params);
       }
       logger.info('MCP request received', logFields);
+      const observeDuration = mcpRequestDuration.startTimer();
 
       try {
-        const result = await handler(request, extra);
+        // Every handler runs on behalf of the caller's grant; see src/authz.
+        const grant = getAuthorizationGrant(extra.authInfo);
+        const canRead = isCategoryAllowed(grant, 'read');
+        if (grant && !canRead && RESOURCE_READ_METHODS.has(method)) {
+          throw new AuthorizationError(grant.principal, `${method} requires the read category`);
+        }
+        // Without `read`, resource listings come back empty instead of querying the controller.
+        const listKey = RESOURCE_LIST_KEYS[method];
+        let result = !canRead && listKey ? { [listKey]: [] } : await runWithGrant(grant, () => handler(request, extra));
+        if (grant && method === 'tools/list') {
+          result = filterToolList(result, (name) => isToolAllowed(grant, name));
+        }
         const summary = summarizeSuccess(method, result);
         logger.info('MCP request handled', summary ? { method, sessionId, ...summary } : { method, sessionId });
+        mcpRequests.inc({ method, outcome: 'success' });
+        observeDuration({ method });
         return result;
       } catch (error) {
+        mcpRequests.inc({ method, outcome: 'error' });
+        observeDuration({ method });
         logger.error('MCP request failed', {
           method,
           sessionId,
@@ -167,7 +203,14 @@ export function createServer(client: OmadaClient): McpServer {
     }
   };
 
+  const subscriptions = new ResourceSubscriptionManager(
+    registry,
+    (uri) => server.server.sendResourceUpdated({ uri }),
+    options.resourcePollInterval ?? DEFAULT_RESOURCE_POLL_INTERVAL_MS
+  );
+
   server.server.onclose = () => {
+    subscriptions.stop();
     logger.warn('Server connection closed');
   };
 
@@ -195,46 +238,35 @@ export function createServer(client: OmadaClient): McpServer {
   server.registerTool(
     'omada.listSites',
     {
-      description: 'List all sites configured on the Omada controller.'
+      description: 'List all sites configured on the Omada controller.',
+      inputSchema: controllerInputSchema.shape
     },
-    async (extra) => {
-      const sessionId = extra.sessionId ?? 'unknown-session';
-      logger.info('Tool invoked', { tool: 'omada.listSites', sessionId });
-
-      try {
-        const result = toToolResult(await client.listSites());
-        logger.info('Tool completed', { tool: 'omada.listSites', sessionId });
-        return result;
-      } catch (error) {
-        logger.error('Tool failed', {
-          tool: 'omada.listSites',
-          sessionId,
-          error: error instanceof Error ? error.message : String(error)
-        });
-        throw error;
-      }
-    }
+    wrapToolHandler('omada.listSites', 'read', async ({ controller }) =>
+      toToolResult(await registry.get(controller).listSites())
+    )
   );
 
   server.registerTool(
     'omada.listDevices',
     {
-      description: 'List provisioned network devices for a specific site.',
-      inputSchema: siteInputSchema.shape
+      description:
+        'List provisioned network devices for a site with optional filters, sorting, paging (default limit 100) and field projection.',
+      inputSchema: deviceListSchema.shape
     },
-    wrapToolHandler('omada.listDevices', async ({ siteId }) =>
-      toToolResult(await client.listDevices(siteId))
+    wrapToolHandler('omada.listDevices', 'read', async ({ controller, siteId, ...query }) =>
+      toToolResult(await registry.get(controller).searchDevices(query, siteId))
     )
   );
 
   server.registerTool(
     'omada.listClients',
     {
-      description: 'List network clients connected to a site.',
-      inputSchema: siteInputSchema.shape
+      description:
+        'List network clients connected to a site with optional filters, sorting, paging (default limit 100) and field projection.',
+      inputSchema: clientListSchema.shape
     },
-    wrapToolHandler('omada.listClients', async ({ siteId }) =>
-      toToolResult(await client.listClients(siteId))
+    wrapToolHandler('omada.listClients', 'read', async ({ controller, siteId, ...query }) =>
+      toToolResult(await registry.get(controller).searchClients(query, siteId))
     )
   );
 
@@ -244,19 +276,19 @@ export function createServer(client: OmadaClient): McpServer {
       description: 'Fetch detailed information for a specific Omada device.',
       inputSchema: deviceIdSchema.shape
     },
-    wrapToolHandler('omada.getDevice', async ({ deviceId, siteId }) =>
-      toToolResult(await client.getDevice(deviceId, siteId))
+    wrapToolHandler('omada.getDevice', 'read', async ({ controller, deviceId, siteId }) =>
+      toToolResult(await registry.get(controller).getDevice(deviceId, siteId))
     )
   );
 
   server.registerTool(
     'omada.getClient',
     {
-      description: 'Fetch details for a specific Omada client.',
+      description: 'Fetch details for a specific Omada client by MAC, client ID, hostname or name.',
       inputSchema: clientIdSchema.shape
     },
-    wrapToolHandler('omada.getClient', async ({ clientId, siteId }) =>
-      toToolResult(await client.getClient(clientId, siteId))
+    wrapToolHandler('omada.getClient', 'read', async ({ controller, clientId, siteId }) =>
+      toToolResult(await registry.get(controller).getClient(clientId, siteId))
     )
   );
 
@@ -264,28 +296,66 @@ export function createServer(client: OmadaClient): McpServer {
     'omada.callApi',
     {
       description:
-        'Call an arbitrary API path on the Omada controller. The provided URL should be a path, for example /openapi/v1/{omadacId}/sites',
+        'Call an arbitrary API path on the Omada controller. The provided URL should be a path, for example /openapi/v1/{omadacId}/sites. Mutating methods are subject to the server access mode (read-only, confirm-writes or full).',
       inputSchema: customRequestSchema.shape
     },
-    wrapToolHandler('omada.callApi', async ({ method, url, params, data, siteId }) => {
+    wrapToolHandler('omada.callApi', 'config-writes', async ({ controller, method, url, params, data, siteId, confirm }) => {
       const resolvedUrl = siteId ? url.replace('{siteId}', siteId) : url;
 
-      const payload = await client.callApi({
-        method,
-        url: resolvedUrl,
-        params,
-        data
-      });
+      const payload = await registry.get(controller).callApi(
+        {
+          method,
+          url: resolvedUrl,
+          params,
+          data
+        },
+        { confirmed: confirm }
+      );
 
       return toToolResult(payload);
     })
   );
 
+  registerControllerTools(server, registry);
+  registerDeviceTools(server, registry);
+  registerFirmwareTools(server, registry);
+  registerClientTools(server, registry);
+  registerLogTools(server, registry);
+  registerMonitorTools(server, registry);
+  registerMaintenanceTools(server, registry);
+  registerWirelessTools(server, registry);
+  registerSwitchTools(server, registry);
+  registerNetworkTools(server, registry);
+  registerFirewallTools(server, registry);
+  registerHotspotTools(server, registry);
+  registerSecurityTools(server, registry);
+  registerAuditTools(server);
+
+  registerOmadaResources(server, registry);
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  registerOpenApiTools(server, registry, {
+    groups: options.openApiGroups,
+    directory: options.openApiDir
+  });
+
   return server;
 }
 
-export async function startServer(client: OmadaClient, transport?: Transport): Promise<void> {
-  const server = createServer(client);
+export async function startServer(
+  registry: ControllerRegistry,
+  transport?: Transport,
+  options: CreateServerOptions = {}
+): Promise<void> {
+  const server = createServer(registry, options);
   const activeTransport = transport ?? new StdioServerTransport();
   logger.info('Connecting server', { transport: activeTransport.constructor.name });
   await server.connect(activeTransport);
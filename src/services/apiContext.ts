@@ -0,0 +1,21 @@
+import type { AxiosRequestConfig } from 'axios';
+
+import type { OmadaApiResponse, OmadaRequestOptions } from '../types/index.js';
+
+export type OmadaApiVersion = 'v1' | 'v2';
+
+/**
+ * Request primitives exposed by {@link OmadaClient} to the per-tag service modules. All calls
+ * still flow through `OmadaClient.request`, so authentication and the access policy apply.
+ */
+export interface OmadaApiContext {
+  request<T>(config: AxiosRequestConfig, options?: OmadaRequestOptions): Promise<T>;
+  /** Sends a request and unwraps the `result` of the Omada response envelope. */
+  execute<T>(config: AxiosRequestConfig, options?: OmadaRequestOptions): Promise<T>;
+  get<T>(path: string, params?: Record<string, unknown>): Promise<T>;
+  fetchPaginated<T>(path: string, params?: Record<string, unknown>): Promise<T[]>;
+  ensureSuccess<T>(response: OmadaApiResponse<T>): T;
+  /** Builds `/openapi/{version}/{omadacId}{relativePath}`; `version` defaults to `v1`. */
+  buildOmadaPath(relativePath: string, version?: OmadaApiVersion): string;
+  resolveSiteId(siteId?: string): string;
+}
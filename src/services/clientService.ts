@@ -0,0 +1,330 @@
+import type { ListPage, OmadaActionResult, OmadaClientInfo, OmadaRequestOptions } from '../types/index.js';
+import { isIpv4InCidr, parseIpv4Cidr } from '../utils/ip.js';
+import { applyListOptions, includesText, type ListOptions } from '../utils/listQuery.js';
+import { isSameMac, normalizeMac } from '../utils/mac.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import { AmbiguousIdentifierError } from './errors.js';
+
+export interface ResolvedClient {
+  mac: string;
+  name?: string;
+  siteId: string;
+}
+
+export interface ClientRateLimitSetting {
+  rateLimitId?: string;
+  enable: boolean;
+  upEnable?: boolean;
+  upUnit?: number;
+  upLimit?: number;
+  downEnable?: boolean;
+  downUnit?: number;
+  downLimit?: number;
+}
+
+export interface ClientBatchConfig {
+  ipSetting?: {
+    useFixedAddr: boolean;
+    netId?: string;
+    ipList?: { clientId: string; ip: string }[];
+  };
+  rateLimit?: ClientRateLimitSetting;
+  lockToAp?: {
+    enable: boolean;
+    aps?: string[];
+  };
+}
+
+export interface ClientDeleteFilter {
+  start?: number;
+  end?: number;
+  wireless?: boolean;
+  guest?: boolean;
+  rateLimit?: boolean;
+  block?: boolean;
+  connectSuccess?: boolean;
+  searchKey?: string;
+  /** Required to delete every client record when no other filter is given. */
+  all?: boolean;
+}
+
+export interface ClientQuery extends ListOptions {
+  online?: boolean;
+  wireless?: boolean;
+  ssid?: string;
+  vlan?: number;
+  name?: string;
+  ipCidr?: string;
+  apMac?: string;
+  deviceType?: string;
+  blocked?: boolean;
+  search?: string;
+}
+
+export class ClientService {
+  constructor(private readonly api: OmadaApiContext) {}
+
+  public async listClients(siteId?: string, params: Record<string, unknown> = {}): Promise<OmadaClientInfo[]> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    return this.api.fetchPaginated<OmadaClientInfo>(this.sitePath(resolvedSiteId, '/clients'), params);
+  }
+
+  /**
+   * Lists clients with filtering, sorting, paging and projection. `search`, `wireless` and `apMac`
+   * are pushed down to the controller; the remaining filters are applied locally.
+   */
+  public async searchClients(query: ClientQuery = {}, siteId?: string): Promise<ListPage<Partial<OmadaClientInfo>>> {
+    const nativeParams: Record<string, unknown> = {};
+    if (query.search) {
+      nativeParams.searchKey = query.search;
+    }
+    if (query.wireless !== undefined) {
+      nativeParams['filters.wireless'] = String(query.wireless);
+    }
+    if (query.apMac) {
+      nativeParams['filters.apMac'] = normalizeMac(query.apMac) ?? query.apMac;
+    }
+
+    const cidr = query.ipCidr ? parseIpv4Cidr(query.ipCidr) : undefined;
+    if (query.ipCidr && !cidr) {
+      throw new Error(`Invalid IPv4 CIDR: ${query.ipCidr}`);
+    }
+
+    const clients = await this.listClients(siteId, nativeParams);
+    const filtered = clients.filter((client) => {
+      // Active clients omit the flag on some controller versions, so only an explicit false counts as offline.
+      if (query.online !== undefined && (client.active !== false) !== query.online) {
+        return false;
+      }
+      if (query.wireless !== undefined && client.wireless !== undefined && client.wireless !== query.wireless) {
+        return false;
+      }
+      if (query.ssid && client.ssid?.toLowerCase() !== query.ssid.toLowerCase()) {
+        return false;
+      }
+      if (query.vlan !== undefined && client.vid !== query.vlan) {
+        return false;
+      }
+      if (query.name && !includesText(client.name, query.name) && !includesText(client.hostName, query.name)) {
+        return false;
+      }
+      if (cidr && !(client.ip && isIpv4InCidr(client.ip, cidr))) {
+        return false;
+      }
+      if (query.apMac && client.apMac !== undefined && !isSameMac(client.apMac, query.apMac)) {
+        return false;
+      }
+      if (query.deviceType && client.deviceType?.toLowerCase() !== query.deviceType.toLowerCase()) {
+        return false;
+      }
+      if (query.blocked !== undefined && Boolean(client.blocked) !== query.blocked) {
+        return false;
+      }
+
+      return true;
+    });
+
+    return applyListOptions(filtered, query);
+  }
+
+  /**
+   * Looks up a client by MAC, client id, hostname or name. MAC and id matches win; names and
+   * hostnames are compared case-insensitively and must be unique.
+   */
+  public async getClient(identifier: string, siteId?: string): Promise<OmadaClientInfo | undefined> {
+    return matchClient(await this.listClients(siteId), identifier);
+  }
+
+  /**
+   * Resolves a client identifier to its MAC. MAC addresses of clients that are not currently
+   * active (for example blocked clients) are accepted as-is.
+   */
+  public async resolveClient(identifier: string, siteId?: string): Promise<ResolvedClient> {
+    const [client] = await this.resolveClients([identifier], siteId);
+    return client;
+  }
+
+  public async resolveClients(identifiers: string[], siteId?: string): Promise<ResolvedClient[]> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const clients = await this.listClients(resolvedSiteId);
+
+    return identifiers.map((identifier) => {
+      const client = matchClient(clients, identifier);
+      if (client) {
+        return {
+          mac: normalizeMac(client.mac) ?? client.mac,
+          name: client.name ?? client.hostName,
+          siteId: resolvedSiteId
+        };
+      }
+
+      const mac = normalizeMac(identifier);
+      if (mac) {
+        return { mac, siteId: resolvedSiteId };
+      }
+
+      throw new Error(`No client matching "${identifier}" was found in site ${resolvedSiteId}.`);
+    });
+  }
+
+  public async blockClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clientCommand('blockClient', '/block', identifier, siteId, options);
+  }
+
+  public async unblockClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clientCommand('unblockClient', '/unblock', identifier, siteId, options);
+  }
+
+  public async reconnectClient(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clientCommand('reconnectClient', '/reconnect', identifier, siteId, options);
+  }
+
+  /**
+   * Reboots a client that supports remote reboot (e.g. VIGI cameras). `deviceId` is only needed
+   * for devices adopted in VMS.
+   */
+  public async rebootClient(
+    identifier: string,
+    deviceId?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    return this.clientCommand('rebootClient', '/reboot', identifier, siteId, options, deviceId ? { deviceId } : {});
+  }
+
+  public async renameClient(
+    identifier: string,
+    name: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const client = await this.resolveClient(identifier, siteId);
+    const result = await this.api.execute(
+      { method: 'PATCH', url: this.clientPath(client, '/name'), data: { name } },
+      options
+    );
+
+    return { action: 'renameClient', target: { ...client, newName: name }, result };
+  }
+
+  public async batchConfigClients(
+    identifiers: string[],
+    config: ClientBatchConfig,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const clients = await this.resolveClients(identifiers, resolvedSiteId);
+
+    const data: Record<string, unknown> = { macList: clients.map((client) => client.mac) };
+
+    if (config.ipSetting) {
+      const ipEntries = config.ipSetting.ipList ?? [];
+      const ipClients = await this.resolveClients(
+        ipEntries.map((entry) => entry.clientId),
+        resolvedSiteId
+      );
+      const ipList = ipEntries.map((entry, index) => ({ mac: ipClients[index].mac, ip: entry.ip }));
+      data.ipSetting = { useFixedAddr: config.ipSetting.useFixedAddr, netId: config.ipSetting.netId, ipList };
+    }
+
+    if (config.rateLimit) {
+      data.rateLimit = config.rateLimit;
+    }
+
+    if (config.lockToAp) {
+      data.lockToAp = {
+        enable: config.lockToAp.enable,
+        aps: (config.lockToAp.aps ?? []).map((ap) => normalizeMac(ap) ?? ap)
+      };
+    }
+
+    const result = await this.api.execute(
+      { method: 'POST', url: this.sitePath(resolvedSiteId, '/clients/config'), data },
+      options
+    );
+
+    return { action: 'batchConfigClients', target: { siteId: resolvedSiteId, clients }, result };
+  }
+
+  public async deleteClients(
+    filter: ClientDeleteFilter,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const { all, ...criteria } = filter;
+    // The controller deletes every record of the site when the filter is empty.
+    if (!all && Object.values(criteria).every((value) => value === undefined)) {
+      throw new Error('At least one filter is required to delete client records; pass all: true to delete all of them.');
+    }
+
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.sitePath(resolvedSiteId, '/clients/delete'), data: criteria },
+      options
+    );
+
+    return { action: 'deleteClients', target: { siteId: resolvedSiteId, filter: criteria, all }, result };
+  }
+
+  private async clientCommand(
+    action: string,
+    relativePath: string,
+    identifier: string,
+    siteId: string | undefined,
+    options: OmadaRequestOptions | undefined,
+    data?: Record<string, unknown>
+  ): Promise<OmadaActionResult> {
+    const client = await this.resolveClient(identifier, siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.clientPath(client, relativePath), data },
+      options
+    );
+
+    return { action, target: { ...client }, result };
+  }
+
+  private sitePath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${relativePath}`);
+  }
+
+  private clientPath(client: ResolvedClient, relativePath: string): string {
+    return this.sitePath(client.siteId, `/clients/${encodeURIComponent(client.mac)}${relativePath}`);
+  }
+}
+
+function matchClient(clients: OmadaClientInfo[], identifier: string): OmadaClientInfo | undefined {
+  const exact = clients.find((client) => isSameMac(client.mac, identifier) || client.id === identifier);
+  if (exact) {
+    return exact;
+  }
+
+  const loweredIdentifier = identifier.trim().toLowerCase();
+  const matches = clients.filter(
+    (client) =>
+      client.name?.toLowerCase() === loweredIdentifier || client.hostName?.toLowerCase() === loweredIdentifier
+  );
+
+  if (matches.length > 1) {
+    throw new AmbiguousIdentifierError(
+      'client',
+      identifier,
+      matches.map((client) => ({ mac: client.mac, name: client.name, hostName: client.hostName, ip: client.ip }))
+    );
+  }
+
+  return matches[0];
+}
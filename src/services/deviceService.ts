@@ -0,0 +1,339 @@
+import type { ListPage, OmadaActionResult, OmadaDeviceInfo, OmadaRequestOptions } from '../types/index.js';
+import { isIpv4InCidr, parseIpv4Cidr } from '../utils/ip.js';
+import { applyListOptions, includesText, type ListOptions } from '../utils/listQuery.js';
+import { isSameMac, normalizeMac } from '../utils/mac.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+
+export interface AdoptCredentials {
+  username: string;
+  password: string;
+}
+
+export interface ResolvedDevice {
+  mac: string;
+  name?: string;
+  siteId: string;
+}
+
+export const DEVICE_STATUSES = ['disconnected', 'connected', 'pending', 'heartbeatMissed', 'isolated'] as const;
+
+export type DeviceStatus = (typeof DEVICE_STATUSES)[number];
+
+export interface DeviceQuery extends ListOptions {
+  status?: DeviceStatus;
+  online?: boolean;
+  type?: string;
+  model?: string;
+  name?: string;
+  ipCidr?: string;
+  tag?: string;
+  search?: string;
+}
+
+export class DeviceService {
+  constructor(private readonly api: OmadaApiContext) {}
+
+  public async listDevices(siteId?: string, params: Record<string, unknown> = {}): Promise<OmadaDeviceInfo[]> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    return this.api.fetchPaginated<OmadaDeviceInfo>(this.sitePath(resolvedSiteId, '/devices'), params);
+  }
+
+  /**
+   * Lists devices with filtering, sorting, paging and projection. `search` and `tag` are pushed
+   * down to the controller (`searchKey`, `filters.tag`); the remaining filters are applied locally.
+   */
+  public async searchDevices(query: DeviceQuery = {}, siteId?: string): Promise<ListPage<Partial<OmadaDeviceInfo>>> {
+    const nativeParams: Record<string, unknown> = {};
+    if (query.search) {
+      nativeParams.searchKey = query.search;
+    }
+    if (query.tag) {
+      nativeParams['filters.tag'] = query.tag;
+    }
+
+    const cidr = query.ipCidr ? parseIpv4Cidr(query.ipCidr) : undefined;
+    if (query.ipCidr && !cidr) {
+      throw new Error(`Invalid IPv4 CIDR: ${query.ipCidr}`);
+    }
+
+    const statusCode = query.status ? DEVICE_STATUSES.indexOf(query.status) : undefined;
+    const devices = await this.listDevices(siteId, nativeParams);
+    const filtered = devices.filter((device) => {
+      const status = Number(device.status);
+      if (statusCode !== undefined && status !== statusCode) {
+        return false;
+      }
+      if (query.online !== undefined && (status === 1) !== query.online) {
+        return false;
+      }
+      if (query.type && device.type?.toLowerCase() !== query.type.toLowerCase()) {
+        return false;
+      }
+      if (query.model && !includesText(device.model, query.model) && !includesText(device.modelName, query.model)) {
+        return false;
+      }
+      if (query.name && !includesText(device.name, query.name)) {
+        return false;
+      }
+      if (cidr && !(device.ip && isIpv4InCidr(device.ip, cidr))) {
+        return false;
+      }
+
+      return true;
+    });
+
+    return applyListOptions(filtered, query);
+  }
+
+  /**
+   * Looks up a device by MAC (any common notation), device id or name (case-insensitive).
+   */
+  public async getDevice(identifier: string, siteId?: string): Promise<OmadaDeviceInfo | undefined> {
+    const devices = await this.listDevices(siteId);
+    const loweredIdentifier = identifier.trim().toLowerCase();
+
+    return (
+      devices.find((device) => isSameMac(device.mac, identifier) || device.deviceId === identifier) ??
+      devices.find((device) => device.name?.toLowerCase() === loweredIdentifier)
+    );
+  }
+
+  /**
+   * Resolves a MAC or name to a device MAC. MAC addresses that are not (yet) part of the site
+   * device list, such as pending devices, are accepted as-is.
+   */
+  public async resolveDevice(identifier: string, siteId?: string): Promise<ResolvedDevice> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const device = await this.getDevice(identifier, resolvedSiteId);
+    if (device) {
+      return { mac: normalizeMac(device.mac) ?? device.mac, name: device.name, siteId: resolvedSiteId };
+    }
+
+    const mac = normalizeMac(identifier);
+    if (mac) {
+      return { mac, siteId: resolvedSiteId };
+    }
+
+    throw new Error(`No device matching "${identifier}" was found in site ${resolvedSiteId}.`);
+  }
+
+  public async rebootDevice(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveDevice(identifier, siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.devicePath(device, '/reboot') },
+      options
+    );
+
+    return { action: 'rebootDevice', target: { ...device }, result };
+  }
+
+  public async locateDevice(
+    identifier: string,
+    enable: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveDevice(identifier, siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.devicePath(device, '/locate'), data: { locateEnable: enable } },
+      options
+    );
+
+    return { action: 'locateDevice', target: { ...device, locateEnable: enable }, result };
+  }
+
+  public async adoptDevice(
+    identifier: string,
+    credentials: AdoptCredentials,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveDevice(identifier, siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.devicePath(device, '/start-adopt'), data: credentials },
+      options
+    );
+
+    return {
+      action: 'adoptDevice',
+      target: { ...device },
+      result,
+      followUp: await this.tryFollowUp(() => this.fetchAdoptResult(device))
+    };
+  }
+
+  public async getAdoptResult(identifier: string, siteId?: string): Promise<unknown> {
+    return this.fetchAdoptResult(await this.resolveDevice(identifier, siteId));
+  }
+
+  public async batchAdoptDevices(
+    identifiers: string[],
+    credentials: AdoptCredentials,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const macs = await this.resolveMacs(identifiers, resolvedSiteId);
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.sitePath(resolvedSiteId, '/cmd/devices/batch-adopt'),
+        data: { ...credentials, macs }
+      },
+      options
+    );
+
+    const adoptResults = await Promise.all(
+      macs.map(async (mac) => ({
+        mac,
+        status: await this.tryFollowUp(() => this.fetchAdoptResult({ mac, siteId: resolvedSiteId }))
+      }))
+    );
+
+    return { action: 'batchAdoptDevices', target: { siteId: resolvedSiteId, macs }, result, followUp: adoptResults };
+  }
+
+  public async forgetDevice(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveDevice(identifier, siteId);
+    const result = await this.api.execute<{ forgetId?: string } | undefined>(
+      { method: 'POST', url: this.devicePath(device, '/forget') },
+      options
+    );
+
+    const forgetId = result?.forgetId;
+    return {
+      action: 'forgetDevice',
+      target: { ...device },
+      result,
+      followUp: forgetId
+        ? await this.tryFollowUp(() => this.fetchForgetStatus(device, forgetId))
+        : undefined
+    };
+  }
+
+  /**
+   * Polls the forget process. With a device identifier the single-device status is returned,
+   * otherwise the status of the whole batch.
+   */
+  public async getForgetStatus(forgetId: string, identifier?: string, siteId?: string): Promise<unknown> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const encodedForgetId = encodeURIComponent(forgetId);
+
+    if (!identifier) {
+      return this.api.execute({
+        method: 'GET',
+        url: this.sitePath(resolvedSiteId, `/devices/forget/${encodedForgetId}/status`)
+      });
+    }
+
+    return this.fetchForgetStatus(await this.resolveDevice(identifier, resolvedSiteId), forgetId);
+  }
+
+  public async moveDevicesToSite(
+    identifiers: string[],
+    targetSiteId: string,
+    stackIds: string[] = [],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const deviceMacs = await this.resolveMacs(identifiers, resolvedSiteId);
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.sitePath(resolvedSiteId, '/cmd/gateways/move'),
+        data: { deviceMacs, stackIds, site: targetSiteId }
+      },
+      options
+    );
+
+    return {
+      action: 'moveDevicesToSite',
+      target: { siteId: resolvedSiteId, targetSiteId, deviceMacs, stackIds },
+      result
+    };
+  }
+
+  public async rebootStack(
+    stackId: string,
+    memberIdentifiers: string[] = [],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const macs = await this.resolveMacs(memberIdentifiers, resolvedSiteId);
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.sitePath(resolvedSiteId, `/cmd/stacks/${encodeURIComponent(stackId)}/reboot`),
+        data: { selectAll: macs.length === 0, macs }
+      },
+      options
+    );
+
+    return { action: 'rebootStack', target: { siteId: resolvedSiteId, stackId, macs }, result };
+  }
+
+  public async locateStack(
+    stackId: string,
+    enable: boolean,
+    memberIdentifiers: string[] = [],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const macs = await this.resolveMacs(memberIdentifiers, resolvedSiteId);
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.sitePath(resolvedSiteId, `/cmd/stacks/${encodeURIComponent(stackId)}/locate`),
+        data: { selectAll: macs.length === 0, macs, locateEnable: enable }
+      },
+      options
+    );
+
+    return { action: 'locateStack', target: { siteId: resolvedSiteId, stackId, macs, locateEnable: enable }, result };
+  }
+
+  private async fetchAdoptResult(device: ResolvedDevice): Promise<unknown> {
+    return this.api.execute({ method: 'GET', url: this.devicePath(device, '/adopt-result') });
+  }
+
+  private async fetchForgetStatus(device: ResolvedDevice, forgetId: string): Promise<unknown> {
+    return this.api.execute({
+      method: 'GET',
+      url: this.devicePath(device, `/forget/${encodeURIComponent(forgetId)}/status`)
+    });
+  }
+
+  private async resolveMacs(identifiers: string[], siteId: string): Promise<string[]> {
+    const devices = await Promise.all(identifiers.map((identifier) => this.resolveDevice(identifier, siteId)));
+    return devices.map((device) => device.mac);
+  }
+
+  // Status endpoints are best-effort; a failure must not hide the outcome of the command itself.
+  private async tryFollowUp(fetchStatus: () => Promise<unknown>): Promise<unknown> {
+    try {
+      return await fetchStatus();
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private sitePath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${relativePath}`);
+  }
+
+  private devicePath(device: ResolvedDevice, relativePath: string): string {
+    return this.sitePath(device.siteId, `/devices/${encodeURIComponent(device.mac)}${relativePath}`);
+  }
+}
@@ -0,0 +1,12 @@
+export class AmbiguousIdentifierError extends Error {
+  constructor(
+    public readonly kind: string,
+    public readonly identifier: string,
+    public readonly candidates: Record<string, unknown>[]
+  ) {
+    super(
+      `"${identifier}" matches ${candidates.length} ${kind}s; use a MAC address instead. Candidates: ${JSON.stringify(candidates)}`
+    );
+    this.name = 'AmbiguousIdentifierError';
+  }
+}
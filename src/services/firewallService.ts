@@ -0,0 +1,1093 @@
+import type { OmadaActionResult, OmadaRequestOptions, RuleSetDiff } from '../types/index.js';
+import { parseIpv4 } from '../utils/ip.js';
+import { logger } from '../utils/logger.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { NetworkService } from './networkService.js';
+
+export const ACL_TYPES = ['gateway', 'switch', 'eap'] as const;
+
+export type AclType = (typeof ACL_TYPES)[number];
+
+/** Listed in API value order: 0 deny (drop), 1 allow. */
+export const ACL_POLICIES = ['deny', 'allow'] as const;
+
+export type AclPolicy = (typeof ACL_POLICIES)[number];
+
+export const ACL_PROTOCOLS = ['all', 'icmp', 'tcp', 'udp'] as const;
+
+export type AclProtocol = (typeof ACL_PROTOCOLS)[number];
+
+export const ACL_ENDPOINT_TYPES = [
+  'network',
+  'ip-group',
+  'ip-port-group',
+  'ssid',
+  'ipv6-group',
+  'ipv6-port-group',
+  'domain-group'
+] as const;
+
+export type AclEndpointType = (typeof ACL_ENDPOINT_TYPES)[number];
+
+export const ACL_BINDING_TYPES = ['all-ports', 'custom-ports', 'vlan'] as const;
+
+export type AclBindingType = (typeof ACL_BINDING_TYPES)[number];
+
+export const GATEWAY_ACL_MODES = ['profiles', 'custom'] as const;
+
+export type GatewayAclMode = (typeof GATEWAY_ACL_MODES)[number];
+
+/** Listed in API value order: 0 all, 1 TCP, 2 UDP. */
+export const PORT_FORWARD_PROTOCOLS = ['all', 'tcp', 'udp'] as const;
+
+export type PortForwardProtocol = (typeof PORT_FORWARD_PROTOCOLS)[number];
+
+export const NAT_ALGS = ['ftp', 'h323', 'pptp', 'sip', 'ipSec'] as const;
+
+export type NatAlg = (typeof NAT_ALGS)[number];
+
+export interface GatewayAclDirection {
+  lanToWan?: boolean;
+  lanToLan?: boolean;
+  wanInIds?: string[];
+  vpnInIds?: string[];
+}
+
+export interface AclRule {
+  id: string;
+  index: number;
+  description: string;
+  status: boolean;
+  /** 0: deny, 1: allow. */
+  policy: number;
+  protocols: number[];
+  sourceType: number;
+  sourceIds: string[];
+  destinationType: number;
+  destinationIds?: string[];
+  /** Gateway ACLs only. */
+  direction?: GatewayAclDirection;
+  /** Switch ACLs only: 0 all ports, 1 custom ports, 2 VLAN. */
+  bindingType?: number;
+  customAclPorts?: { mac: string; customPortIds: number[]; customLagIds: number[] }[];
+  networkId?: string;
+  [key: string]: unknown;
+}
+
+export interface AclEndpoint {
+  type: AclEndpointType;
+  /** LAN network, group or SSID IDs, depending on the type. */
+  ids: string[];
+}
+
+export interface AclRuleSettings {
+  description?: string;
+  enabled?: boolean;
+  policy?: AclPolicy;
+  /** Protocol names or IP protocol numbers. */
+  protocols?: (AclProtocol | number)[];
+  source?: AclEndpoint;
+  destination?: AclEndpoint;
+  /** Gateway ACLs only. */
+  direction?: GatewayAclDirection;
+  /** Gateway ACLs only: send matches to the remote syslog server. */
+  syslog?: boolean;
+  /** Gateway and switch ACLs: time range profile during which the rule applies. */
+  timeRangeId?: string;
+  /** Switch ACLs only: where the rule is applied. */
+  binding?: {
+    type: AclBindingType;
+    ports?: { mac: string; portIds?: number[]; lagIds?: number[] }[];
+    /** LAN network ID for VLAN bindings. */
+    networkId?: string;
+  };
+  /** Switch ACLs only, when creating: also create the reverse rule. */
+  biDirectional?: boolean;
+}
+
+export interface PortForward {
+  id: string;
+  name: string;
+  status: boolean;
+  /** 0: anywhere, 1: limited addresses. */
+  from: number;
+  limitedAddresses?: string[];
+  interfaceWanPortId: string[];
+  externalPort?: string;
+  forwardIp: string;
+  forwardPort?: string;
+  /** 0: all, 1: TCP, 2: UDP. */
+  protocol?: number;
+  dMZ: boolean;
+  [key: string]: unknown;
+}
+
+export interface PortForwardStatus {
+  name: string;
+  protocol: number;
+  externalPort?: string;
+  internalIp?: string;
+  internalPort?: string;
+  packets?: number;
+  bytes?: number;
+  /** Remaining lease of UPnP mappings, in seconds. */
+  leaseDuration?: number;
+  [key: string]: unknown;
+}
+
+export interface PortForwardSettings {
+  name?: string;
+  enabled?: boolean;
+  /** Source addresses allowed to use the rule; an empty list allows any source. */
+  allowedSources?: string[];
+  wanPortIds?: string[];
+  externalPort?: string;
+  forwardIp?: string;
+  forwardPort?: string;
+  protocol?: PortForwardProtocol;
+  dmz?: boolean;
+}
+
+export interface PortForwardReport {
+  rules: (PortForward & { summary: string; traffic?: { packets?: number; bytes?: number } })[];
+  /** Mappings opened by LAN devices through UPnP, when requested. */
+  upnp?: PortForwardStatus[];
+  /** Why traffic counters are missing, when the status endpoint failed. */
+  statusError?: string;
+}
+
+export interface OneToOneNat {
+  id: string;
+  name: string;
+  status: boolean;
+  interfaceIds: string[];
+  internalIp: string;
+  externalIp: string;
+  dmz: boolean;
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface OneToOneNatSettings {
+  name?: string;
+  enabled?: boolean;
+  wanPortIds?: string[];
+  internalIp?: string;
+  externalIp?: string;
+  dmz?: boolean;
+  description?: string;
+}
+
+export type NatAlgSettings = Record<NatAlg, boolean>;
+
+type RuleSetWriteResult = RuleSetDiff | OmadaActionResult<unknown, RuleSetDiff>;
+
+/** A rule set as loaded from the controller, with how its rules are keyed and rendered for diffs. */
+export interface RuleSet<T> {
+  name: string;
+  load: () => Promise<T[]>;
+  key: (rule: T) => string;
+  describe: (rule: T) => string;
+  numbered: boolean;
+}
+
+const ACL_PATHS: Record<AclType, string> = { gateway: 'osg-acls', switch: 'osw-acls', eap: 'eap-acls' };
+
+const PROTOCOL_NUMBERS: Record<AclProtocol, number> = { all: 256, icmp: 1, tcp: 6, udp: 17 };
+
+const ENDPOINT_TYPE_VALUES: Record<AclEndpointType, number> = {
+  network: 0,
+  'ip-group': 1,
+  'ip-port-group': 2,
+  ssid: 4,
+  'ipv6-group': 6,
+  'ipv6-port-group': 7,
+  'domain-group': 10
+};
+
+/**
+ * Properties of the ACL write schemas (GatewayACLConfig, SwitchACLConfig, EapACLConfig). Rules read
+ * back carry more, such as `id` and `index`, which the controller does not accept on writes.
+ * `biDirectional` is left out because it only applies when creating a rule.
+ */
+const ACL_WRITE_FIELDS: Record<AclType, readonly string[]> = {
+  gateway: [
+    'description',
+    'status',
+    'policy',
+    'protocols',
+    'sourceType',
+    'sourceIds',
+    'destinationType',
+    'destinationIds',
+    'direction',
+    'stateMode',
+    'states',
+    'syslog',
+    'timeRangeId'
+  ],
+  switch: [
+    'description',
+    'status',
+    'policy',
+    'protocols',
+    'sourceType',
+    'sourceIds',
+    'destinationType',
+    'destinationIds',
+    'bindingType',
+    'bindingBridgeVlan',
+    'customAclPorts',
+    'networkId',
+    'etherType',
+    'timeRangeId'
+  ],
+  eap: ['description', 'status', 'policy', 'protocols', 'sourceType', 'sourceIds', 'destinationType', 'destinationIds']
+};
+
+/** Properties of PortForwardingConfig. */
+const PORT_FORWARD_WRITE_FIELDS = [
+  'name',
+  'status',
+  'from',
+  'limitedAddresses',
+  'interfaceWanPortId',
+  'existVirtualWan',
+  'virtualWanId',
+  'existWanIp',
+  'wanIps',
+  'externalPort',
+  'forwardIp',
+  'forwardPort',
+  'protocol',
+  'dMZ'
+] as const;
+
+/** Properties of OtoNatOpenApiVO. */
+const ONE_TO_ONE_NAT_WRITE_FIELDS = [
+  'name',
+  'status',
+  'interfaceIds',
+  'internalIp',
+  'externalIp',
+  'dmz',
+  'description'
+] as const;
+
+const NEW_RULE_ID = '(new)';
+
+function protocolName(value: number): string {
+  const name = ACL_PROTOCOLS.find((protocol) => PROTOCOL_NUMBERS[protocol] === value);
+  return name ? name.toUpperCase() : `protocol ${value}`;
+}
+
+function endpointTypeName(value: number): string {
+  return ACL_ENDPOINT_TYPES.find((type) => ENDPOINT_TYPE_VALUES[type] === value) ?? `type ${value}`;
+}
+
+function toProtocolNumbers(protocols: (AclProtocol | number)[]): number[] {
+  return protocols.map((protocol) => (typeof protocol === 'number' ? protocol : PROTOCOL_NUMBERS[protocol]));
+}
+
+/** Keeps the fields of a rule read from the controller that its write schema accepts. */
+function pickFields<T extends Record<string, unknown>>(value: T, fields: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => fields.includes(key)));
+}
+
+/** Accepts `443` or `8000-8080` within 1-65535 and returns the inclusive range. */
+export function parsePortRange(value: string, label: string): [number, number] {
+  const match = /^(\d{1,5})(?:-(\d{1,5}))?$/.exec(value.trim());
+  const start = match ? Number(match[1]) : NaN;
+  const end = match?.[2] ? Number(match[2]) : start;
+  if (!match || start < 1 || end > 65_535 || start > end) {
+    throw new Error(`${label} "${value}" is not a port or port range between 1 and 65535, e.g. 443 or 8000-8080.`);
+  }
+  return [start, end];
+}
+
+function assertIpv4(value: string, label: string): void {
+  if (parseIpv4(value) === undefined) {
+    throw new Error(`${label} "${value}" is not a valid IPv4 address.`);
+  }
+}
+
+function matchRule<T extends { id: string }>(rules: T[], identifier: string, kind: string, label: (rule: T) => string): T {
+  const byId = rules.find((rule) => rule.id === identifier);
+  if (byId) {
+    return byId;
+  }
+
+  const lowered = identifier.trim().toLowerCase();
+  const matches = rules.filter((rule) => label(rule).toLowerCase() === lowered);
+  if (matches.length > 1) {
+    throw new Error(`"${identifier}" matches ${matches.length} ${kind}s; use an ID: ${matches.map((rule) => rule.id).join(', ')}.`);
+  }
+  if (matches.length === 0) {
+    throw new Error(`No ${kind} matching "${identifier}" was found.`);
+  }
+  return matches[0];
+}
+
+/**
+ * Walks the new rule set in order and slots removed rules in where they used to be. Rules are
+ * compared by their rendered line, so renumbering after a delete does not show up as a change.
+ */
+export function diffRuleSets<T>(ruleSet: RuleSet<T>, before: T[], after: T[], dryRun: boolean, predicted: boolean): RuleSetDiff {
+  const beforeByKey = new Map(before.map((rule) => [ruleSet.key(rule), rule]));
+  const afterKeys = new Set(after.map((rule) => ruleSet.key(rule)));
+  const line = (prefix: string, position: number, rule: T) =>
+    `${prefix}${ruleSet.numbered ? `${position}. ` : ''}${ruleSet.describe(rule)}`;
+  const diff: RuleSetDiff = { ruleSet: ruleSet.name, dryRun, predicted, added: 0, removed: 0, changed: 0, lines: [] };
+
+  let cursor = 0;
+  const flushRemoved = (untilKept: boolean) => {
+    while (cursor < before.length && !(untilKept && afterKeys.has(ruleSet.key(before[cursor])))) {
+      if (!afterKeys.has(ruleSet.key(before[cursor]))) {
+        diff.lines.push(line('- ', cursor + 1, before[cursor]));
+        diff.removed += 1;
+      }
+      cursor += 1;
+    }
+  };
+
+  after.forEach((rule, position) => {
+    flushRemoved(true);
+    const previous = beforeByKey.get(ruleSet.key(rule));
+    if (cursor < before.length && ruleSet.key(before[cursor]) === ruleSet.key(rule)) {
+      cursor += 1;
+    }
+
+    if (previous === undefined) {
+      diff.lines.push(line('+ ', position + 1, rule));
+      diff.added += 1;
+    } else if (ruleSet.describe(previous) !== ruleSet.describe(rule)) {
+      diff.lines.push(line('- ', before.indexOf(previous) + 1, previous), line('+ ', position + 1, rule));
+      diff.changed += 1;
+    } else {
+      diff.lines.push(line('  ', position + 1, rule));
+    }
+  });
+  flushRemoved(false);
+
+  return diff;
+}
+
+/**
+ * Firewall ACLs (gateway, switch and EAP) and NAT rules (port forwarding, one-to-one NAT, ALGs).
+ * Every write returns a readable diff of the affected rule set, read back from the controller
+ * after the change; with `dryRun` the diff is predicted locally and nothing is written.
+ */
+export class FirewallService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly networks: NetworkService
+  ) {}
+
+  /** ACL rules of one type in evaluation order, each with a one-line summary. */
+  public async listAcls(type: AclType, siteId?: string): Promise<(AclRule & { summary: string })[]> {
+    const ruleSet = await this.aclRuleSet(type, this.api.resolveSiteId(siteId));
+    return (await ruleSet.load()).map((rule) => ({ ...rule, summary: ruleSet.describe(rule) }));
+  }
+
+  public async getGatewayAclMode(siteId?: string): Promise<{ mode: GatewayAclMode }> {
+    const { mode } = await this.api.execute<{ mode: number }>({
+      method: 'GET',
+      url: this.sitePath(this.api.resolveSiteId(siteId), '/acls/osg-config-mode')
+    });
+    return { mode: GATEWAY_ACL_MODES[mode] ?? 'profiles' };
+  }
+
+  /** Switches gateway ACLs between rules managed through profiles and custom rules. */
+  public async setGatewayAclMode(
+    mode: GatewayAclMode,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet: RuleSet<{ mode: GatewayAclMode }> = {
+      name: 'gateway ACL mode',
+      load: async () => [await this.getGatewayAclMode(resolvedSiteId)],
+      key: () => 'mode',
+      describe: (setting) => `mode: ${setting.mode}`,
+      numbered: false
+    };
+
+    return this.writeRuleSet(ruleSet, dryRun, () => [{ mode }], {
+      action: 'setGatewayAclMode',
+      target: { siteId: resolvedSiteId, mode },
+      write: () =>
+        this.api.execute(
+          {
+            method: 'PUT',
+            url: this.sitePath(resolvedSiteId, '/acls/osg-config-mode'),
+            data: { mode: GATEWAY_ACL_MODES.indexOf(mode) }
+          },
+          options
+        )
+    });
+  }
+
+  /** Adds an ACL rule at the end of the rule list of its type. */
+  public async createAcl(
+    type: AclType,
+    settings: AclRuleSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const { description, policy, source, destination } = settings;
+    if (!description || !policy || !source || !destination) {
+      throw new Error('New ACL rules need description, policy, source and destination.');
+    }
+    if (type === 'gateway' && !settings.direction) {
+      throw new Error('Gateway ACL rules need a direction: lanToWan, lanToLan, wanInIds or vpnInIds.');
+    }
+
+    const defaults: Record<string, unknown> = { status: true, protocols: [PROTOCOL_NUMBERS.all], destinationIds: [] };
+    if (type === 'gateway') {
+      Object.assign(defaults, { stateMode: 0, syslog: false });
+    }
+    if (type === 'switch') {
+      Object.assign(defaults, { bindingType: 0, etherType: { enable: false }, biDirectional: false });
+    }
+    const body = this.buildAclBody(type, defaults, settings, true);
+    const ruleSet = await this.aclRuleSet(type, resolvedSiteId);
+
+    return this.writeRuleSet(
+      ruleSet,
+      dryRun,
+      (before) => [...before, { ...(body as AclRule), id: NEW_RULE_ID, index: before.length + 1 }],
+      {
+        action: 'createAcl',
+        target: { siteId: resolvedSiteId, type, description },
+        write: () =>
+          this.api.execute(
+            { method: 'POST', url: this.sitePath(resolvedSiteId, `/acls/${ACL_PATHS[type]}`), data: body },
+            options
+          )
+      }
+    );
+  }
+
+  /** Changes the given settings of an ACL rule, found by ID or description, and keeps the rest. */
+  public async updateAcl(
+    type: AclType,
+    identifier: string,
+    settings: AclRuleSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    if (settings.biDirectional !== undefined) {
+      throw new Error('biDirectional can only be set when creating a switch ACL rule.');
+    }
+
+    const ruleSet = await this.aclRuleSet(type, resolvedSiteId);
+    const current = matchRule(await ruleSet.load(), identifier, `${type} ACL rule`, (rule) => rule.description);
+    const body = this.buildAclBody(type, pickFields(current, ACL_WRITE_FIELDS[type]), settings, false);
+
+    return this.writeRuleSet(
+      ruleSet,
+      dryRun,
+      (before) => before.map((rule) => (rule.id === current.id ? { ...rule, ...body } : rule)),
+      {
+        action: 'updateAcl',
+        target: { siteId: resolvedSiteId, type, id: current.id, description: current.description },
+        write: () =>
+          this.api.execute(
+            {
+              method: 'PUT',
+              url: this.sitePath(resolvedSiteId, `/acls/${ACL_PATHS[type]}/${encodeURIComponent(current.id)}`),
+              data: body
+            },
+            options
+          )
+      }
+    );
+  }
+
+  public async deleteAcl(
+    type: AclType,
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = await this.aclRuleSet(type, resolvedSiteId);
+    const current = matchRule(await ruleSet.load(), identifier, `${type} ACL rule`, (rule) => rule.description);
+
+    return this.writeRuleSet(ruleSet, dryRun, (before) => before.filter((rule) => rule.id !== current.id), {
+      action: 'deleteAcl',
+      target: { siteId: resolvedSiteId, type, id: current.id, description: current.description },
+      write: () =>
+        this.api.execute(
+          { method: 'DELETE', url: this.sitePath(resolvedSiteId, `/acls/${encodeURIComponent(current.id)}`) },
+          options
+        )
+    });
+  }
+
+  /**
+   * Port forwarding rules joined with their traffic counters from the insight status endpoint,
+   * matched by rule name. UPnP mappings are listed separately when `includeUpnp` is set.
+   */
+  public async listPortForwards(includeUpnp = false, siteId?: string): Promise<PortForwardReport> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = this.portForwardRuleSet(resolvedSiteId);
+    const rules = await ruleSet.load();
+    const report: PortForwardReport = { rules: rules.map((rule) => ({ ...rule, summary: ruleSet.describe(rule) })) };
+
+    try {
+      const [user, upnp] = await Promise.all([
+        this.listPortForwardStatus('User', resolvedSiteId),
+        includeUpnp ? this.listPortForwardStatus('UPnP', resolvedSiteId) : Promise.resolve(undefined)
+      ]);
+      for (const rule of report.rules) {
+        const status = user.find((entry) => entry.name === rule.name);
+        if (status) {
+          rule.traffic = { packets: status.packets, bytes: status.bytes };
+        }
+      }
+      report.upnp = upnp;
+    } catch (error) {
+      report.statusError = error instanceof Error ? error.message : String(error);
+    }
+
+    return report;
+  }
+
+  public async createPortForward(
+    settings: PortForwardSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    if (!settings.name || !settings.forwardIp || !settings.wanPortIds?.length) {
+      throw new Error('New port forwarding rules need name, forwardIp and wanPortIds.');
+    }
+    if (!settings.dmz && !settings.externalPort) {
+      throw new Error('Pass externalPort, or dmz: true to forward all ports.');
+    }
+
+    const ruleSet = this.portForwardRuleSet(resolvedSiteId);
+    const before = await ruleSet.load();
+    if (before.some((rule) => rule.name.toLowerCase() === settings.name?.toLowerCase())) {
+      throw new Error(`Site ${resolvedSiteId} already has a port forwarding rule named ${settings.name}.`);
+    }
+    const body = this.buildPortForwardBody({ status: true, from: 0, protocol: 0, dMZ: false }, settings, before);
+
+    return this.writeRuleSet(ruleSet, dryRun, () => [...before, { ...(body as PortForward), id: NEW_RULE_ID }], {
+      action: 'createPortForward',
+      target: { siteId: resolvedSiteId, name: settings.name },
+      write: () =>
+        this.api.execute(
+          { method: 'POST', url: this.sitePath(resolvedSiteId, '/nat/port-forwardings'), data: body },
+          options
+        )
+    });
+  }
+
+  public async updatePortForward(
+    identifier: string,
+    settings: PortForwardSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = this.portForwardRuleSet(resolvedSiteId);
+    const rules = await ruleSet.load();
+    const current = matchRule(rules, identifier, 'port forwarding rule', (rule) => rule.name);
+    const body = this.buildPortForwardBody(
+      pickFields(current, PORT_FORWARD_WRITE_FIELDS),
+      settings,
+      rules.filter((rule) => rule.id !== current.id)
+    );
+
+    return this.writeRuleSet(
+      ruleSet,
+      dryRun,
+      (before) => before.map((rule) => (rule.id === current.id ? { ...rule, ...body } : rule)),
+      {
+        action: 'updatePortForward',
+        target: { siteId: resolvedSiteId, id: current.id, name: current.name },
+        write: () =>
+          this.api.execute(
+            {
+              method: 'PUT',
+              url: this.sitePath(resolvedSiteId, `/nat/port-forwardings/${encodeURIComponent(current.id)}`),
+              data: body
+            },
+            options
+          )
+      }
+    );
+  }
+
+  public async deletePortForward(
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = this.portForwardRuleSet(resolvedSiteId);
+    const current = matchRule(await ruleSet.load(), identifier, 'port forwarding rule', (rule) => rule.name);
+
+    return this.writeRuleSet(ruleSet, dryRun, (before) => before.filter((rule) => rule.id !== current.id), {
+      action: 'deletePortForward',
+      target: { siteId: resolvedSiteId, id: current.id, name: current.name },
+      write: () =>
+        this.api.execute(
+          {
+            method: 'DELETE',
+            url: this.sitePath(resolvedSiteId, `/nat/port-forwardings/${encodeURIComponent(current.id)}`)
+          },
+          options
+        )
+    });
+  }
+
+  public async listOneToOneNats(siteId?: string): Promise<(OneToOneNat & { summary: string })[]> {
+    const ruleSet = this.oneToOneNatRuleSet(this.api.resolveSiteId(siteId));
+    return (await ruleSet.load()).map((rule) => ({ ...rule, summary: ruleSet.describe(rule) }));
+  }
+
+  public async createOneToOneNat(
+    settings: OneToOneNatSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    if (!settings.name || !settings.internalIp || !settings.externalIp || !settings.wanPortIds?.length) {
+      throw new Error('New one-to-one NAT rules need name, internalIp, externalIp and wanPortIds.');
+    }
+
+    const ruleSet = this.oneToOneNatRuleSet(resolvedSiteId);
+    const before = await ruleSet.load();
+    const body = this.buildOneToOneNatBody({ status: true, dmz: false }, settings, before);
+
+    return this.writeRuleSet(ruleSet, dryRun, () => [...before, { ...(body as OneToOneNat), id: NEW_RULE_ID }], {
+      action: 'createOneToOneNat',
+      target: { siteId: resolvedSiteId, name: settings.name },
+      write: () =>
+        this.api.execute({ method: 'POST', url: this.sitePath(resolvedSiteId, '/nat/one-to-one-nat'), data: body }, options)
+    });
+  }
+
+  public async updateOneToOneNat(
+    identifier: string,
+    settings: OneToOneNatSettings,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = this.oneToOneNatRuleSet(resolvedSiteId);
+    const rules = await ruleSet.load();
+    const current = matchRule(rules, identifier, 'one-to-one NAT rule', (rule) => rule.name);
+    const body = this.buildOneToOneNatBody(
+      pickFields(current, ONE_TO_ONE_NAT_WRITE_FIELDS),
+      settings,
+      rules.filter((rule) => rule.id !== current.id)
+    );
+
+    return this.writeRuleSet(
+      ruleSet,
+      dryRun,
+      (before) => before.map((rule) => (rule.id === current.id ? { ...rule, ...body } : rule)),
+      {
+        action: 'updateOneToOneNat',
+        target: { siteId: resolvedSiteId, id: current.id, name: current.name },
+        write: () =>
+          this.api.execute(
+            {
+              method: 'PUT',
+              url: this.sitePath(resolvedSiteId, `/nat/one-to-one-nat/${encodeURIComponent(current.id)}`),
+              data: body
+            },
+            options
+          )
+      }
+    );
+  }
+
+  public async deleteOneToOneNat(
+    identifier: string,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ruleSet = this.oneToOneNatRuleSet(resolvedSiteId);
+    const current = matchRule(await ruleSet.load(), identifier, 'one-to-one NAT rule', (rule) => rule.name);
+
+    return this.writeRuleSet(ruleSet, dryRun, (before) => before.filter((rule) => rule.id !== current.id), {
+      action: 'deleteOneToOneNat',
+      target: { siteId: resolvedSiteId, id: current.id, name: current.name },
+      write: () =>
+        this.api.execute(
+          { method: 'DELETE', url: this.sitePath(resolvedSiteId, `/nat/one-to-one-nat/${encodeURIComponent(current.id)}`) },
+          options
+        )
+    });
+  }
+
+  public async getNatAlg(siteId?: string): Promise<NatAlgSettings> {
+    return this.api.execute<NatAlgSettings>({
+      method: 'GET',
+      url: this.sitePath(this.api.resolveSiteId(siteId), '/nat/alg')
+    });
+  }
+
+  /** Turns the given application layer gateways on or off and keeps the others. */
+  public async setNatAlg(
+    settings: Partial<NatAlgSettings>,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<RuleSetWriteResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const current = await this.getNatAlg(resolvedSiteId);
+    const body = Object.fromEntries(NAT_ALGS.map((alg) => [alg, settings[alg] ?? current[alg]])) as NatAlgSettings;
+    const ruleSet: RuleSet<{ alg: NatAlg; enabled: boolean }> = {
+      name: 'NAT ALG',
+      load: async () => {
+        const algs = await this.getNatAlg(resolvedSiteId);
+        return NAT_ALGS.map((alg) => ({ alg, enabled: algs[alg] }));
+      },
+      key: (entry) => entry.alg,
+      describe: (entry) => `${entry.alg.toUpperCase()} ALG ${entry.enabled ? 'on' : 'off'}`,
+      numbered: false
+    };
+
+    return this.writeRuleSet(ruleSet, dryRun, () => NAT_ALGS.map((alg) => ({ alg, enabled: body[alg] })), {
+      action: 'setNatAlg',
+      target: { siteId: resolvedSiteId, ...settings },
+      write: () =>
+        this.api.execute({ method: 'PUT', url: this.sitePath(resolvedSiteId, '/nat/alg'), data: body }, options)
+    });
+  }
+
+  /**
+   * Loads the rule set, then either predicts the result (`dryRun`) or writes and reads the rule
+   * set back. When the read-back fails after a successful write, the predicted diff is returned.
+   */
+  private async writeRuleSet<T>(
+    ruleSet: RuleSet<T>,
+    dryRun: boolean,
+    predict: (before: T[]) => T[],
+    change: { action: string; target: Record<string, unknown>; write: () => Promise<unknown> }
+  ): Promise<RuleSetWriteResult> {
+    const before = await ruleSet.load();
+    const predicted = predict(before);
+    if (dryRun) {
+      return diffRuleSets(ruleSet, before, predicted, true, true);
+    }
+
+    const result = await change.write();
+    let after: T[] | undefined;
+    try {
+      after = await ruleSet.load();
+    } catch (error) {
+      logger.warn('Rule set could not be read back after a write', {
+        ruleSet: ruleSet.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return {
+      action: change.action,
+      target: change.target,
+      result,
+      followUp: diffRuleSets(ruleSet, before, after ?? predicted, false, after === undefined)
+    };
+  }
+
+  private buildAclBody(
+    type: AclType,
+    base: Record<string, unknown>,
+    settings: AclRuleSettings,
+    creating: boolean
+  ): Record<string, unknown> {
+    const gatewayOnly = settings.direction !== undefined || settings.syslog !== undefined;
+    const switchOnly = settings.binding !== undefined || settings.biDirectional !== undefined;
+    if (gatewayOnly && type !== 'gateway') {
+      throw new Error('direction and syslog only apply to gateway ACL rules.');
+    }
+    if (switchOnly && type !== 'switch') {
+      throw new Error('binding and biDirectional only apply to switch ACL rules.');
+    }
+    if (settings.timeRangeId !== undefined && type === 'eap') {
+      throw new Error('EAP ACL rules have no time range.');
+    }
+    if (settings.destination?.type === 'domain-group' && type !== 'gateway') {
+      throw new Error('Domain groups can only be the destination of gateway ACL rules.');
+    }
+    if (settings.source?.type === 'domain-group') {
+      throw new Error('Domain groups can only be used as a destination.');
+    }
+
+    const body: Record<string, unknown> = { ...base };
+    if (settings.description !== undefined) {
+      body.description = settings.description;
+    }
+    if (settings.enabled !== undefined) {
+      body.status = settings.enabled;
+    }
+    if (settings.policy !== undefined) {
+      body.policy = ACL_POLICIES.indexOf(settings.policy);
+    }
+    if (settings.protocols !== undefined) {
+      body.protocols = toProtocolNumbers(settings.protocols);
+    }
+    if (settings.source !== undefined) {
+      Object.assign(body, { sourceType: ENDPOINT_TYPE_VALUES[settings.source.type], sourceIds: settings.source.ids });
+    }
+    if (settings.destination !== undefined) {
+      Object.assign(body, {
+        destinationType: ENDPOINT_TYPE_VALUES[settings.destination.type],
+        destinationIds: settings.destination.ids
+      });
+    }
+    if (settings.direction !== undefined) {
+      const direction = settings.direction;
+      if (direction.lanToLan && (direction.lanToWan || direction.wanInIds?.length || direction.vpnInIds?.length)) {
+        throw new Error('The LAN->LAN direction cannot be combined with other directions.');
+      }
+      body.direction = { lanToWan: false, lanToLan: false, wanInIds: [], vpnInIds: [], ...direction };
+    }
+    if (settings.syslog !== undefined) {
+      body.syslog = settings.syslog;
+    }
+    if (settings.timeRangeId !== undefined) {
+      body.timeRangeId = settings.timeRangeId;
+    }
+    if (settings.binding !== undefined) {
+      const { type: bindingType, ports, networkId } = settings.binding;
+      if (bindingType === 'custom-ports' && !ports?.length) {
+        throw new Error('Custom port bindings need ports.');
+      }
+      if (bindingType === 'vlan' && !networkId) {
+        throw new Error('VLAN bindings need networkId.');
+      }
+      Object.assign(body, {
+        bindingType: ACL_BINDING_TYPES.indexOf(bindingType),
+        customAclPorts: (ports ?? []).map((port) => ({
+          mac: port.mac,
+          customPortIds: port.portIds ?? [],
+          customLagIds: port.lagIds ?? []
+        })),
+        networkId
+      });
+    }
+    if (creating && settings.biDirectional !== undefined) {
+      body.biDirectional = settings.biDirectional;
+    }
+    return body;
+  }
+
+  private buildPortForwardBody(
+    base: Record<string, unknown>,
+    settings: PortForwardSettings,
+    others: PortForward[]
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = { ...base };
+    if (settings.name !== undefined) {
+      body.name = settings.name;
+    }
+    if (settings.enabled !== undefined) {
+      body.status = settings.enabled;
+    }
+    if (settings.allowedSources !== undefined) {
+      Object.assign(body, { from: settings.allowedSources.length > 0 ? 1 : 0, limitedAddresses: settings.allowedSources });
+    }
+    if (settings.wanPortIds !== undefined) {
+      body.interfaceWanPortId = settings.wanPortIds;
+    }
+    if (settings.forwardIp !== undefined) {
+      assertIpv4(settings.forwardIp, 'forwardIp');
+      body.forwardIp = settings.forwardIp;
+    }
+    if (settings.dmz !== undefined) {
+      body.dMZ = settings.dmz;
+    }
+    if (settings.protocol !== undefined) {
+      body.protocol = PORT_FORWARD_PROTOCOLS.indexOf(settings.protocol);
+    }
+    if (settings.externalPort !== undefined) {
+      body.externalPort = settings.externalPort;
+      body.forwardPort ??= settings.externalPort;
+    }
+    if (settings.forwardPort !== undefined) {
+      body.forwardPort = settings.forwardPort;
+    }
+
+    const rule = body as PortForward;
+    if (rule.dMZ || !rule.status) {
+      return body;
+    }
+    if (!rule.externalPort || !rule.forwardPort) {
+      throw new Error('Port forwarding rules without DMZ need externalPort.');
+    }
+
+    const [start, end] = parsePortRange(rule.externalPort, 'externalPort');
+    const [forwardStart, forwardEnd] = parsePortRange(rule.forwardPort, 'forwardPort');
+    if (forwardEnd - forwardStart !== 0 && forwardEnd - forwardStart !== end - start) {
+      throw new Error('forwardPort must be a single port or a range as long as externalPort.');
+    }
+    // Overlapping enabled rules on a shared WAN port would make the controller reject or shadow one of them.
+    const clash = others.find((other) => {
+      if (!other.status || !other.interfaceWanPortId?.some((wan) => rule.interfaceWanPortId?.includes(wan))) {
+        return false;
+      }
+      if (other.dMZ) {
+        return true;
+      }
+      const protocolsOverlap = !other.protocol || !rule.protocol || other.protocol === rule.protocol;
+      if (!protocolsOverlap || !other.externalPort) {
+        return false;
+      }
+      const [otherStart, otherEnd] = parsePortRange(other.externalPort, 'externalPort');
+      return otherStart <= end && start <= otherEnd;
+    });
+    if (clash) {
+      throw new Error(`External port ${rule.externalPort} is already forwarded by rule ${clash.name} on the same WAN port.`);
+    }
+    return body;
+  }
+
+  private buildOneToOneNatBody(
+    base: Record<string, unknown>,
+    settings: OneToOneNatSettings,
+    others: OneToOneNat[]
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = { ...base };
+    if (settings.name !== undefined) {
+      body.name = settings.name;
+    }
+    if (settings.enabled !== undefined) {
+      body.status = settings.enabled;
+    }
+    if (settings.wanPortIds !== undefined) {
+      body.interfaceIds = settings.wanPortIds;
+    }
+    if (settings.internalIp !== undefined) {
+      assertIpv4(settings.internalIp, 'internalIp');
+      body.internalIp = settings.internalIp;
+    }
+    if (settings.externalIp !== undefined) {
+      assertIpv4(settings.externalIp, 'externalIp');
+      body.externalIp = settings.externalIp;
+    }
+    if (settings.dmz !== undefined) {
+      body.dmz = settings.dmz;
+    }
+    if (settings.description !== undefined) {
+      body.description = settings.description;
+    }
+
+    const clash = others.find((other) => other.externalIp === body.externalIp || other.internalIp === body.internalIp);
+    if (clash) {
+      throw new Error(`One-to-one NAT rule ${clash.name} already maps ${clash.externalIp} <-> ${clash.internalIp}.`);
+    }
+    return body;
+  }
+
+  private async aclRuleSet(type: AclType, siteId: string): Promise<RuleSet<AclRule>> {
+    const networkNames = await this.lanNetworkNames(siteId);
+    const endpoint = (typeValue: number, ids: string[] = []) => {
+      const typeName = endpointTypeName(typeValue);
+      const names = typeName === 'network' ? ids.map((id) => networkNames.get(id) ?? id) : ids;
+      return `${typeName} ${names.length > 0 ? names.join(', ') : '(none)'}`;
+    };
+    const scope = (rule: AclRule): string => {
+      if (type === 'gateway') {
+        const direction = rule.direction ?? {};
+        const directions = [
+          direction.lanToWan ? 'LAN->WAN' : undefined,
+          direction.lanToLan ? 'LAN->LAN' : undefined,
+          direction.wanInIds?.length ? `WAN in ${direction.wanInIds.join(', ')}` : undefined,
+          direction.vpnInIds?.length ? `VPN in ${direction.vpnInIds.join(', ')}` : undefined
+        ].filter(Boolean);
+        return ` [${directions.join(', ') || 'no direction'}]`;
+      }
+      if (type === 'switch') {
+        const binding = ACL_BINDING_TYPES[rule.bindingType ?? 0] ?? 'all-ports';
+        return binding === 'vlan'
+          ? ` [VLAN ${networkNames.get(rule.networkId ?? '') ?? rule.networkId}]`
+          : binding === 'custom-ports'
+            ? ` [ports ${(rule.customAclPorts ?? []).map((port) => `${port.mac}: ${port.customPortIds.join(', ')}`).join('; ')}]`
+            : ' [all ports]';
+      }
+      return '';
+    };
+
+    return {
+      name: `${type} ACL`,
+      load: async () =>
+        (await this.api.fetchPaginated<AclRule>(this.sitePath(siteId, `/acls/${ACL_PATHS[type]}`))).sort(
+          (left, right) => left.index - right.index
+        ),
+      key: (rule) => rule.id,
+      describe: (rule) =>
+        `${ACL_POLICIES[rule.policy] ?? `policy ${rule.policy}`} ${rule.protocols.map(protocolName).join('/')} ` +
+        `${endpoint(rule.sourceType, rule.sourceIds)} -> ${endpoint(rule.destinationType, rule.destinationIds)}` +
+        `${scope(rule)} "${rule.description}"${rule.status ? '' : ' (disabled)'}`,
+      numbered: true
+    };
+  }
+
+  private portForwardRuleSet(siteId: string): RuleSet<PortForward> {
+    return {
+      name: 'port forwarding',
+      load: () => this.api.fetchPaginated<PortForward>(this.sitePath(siteId, '/nat/port-forwardings')),
+      key: (rule) => rule.id,
+      describe: (rule) => {
+        const wan = `WAN ${(rule.interfaceWanPortId ?? []).join(', ')}`;
+        const from = rule.from === 1 ? `from ${(rule.limitedAddresses ?? []).join(', ')}` : 'from anywhere';
+        const mapping = rule.dMZ
+          ? `DMZ -> ${rule.forwardIp}`
+          : `${(PORT_FORWARD_PROTOCOLS[rule.protocol ?? 0] ?? 'all').toUpperCase()} :${rule.externalPort} -> ${rule.forwardIp}:${rule.forwardPort}`;
+        return `"${rule.name}" ${mapping} on ${wan} ${from}${rule.status ? '' : ' (disabled)'}`;
+      },
+      numbered: true
+    };
+  }
+
+  private oneToOneNatRuleSet(siteId: string): RuleSet<OneToOneNat> {
+    return {
+      name: 'one-to-one NAT',
+      load: () => this.api.fetchPaginated<OneToOneNat>(this.sitePath(siteId, '/nat/one-to-one-nat')),
+      key: (rule) => rule.id,
+      describe: (rule) =>
+        `"${rule.name}" ${rule.externalIp} <-> ${rule.internalIp} on WAN ${(rule.interfaceIds ?? []).join(', ')}` +
+        `${rule.dmz ? ' with DMZ' : ''}${rule.status ? '' : ' (disabled)'}`,
+      numbered: true
+    };
+  }
+
+  private async listPortForwardStatus(type: 'User' | 'UPnP', siteId: string): Promise<PortForwardStatus[]> {
+    return this.api.fetchPaginated<PortForwardStatus>(this.sitePath(siteId, `/insight/port-forwarding/${type}`));
+  }
+
+  /** LAN network names by ID, so ACL summaries can name networks; empty when the lookup fails. */
+  private async lanNetworkNames(siteId: string): Promise<Map<string, string>> {
+    try {
+      return new Map((await this.networks.listLanNetworks(siteId)).map((network) => [network.id, network.name]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private sitePath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${relativePath}`);
+  }
+}
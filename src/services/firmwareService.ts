@@ -0,0 +1,656 @@
+import type {
+  FirmwareDeviceStatus,
+  FirmwareRolloutPreview,
+  FirmwareStatusReport,
+  OmadaActionResult,
+  OmadaDeviceInfo,
+  OmadaRequestOptions,
+  OmadaSiteSummary,
+  UpgradeSchedulePreview
+} from '../types/index.js';
+import { isSameMac, normalizeMac } from '../utils/mac.js';
+import { parseTimeInput } from '../utils/timeRange.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+
+export const FIRMWARE_CHANNELS = ['stable', 'rc', 'beta'] as const;
+
+export type FirmwareChannel = (typeof FIRMWARE_CHANNELS)[number];
+
+export const SCHEDULE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+
+export type ScheduleFrequency = (typeof SCHEDULE_FREQUENCIES)[number];
+
+export interface ModelTypeInfo {
+  showModel: string;
+  compoundModel: string;
+}
+
+export interface FirmwareStatusQuery {
+  /** Site IDs or names; defaults to every site the caller can access. */
+  sites?: string[];
+  /** Also list devices that already run the latest firmware. */
+  includeCurrent?: boolean;
+  channel?: FirmwareChannel;
+}
+
+export interface UpgradePlan {
+  id: string;
+  modelTypeInfo?: ModelTypeInfo;
+  siteNames?: string[];
+  siteNum?: number;
+  currentVersion?: string[];
+  targetVersion?: string;
+  scheduledUpgradeTime?: string;
+  operator?: string;
+  fromRollback?: boolean;
+  [key: string]: unknown;
+}
+
+export interface UpgradePlanRequest {
+  /** Site IDs or names. */
+  sites: string[];
+  models: {
+    /** Model as shown in the UI (`EAP225(EU) v3.0`) or its compound model. */
+    model: string;
+    /** Defaults to the latest stable firmware in the controller's firmware pool. */
+    targetVersion?: string;
+  }[];
+  /** Start of the rollout; omit to upgrade immediately. */
+  startAt?: string;
+}
+
+export interface UpgradePlanUpdate {
+  /** Site IDs or names. */
+  sites: string[];
+  startAt?: string;
+}
+
+export interface UpgradeScheduleRequest {
+  name: string;
+  enabled?: boolean;
+  /** Device MACs or names. */
+  devices: string[];
+  /** Execution time of a one-off schedule; exactly one of `runAt` and `repeat` is required. */
+  runAt?: string;
+  repeat?: {
+    frequency: ScheduleFrequency;
+    /** 0 (Sunday) to 6 (Saturday); required for weekly schedules. */
+    dayOfWeek?: number;
+    /** Required for monthly schedules. */
+    dayOfMonth?: number;
+    hour: number;
+    minute: number;
+  };
+}
+
+interface FirmwarePoolEntry {
+  id?: string;
+  modelTypeInfo?: ModelTypeInfo;
+  latestVersion?: string;
+  releaseTime?: number;
+}
+
+interface PlannedModel {
+  modelTypeInfo: ModelTypeInfo;
+  currentVersions: string[];
+  targetVersion: string;
+}
+
+interface ScheduleBody {
+  name: string;
+  status: boolean;
+  type: 0 | 1;
+  nextExecuteTime?: number;
+  occurrenceTime?: {
+    timingType: 1 | 2 | 3;
+    dayOfWeek?: number;
+    dayOfMonth?: number;
+    hour: number;
+    minute: number;
+  };
+  deviceMacs: string[];
+}
+
+const CONNECTED_STATUS = 1;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function textField(device: OmadaDeviceInfo, key: string): string | undefined {
+  const value = device[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function sameModel(left: string | undefined, right: string | undefined): boolean {
+  return left !== undefined && right !== undefined && left.toLowerCase() === right.toLowerCase();
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => value !== undefined))].sort();
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function parseFutureTime(value: string, label: string): Date {
+  const time = parseTimeInput(value);
+  if (time <= Date.now()) {
+    throw new Error(`${label} must be in the future (got ${new Date(time).toISOString()}).`);
+  }
+  return new Date(time);
+}
+
+/**
+ * Firmware upgrade planning across sites: which devices have firmware available, release notes,
+ * controller-wide upgrade plans and per-site upgrade schedules. Plan and schedule writes can be
+ * previewed with `dryRun`, which returns the rollout summary without contacting write endpoints.
+ */
+export class FirmwareService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly listSites: () => Promise<OmadaSiteSummary[]>
+  ) {}
+
+  /** Joins the device lists of the selected sites with the controller's firmware pool. */
+  public async getFirmwareStatus(query: FirmwareStatusQuery = {}): Promise<FirmwareStatusReport> {
+    const sites = await this.resolveSites(query.sites);
+    const pool = await this.listFirmwarePool(query.channel);
+    const unavailable: FirmwareStatusReport['unavailable'] = [];
+
+    const perSite = await Promise.all(
+      sites.map(async (site) => {
+        try {
+          const devices = await this.listSiteDevices(site.siteId);
+          return devices.map((device) => this.toDeviceStatus(device, site, pool));
+        } catch (error) {
+          unavailable.push({ siteId: site.siteId, error: error instanceof Error ? error.message : String(error) });
+          return [];
+        }
+      })
+    );
+    const allDevices = perSite.flat();
+    const devices = query.includeCurrent ? allDevices : allDevices.filter((device) => device.upgradeAvailable);
+
+    const models = new Map<string, FirmwareStatusReport['models'][number]>();
+    for (const device of allDevices.filter((candidate) => candidate.upgradeAvailable)) {
+      const key = (device.compoundModel ?? device.showModel ?? 'unknown').toLowerCase();
+      const model = models.get(key) ?? {
+        showModel: device.showModel,
+        compoundModel: device.compoundModel,
+        currentVersions: [],
+        latestVersion: device.latestVersion,
+        firmwareId: device.firmwareId,
+        devices: 0,
+        siteIds: []
+      };
+      model.devices += 1;
+      model.currentVersions = unique([...model.currentVersions, device.firmwareVersion]);
+      model.siteIds = unique([...model.siteIds, device.siteId]);
+      models.set(key, model);
+    }
+
+    return {
+      sites: sites.map((site, index) => ({
+        siteId: site.siteId,
+        name: site.name,
+        devices: perSite[index].length,
+        upgradeAvailable: perSite[index].filter((device) => device.upgradeAvailable).length
+      })),
+      models: [...models.values()],
+      devices,
+      unavailable
+    };
+  }
+
+  /** Accepts a firmware pool ID or a model name, which is resolved to its latest firmware. */
+  public async getReleaseNotes(firmware: string, channel?: FirmwareChannel): Promise<unknown> {
+    const pool = await this.listFirmwarePool(channel);
+    const entry =
+      pool.find((candidate) => candidate.id === firmware) ??
+      pool.find(
+        (candidate) =>
+          sameModel(candidate.modelTypeInfo?.showModel, firmware) ||
+          sameModel(candidate.modelTypeInfo?.compoundModel, firmware)
+      );
+
+    const result = await this.api.execute<{ releaseNotes?: unknown[] }>({
+      method: 'POST',
+      url: this.api.buildOmadaPath('/upgrade/overview/firmwares/release-note'),
+      data: { oemId: entry?.id ?? firmware }
+    });
+
+    return {
+      firmwareId: entry?.id ?? firmware,
+      model: entry?.modelTypeInfo?.showModel,
+      latestVersion: entry?.latestVersion,
+      releaseNotes: result?.releaseNotes ?? []
+    };
+  }
+
+  public async listUpgradePlans(): Promise<UpgradePlan[]> {
+    return this.api.fetchPaginated<UpgradePlan>(this.api.buildOmadaPath('/upgrade/overview/plans'));
+  }
+
+  public async createUpgradePlan(
+    request: UpgradePlanRequest,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<FirmwareRolloutPreview | OmadaActionResult> {
+    const sites = await this.resolveSites(request.sites);
+    const startAt = request.startAt ? parseFutureTime(request.startAt, 'startAt') : undefined;
+    const [pool, devices] = await Promise.all([this.listFirmwarePool(), this.listDevicesOfSites(sites)]);
+    const models = request.models.map((requested) => {
+      const matching = devices.filter(
+        ({ device }) =>
+          sameModel(textField(device, 'showModel'), requested.model) ||
+          sameModel(textField(device, 'compoundModel'), requested.model) ||
+          sameModel(device.model, requested.model)
+      );
+      const first = matching[0]?.device;
+      const showModel = first ? textField(first, 'showModel') : undefined;
+      const compoundModel = first ? textField(first, 'compoundModel') : undefined;
+      if (!showModel || !compoundModel) {
+        throw new Error(`No ${requested.model} devices were found in the selected sites.`);
+      }
+
+      const targetVersion =
+        requested.targetVersion ??
+        pool.find((entry) => sameModel(entry.modelTypeInfo?.compoundModel, compoundModel))?.latestVersion;
+      if (!targetVersion) {
+        throw new Error(`The firmware pool has no firmware for ${showModel}; pass targetVersion explicitly.`);
+      }
+
+      const currentVersions = unique(
+        matching.map(({ device }) => textField(device, 'firmwareVersion')).filter((version) => version !== targetVersion)
+      );
+      if (currentVersions.length === 0) {
+        throw new Error(`Every ${showModel} device in the selected sites already runs ${targetVersion}.`);
+      }
+
+      return { modelTypeInfo: { showModel, compoundModel }, currentVersions, targetVersion };
+    });
+
+    const preview = this.buildRolloutPreview(sites, devices, models, startAt, dryRun);
+    if (dryRun) {
+      return preview;
+    }
+
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.api.buildOmadaPath('/upgrade/overview/plans'),
+        data: {
+          sites: sites.map((site) => site.siteId),
+          modelList: models.map((model) => ({
+            modelTypeInfo: model.modelTypeInfo,
+            currentVersion: model.currentVersions,
+            targetVersion: model.targetVersion
+          })),
+          ...this.planTime(startAt)
+        }
+      },
+      options
+    );
+
+    return { action: 'createFirmwareUpgradePlan', target: { ...preview }, result };
+  }
+
+  /** Changes the sites and start time of an existing plan; its models and versions stay the same. */
+  public async updateUpgradePlan(
+    planId: string,
+    update: UpgradePlanUpdate,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<FirmwareRolloutPreview | OmadaActionResult> {
+    const plan = (await this.listUpgradePlans()).find((candidate) => candidate.id === planId);
+    if (!plan?.modelTypeInfo || !plan.targetVersion) {
+      throw new Error(`No firmware upgrade plan with ID ${planId} was found.`);
+    }
+
+    const sites = await this.resolveSites(update.sites);
+    const startAt = update.startAt ? parseFutureTime(update.startAt, 'startAt') : undefined;
+    const devices = await this.listDevicesOfSites(sites);
+    const preview = this.buildRolloutPreview(
+      sites,
+      devices,
+      [
+        {
+          modelTypeInfo: plan.modelTypeInfo,
+          currentVersions: plan.currentVersion ?? [],
+          targetVersion: plan.targetVersion
+        }
+      ],
+      startAt,
+      dryRun
+    );
+    if (dryRun) {
+      return preview;
+    }
+
+    const result = await this.api.execute(
+      {
+        method: 'PATCH',
+        url: this.api.buildOmadaPath(`/plans/${encodeURIComponent(planId)}/upgrade/overview`),
+        data: { sites: sites.map((site) => site.siteId), ...this.planTime(startAt) }
+      },
+      options
+    );
+
+    return { action: 'updateFirmwareUpgradePlan', target: { planId, ...preview }, result };
+  }
+
+  public async deleteUpgradePlan(planId: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    const result = await this.api.execute(
+      { method: 'DELETE', url: this.api.buildOmadaPath(`/plans/${encodeURIComponent(planId)}/upgrade/overview`) },
+      options
+    );
+
+    return { action: 'deleteFirmwareUpgradePlan', target: { planId }, result };
+  }
+
+  public async listUpgradeSchedules(siteId?: string): Promise<unknown> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    return this.api.execute({ method: 'GET', url: this.sitePath(resolvedSiteId, '/upgrade-schedules') });
+  }
+
+  public async createUpgradeSchedule(
+    request: UpgradeScheduleRequest,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<UpgradeSchedulePreview | OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const { body, preview } = await this.prepareSchedule(request, resolvedSiteId, dryRun);
+    if (dryRun) {
+      return preview;
+    }
+
+    const result = await this.api.execute(
+      { method: 'POST', url: this.sitePath(resolvedSiteId, '/upgrade-schedules'), data: body },
+      options
+    );
+
+    return { action: 'createUpgradeSchedule', target: { ...preview }, result };
+  }
+
+  public async updateUpgradeSchedule(
+    scheduleId: string,
+    request: UpgradeScheduleRequest,
+    siteId?: string,
+    dryRun = false,
+    options?: OmadaRequestOptions
+  ): Promise<UpgradeSchedulePreview | OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const { body, preview } = await this.prepareSchedule(request, resolvedSiteId, dryRun);
+    if (dryRun) {
+      return preview;
+    }
+
+    const result = await this.api.execute(
+      {
+        method: 'PUT',
+        url: this.sitePath(resolvedSiteId, `/upgrade-schedules/${encodeURIComponent(scheduleId)}`),
+        data: body
+      },
+      options
+    );
+
+    return { action: 'updateUpgradeSchedule', target: { scheduleId, ...preview }, result };
+  }
+
+  public async deleteUpgradeSchedule(
+    scheduleId: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const result = await this.api.execute(
+      {
+        method: 'DELETE',
+        url: this.sitePath(resolvedSiteId, `/upgrade-schedules/${encodeURIComponent(scheduleId)}`)
+      },
+      options
+    );
+
+    return { action: 'deleteUpgradeSchedule', target: { siteId: resolvedSiteId, scheduleId }, result };
+  }
+
+  private async prepareSchedule(
+    request: UpgradeScheduleRequest,
+    siteId: string,
+    dryRun: boolean
+  ): Promise<{ body: ScheduleBody; preview: UpgradeSchedulePreview }> {
+    if ((request.runAt === undefined) === (request.repeat === undefined)) {
+      throw new Error('Provide exactly one of runAt (one-off schedule) and repeat (recurring schedule).');
+    }
+
+    const { repeat } = request;
+    if (repeat?.frequency === 'weekly' && repeat.dayOfWeek === undefined) {
+      throw new Error('Weekly schedules require dayOfWeek (0 = Sunday to 6 = Saturday).');
+    }
+    if (repeat?.frequency === 'monthly' && repeat.dayOfMonth === undefined) {
+      throw new Error('Monthly schedules require dayOfMonth.');
+    }
+
+    const siteDevices = await this.listSiteDevices(siteId);
+    const warnings: string[] = [];
+    const devices = request.devices.map((identifier) => {
+      const lowered = identifier.trim().toLowerCase();
+      const device =
+        siteDevices.find((candidate) => isSameMac(candidate.mac, identifier)) ??
+        siteDevices.find((candidate) => candidate.name?.toLowerCase() === lowered);
+      if (!device) {
+        const mac = normalizeMac(identifier);
+        if (!mac) {
+          throw new Error(`No device matching "${identifier}" was found in site ${siteId}.`);
+        }
+        warnings.push(`${mac} is not in the device list of site ${siteId}.`);
+        return { mac };
+      }
+
+      const upgradeAvailable = device.needUpgrade === undefined ? undefined : device.needUpgrade === true;
+      if (upgradeAvailable === false) {
+        warnings.push(`${device.name ?? device.mac} already runs the latest firmware.`);
+      }
+      return {
+        mac: normalizeMac(device.mac) ?? device.mac,
+        name: device.name,
+        model: textField(device, 'showModel') ?? device.model,
+        firmwareVersion: textField(device, 'firmwareVersion'),
+        upgradeAvailable
+      };
+    });
+
+    const runAt = request.runAt ? parseFutureTime(request.runAt, 'runAt') : undefined;
+    const timingType = repeat ? SCHEDULE_FREQUENCIES.indexOf(repeat.frequency) + 1 : undefined;
+    const body: ScheduleBody = {
+      name: request.name,
+      status: request.enabled ?? true,
+      type: runAt ? 0 : 1,
+      nextExecuteTime: runAt?.getTime(),
+      occurrenceTime: repeat
+        ? {
+            timingType: timingType as 1 | 2 | 3,
+            dayOfWeek: repeat.frequency === 'weekly' ? repeat.dayOfWeek : undefined,
+            dayOfMonth: repeat.frequency === 'monthly' ? repeat.dayOfMonth : undefined,
+            hour: repeat.hour,
+            minute: repeat.minute
+          }
+        : undefined,
+      deviceMacs: devices.map((device) => device.mac)
+    };
+
+    return {
+      body,
+      preview: {
+        dryRun,
+        siteId,
+        name: request.name,
+        enabled: body.status,
+        window: runAt
+          ? { type: 'once', runsAt: runAt.toISOString() }
+          : { type: 'repeat', recurrence: repeat ? this.describeRecurrence(repeat) : undefined },
+        devices,
+        warnings
+      }
+    };
+  }
+
+  private describeRecurrence(repeat: NonNullable<UpgradeScheduleRequest['repeat']>): string {
+    const time = `${pad(repeat.hour)}:${pad(repeat.minute)}`;
+    if (repeat.frequency === 'weekly') {
+      return `weekly on ${DAY_NAMES[repeat.dayOfWeek ?? 0]} at ${time}`;
+    }
+    if (repeat.frequency === 'monthly') {
+      return `monthly on day ${repeat.dayOfMonth} at ${time}`;
+    }
+    return `daily at ${time}`;
+  }
+
+  private buildRolloutPreview(
+    sites: OmadaSiteSummary[],
+    devices: { site: OmadaSiteSummary; device: OmadaDeviceInfo }[],
+    models: PlannedModel[],
+    startAt: Date | undefined,
+    dryRun: boolean
+  ): FirmwareRolloutPreview {
+    const warnings: string[] = [];
+    const affected = models.flatMap((model) =>
+      devices
+        .filter(({ device }) => {
+          const version = textField(device, 'firmwareVersion');
+          return (
+            sameModel(textField(device, 'compoundModel'), model.modelTypeInfo.compoundModel) &&
+            version !== undefined &&
+            model.currentVersions.includes(version)
+          );
+        })
+        .map(({ site, device }) => {
+          if (Number(device.status) !== CONNECTED_STATUS) {
+            warnings.push(`${device.name ?? device.mac} in site ${site.name} is not connected.`);
+          }
+          return {
+            siteId: site.siteId,
+            siteName: site.name,
+            mac: device.mac,
+            name: device.name,
+            model: model.modelTypeInfo.showModel,
+            firmwareVersion: textField(device, 'firmwareVersion'),
+            targetVersion: model.targetVersion
+          };
+        })
+    );
+
+    for (const site of sites) {
+      if (!affected.some((device) => device.siteId === site.siteId)) {
+        warnings.push(`No device in site ${site.name} would be upgraded.`);
+      }
+    }
+
+    return {
+      dryRun,
+      window: startAt ? { type: 'scheduled', startsAt: startAt.toISOString() } : { type: 'now' },
+      sites: sites.map((site) => ({
+        siteId: site.siteId,
+        name: site.name,
+        devices: affected.filter((device) => device.siteId === site.siteId).length
+      })),
+      models: models.map((model) => ({
+        showModel: model.modelTypeInfo.showModel,
+        compoundModel: model.modelTypeInfo.compoundModel,
+        currentVersions: model.currentVersions,
+        targetVersion: model.targetVersion,
+        devices: affected.filter((device) => device.model === model.modelTypeInfo.showModel).length
+      })),
+      devices: affected,
+      warnings
+    };
+  }
+
+  /** Plan times are wall-clock fields, taken from the MCP server's local time zone. */
+  private planTime(startAt: Date | undefined): Record<string, number> {
+    if (!startAt) {
+      return { scheduleType: 0 };
+    }
+
+    return {
+      scheduleType: 1,
+      year: startAt.getFullYear(),
+      monthOfYear: startAt.getMonth() + 1,
+      dayOfMonth: startAt.getDate(),
+      hour: startAt.getHours(),
+      minute: startAt.getMinutes()
+    };
+  }
+
+  private toDeviceStatus(
+    device: OmadaDeviceInfo,
+    site: OmadaSiteSummary,
+    pool: FirmwarePoolEntry[]
+  ): FirmwareDeviceStatus {
+    const compoundModel = textField(device, 'compoundModel');
+    const firmwareVersion = textField(device, 'firmwareVersion');
+    const firmware = pool.find((entry) => sameModel(entry.modelTypeInfo?.compoundModel, compoundModel));
+    // `needUpgrade` comes from the controller; the version comparison only covers older controllers.
+    const upgradeAvailable =
+      typeof device.needUpgrade === 'boolean'
+        ? device.needUpgrade
+        : Boolean(firmware?.latestVersion && firmwareVersion && firmware.latestVersion !== firmwareVersion);
+
+    return {
+      siteId: site.siteId,
+      siteName: site.name,
+      mac: device.mac,
+      name: device.name,
+      type: device.type,
+      showModel: textField(device, 'showModel'),
+      compoundModel,
+      firmwareVersion,
+      latestVersion: firmware?.latestVersion,
+      firmwareId: firmware?.id,
+      upgradeAvailable
+    };
+  }
+
+  private async listFirmwarePool(channel: FirmwareChannel = 'stable'): Promise<FirmwarePoolEntry[]> {
+    return this.api.fetchPaginated<FirmwarePoolEntry>(this.api.buildOmadaPath('/upgrade/overview/firmwares'), {
+      channel: FIRMWARE_CHANNELS.indexOf(channel)
+    });
+  }
+
+  private async listDevicesOfSites(
+    sites: OmadaSiteSummary[]
+  ): Promise<{ site: OmadaSiteSummary; device: OmadaDeviceInfo }[]> {
+    const perSite = await Promise.all(
+      sites.map(async (site) => (await this.listSiteDevices(site.siteId)).map((device) => ({ site, device })))
+    );
+    return perSite.flat();
+  }
+
+  private async listSiteDevices(siteId: string): Promise<OmadaDeviceInfo[]> {
+    return this.api.fetchPaginated<OmadaDeviceInfo>(this.sitePath(siteId, '/devices'));
+  }
+
+  /** Resolves site IDs or names against the sites visible to the caller; no identifiers means all of them. */
+  private async resolveSites(identifiers?: string[]): Promise<OmadaSiteSummary[]> {
+    const sites = await this.listSites();
+    if (!identifiers || identifiers.length === 0) {
+      return sites;
+    }
+
+    return identifiers.map((identifier) => {
+      const lowered = identifier.trim().toLowerCase();
+      const site =
+        sites.find((candidate) => candidate.siteId === identifier) ??
+        sites.find((candidate) => candidate.name.toLowerCase() === lowered);
+      if (!site) {
+        throw new Error(`No site matching "${identifier}" was found.`);
+      }
+      return site;
+    });
+  }
+
+  private sitePath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${relativePath}`);
+  }
+}
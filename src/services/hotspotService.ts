@@ -0,0 +1,449 @@
+import type { OmadaActionResult, OmadaRequestOptions } from '../types/index.js';
+import { normalizeMac } from '../utils/mac.js';
+import { parseTimeInput, resolveTimeRange, type TimeRangeInput, toIsoTimestamp } from '../utils/timeRange.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { ClientService } from './clientService.js';
+
+/** Listed in API value order: 0 usage counts, 1 online users, 2 unlimited. */
+export const VOUCHER_LIMIT_TYPES = ['usage-count', 'online-users', 'unlimited'] as const;
+
+export type VoucherLimitType = (typeof VOUCHER_LIMIT_TYPES)[number];
+
+/** Listed in API value order: 0 per client, 1 per voucher. */
+export const VOUCHER_DURATION_TYPES = ['client', 'voucher'] as const;
+
+export type VoucherDurationType = (typeof VOUCHER_DURATION_TYPES)[number];
+
+/** Listed in API value order: 0 wall-clock time, 1 online time only. */
+export const VOUCHER_TIMING_TYPES = ['time', 'usage'] as const;
+
+export type VoucherTimingType = (typeof VOUCHER_TIMING_TYPES)[number];
+
+export const VOUCHER_CODE_CHARACTERS = ['numbers', 'letters', 'mixed'] as const;
+
+export type VoucherCodeCharacters = (typeof VOUCHER_CODE_CHARACTERS)[number];
+
+/** Listed in API value order: 0 total, 1 daily, 2 weekly, 3 monthly. */
+export const TRAFFIC_LIMIT_FREQUENCIES = ['total', 'daily', 'weekly', 'monthly'] as const;
+
+export type TrafficLimitFrequency = (typeof TRAFFIC_LIMIT_FREQUENCIES)[number];
+
+export const VOUCHER_FORMATS = ['table', 'csv', 'json'] as const;
+
+export type VoucherFormat = (typeof VOUCHER_FORMATS)[number];
+
+export interface VoucherGroup {
+  id: string;
+  name: string;
+  createdTime?: number;
+  limitType: number;
+  limitNum?: number;
+  durationType: number;
+  duration: number;
+  timingType?: number;
+  unitPrice?: string;
+  currency?: string;
+  unusedCount?: number;
+  usedCount?: number;
+  inUseCount?: number;
+  expiredCount?: number;
+  totalCount?: number;
+  totalAmount?: string;
+  [key: string]: unknown;
+}
+
+export interface VoucherGroupSummary {
+  id: string;
+  name: string;
+  createdAt?: string;
+  duration: string;
+  limit: string;
+  price?: string;
+  counts: { total?: number; unused?: number; inUse?: number; used?: number; expired?: number };
+  description?: string;
+}
+
+export interface PrintableVoucher {
+  code: string;
+  limitType: number;
+  limitNum?: number;
+  durationType: number;
+  duration: number;
+  unitPrice?: string;
+  currency?: string;
+  validity?: string;
+  printComments?: string;
+}
+
+export interface VoucherGroupRequest {
+  name: string;
+  count: number;
+  durationMinutes: number;
+  /** Whether the duration runs per client or for the whole voucher; defaults to per client. */
+  durationType?: VoucherDurationType;
+  /** Whether the duration counts wall-clock time or online time only; defaults to wall-clock time. */
+  timing?: VoucherTimingType;
+  limit?: { type: VoucherLimitType; count?: number };
+  codeLength?: number;
+  codeCharacters?: VoucherCodeCharacters;
+  rateLimit?: { profileId?: string; downloadKbps?: number; uploadKbps?: number };
+  trafficLimit?: { megabytes: number; frequency?: TrafficLimitFrequency };
+  unitPrice?: number;
+  currency?: string;
+  /** Portal IDs; the vouchers apply to all portals when omitted. */
+  portals?: string[];
+  /** Only usable until `until`, and not before `since` (default: now); parsed like log time ranges. */
+  validity?: { since?: string; until: string };
+  allowLogout?: boolean;
+  description?: string;
+  printComments?: string;
+}
+
+export interface VoucherStatisticsQuery extends TimeRangeInput {
+  /** Include the usage history of the time range, not only the all-time summary. */
+  history?: boolean;
+}
+
+export interface HotspotAuthRecord {
+  id: string;
+  name?: string;
+  mac: string;
+  ssid?: string;
+  networkName?: string;
+  authType?: number;
+  voucherCode?: string;
+  /** Start and end of the authentication, as ISO 8601. */
+  start?: string;
+  end?: string;
+  valid?: boolean;
+  [key: string]: unknown;
+}
+
+interface AuthRecordResponse {
+  id: string;
+  mac: string;
+  start?: number;
+  end?: number;
+  [key: string]: unknown;
+}
+
+const DEFAULT_CODE_LENGTH = 8;
+
+const DEFAULT_HISTORY_WINDOW_MS = 30 * 86_400_000;
+
+const CODE_FORMS: Record<VoucherCodeCharacters, number[]> = { numbers: [0], letters: [1], mixed: [0, 1] };
+
+function formatMinutes(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  return [days ? `${days}d` : '', hours ? `${hours}h` : '', rest || minutes === 0 ? `${rest}m` : ''].filter(Boolean).join(' ');
+}
+
+function describeDuration(duration: number, durationType: number): string {
+  return `${formatMinutes(duration)} per ${VOUCHER_DURATION_TYPES[durationType] ?? 'client'}`;
+}
+
+function describeLimit(limitType: number, limitNum?: number): string {
+  if (limitType === 0) {
+    return `${limitNum ?? '?'} use${limitNum === 1 ? '' : 's'}`;
+  }
+  if (limitType === 1) {
+    return `${limitNum ?? '?'} user${limitNum === 1 ? '' : 's'} at a time`;
+  }
+  return 'unlimited';
+}
+
+function describePrice(unitPrice?: string, currency?: string): string | undefined {
+  return unitPrice ? `${unitPrice}${currency ? ` ${currency}` : ''}` : undefined;
+}
+
+function toGroupSummary(group: VoucherGroup): VoucherGroupSummary {
+  return {
+    id: group.id,
+    name: group.name,
+    createdAt: toIsoTimestamp(group.createdTime),
+    duration: describeDuration(group.duration, group.durationType),
+    limit: describeLimit(group.limitType, group.limitNum),
+    price: describePrice(group.unitPrice, group.currency),
+    counts: {
+      total: group.totalCount,
+      unused: group.unusedCount,
+      inUse: group.inUseCount,
+      used: group.usedCount,
+      expired: group.expiredCount
+    },
+    description: typeof group.description === 'string' ? group.description : undefined
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Renders vouchers as aligned plain-text columns or CSV, one voucher per line after a header. */
+function formatVouchers(vouchers: PrintableVoucher[], format: 'table' | 'csv'): string {
+  const header = ['Code', 'Duration', 'Limit', 'Price', 'Validity'];
+  const rows = vouchers.map((voucher) => [
+    voucher.code,
+    describeDuration(voucher.duration, voucher.durationType),
+    describeLimit(voucher.limitType, voucher.limitNum),
+    describePrice(voucher.unitPrice, voucher.currency) ?? '',
+    voucher.validity ?? ''
+  ]);
+
+  if (format === 'csv') {
+    return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n');
+  }
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Hotspot portal vouchers and authenticated portal clients. Voucher codes can be fetched as
+ * printable text for the front desk.
+ */
+export class HotspotService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly clients: ClientService
+  ) {}
+
+  public async listVoucherGroups(siteId?: string): Promise<VoucherGroupSummary[]> {
+    return (await this.fetchVoucherGroups(this.api.resolveSiteId(siteId))).map(toGroupSummary);
+  }
+
+  public async createVoucherGroup(
+    request: VoucherGroupRequest,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const limit = request.limit ?? { type: 'usage-count', count: 1 };
+    if (limit.type !== 'unlimited' && limit.count === undefined) {
+      throw new Error(`limit.count is required for the ${limit.type} limit type.`);
+    }
+    if ((request.unitPrice === undefined) !== (request.currency === undefined)) {
+      throw new Error('Pass unitPrice and currency together.');
+    }
+
+    const { profileId, downloadKbps, uploadKbps } = request.rateLimit ?? {};
+    const body: Record<string, unknown> = {
+      name: request.name,
+      amount: request.count,
+      codeLength: request.codeLength ?? DEFAULT_CODE_LENGTH,
+      codeForm: CODE_FORMS[request.codeCharacters ?? 'numbers'],
+      limitType: VOUCHER_LIMIT_TYPES.indexOf(limit.type),
+      limitNum: limit.type === 'unlimited' ? undefined : limit.count,
+      durationType: VOUCHER_DURATION_TYPES.indexOf(request.durationType ?? 'client'),
+      duration: request.durationMinutes,
+      timingType: VOUCHER_TIMING_TYPES.indexOf(request.timing ?? 'time'),
+      rateLimit: profileId
+        ? { mode: 1, rateLimitProfileId: profileId }
+        : {
+            mode: 0,
+            customRateLimit: {
+              downLimitEnable: downloadKbps !== undefined,
+              downLimit: downloadKbps,
+              upLimitEnable: uploadKbps !== undefined,
+              upLimit: uploadKbps
+            }
+          },
+      trafficLimitEnable: request.trafficLimit !== undefined,
+      trafficLimit: request.trafficLimit?.megabytes,
+      trafficLimitFrequency: request.trafficLimit
+        ? TRAFFIC_LIMIT_FREQUENCIES.indexOf(request.trafficLimit.frequency ?? 'total')
+        : undefined,
+      unitPrice: request.unitPrice,
+      currency: request.currency,
+      applyToAllPortals: !request.portals?.length,
+      portals: request.portals,
+      validityType: 0,
+      logout: request.allowLogout,
+      description: request.description,
+      printComments: request.printComments
+    };
+    if (request.validity) {
+      const start = request.validity.since ? parseTimeInput(request.validity.since) : Date.now();
+      const end = parseTimeInput(request.validity.until);
+      if (start >= end) {
+        throw new Error('The validity period must end after it starts.');
+      }
+      Object.assign(body, { validityType: 1, effectiveTime: start, expirationTime: end });
+    }
+
+    const result = await this.api.execute<{ id?: string }>(
+      { method: 'POST', url: this.hotspotPath(resolvedSiteId, '/voucher-groups'), data: body },
+      options
+    );
+    return {
+      action: 'createVoucherGroup',
+      target: {
+        siteId: resolvedSiteId,
+        name: request.name,
+        count: request.count,
+        duration: describeDuration(request.durationMinutes, Number(body.durationType)),
+        limit: describeLimit(Number(body.limitType), limit.count),
+        price: describePrice(request.unitPrice?.toString(), request.currency)
+      },
+      result
+    };
+  }
+
+  /**
+   * Unused vouchers of the given groups (IDs or names), or of all groups, as a printable table,
+   * CSV text or the raw list.
+   */
+  public async getUnusedVouchers(
+    groups: string[] | undefined,
+    format: VoucherFormat = 'table',
+    siteId?: string
+  ): Promise<PrintableVoucher[] | string> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    let vouchers: PrintableVoucher[];
+    if (groups?.length === 1) {
+      const [group] = await this.resolveVoucherGroups(groups, resolvedSiteId);
+      vouchers = await this.api.execute<PrintableVoucher[]>({
+        method: 'GET',
+        url: this.hotspotPath(resolvedSiteId, `/voucher-groups/${encodeURIComponent(group.id)}/print-unused`)
+      });
+    } else {
+      const groupIds = groups ? (await this.resolveVoucherGroups(groups, resolvedSiteId)).map((group) => group.id) : undefined;
+      vouchers = await this.api.execute<PrintableVoucher[]>({
+        method: 'POST',
+        url: this.hotspotPath(resolvedSiteId, '/voucher-groups/batch/print-unused'),
+        data: groupIds ? { type: 1, groupIds } : { type: 0 }
+      });
+    }
+
+    vouchers = vouchers ?? [];
+    if (format === 'json') {
+      return vouchers;
+    }
+    return vouchers.length > 0 ? formatVouchers(vouchers, format) : 'No unused vouchers.';
+  }
+
+  /** All-time voucher counts and revenue, plus the usage history of a time range when requested. */
+  public async getVoucherStatistics(query: VoucherStatisticsQuery = {}, siteId?: string): Promise<Record<string, unknown>> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const summary = await this.api.execute<Record<string, unknown>>({
+      method: 'GET',
+      url: this.hotspotPath(resolvedSiteId, '/vouchers/statistics/summary')
+    });
+    if (!query.history) {
+      return { summary };
+    }
+
+    const range = resolveTimeRange(query, DEFAULT_HISTORY_WINDOW_MS);
+    const history = await this.api.execute<{ summary?: unknown; usage?: { time?: number }[] }>({
+      method: 'GET',
+      url: this.hotspotPath(resolvedSiteId, '/vouchers/statistics/history'),
+      params: { 'filters.timeStart': Math.floor(range.start / 1000), 'filters.timeEnd': Math.floor(range.end / 1000) }
+    });
+    return {
+      summary,
+      history: {
+        since: toIsoTimestamp(range.start),
+        until: toIsoTimestamp(range.end),
+        summary: history?.summary,
+        usage: (history?.usage ?? []).map((point) => ({ ...point, time: toIsoTimestamp(point.time) }))
+      }
+    };
+  }
+
+  /** Portal authentication records, newest first; `searchKey` matches MAC, name or voucher code. */
+  public async listHotspotAuthRecords(searchKey?: string, siteId?: string): Promise<HotspotAuthRecord[]> {
+    const records = await this.api.fetchPaginated<AuthRecordResponse>(
+      this.hotspotPath(this.api.resolveSiteId(siteId), '/authed-records'),
+      { 'sorts.start': 'desc', searchKey }
+    );
+    return records.map((record) => ({ ...record, start: toIsoTimestamp(record.start), end: toIsoTimestamp(record.end) }));
+  }
+
+  /** Lets a client through the portal without it authenticating. */
+  public async authorizeClient(identifier: string, siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    return this.clientCommand('authorizeHotspotClient', '/auth', identifier, siteId, options);
+  }
+
+  /** Revokes a client's portal authentication, sending it back to the portal. */
+  public async unauthorizeClient(identifier: string, siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    return this.clientCommand('unauthorizeHotspotClient', '/unauth', identifier, siteId, options);
+  }
+
+  /** Disconnects the client of a valid authentication record, found by record ID or client MAC. */
+  public async disconnectClient(identifier: string, siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const mac = normalizeMac(identifier);
+    const records = await this.listHotspotAuthRecords(mac, resolvedSiteId);
+    const record =
+      records.find((candidate) => candidate.id === identifier) ??
+      records.find((candidate) => candidate.valid && mac !== undefined && normalizeMac(candidate.mac) === mac);
+    if (!record) {
+      throw new Error(`No valid hotspot authentication matching "${identifier}" was found in site ${resolvedSiteId}.`);
+    }
+
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.hotspotPath(resolvedSiteId, `/authed-records/${encodeURIComponent(record.id)}/disconnect`)
+      },
+      options
+    );
+    return {
+      action: 'disconnectHotspotClient',
+      target: { siteId: resolvedSiteId, recordId: record.id, mac: record.mac, name: record.name },
+      result
+    };
+  }
+
+  private async clientCommand(
+    action: string,
+    command: '/auth' | '/unauth',
+    identifier: string,
+    siteId: string | undefined,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const client = await this.clients.resolveClient(identifier, siteId);
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.hotspotPath(client.siteId, `/clients/${encodeURIComponent(client.mac)}${command}`)
+      },
+      options
+    );
+    return { action, target: { ...client }, result };
+  }
+
+  private async resolveVoucherGroups(identifiers: string[], siteId: string): Promise<VoucherGroup[]> {
+    const groups = await this.fetchVoucherGroups(siteId);
+    return identifiers.map((identifier) => {
+      const lowered = identifier.trim().toLowerCase();
+      const group =
+        groups.find((candidate) => candidate.id === identifier) ??
+        groups.find((candidate) => candidate.name.toLowerCase() === lowered);
+      if (!group) {
+        throw new Error(`No voucher group matching "${identifier}" was found in site ${siteId}.`);
+      }
+      return group;
+    });
+  }
+
+  private async fetchVoucherGroups(siteId: string): Promise<VoucherGroup[]> {
+    return this.api.fetchPaginated<VoucherGroup>(this.hotspotPath(siteId, '/voucher-groups'), {
+      'sorts.createTime': 'desc'
+    });
+  }
+
+  private hotspotPath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}/hotspot${relativePath}`);
+  }
+}
@@ -0,0 +1,262 @@
+import type {
+  LogPage,
+  OmadaActionResult,
+  OmadaApiResponse,
+  OmadaLogEntry,
+  OmadaRequestOptions,
+  PaginatedResult
+} from '../types/index.js';
+import { resolveTimeRange, type TimeRange, type TimeRangeInput, toIsoTimestamp } from '../utils/timeRange.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+
+export const LOG_SCOPES = ['site', 'global'] as const;
+
+export type LogScope = (typeof LOG_SCOPES)[number];
+
+export const LOG_MODULES = ['System', 'Device', 'Client'] as const;
+
+export type LogModule = (typeof LOG_MODULES)[number];
+
+export const LOG_LEVELS = ['Error', 'Warning', 'Information'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Window used when no `since` is given. Event and alert queries require an explicit range. */
+export const DEFAULT_LOG_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LOG_PAGE_SIZE = 100;
+
+/** Largest page the controller accepts. */
+export const MAX_LOG_PAGE_SIZE = 1000;
+
+/** Alerts scanned at most to filter them by level, which the controller cannot do. */
+const MAX_LEVEL_SCAN_ROWS = 10_000;
+
+export interface LogQuery extends TimeRangeInput {
+  scope?: LogScope;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface EventLogQuery extends LogQuery {
+  module?: LogModule;
+}
+
+export interface AlertLogQuery extends EventLogQuery {
+  resolved?: boolean;
+  /** Alert levels are not filterable by the controller, so the alerts of the range are scanned. */
+  level?: LogLevel;
+}
+
+export interface AuditLogQuery extends LogQuery {
+  level?: LogLevel;
+  success?: boolean;
+  auditTypes?: string[];
+  search?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface ResolveAlertsRequest extends TimeRangeInput {
+  /** Alert log IDs to resolve. Omit to resolve every alert of `module` in the time range. */
+  alertIds?: string[];
+  module?: Exclude<LogModule, 'Client'>;
+}
+
+interface LogGrid extends PaginatedResult<OmadaLogEntry> {
+  eventLogStat?: Record<string, unknown>;
+  alertLogStat?: Record<string, unknown>;
+}
+
+export class LogService {
+  constructor(private readonly api: OmadaApiContext) {}
+
+  public async listEventLogs(query: EventLogQuery = {}, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    const range = resolveTimeRange(query, DEFAULT_LOG_WINDOW_MS);
+    const params: Record<string, unknown> = this.rangeParams(range);
+    if (query.module) {
+      params['filters.module'] = query.module;
+    }
+
+    const grid = await this.fetchPage(this.logPath(query.scope, siteId, '/logs/events'), query, params);
+    return this.toLogPage(grid, query, range, grid.eventLogStat);
+  }
+
+  public async listAlertLogs(query: AlertLogQuery = {}, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    const range = resolveTimeRange(query, DEFAULT_LOG_WINDOW_MS);
+    const params: Record<string, unknown> = this.rangeParams(range);
+    if (query.module) {
+      params['filters.module'] = query.module;
+    }
+    if (query.resolved !== undefined) {
+      params['filters.resolved'] = String(query.resolved);
+    }
+
+    const path = this.logPath(query.scope, siteId, '/logs/alerts');
+    const grid = query.level
+      ? await this.fetchAlertsByLevel(path, query, params, query.level)
+      : await this.fetchPage(path, query, params);
+    return this.toLogPage(grid, query, range, grid.alertLogStat);
+  }
+
+  public async listAuditLogs(query: AuditLogQuery = {}, siteId?: string): Promise<LogPage<OmadaLogEntry>> {
+    // Audit logs have no mandatory range, so only filter by time when one was requested.
+    const range = query.since || query.until ? resolveTimeRange(query, DEFAULT_LOG_WINDOW_MS) : undefined;
+    const params: Record<string, unknown> = {
+      'sorts.time': query.sortOrder ?? 'desc'
+    };
+    if (range) {
+      params['filters.times'] = JSON.stringify([{ timeStart: range.start, timeEnd: range.end }]);
+    }
+    if (query.level) {
+      params['filters.level'] = query.level;
+    }
+    if (query.success !== undefined) {
+      params['filters.result'] = query.success ? 0 : 1;
+    }
+    if (query.auditTypes && query.auditTypes.length > 0) {
+      params['filters.auditTypes'] = query.auditTypes.join(',');
+    }
+    if (query.search) {
+      params.searchKey = query.search;
+    }
+
+    const grid = await this.fetchPage(this.logPath(query.scope, siteId, '/audit-logs'), query, params);
+    return this.toLogPage(grid, query, range);
+  }
+
+  /**
+   * Resolves the given alerts, or every alert of `module` within the time range when no IDs
+   * are given.
+   */
+  public async resolveAlerts(
+    request: ResolveAlertsRequest,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const alertIds = request.alertIds ?? [];
+    if (alertIds.length === 0 && !request.module) {
+      throw new Error('Pass alertIds, or module to resolve all alerts of that module in the time range.');
+    }
+
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const range = resolveTimeRange(request, DEFAULT_LOG_WINDOW_MS);
+    const data: Record<string, unknown> = {
+      logs: alertIds,
+      selectType: alertIds.length > 0 ? 'include' : 'all',
+      startTime: range.start,
+      endTime: range.end
+    };
+    if (request.module) {
+      data.filterModule = request.module;
+    }
+
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.api.buildOmadaPath(`/sites/${encodeURIComponent(resolvedSiteId)}/logs/alerts/resolve`),
+        data
+      },
+      options
+    );
+
+    return {
+      action: 'resolveAlerts',
+      target: {
+        siteId: resolvedSiteId,
+        selectType: data.selectType,
+        alertIds,
+        module: request.module,
+        timeRange: { start: toIsoTimestamp(range.start), end: toIsoTimestamp(range.end) }
+      },
+      result
+    };
+  }
+
+  private async fetchPage(path: string, query: LogQuery, params: Record<string, unknown>): Promise<LogGrid> {
+    const response = await this.api.get<OmadaApiResponse<LogGrid>>(path, {
+      ...params,
+      page: query.page ?? 1,
+      pageSize: pageSizeOf(query)
+    });
+
+    return this.api.ensureSuccess(response);
+  }
+
+  /**
+   * Reads every alert of the range in full controller pages and returns the requested page of
+   * those at `level`, so pages are only short at the end and `totalRows` counts the matches.
+   */
+  private async fetchAlertsByLevel(
+    path: string,
+    query: AlertLogQuery,
+    params: Record<string, unknown>,
+    level: LogLevel
+  ): Promise<LogGrid> {
+    const lowered = level.toLowerCase();
+    const matches: OmadaLogEntry[] = [];
+    let first: LogGrid | undefined;
+    let scanned = 0;
+
+    for (let page = 1; ; page += 1) {
+      const grid = await this.fetchPage(path, { page, pageSize: MAX_LOG_PAGE_SIZE }, params);
+      first ??= grid;
+      const rows = grid.data ?? [];
+      scanned += rows.length;
+      matches.push(...rows.filter((entry) => entry.level?.toLowerCase() === lowered));
+
+      if (rows.length < MAX_LOG_PAGE_SIZE || scanned >= (grid.totalRows ?? Number.POSITIVE_INFINITY)) {
+        break;
+      }
+      if (scanned >= MAX_LEVEL_SCAN_ROWS) {
+        throw new Error(
+          `The time range holds more than ${MAX_LEVEL_SCAN_ROWS} alerts; narrow since/until to filter them by severity.`
+        );
+      }
+    }
+
+    const pageSize = pageSizeOf(query);
+    const offset = ((query.page ?? 1) - 1) * pageSize;
+    return { ...first, totalRows: matches.length, data: matches.slice(offset, offset + pageSize) };
+  }
+
+  private toLogPage(
+    grid: LogGrid,
+    query: LogQuery,
+    range: TimeRange | undefined,
+    stats?: Record<string, unknown>
+  ): LogPage<OmadaLogEntry> {
+    const page = query.page ?? 1;
+    const pageSize = pageSizeOf(query);
+    const items = (grid.data ?? []).map((entry) => ({ ...entry, time: toIsoTimestamp(entry.time) ?? entry.time }));
+
+    return {
+      total: grid.totalRows ?? items.length,
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+      count: items.length,
+      page,
+      timeRange: range
+        ? { start: toIsoTimestamp(range.start) ?? '', end: toIsoTimestamp(range.end) ?? '' }
+        : undefined,
+      stats,
+      items
+    };
+  }
+
+  private rangeParams(range: TimeRange): Record<string, unknown> {
+    return { 'filters.timeStart': range.start, 'filters.timeEnd': range.end };
+  }
+
+  private logPath(scope: LogScope | undefined, siteId: string | undefined, relativePath: string): string {
+    if (scope === 'global') {
+      return this.api.buildOmadaPath(relativePath);
+    }
+
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(this.api.resolveSiteId(siteId))}${relativePath}`);
+  }
+}
+
+function pageSizeOf(query: LogQuery): number {
+  return Math.min(query.pageSize ?? DEFAULT_LOG_PAGE_SIZE, MAX_LOG_PAGE_SIZE);
+}
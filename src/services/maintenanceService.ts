@@ -0,0 +1,359 @@
+import type { OmadaActionResult, OmadaRequestOptions } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { delay } from '../utils/rateLimit.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+
+export const FILE_SERVER_PROTOCOLS = ['FTP', 'SFTP', 'TFTP', 'SCP'] as const;
+
+export type FileServerProtocol = (typeof FILE_SERVER_PROTOCOLS)[number];
+
+export interface FileServerConfig {
+  protocol: FileServerProtocol;
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Where backups are written and restores are read from: the controller itself or a file server.
+ * `filePath` is the backup directory on the file server and is only used by backups.
+ */
+export type BackupLocation = { type: 'self-server' } | { type: 'file-server'; server: FileServerConfig; filePath?: string };
+
+export interface BackupFile {
+  fileName: string;
+  /** ISO 8601 time of the backup. */
+  backupTime?: string;
+  size?: number;
+}
+
+export interface SiteRestoreEntry {
+  siteId: string;
+  /** Backup file name on the controller, or the full file path on the file server. */
+  file: string;
+}
+
+export interface MaintenanceWaitOptions {
+  /** Poll the result endpoint until the task finishes; otherwise return right after starting it. */
+  wait?: boolean;
+  timeoutMs?: number;
+  onProgress?: (progress: MaintenanceProgress) => Promise<void>;
+}
+
+export interface MaintenanceProgress {
+  elapsedSeconds: number;
+  message: string;
+}
+
+export interface MaintenanceTaskStatus {
+  status: 'completed' | 'running' | 'failed' | 'timed-out';
+  elapsedMs: number;
+  /** Newest backup file on the controller after a completed self-server backup. */
+  latestFile?: BackupFile;
+  /** Status of each site for site backups. */
+  sites?: { siteId: string; status: 'completed' | 'running' }[];
+}
+
+export class RestoreConfirmationError extends Error {
+  constructor(public readonly action: string) {
+    super(
+      `${action} overwrites the current configuration and cannot be undone. Take a backup first, then repeat the call with confirm: true.`
+    );
+    this.name = 'RestoreConfirmationError';
+  }
+}
+
+export const DEFAULT_MAINTENANCE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const POLL_INTERVAL_MS = 2000;
+
+/** Backup result: 0 finished (or never started), 1 running. */
+const BACKUP_RUNNING = 1;
+
+type BackupState = 'pending' | 'running' | 'finished';
+
+/** Controller restore result: 0 finished, 1 prepared, 2 running, 3 failed. */
+const RESTORE_FINISHED = 0;
+const RESTORE_FAILED = 3;
+
+interface BackupFileRecord {
+  fileName: string;
+  backupTime?: number;
+  size?: number;
+}
+
+function backupDirectory(location: Extract<BackupLocation, { type: 'file-server' }>): string {
+  if (!location.filePath) {
+    throw new Error('filePath (the backup directory on the file server) is required for file-server backups.');
+  }
+  return location.filePath;
+}
+
+export class MaintenanceService {
+  constructor(private readonly api: OmadaApiContext) {}
+
+  public async backupController(
+    location: BackupLocation,
+    retainUser = true,
+    wait: MaintenanceWaitOptions = {},
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const startedAt = Date.now();
+    const result = await this.api.execute(
+      location.type === 'self-server'
+        ? { method: 'POST', url: this.api.buildOmadaPath('/maintenance/backup/self-server'), data: { retainUser } }
+        : {
+            method: 'POST',
+            url: this.api.buildOmadaPath('/maintenance/backup/file-server'),
+            data: { serverConfig: location.server, filePath: backupDirectory(location), retainUser }
+          },
+      options
+    );
+
+    const target = { scope: 'controller', location: location.type, retainUser };
+    if (wait.wait === false) {
+      return { action: 'backupController', target, result };
+    }
+
+    const seenRunning = new Set<string>();
+    const followUp = await this.poll(wait, async () => {
+      const state = await this.fetchBackupState(location, startedAt, seenRunning);
+      return { done: state === 'finished', message: `Controller backup ${state}` };
+    });
+    if (followUp.status === 'completed' && location.type === 'self-server') {
+      followUp.latestFile = await this.tryLatestFile();
+    }
+
+    return { action: 'backupController', target, result, followUp };
+  }
+
+  public async backupSites(
+    siteIds: string[],
+    location: BackupLocation,
+    wait: MaintenanceWaitOptions = {},
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const startedAt = Date.now();
+    const result = await this.api.execute(
+      location.type === 'self-server'
+        ? { method: 'POST', url: this.api.buildOmadaPath('/sites/maintenance/multi-backup/self-server'), data: { siteIds } }
+        : {
+            method: 'POST',
+            url: this.api.buildOmadaPath('/sites/maintenance/multi-backup/file-server'),
+            data: { serverConfig: location.server, filePath: backupDirectory(location), siteIds }
+          },
+      options
+    );
+
+    const target = { scope: 'sites', location: location.type, siteIds };
+    if (wait.wait === false) {
+      return { action: 'backupSites', target, result };
+    }
+
+    const finished = new Set<string>();
+    const seenRunning = new Set<string>();
+    const followUp = await this.poll(wait, async () => {
+      for (const siteId of siteIds.filter((candidate) => !finished.has(candidate))) {
+        if ((await this.fetchBackupState(location, startedAt, seenRunning, siteId)) === 'finished') {
+          finished.add(siteId);
+        }
+      }
+      return {
+        done: finished.size === siteIds.length,
+        message: `${finished.size} of ${siteIds.length} site backups finished`
+      };
+    });
+    followUp.sites = siteIds.map((siteId) => ({ siteId, status: finished.has(siteId) ? 'completed' : 'running' }));
+
+    return { action: 'backupSites', target, result, followUp };
+  }
+
+  /** Backup status of the controller, or of a site when `siteId` is given. */
+  public async getBackupStatus(siteId?: string): Promise<{ status: 'running' | 'idle' }> {
+    return { status: (await this.fetchBackupStatus(siteId)) === BACKUP_RUNNING ? 'running' : 'idle' };
+  }
+
+  /** Backup files stored on the controller, newest first; site files when `siteId` is given. */
+  public async listBackupFiles(siteId?: string): Promise<BackupFile[]> {
+    const path = siteId
+      ? `/sites/${encodeURIComponent(siteId)}/maintenance/backup/files`
+      : '/maintenance/backup/files';
+    const result = await this.api.execute<{ fileList?: BackupFileRecord[] }>({
+      method: 'GET',
+      url: this.api.buildOmadaPath(path)
+    });
+
+    return (result?.fileList ?? [])
+      .sort((left, right) => (right.backupTime ?? 0) - (left.backupTime ?? 0))
+      .map((file) => ({
+        fileName: file.fileName,
+        backupTime: file.backupTime === undefined ? undefined : new Date(file.backupTime).toISOString(),
+        size: file.size
+      }));
+  }
+
+  /**
+   * Restores the whole controller. `file` is a backup file name on the controller, or the file path
+   * on the file server. Requires `confirmed` in every access mode.
+   */
+  public async restoreController(
+    location: BackupLocation,
+    file: string,
+    skipDevice = false,
+    wait: MaintenanceWaitOptions = {},
+    options: OmadaRequestOptions = {}
+  ): Promise<OmadaActionResult> {
+    if (!options.confirmed) {
+      throw new RestoreConfirmationError('Restoring the controller');
+    }
+
+    const result = await this.api.execute(
+      location.type === 'self-server'
+        ? { method: 'POST', url: this.api.buildOmadaPath('/maintenance/restore/self-server'), data: { fileName: file } }
+        : {
+            method: 'POST',
+            url: this.api.buildOmadaPath('/maintenance/restore/file-server'),
+            data: { serverConfig: location.server, filePath: file, skipDevice }
+          },
+      options
+    );
+
+    const target = { scope: 'controller', location: location.type, file, skipDevice };
+    if (wait.wait === false) {
+      return { action: 'restoreController', target, result };
+    }
+
+    const followUp = await this.poll(wait, async () => {
+      const status = await this.fetchRestoreStatus();
+      if (status === RESTORE_FAILED) {
+        return { done: true, failed: true, message: 'Controller restore failed' };
+      }
+      return {
+        done: status === RESTORE_FINISHED,
+        message: status === RESTORE_FINISHED ? 'Controller restore finished' : 'Controller restore running'
+      };
+    });
+
+    return { action: 'restoreController', target, result, followUp };
+  }
+
+  /** Starts restoring sites; the controller has no result endpoint for site restores. */
+  public async restoreSites(
+    entries: SiteRestoreEntry[],
+    location: BackupLocation,
+    options: OmadaRequestOptions = {}
+  ): Promise<OmadaActionResult> {
+    if (!options.confirmed) {
+      throw new RestoreConfirmationError('Restoring sites');
+    }
+
+    const result = await this.api.execute(
+      location.type === 'self-server'
+        ? {
+            method: 'POST',
+            url: this.api.buildOmadaPath('/sites/maintenance/multi-restore/self-server'),
+            data: { siteRestoreInfos: entries.map((entry) => ({ siteId: entry.siteId, fileName: entry.file })) }
+          }
+        : {
+            method: 'POST',
+            url: this.api.buildOmadaPath('/sites/maintenance/multi-restore/file-server'),
+            data: {
+              serverConfig: location.server,
+              siteInfos: entries.map((entry) => ({ siteId: entry.siteId, filePath: entry.file }))
+            }
+          },
+      options
+    );
+
+    return { action: 'restoreSites', target: { scope: 'sites', location: location.type, entries }, result };
+  }
+
+  public async getRestoreStatus(): Promise<{ status: 'finished' | 'prepared' | 'running' | 'failed' }> {
+    const statuses = ['finished', 'prepared', 'running', 'failed'] as const;
+    return { status: statuses[await this.fetchRestoreStatus()] ?? 'running' };
+  }
+
+  /**
+   * Polls `check` until it reports completion or the timeout elapses. Failed polls are logged and
+   * retried: the controller may be briefly unreachable while it applies a restore.
+   */
+  private async poll(
+    wait: MaintenanceWaitOptions,
+    check: () => Promise<{ done: boolean; failed?: boolean; message: string }>
+  ): Promise<MaintenanceTaskStatus> {
+    const startedAt = Date.now();
+    const timeoutMs = wait.timeoutMs ?? DEFAULT_MAINTENANCE_TIMEOUT_MS;
+
+    for (;;) {
+      await delay(POLL_INTERVAL_MS);
+      const elapsedMs = Date.now() - startedAt;
+
+      try {
+        const state = await check();
+        await wait.onProgress?.({ elapsedSeconds: Math.round(elapsedMs / 1000), message: state.message });
+        if (state.done) {
+          return { status: state.failed ? 'failed' : 'completed', elapsedMs };
+        }
+      } catch (error) {
+        logger.warn('Maintenance status poll failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      if (elapsedMs >= timeoutMs) {
+        return { status: 'timed-out', elapsedMs };
+      }
+    }
+  }
+
+  /**
+   * The backup result endpoint reports 0 both before a backup starts and after it finishes, so 0
+   * only counts as finished once the backup was seen running, or once a self-server backup file
+   * newer than `startedAt` exists. `seenRunning` carries the controller (`''`) or site IDs across polls.
+   */
+  private async fetchBackupState(
+    location: BackupLocation,
+    startedAt: number,
+    seenRunning: Set<string>,
+    siteId?: string
+  ): Promise<BackupState> {
+    const key = siteId ?? '';
+    if ((await this.fetchBackupStatus(siteId)) === BACKUP_RUNNING) {
+      seenRunning.add(key);
+      return 'running';
+    }
+    if (seenRunning.has(key)) {
+      return 'finished';
+    }
+    if (location.type !== 'self-server') {
+      return 'pending';
+    }
+
+    const [latest] = await this.listBackupFiles(siteId);
+    return latest?.backupTime !== undefined && Date.parse(latest.backupTime) > startedAt ? 'finished' : 'pending';
+  }
+
+  private async fetchBackupStatus(siteId?: string): Promise<number | undefined> {
+    const path = siteId ? `/sites/${encodeURIComponent(siteId)}/backup/result` : '/maintenance/backup/result';
+    const result = await this.api.execute<{ status?: number }>({ method: 'GET', url: this.api.buildOmadaPath(path) });
+    return result?.status;
+  }
+
+  private async fetchRestoreStatus(): Promise<number> {
+    const result = await this.api.execute<{ status?: number }>({
+      method: 'GET',
+      url: this.api.buildOmadaPath('/maintenance/restore/result')
+    });
+    return result?.status ?? RESTORE_FINISHED;
+  }
+
+  private async tryLatestFile(): Promise<BackupFile | undefined> {
+    try {
+      return (await this.listBackupFiles())[0];
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,568 @@
+import type { HealthProblem, OmadaApiResponse, OmadaDeviceInfo, SiteHealthReport } from '../types/index.js';
+import { resolveTimeRange, type TimeRange, type TimeRangeInput, toIsoTimestamp } from '../utils/timeRange.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { DeviceService } from './deviceService.js';
+
+export interface DashboardMetricDefinition {
+  path: string;
+  /** Whether the endpoint requires `start`/`end` (epoch seconds). */
+  timeRange: boolean;
+  description: string;
+}
+
+export const DASHBOARD_METRICS = {
+  siteOverview: {
+    path: '/dashboard/overview-diagram',
+    timeRange: false,
+    description: 'Gateway, switch, AP and client counts plus port and PoE capacity for the site overview.'
+  },
+  wifiSummary: {
+    path: '/dashboard/wifi-summary',
+    timeRange: true,
+    description: 'Connected APs, wireless clients, average channel utilization and traffic.'
+  },
+  switchSummary: {
+    path: '/dashboard/switch-summary',
+    timeRange: true,
+    description: 'Connected switches, wired clients, port utilization and traffic.'
+  },
+  ispLoad: {
+    path: '/dashboard/isp-load',
+    timeRange: true,
+    description: 'WAN port throughput and latency samples.'
+  },
+  topCpuUsage: {
+    path: '/dashboard/top-device-cpu-usage',
+    timeRange: true,
+    description: 'Devices with the highest CPU utilization.'
+  },
+  topMemoryUsage: {
+    path: '/dashboard/top-device-memory-usage',
+    timeRange: true,
+    description: 'Devices with the highest memory utilization.'
+  },
+  topInterference: {
+    path: '/dashboard/top-interference',
+    timeRange: false,
+    description: 'APs with the most interference on each band.'
+  },
+  poeUsage: {
+    path: '/dashboard/poe-usage',
+    timeRange: false,
+    description: 'PoE power budget usage per switch and port.'
+  },
+  retryDroppedRate: {
+    path: '/dashboard/retry-dropped-rate',
+    timeRange: true,
+    description: 'Wireless retry and dropped packet rates per AP.'
+  },
+  trafficDistribution: {
+    path: '/dashboard/traffic-distribution',
+    timeRange: true,
+    description: 'Traffic share of each AP and switch.'
+  },
+  trafficActivities: {
+    path: '/dashboard/traffic-activities',
+    timeRange: true,
+    description: 'Traffic activity over time.'
+  },
+  mostActiveAps: {
+    path: '/dashboard/most-active-eaps',
+    timeRange: true,
+    description: 'APs with the most traffic.'
+  },
+  mostActiveSwitches: {
+    path: '/dashboard/most-active-switches',
+    timeRange: true,
+    description: 'Switches with the most traffic.'
+  },
+  channelUsage: {
+    path: '/dashboard/channels',
+    timeRange: false,
+    description: 'AP and client distribution and utilization per wireless channel.'
+  }
+} as const satisfies Record<string, DashboardMetricDefinition>;
+
+export type DashboardMetric = keyof typeof DASHBOARD_METRICS;
+
+/** Window used by dashboard queries when no `since` is given. */
+export const DEFAULT_DASHBOARD_WINDOW_MS = 60 * 60 * 1000;
+
+/** Thresholds (percent unless noted) at which {@link MonitorService.getSiteHealth} reports problems. */
+export const HEALTH_THRESHOLDS = {
+  cpu: { warning: 80, critical: 95 },
+  memory: { warning: 85, critical: 95 },
+  interference: { warning: 50, critical: 75 },
+  poe: { warning: 80, critical: 95 },
+  channelUtilization: { warning: 70, critical: 90 },
+  retryRate: { warning: 20, critical: 40 },
+  dropRate: { warning: 5, critical: 15 },
+  wanLatencyMs: { warning: 100, critical: 300 }
+} as const;
+
+const TOP_ITEMS = 3;
+const MAX_PROBLEMS_PER_CATEGORY = 10;
+
+interface DeviceUsage {
+  name?: string;
+  mac?: string;
+  cpuUtil?: number;
+  memUsage?: number;
+  interUtil?: number;
+}
+
+interface SiteOverview {
+  totalGatewayNum?: number;
+  connectedGatewayNum?: number;
+  disconnectedGatewayNum?: number;
+  totalSwitchNum?: number;
+  connectedSwitchNum?: number;
+  disconnectedSwitchNum?: number;
+  totalApNum?: number;
+  connectedApNum?: number;
+  isolatedApNum?: number;
+  disconnectedApNum?: number;
+  totalClientNum?: number;
+  wiredClientNum?: number;
+  wirelessClientNum?: number;
+  guestNum?: number;
+}
+
+interface IspLoad {
+  portId?: number;
+  portName?: string;
+  data?: { totalRate?: number; latency?: number; time?: number }[];
+}
+
+interface PoeUsage {
+  name?: string;
+  mac?: string;
+  totalPowerUsed?: number;
+  totalPercentUsed?: number;
+  totalPower?: number;
+}
+
+interface ApRate {
+  name?: string;
+  apMac?: string;
+  avg?: number;
+}
+
+interface ChannelStat {
+  channel?: number;
+  apNum?: number;
+  clientNum?: number;
+  channelUtilization?: number;
+}
+
+interface TrafficShare {
+  name?: string;
+  mac?: string;
+  traffic?: number;
+  trafficProportion?: number;
+}
+
+interface HealthSources {
+  siteOverview?: SiteOverview;
+  wifiSummary?: Record<string, unknown>;
+  switchSummary?: Record<string, unknown>;
+  ispLoad?: IspLoad[];
+  topCpuUsage?: DeviceUsage[];
+  topMemoryUsage?: DeviceUsage[];
+  topInterference?: Record<string, DeviceUsage[] | undefined>;
+  poeUsage?: PoeUsage[];
+  retryDroppedRate?: { retryEaps?: ApRate[]; droppedEaps?: ApRate[] };
+  trafficDistribution?: { aps?: TrafficShare[]; switches?: TrafficShare[] };
+  channelUsage?: Record<string, ChannelStat[] | undefined>;
+  devices?: OmadaDeviceInfo[];
+}
+
+const HEALTH_METRICS = [
+  'siteOverview',
+  'wifiSummary',
+  'switchSummary',
+  'ispLoad',
+  'topCpuUsage',
+  'topMemoryUsage',
+  'topInterference',
+  'poeUsage',
+  'retryDroppedRate',
+  'trafficDistribution',
+  'channelUsage'
+] as const satisfies readonly DashboardMetric[];
+
+export class MonitorService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly devices: DeviceService
+  ) {}
+
+  public async getDashboardMetric<T = unknown>(
+    metric: DashboardMetric,
+    range: TimeRangeInput = {},
+    siteId?: string
+  ): Promise<T> {
+    return this.fetchMetric<T>(
+      metric,
+      resolveTimeRange(range, DEFAULT_DASHBOARD_WINDOW_MS),
+      this.api.resolveSiteId(siteId)
+    );
+  }
+
+  /**
+   * Queries the site dashboard endpoints and the device list in parallel and condenses them into
+   * key metrics and detected problems. Failing endpoints are reported under `unavailable`.
+   */
+  public async getSiteHealth(range: TimeRangeInput = {}, siteId?: string): Promise<SiteHealthReport> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const timeRange = resolveTimeRange(range, DEFAULT_DASHBOARD_WINDOW_MS);
+
+    const names = [...HEALTH_METRICS, 'devices'] as const;
+    const settled = await Promise.allSettled([
+      ...HEALTH_METRICS.map((metric) => this.fetchMetric(metric, timeRange, resolvedSiteId)),
+      this.devices.listDevices(resolvedSiteId)
+    ]);
+
+    const sources: Record<string, unknown> = {};
+    const unavailable: SiteHealthReport['unavailable'] = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        sources[names[index]] = outcome.value;
+      } else {
+        const reason: unknown = outcome.reason;
+        unavailable.push({ metric: names[index], error: reason instanceof Error ? reason.message : String(reason) });
+      }
+    });
+
+    if (unavailable.length === names.length) {
+      throw new Error(
+        `Unable to query any monitor endpoint for site ${resolvedSiteId}: ${unavailable[0]?.error ?? 'unknown error'}`
+      );
+    }
+
+    const healthSources = sources as HealthSources;
+    const problems = detectProblems(healthSources);
+    const status = problems.some((problem) => problem.severity === 'critical')
+      ? 'critical'
+      : problems.length > 0
+        ? 'degraded'
+        : 'healthy';
+
+    return {
+      siteId: resolvedSiteId,
+      status,
+      timeRange: { start: toIsoTimestamp(timeRange.start) ?? '', end: toIsoTimestamp(timeRange.end) ?? '' },
+      metrics: summarizeMetrics(healthSources),
+      problems,
+      unavailable
+    };
+  }
+
+  private async fetchMetric<T>(metric: DashboardMetric, range: TimeRange, siteId: string): Promise<T> {
+    const definition: DashboardMetricDefinition = DASHBOARD_METRICS[metric];
+    // Dashboard endpoints take epoch seconds rather than milliseconds.
+    const params = definition.timeRange
+      ? { start: Math.floor(range.start / 1000), end: Math.floor(range.end / 1000) }
+      : undefined;
+
+    const response = await this.api.get<OmadaApiResponse<T>>(
+      this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${definition.path}`),
+      params
+    );
+    return this.api.ensureSuccess(response);
+  }
+}
+
+function summarizeMetrics(sources: HealthSources): Record<string, unknown> {
+  const metrics: Record<string, unknown> = {};
+  const overview = sources.siteOverview;
+
+  if (overview) {
+    metrics.devices = {
+      gateways: {
+        total: overview.totalGatewayNum,
+        connected: overview.connectedGatewayNum,
+        disconnected: overview.disconnectedGatewayNum
+      },
+      switches: {
+        total: overview.totalSwitchNum,
+        connected: overview.connectedSwitchNum,
+        disconnected: overview.disconnectedSwitchNum
+      },
+      aps: {
+        total: overview.totalApNum,
+        connected: overview.connectedApNum,
+        disconnected: overview.disconnectedApNum,
+        isolated: overview.isolatedApNum
+      }
+    };
+    metrics.clients = {
+      total: overview.totalClientNum,
+      wired: overview.wiredClientNum,
+      wireless: overview.wirelessClientNum,
+      guests: overview.guestNum
+    };
+  }
+
+  if (sources.wifiSummary) {
+    metrics.wifi = sources.wifiSummary;
+  }
+  if (sources.switchSummary) {
+    metrics.switching = sources.switchSummary;
+  }
+
+  if (sources.ispLoad) {
+    metrics.wan = asArray(sources.ispLoad).map((port) => {
+      const latencies = asArray(port.data).map((sample) => sample.latency).filter(isNumber);
+      const rates = asArray(port.data).map((sample) => sample.totalRate).filter(isNumber);
+      return {
+        port: port.portName ?? port.portId,
+        avgLatencyMs: average(latencies),
+        maxLatencyMs: latencies.length > 0 ? Math.max(...latencies) : undefined,
+        avgRate: average(rates)
+      };
+    });
+  }
+
+  if (sources.topCpuUsage) {
+    metrics.topCpu = topBy(asArray(sources.topCpuUsage), (device) => device.cpuUtil).map((device) => ({
+      name: device.name,
+      mac: device.mac,
+      cpuUtil: device.cpuUtil
+    }));
+  }
+  if (sources.topMemoryUsage) {
+    metrics.topMemory = topBy(asArray(sources.topMemoryUsage), (device) => device.memUsage).map((device) => ({
+      name: device.name,
+      mac: device.mac,
+      memUsage: device.memUsage
+    }));
+  }
+
+  if (sources.topInterference) {
+    metrics.worstInterference = Object.fromEntries(
+      Object.entries(sources.topInterference).map(([band, aps]) => {
+        const [worst] = topBy(asArray(aps), (ap) => ap.interUtil);
+        return [band.replace(/^apInterference/, ''), worst ? { name: worst.name, mac: worst.mac, interUtil: worst.interUtil } : null];
+      })
+    );
+  }
+
+  if (sources.poeUsage) {
+    metrics.poe = asArray(sources.poeUsage).map((entry) => ({
+      name: entry.name,
+      mac: entry.mac,
+      usedW: entry.totalPowerUsed,
+      budgetW: entry.totalPower,
+      percent: entry.totalPercentUsed
+    }));
+  }
+
+  if (sources.retryDroppedRate) {
+    metrics.worstRetryRate = topBy(asArray(sources.retryDroppedRate.retryEaps), (ap) => ap.avg).map(toApRate);
+    metrics.worstDropRate = topBy(asArray(sources.retryDroppedRate.droppedEaps), (ap) => ap.avg).map(toApRate);
+  }
+
+  if (sources.trafficDistribution) {
+    metrics.topTraffic = {
+      aps: topBy(asArray(sources.trafficDistribution.aps), (device) => device.traffic),
+      switches: topBy(asArray(sources.trafficDistribution.switches), (device) => device.traffic)
+    };
+  }
+
+  if (sources.channelUsage) {
+    metrics.busiestChannels = Object.fromEntries(
+      Object.entries(sources.channelUsage).map(([band, channels]) => [
+        band.replace(/ channel stat$/, ''),
+        topBy(asArray(channels), (channel) => channel.channelUtilization)[0] ?? null
+      ])
+    );
+  }
+
+  if (sources.devices) {
+    metrics.offlineDevices = asArray(sources.devices).filter(isOffline).length;
+  }
+
+  return metrics;
+}
+
+function detectProblems(sources: HealthSources): HealthProblem[] {
+  const problems: HealthProblem[] = [];
+
+  if (sources.devices) {
+    const offline = sources.devices.filter(isOffline).map((device) => ({
+      severity: device.type === 'gateway' ? ('critical' as const) : ('warning' as const),
+      category: 'offline-device',
+      message: `${device.type ?? 'device'} ${device.name ?? device.mac} is ${Number(device.status) === 0 ? 'disconnected' : 'missing heartbeats'}`,
+      device: { name: device.name, mac: device.mac }
+    }));
+    const isolated = sources.devices
+      .filter((device) => Number(device.status) === 4)
+      .map((device) => ({
+        severity: 'warning' as const,
+        category: 'isolated-ap',
+        message: `AP ${device.name ?? device.mac} is isolated from the wired network`,
+        device: { name: device.name, mac: device.mac }
+      }));
+    problems.push(...capProblems(offline), ...capProblems(isolated));
+  } else if (sources.siteOverview) {
+    const overview = sources.siteOverview;
+    const disconnected =
+      (overview.disconnectedGatewayNum ?? 0) + (overview.disconnectedSwitchNum ?? 0) + (overview.disconnectedApNum ?? 0);
+    if (disconnected > 0) {
+      problems.push({
+        severity: (overview.disconnectedGatewayNum ?? 0) > 0 ? 'critical' : 'warning',
+        category: 'offline-device',
+        message: `${disconnected} device(s) are disconnected`,
+        value: disconnected
+      });
+    }
+  }
+
+  problems.push(
+    ...capProblems(
+      asArray(sources.topCpuUsage).flatMap((device) =>
+        thresholdProblem('high-cpu', 'CPU usage', device.cpuUtil, HEALTH_THRESHOLDS.cpu, device)
+      )
+    ),
+    ...capProblems(
+      asArray(sources.topMemoryUsage).flatMap((device) =>
+        thresholdProblem('high-memory', 'Memory usage', device.memUsage, HEALTH_THRESHOLDS.memory, device)
+      )
+    ),
+    ...capProblems(
+      Object.entries(sources.topInterference ?? {}).flatMap(([band, aps]) =>
+        asArray(aps).flatMap((ap) =>
+          thresholdProblem(
+            'interference',
+            `${band.replace(/^apInterference/, '')} interference`,
+            ap.interUtil,
+            HEALTH_THRESHOLDS.interference,
+            ap
+          )
+        )
+      )
+    ),
+    ...capProblems(
+      asArray(sources.poeUsage).flatMap((entry) =>
+        thresholdProblem('poe-budget', 'PoE budget usage', entry.totalPercentUsed, HEALTH_THRESHOLDS.poe, entry)
+      )
+    ),
+    ...capProblems(
+      asArray(sources.retryDroppedRate?.retryEaps).flatMap((ap) =>
+        thresholdProblem('wifi-retries', 'Wireless retry rate', ap.avg, HEALTH_THRESHOLDS.retryRate, {
+          name: ap.name,
+          mac: ap.apMac
+        })
+      )
+    ),
+    ...capProblems(
+      asArray(sources.retryDroppedRate?.droppedEaps).flatMap((ap) =>
+        thresholdProblem('wifi-drops', 'Wireless drop rate', ap.avg, HEALTH_THRESHOLDS.dropRate, {
+          name: ap.name,
+          mac: ap.apMac
+        })
+      )
+    ),
+    ...capProblems(
+      Object.entries(sources.channelUsage ?? {}).flatMap(([band, channels]) =>
+        asArray(channels).flatMap((channel) =>
+          thresholdProblem(
+            'channel-utilization',
+            `Utilization of ${band.replace(/ channel stat$/, '')} channel ${channel.channel ?? '?'}`,
+            channel.channelUtilization,
+            HEALTH_THRESHOLDS.channelUtilization
+          )
+        )
+      )
+    ),
+    ...capProblems(
+      asArray(sources.ispLoad).flatMap((port) =>
+        thresholdProblem(
+          'wan-latency',
+          `Average latency on WAN ${port.portName ?? port.portId ?? ''}`.trim(),
+          average(asArray(port.data).map((sample) => sample.latency).filter(isNumber)),
+          HEALTH_THRESHOLDS.wanLatencyMs,
+          undefined,
+          'ms'
+        )
+      )
+    )
+  );
+
+  return problems;
+}
+
+function thresholdProblem(
+  category: string,
+  label: string,
+  value: number | undefined,
+  threshold: { warning: number; critical: number },
+  device?: { name?: string; mac?: string },
+  unit = '%'
+): HealthProblem[] {
+  if (value === undefined || value < threshold.warning) {
+    return [];
+  }
+
+  const subject = device ? ` on ${device.name ?? device.mac}` : '';
+  return [
+    {
+      severity: value >= threshold.critical ? 'critical' : 'warning',
+      category,
+      message: `${label}${subject} is ${Math.round(value * 10) / 10}${unit}`,
+      device: device ? { name: device.name, mac: device.mac } : undefined,
+      value
+    }
+  ];
+}
+
+/** Keeps the report compact by collapsing long lists of similar problems. */
+function capProblems(problems: HealthProblem[]): HealthProblem[] {
+  if (problems.length <= MAX_PROBLEMS_PER_CATEGORY) {
+    return problems;
+  }
+
+  const kept = problems.slice(0, MAX_PROBLEMS_PER_CATEGORY);
+  const rest = problems.slice(MAX_PROBLEMS_PER_CATEGORY);
+  return [
+    ...kept,
+    {
+      severity: rest.some((problem) => problem.severity === 'critical') ? 'critical' : 'warning',
+      category: kept[0].category,
+      message: `${rest.length} more ${kept[0].category} problem(s) omitted`,
+      value: rest.length
+    }
+  ];
+}
+
+function isOffline(device: OmadaDeviceInfo): boolean {
+  const status = Number(device.status);
+  return status === 0 || status === 3;
+}
+
+function topBy<T>(items: T[], value: (item: T) => number | undefined): T[] {
+  return [...items].sort((left, right) => (value(right) ?? -Infinity) - (value(left) ?? -Infinity)).slice(0, TOP_ITEMS);
+}
+
+function toApRate(ap: ApRate): Record<string, unknown> {
+  return { name: ap.name, mac: ap.apMac, avg: ap.avg };
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/** Dashboard endpoints answer with an empty object instead of a list when there is no data. */
+function asArray<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
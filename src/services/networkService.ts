@@ -0,0 +1,418 @@
+import type { OmadaActionResult, OmadaRequestOptions } from '../types/index.js';
+import { cidrsOverlap, type Ipv4Cidr, isIpv4InCidr, parseIpv4, parseIpv4Cidr } from '../utils/ip.js';
+
+import type { OmadaApiContext, OmadaApiVersion } from './apiContext.js';
+
+export interface LanNetwork {
+  id: string;
+  name: string;
+  /** 0: VLAN only, 1: gateway interface with a subnet. */
+  purpose: number;
+  vlan?: number;
+  /** VLAN list such as `200, 1-100` of multi-VLAN interface networks. */
+  vlans?: string;
+  vlanType?: number;
+  interfaceIds?: string[];
+  gatewaySubnet?: string;
+  dhcpSettingsVO?: DhcpSettings;
+  domain?: string;
+  igmpSnoopEnable?: boolean;
+  primary?: boolean;
+  [key: string]: unknown;
+}
+
+export interface DhcpSettings {
+  enable?: boolean;
+  ipRangePool?: { ipaddrStart: string; ipaddrEnd: string }[];
+  dhcpns?: 'auto' | 'manual';
+  priDns?: string;
+  sndDns?: string;
+  leasetime?: number;
+  gateway?: string;
+  [key: string]: unknown;
+}
+
+export interface LanNetworkSummary {
+  id: string;
+  name: string;
+  purpose: 'vlan' | 'interface';
+  vlan?: number;
+  vlans?: string;
+  gatewaySubnet?: string;
+  dhcp?: {
+    enabled: boolean;
+    ranges: { start: string; end: string }[];
+    dns: 'auto' | string[];
+    leaseTimeMinutes?: number;
+  };
+  domain?: string;
+  primary?: boolean;
+}
+
+export interface LanNetworkSettings {
+  name?: string;
+  vlanId?: number;
+  /** Gateway address and prefix, e.g. `192.168.30.1/24`; makes the network a gateway interface. */
+  gatewaySubnet?: string;
+  /** Gateway LAN port IDs; defaults to the ports of the primary network. */
+  interfaceIds?: string[];
+  dhcp?: {
+    enabled?: boolean;
+    rangeStart?: string;
+    rangeEnd?: string;
+    /** Up to two DNS servers; an empty list hands out the gateway as DNS server ("auto"). */
+    dns?: string[];
+    leaseTimeMinutes?: number;
+  };
+  domain?: string;
+  igmpSnooping?: boolean;
+}
+
+/** Fields of a LAN network that the v2 modify endpoint accepts. */
+const MODIFY_FIELDS = [
+  'name',
+  'purpose',
+  'interfaceIds',
+  'vlanType',
+  'vlans',
+  'vlan',
+  'application',
+  'gatewaySubnet',
+  'dhcpSettingsVO',
+  'domain',
+  'igmpSnoopEnable',
+  'mldSnoopEnable',
+  'dhcpL2RelayEnable',
+  'dhcpGuard',
+  'dhcpv6Guard',
+  'lanNetworkIpv6Config',
+  'allLan',
+  'qosQueueEnable',
+  'queueId'
+] as const;
+
+const PURPOSE_VLAN = 0;
+const PURPOSE_INTERFACE = 1;
+
+const DEFAULT_LEASE_TIME_MINUTES = 120;
+
+function toSummary(network: LanNetwork): LanNetworkSummary {
+  const dhcp = network.dhcpSettingsVO;
+  return {
+    id: network.id,
+    name: network.name,
+    purpose: network.purpose === PURPOSE_INTERFACE ? 'interface' : 'vlan',
+    vlan: network.vlan,
+    vlans: network.vlans,
+    gatewaySubnet: network.gatewaySubnet,
+    dhcp: dhcp
+      ? {
+          enabled: Boolean(dhcp.enable),
+          ranges: (dhcp.ipRangePool ?? []).map((range) => ({ start: range.ipaddrStart, end: range.ipaddrEnd })),
+          dns: dhcp.dhcpns === 'manual' ? [dhcp.priDns, dhcp.sndDns].filter((dns): dns is string => Boolean(dns)) : 'auto',
+          leaseTimeMinutes: dhcp.leasetime
+        }
+      : undefined,
+    domain: network.domain,
+    primary: network.primary
+  };
+}
+
+/** Expands `200, 1-100` into a predicate over VLAN IDs. */
+function vlanListIncludes(vlans: string, vlanId: number): boolean {
+  return vlans.split(',').some((entry) => {
+    const [start, end = start] = entry.trim().split('-').map((value) => Number.parseInt(value, 10));
+    return vlanId >= start && vlanId <= end;
+  });
+}
+
+function parseGatewaySubnet(value: string): { gateway: number; cidr: Ipv4Cidr } {
+  const gateway = parseIpv4(value.split('/')[0] ?? '');
+  const cidr = value.includes('/') ? parseIpv4Cidr(value) : undefined;
+  if (gateway === undefined || !cidr || cidr.prefixLength > 30) {
+    throw new Error(`Invalid gateway subnet "${value}"; use the gateway address and prefix, e.g. 192.168.30.1/24.`);
+  }
+  if (gateway === cidr.network) {
+    throw new Error(`Gateway subnet "${value}" uses the network address; use the gateway address, e.g. the .1 host.`);
+  }
+  return { gateway, cidr };
+}
+
+function assertIpv4(value: string, label: string): number {
+  const parsed = parseIpv4(value);
+  if (parsed === undefined) {
+    throw new Error(`${label} "${value}" is not a valid IPv4 address.`);
+  }
+  return parsed;
+}
+
+export class NetworkService {
+  constructor(private readonly api: OmadaApiContext) {}
+
+  public async listLanNetworks(siteId?: string): Promise<LanNetworkSummary[]> {
+    return (await this.fetchLanNetworks(this.api.resolveSiteId(siteId))).map(toSummary);
+  }
+
+  /** Full configuration of a LAN network, looked up by ID, name (case-insensitive) or VLAN ID. */
+  public async getLanNetwork(identifier: string, siteId?: string): Promise<LanNetwork> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    return this.matchLanNetwork(await this.fetchLanNetworks(resolvedSiteId), identifier, resolvedSiteId);
+  }
+
+  /**
+   * Creates a LAN network after checking locally that its VLAN ID and subnet are not used by
+   * another network of the site.
+   */
+  public async createLanNetwork(
+    settings: LanNetworkSettings & { name: string; vlanId: number },
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const networks = await this.fetchLanNetworks(resolvedSiteId);
+    if (networks.some((network) => network.name.toLowerCase() === settings.name.toLowerCase())) {
+      throw new Error(`Site ${resolvedSiteId} already has a LAN network named ${settings.name}.`);
+    }
+
+    const body: Record<string, unknown> = {
+      name: settings.name,
+      purpose: PURPOSE_VLAN,
+      vlan: settings.vlanId,
+      application: 0,
+      igmpSnoopEnable: settings.igmpSnooping ?? false,
+      domain: settings.domain
+    };
+    if (settings.gatewaySubnet) {
+      const primary = networks.find((network) => network.primary) ?? networks.find((network) => network.interfaceIds);
+      const interfaceIds = settings.interfaceIds ?? primary?.interfaceIds;
+      if (!interfaceIds?.length) {
+        throw new Error('Pass interfaceIds: the gateway LAN ports could not be taken from the primary network.');
+      }
+      Object.assign(body, { purpose: PURPOSE_INTERFACE, vlanType: 0, gatewaySubnet: settings.gatewaySubnet, interfaceIds });
+      body.dhcpSettingsVO = this.buildDhcpSettings(settings, { leasetime: DEFAULT_LEASE_TIME_MINUTES });
+    } else if (settings.dhcp) {
+      throw new Error('DHCP needs a gateway subnet; pass gatewaySubnet.');
+    }
+
+    this.validate(body, networks, { vlan: true, subnet: true });
+    const result = await this.api.execute(
+      {
+        method: 'POST',
+        url: this.api.buildOmadaPath(`/sites/${encodeURIComponent(resolvedSiteId)}/lan-networks`, 'v2'),
+        data: body
+      },
+      options
+    );
+
+    return {
+      action: 'createLanNetwork',
+      target: { siteId: resolvedSiteId, name: settings.name, vlan: settings.vlanId, gatewaySubnet: settings.gatewaySubnet },
+      result
+    };
+  }
+
+  /**
+   * Changes the given settings of a LAN network and keeps everything else. The modify endpoint
+   * replaces the whole configuration, so the current network is merged with the changes first.
+   */
+  public async updateLanNetwork(
+    identifier: string,
+    settings: LanNetworkSettings,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const networks = await this.fetchLanNetworks(resolvedSiteId);
+    const current = this.matchLanNetwork(networks, identifier, resolvedSiteId);
+    const changed = Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key]) => key);
+    if (changed.length === 0) {
+      throw new Error('Pass at least one setting to change.');
+    }
+
+    const body: Record<string, unknown> = {};
+    for (const field of MODIFY_FIELDS) {
+      if (current[field] !== undefined) {
+        body[field] = current[field];
+      }
+    }
+    if (settings.name !== undefined) {
+      body.name = settings.name;
+    }
+    if (settings.vlanId !== undefined) {
+      body.vlan = settings.vlanId;
+    }
+    if (settings.domain !== undefined) {
+      body.domain = settings.domain;
+    }
+    if (settings.igmpSnooping !== undefined) {
+      body.igmpSnoopEnable = settings.igmpSnooping;
+    }
+    if (settings.interfaceIds !== undefined) {
+      body.interfaceIds = settings.interfaceIds;
+    }
+    if (settings.gatewaySubnet !== undefined) {
+      if (current.purpose !== PURPOSE_INTERFACE) {
+        throw new Error(`${current.name} is a VLAN-only network without a gateway subnet; create an interface network instead.`);
+      }
+      body.gatewaySubnet = settings.gatewaySubnet;
+    }
+    if (settings.dhcp !== undefined) {
+      if (current.purpose !== PURPOSE_INTERFACE) {
+        throw new Error(`${current.name} is a VLAN-only network; DHCP is only available on interface networks.`);
+      }
+      body.dhcpSettingsVO = this.buildDhcpSettings(settings, current.dhcpSettingsVO ?? {});
+    }
+
+    this.validate(
+      body,
+      networks.filter((network) => network.id !== current.id),
+      { vlan: settings.vlanId !== undefined, subnet: settings.gatewaySubnet !== undefined }
+    );
+    const result = await this.api.execute(
+      { method: 'PATCH', url: this.networkPath(resolvedSiteId, current.id, 'v2'), data: body },
+      options
+    );
+
+    return {
+      action: 'updateLanNetwork',
+      target: { siteId: resolvedSiteId, id: current.id, name: current.name, changed },
+      result
+    };
+  }
+
+  public async deleteLanNetwork(
+    identifier: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const network = this.matchLanNetwork(await this.fetchLanNetworks(resolvedSiteId), identifier, resolvedSiteId);
+    if (network.primary) {
+      throw new Error(`${network.name} is the primary LAN network and cannot be deleted.`);
+    }
+
+    const result = await this.api.execute(
+      { method: 'DELETE', url: this.networkPath(resolvedSiteId, network.id, 'v1') },
+      options
+    );
+    return {
+      action: 'deleteLanNetwork',
+      target: { siteId: resolvedSiteId, id: network.id, name: network.name, vlan: network.vlan },
+      result
+    };
+  }
+
+  /** Merges DHCP changes into the current DHCP settings of a network. */
+  private buildDhcpSettings(settings: LanNetworkSettings, current: DhcpSettings): DhcpSettings {
+    const dhcp = settings.dhcp ?? {};
+    // Passing DHCP settings for a new network turns DHCP on; an existing network keeps its state.
+    const next: DhcpSettings = { ...current, enable: dhcp.enabled ?? current.enable ?? settings.dhcp !== undefined };
+
+    if (dhcp.rangeStart !== undefined || dhcp.rangeEnd !== undefined) {
+      const [currentRange] = current.ipRangePool ?? [];
+      const ipaddrStart = dhcp.rangeStart ?? currentRange?.ipaddrStart;
+      const ipaddrEnd = dhcp.rangeEnd ?? currentRange?.ipaddrEnd;
+      if (!ipaddrStart || !ipaddrEnd) {
+        throw new Error('Pass both rangeStart and rangeEnd for the DHCP range.');
+      }
+      next.ipRangePool = [{ ipaddrStart, ipaddrEnd }];
+    }
+    if (dhcp.dns !== undefined) {
+      if (dhcp.dns.length > 2) {
+        throw new Error('Pass at most two DNS servers.');
+      }
+      dhcp.dns.forEach((server) => assertIpv4(server, 'DNS server'));
+      Object.assign(
+        next,
+        dhcp.dns.length === 0
+          ? { dhcpns: 'auto', priDns: undefined, sndDns: undefined }
+          : { dhcpns: 'manual', priDns: dhcp.dns[0], sndDns: dhcp.dns[1] }
+      );
+    }
+    if (dhcp.leaseTimeMinutes !== undefined) {
+      next.leasetime = dhcp.leaseTimeMinutes;
+    }
+    next.dhcpns ??= 'auto';
+    next.leasetime ??= DEFAULT_LEASE_TIME_MINUTES;
+
+    if (next.enable && !next.ipRangePool?.length) {
+      throw new Error('Enabling DHCP requires rangeStart and rangeEnd.');
+    }
+    return next;
+  }
+
+  /**
+   * Checks a network body against the other networks of the site: a changed VLAN ID and subnet
+   * must be unused, and the DHCP range must lie inside the subnet.
+   */
+  private validate(
+    body: Record<string, unknown>,
+    others: LanNetwork[],
+    changed: { vlan: boolean; subnet: boolean }
+  ): void {
+    const vlan = body.vlan as number | undefined;
+    if (changed.vlan && vlan !== undefined) {
+      const clash = others.find(
+        (network) => network.vlan === vlan || (network.vlans !== undefined && vlanListIncludes(network.vlans, vlan))
+      );
+      if (clash) {
+        throw new Error(`VLAN ${vlan} is already used by LAN network ${clash.name}.`);
+      }
+    }
+
+    const gatewaySubnet = body.gatewaySubnet as string | undefined;
+    if (!gatewaySubnet) {
+      return;
+    }
+
+    const { gateway, cidr } = parseGatewaySubnet(gatewaySubnet);
+    for (const network of changed.subnet ? others : []) {
+      const otherCidr = network.gatewaySubnet ? parseIpv4Cidr(network.gatewaySubnet) : undefined;
+      if (otherCidr && cidrsOverlap(cidr, otherCidr)) {
+        throw new Error(`Subnet ${gatewaySubnet} overlaps ${network.gatewaySubnet} of LAN network ${network.name}.`);
+      }
+    }
+
+    const dhcp = body.dhcpSettingsVO as DhcpSettings | undefined;
+    for (const range of dhcp?.enable ? dhcp.ipRangePool ?? [] : []) {
+      const start = assertIpv4(range.ipaddrStart, 'DHCP range start');
+      const end = assertIpv4(range.ipaddrEnd, 'DHCP range end');
+      if (!isIpv4InCidr(range.ipaddrStart, cidr) || !isIpv4InCidr(range.ipaddrEnd, cidr)) {
+        throw new Error(`DHCP range ${range.ipaddrStart}-${range.ipaddrEnd} is outside subnet ${gatewaySubnet}.`);
+      }
+      if (start > end) {
+        throw new Error(`DHCP range start ${range.ipaddrStart} is after its end ${range.ipaddrEnd}.`);
+      }
+      if (gateway >= start && gateway <= end) {
+        throw new Error(`DHCP range ${range.ipaddrStart}-${range.ipaddrEnd} contains the gateway address.`);
+      }
+    }
+  }
+
+  private async fetchLanNetworks(siteId: string): Promise<LanNetwork[]> {
+    return this.api.fetchPaginated<LanNetwork>(
+      this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}/lan-networks`, 'v2')
+    );
+  }
+
+  private matchLanNetwork(networks: LanNetwork[], identifier: string, siteId: string): LanNetwork {
+    const lowered = identifier.trim().toLowerCase();
+    const network =
+      networks.find((candidate) => candidate.id === identifier) ??
+      networks.find((candidate) => candidate.name.toLowerCase() === lowered) ??
+      networks.find((candidate) => String(candidate.vlan) === identifier.trim());
+    if (!network) {
+      throw new Error(`No LAN network matching "${identifier}" was found in site ${siteId}.`);
+    }
+    return network;
+  }
+
+  private networkPath(siteId: string, networkId: string, version: OmadaApiVersion): string {
+    return this.api.buildOmadaPath(
+      `/sites/${encodeURIComponent(siteId)}/lan-networks/${encodeURIComponent(networkId)}`,
+      version
+    );
+  }
+}
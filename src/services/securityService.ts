@@ -0,0 +1,603 @@
+import type {
+  LogPage,
+  OmadaActionResult,
+  OmadaClientInfo,
+  OmadaRequestOptions,
+  PaginatedResult,
+  RankedThreat,
+  SecurityReport
+} from '../types/index.js';
+import { normalizeMac } from '../utils/mac.js';
+import { parseTimeInput, resolveTimeRange, type TimeRange, type TimeRangeInput, toIsoTimestamp } from '../utils/timeRange.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { ClientService } from './clientService.js';
+
+/** Listed in API value order: 0 critical through 4 low. */
+export const THREAT_SEVERITIES = ['critical', 'major', 'moderate', 'minor', 'low'] as const satisfies readonly RankedThreat['severity'][];
+
+export type ThreatSeverity = (typeof THREAT_SEVERITIES)[number];
+
+/** Listed in API value order: 0 block, 1 isolate device, 2 signature suppression, 3 allow. */
+export const THREAT_ACTIONS = ['block', 'isolate', 'suppress', 'allow'] as const;
+
+export type ThreatAction = (typeof THREAT_ACTIONS)[number];
+
+/** Listed in API value order: 0 all traffic, 1 packet tracking. */
+export const SUPPRESSION_SCOPES = ['all-traffic', 'packet-tracking'] as const;
+
+/** Listed in API value order: 0 both, 1 source, 2 destination. */
+export const SUPPRESSION_DIRECTIONS = ['both', 'source', 'destination'] as const;
+
+export const THREAT_SCOPES = ['site', 'global'] as const;
+
+export type ThreatScope = (typeof THREAT_SCOPES)[number];
+
+/** Window used by threat queries and the security report when no `since` is given. */
+export const DEFAULT_SECURITY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_THREAT_PAGE_SIZE = 100;
+
+/** The security report ranks at most this many of the newest threats. */
+const MAX_ANALYZED_THREATS = 1000;
+const MAX_REPORTED_THREATS = 10;
+const MAX_REPORTED_ITEMS = 5;
+const MAX_OCCURRENCES = 5;
+
+const ROGUE_AP_BANDS = ['2.4GHz', '5GHz-1', '5GHz-2', '6GHz'];
+
+const ROGUE_AP_SECURITY: Record<number, string> = {
+  0: 'none',
+  1: 'WEP',
+  2: 'WPA-Enterprise',
+  3: 'WPA-Personal',
+  4: 'WPA3-SAE'
+};
+
+const WIDS_LEVELS = ['alert', 'major', 'normal'];
+
+export interface ThreatQuery extends TimeRangeInput {
+  /** Threats of one site (default) or of every site of the controller. */
+  scope?: ThreatScope;
+  severity?: ThreatSeverity;
+  archived?: boolean;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface IpsThreat {
+  id: string;
+  siteId?: string;
+  siteName?: string;
+  time?: string;
+  severity?: ThreatSeverity;
+  service?: string;
+  classification?: string;
+  srcIp?: string;
+  dstIp?: string;
+  srcCountry?: string;
+  dstCountry?: string;
+  protocol?: string;
+  [key: string]: unknown;
+}
+
+export interface ThreatOperation {
+  /** Threats as listed by `omada.listThreats`, with their time. */
+  threats: { id: string; time: string }[];
+  action: ThreatAction;
+  /** Name of the block or isolation rule; required for block and isolate. */
+  blockName?: string;
+  suppression?: {
+    scope: (typeof SUPPRESSION_SCOPES)[number];
+    direction?: (typeof SUPPRESSION_DIRECTIONS)[number];
+    /** Track one source address, or a whole subnet, for packet tracking. */
+    ip?: string;
+    subnet?: string;
+  };
+}
+
+export interface ThreatMapQuery extends TimeRangeInput {
+  scope?: ThreatScope;
+  severity?: ThreatSeverity;
+  country?: string;
+}
+
+export interface RogueAp {
+  id?: string;
+  ssid?: string;
+  bssid?: string;
+  band?: string;
+  channel?: number;
+  security?: string;
+  signal?: number;
+  nearestAp?: string;
+  nearestApMac?: string;
+  lastSeen?: string;
+  [key: string]: unknown;
+}
+
+export interface WidsEvent {
+  stationMac?: string;
+  detectMac?: string;
+  channel?: number;
+  type?: number;
+  level?: string;
+  startTime?: string;
+  [key: string]: unknown;
+}
+
+interface ThreatResponse {
+  id: string;
+  siteId?: string;
+  siteName?: string;
+  /** Epoch seconds. */
+  time?: number;
+  severity?: number;
+  service?: string;
+  classification?: string;
+  srcIp?: string;
+  dstIp?: string;
+  srcCountry?: string;
+  dstCountry?: string;
+  [key: string]: unknown;
+}
+
+interface RogueApResponse {
+  radioId?: number;
+  security?: number;
+  signal?: number;
+  lastSeen?: number;
+  [key: string]: unknown;
+}
+
+interface WidsEventResponse {
+  level?: number;
+  startTime?: number;
+  [key: string]: unknown;
+}
+
+interface ReportSources {
+  threats?: PaginatedResult<ThreatResponse>;
+  rogueAps?: RogueAp[];
+  widsEvents?: WidsEvent[];
+  widsBlacklist?: Record<string, unknown>[];
+  blockedCountries?: string[];
+  clients?: OmadaClientInfo[];
+}
+
+export class SecurityService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly clients: ClientService
+  ) {}
+
+  /** Neighbouring APs found by the last rogue AP scan, strongest signal first. */
+  public async listRogueAps(siteId?: string): Promise<RogueAp[]> {
+    const aps = await this.api.fetchPaginated<RogueApResponse>(this.sitePath(siteId, '/insight/rogueaps'));
+    return aps
+      .sort((left, right) => (right.signal ?? -Infinity) - (left.signal ?? -Infinity))
+      .map((ap) => ({
+        ...ap,
+        band: ap.radioId === undefined ? undefined : ROGUE_AP_BANDS[ap.radioId],
+        security: ap.security === undefined ? undefined : (ROGUE_AP_SECURITY[ap.security] ?? 'unknown'),
+        lastSeen: toIsoTimestamp(ap.lastSeen)
+      }));
+  }
+
+  /** Asks the APs of a site to scan for rogue APs; results show up in {@link listRogueAps}. */
+  public async scanRogueAps(siteId?: string, options?: OmadaRequestOptions): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.sitePath(resolvedSiteId, '/cmd/rogueaps/scan') },
+      options
+    );
+    return { action: 'scanRogueAps', target: { siteId: resolvedSiteId }, result };
+  }
+
+  public async listWidsEvents(siteId?: string): Promise<WidsEvent[]> {
+    const events = await this.api.fetchPaginated<WidsEventResponse>(this.sitePath(siteId, '/insight/wids'));
+    return events
+      .sort((left, right) => (right.startTime ?? 0) - (left.startTime ?? 0))
+      .map((event) => ({
+        ...event,
+        level: event.level === undefined ? undefined : (WIDS_LEVELS[event.level] ?? String(event.level)),
+        startTime: toIsoTimestamp(event.startTime)
+      }));
+  }
+
+  /** Stations the wireless intrusion prevention has blocked dynamically. */
+  public async listWidsBlacklist(siteId?: string): Promise<Record<string, unknown>[]> {
+    const entries = await this.api.fetchPaginated<{ timeStamp?: number; [key: string]: unknown }>(
+      this.sitePath(siteId, '/insight/wids/blacklist')
+    );
+    return entries.map((entry) => ({ ...entry, timeStamp: toIsoTimestamp(entry.timeStamp) }));
+  }
+
+  public async removeWidsBlacklistEntry(
+    stationMac: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const mac = normalizeMac(stationMac);
+    if (!mac) {
+      throw new Error(`Invalid MAC address: ${stationMac}`);
+    }
+
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const result = await this.api.execute(
+      {
+        method: 'PUT',
+        url: this.sitePath(resolvedSiteId, `/insight/wids/blacklist/${encodeURIComponent(mac)}`),
+        data: { stationMac: mac }
+      },
+      options
+    );
+    return { action: 'removeWidsBlacklistEntry', target: { siteId: resolvedSiteId, mac }, result };
+  }
+
+  /** IPS threats of a time range (default: last 7 days), newest first. */
+  public async listThreats(query: ThreatQuery = {}, siteId?: string): Promise<LogPage<IpsThreat>> {
+    const range = resolveTimeRange(query, DEFAULT_SECURITY_WINDOW_MS);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_THREAT_PAGE_SIZE;
+    const grid = await this.fetchThreats(
+      range,
+      query.scope === 'global' ? undefined : this.api.resolveSiteId(siteId),
+      { page, pageSize, archived: query.archived, severity: query.severity, search: query.search }
+    );
+    const items = (grid.data ?? []).map(toIpsThreat);
+
+    return {
+      total: grid.totalRows ?? items.length,
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+      count: items.length,
+      page,
+      timeRange: toReportRange(range),
+      items
+    };
+  }
+
+  /** Full details of one threat, including source and destination addresses and protocol. */
+  public async getThreat(threatId: string, time: string, siteId?: string): Promise<IpsThreat> {
+    const threat = await this.api.execute<ThreatResponse>({
+      method: 'GET',
+      url: this.sitePath(siteId, `/ips/threat/${encodeURIComponent(threatId)}`),
+      params: { time: toEpochSeconds(time) }
+    });
+    return toIpsThreat(threat);
+  }
+
+  /** Threat counts per severity, and the top source countries and classifications, across all sites. */
+  public async getThreatSummary(range: TimeRangeInput = {}): Promise<Record<string, unknown>> {
+    const timeRange = resolveTimeRange(range, DEFAULT_SECURITY_WINDOW_MS);
+    // Like the threat list, these take epoch seconds.
+    const params = { startTime: Math.floor(timeRange.start / 1000), endTime: Math.floor(timeRange.end / 1000) };
+    const [severity, top] = await Promise.all([
+      this.api.execute<Record<string, number>>({
+        method: 'GET',
+        url: this.api.buildOmadaPath('/security/threat-management/severity'),
+        params
+      }),
+      this.api.execute<Record<string, unknown>>({
+        method: 'GET',
+        url: this.api.buildOmadaPath('/security/threat-management/top'),
+        params
+      })
+    ]);
+    return { timeRange: toReportRange(timeRange), severity, ...top };
+  }
+
+  /** Blocks, isolates, suppresses or allows IPS threats of a site. */
+  public async handleThreats(
+    operation: ThreatOperation,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    if ((operation.action === 'block' || operation.action === 'isolate') && !operation.blockName) {
+      throw new Error(`blockName is required to ${operation.action} threats.`);
+    }
+
+    const data: Record<string, unknown> = {
+      threatId: operation.threats.map((threat) => ({ id: threat.id, time: toEpochSeconds(threat.time) })),
+      type: THREAT_ACTIONS.indexOf(operation.action)
+    };
+    if (operation.blockName) {
+      data.blockName = operation.blockName;
+    }
+    if (operation.action === 'suppress') {
+      data.signatureSuppression = toSignatureSuppression(operation.suppression);
+    }
+
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const result = await this.api.execute(
+      { method: 'POST', url: this.sitePath(resolvedSiteId, '/ips/threat/multi-ops'), data },
+      options
+    );
+    return {
+      action: 'handleThreats',
+      target: { siteId: resolvedSiteId, action: operation.action, threats: operation.threats.map((threat) => threat.id) },
+      result
+    };
+  }
+
+  /** Threat attempts per attacked country, for one site (default) or all sites. */
+  public async getThreatMap(query: ThreatMapQuery = {}, siteId?: string): Promise<Record<string, unknown>> {
+    const range = resolveTimeRange(query, DEFAULT_SECURITY_WINDOW_MS);
+    const data: Record<string, unknown> = { start: range.start, end: range.end };
+    if (query.scope !== 'global') {
+      data.sites = this.api.resolveSiteId(siteId);
+    }
+    if (query.severity) {
+      data.severity = String(THREAT_SEVERITIES.indexOf(query.severity));
+    }
+    if (query.country) {
+      data.country = query.country;
+    }
+
+    const map = await this.api.execute<{ data?: { attempts?: number }[] }>({
+      method: 'POST',
+      url: this.api.buildOmadaPath('/security/threat-map'),
+      data
+    });
+    return {
+      timeRange: toReportRange(range),
+      countries: [...(map?.data ?? [])].sort((left, right) => (right.attempts ?? 0) - (left.attempts ?? 0))
+    };
+  }
+
+  /** Countries whose traffic the gateway of the site drops. */
+  public async listBlockedCountries(siteId?: string): Promise<string[]> {
+    const result = await this.api.execute<{ countries?: string[] }>({
+      method: 'POST',
+      url: this.api.buildOmadaPath('/security/blocked-country'),
+      data: { sites: this.api.resolveSiteId(siteId) }
+    });
+    return result?.countries ?? [];
+  }
+
+  /** Adds a country to, or removes it from, the blocked countries of the given sites (default: the default site). */
+  public async setCountryBlocked(
+    country: string,
+    blocked: boolean,
+    siteIds: string[] | undefined,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const sites = siteIds && siteIds.length > 0 ? siteIds : [this.api.resolveSiteId()];
+    const result = await this.api.execute(
+      {
+        method: blocked ? 'POST' : 'DELETE',
+        url: this.api.buildOmadaPath(blocked ? '/security/blocked-country/add' : '/security/blocked-country'),
+        data: { country, sites }
+      },
+      options
+    );
+    return { action: blocked ? 'blockCountry' : 'unblockCountry', target: { country, sites }, result };
+  }
+
+  /**
+   * Queries the IPS threats, rogue APs, WIDS events and blacklist, blocked countries and clients of
+   * a site in parallel. Threats are grouped by signature, joined to clients by IP address and ranked
+   * by severity, then by the number of affected clients. Failing sources are reported under
+   * `unavailable`.
+   */
+  public async getSecurityReport(range: TimeRangeInput = {}, siteId?: string): Promise<SecurityReport> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const timeRange = resolveTimeRange(range, DEFAULT_SECURITY_WINDOW_MS);
+
+    const names = ['threats', 'rogueAps', 'widsEvents', 'widsBlacklist', 'blockedCountries', 'clients'] as const;
+    const settled = await Promise.allSettled([
+      this.fetchThreats(timeRange, resolvedSiteId, { page: 1, pageSize: MAX_ANALYZED_THREATS }),
+      this.listRogueAps(resolvedSiteId),
+      this.listWidsEvents(resolvedSiteId),
+      this.listWidsBlacklist(resolvedSiteId),
+      this.listBlockedCountries(resolvedSiteId),
+      this.clients.listClients(resolvedSiteId)
+    ]);
+
+    const sources: Record<string, unknown> = {};
+    const unavailable: SecurityReport['unavailable'] = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        sources[names[index]] = outcome.value;
+      } else {
+        const reason: unknown = outcome.reason;
+        unavailable.push({ source: names[index], error: reason instanceof Error ? reason.message : String(reason) });
+      }
+    });
+
+    if (unavailable.length === names.length) {
+      throw new Error(
+        `Unable to query any security endpoint for site ${resolvedSiteId}: ${unavailable[0]?.error ?? 'unknown error'}`
+      );
+    }
+
+    const { threats: threatGrid, rogueAps, widsEvents, widsBlacklist, blockedCountries, clients } = sources as ReportSources;
+    const threats = threatGrid?.data ?? [];
+    const ranked = rankThreats(threats, clients ?? []);
+    const bySeverity = Object.fromEntries(THREAT_SEVERITIES.map((severity) => [severity, 0]));
+    threats.forEach((threat) => {
+      const severity = toSeverity(threat.severity);
+      if (severity) {
+        bySeverity[severity] += 1;
+      }
+    });
+
+    // Without the threat list the site cannot be reported clear.
+    const status = !threatGrid
+      ? 'unknown'
+      : ranked.some((threat) => threat.severity === 'critical' || threat.severity === 'major')
+        ? 'critical'
+        : ranked.length > 0 || (widsEvents?.length ?? 0) > 0
+          ? 'warning'
+          : 'clear';
+
+    return {
+      siteId: resolvedSiteId,
+      status,
+      timeRange: toReportRange(timeRange),
+      summary: {
+        threats: threatGrid
+          ? {
+              total: threatGrid.totalRows ?? threats.length,
+              // Counts cover the newest MAX_ANALYZED_THREATS threats when the range holds more.
+              analyzed: threats.length,
+              bySeverity,
+              signatures: ranked.length
+            }
+          : undefined,
+        rogueAps: rogueAps
+          ? { total: rogueAps.length, open: rogueAps.filter((ap) => ap.security === 'none').length }
+          : undefined,
+        widsEvents: widsEvents?.length,
+        widsBlacklisted: widsBlacklist?.length,
+        blockedCountries
+      },
+      threats: ranked.slice(0, MAX_REPORTED_THREATS),
+      rogueAps: (rogueAps ?? []).slice(0, MAX_REPORTED_ITEMS).map((ap) => ({
+        ssid: ap.ssid,
+        bssid: ap.bssid,
+        band: ap.band,
+        channel: ap.channel,
+        security: ap.security,
+        signal: ap.signal,
+        nearestAp: ap.nearestAp ?? ap.nearestApMac,
+        lastSeen: ap.lastSeen
+      })),
+      widsEvents: (widsEvents ?? []).slice(0, MAX_REPORTED_ITEMS),
+      unavailable
+    };
+  }
+
+  private async fetchThreats(
+    range: TimeRange,
+    siteId: string | undefined,
+    query: { page: number; pageSize: number; archived?: boolean; severity?: ThreatSeverity; search?: string }
+  ): Promise<PaginatedResult<ThreatResponse>> {
+    // The threat list takes epoch seconds rather than milliseconds.
+    const params: Record<string, unknown> = {
+      archived: String(query.archived ?? false),
+      page: query.page,
+      pageSize: query.pageSize,
+      'filters.startTime': Math.floor(range.start / 1000),
+      'filters.endTime': Math.floor(range.end / 1000),
+      'sorts.time': 'desc'
+    };
+    if (siteId) {
+      params.siteList = siteId;
+    }
+    if (query.severity) {
+      params['filters.severity'] = THREAT_SEVERITIES.indexOf(query.severity);
+    }
+    if (query.search) {
+      params.searchKey = query.search;
+    }
+
+    const grid = await this.api.execute<PaginatedResult<ThreatResponse>>({
+      method: 'GET',
+      url: this.api.buildOmadaPath('/security/threat-management'),
+      params
+    });
+    return grid ?? {};
+  }
+
+  private sitePath(siteId: string | undefined, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(this.api.resolveSiteId(siteId))}${relativePath}`);
+  }
+}
+
+export function rankThreats(threats: ThreatResponse[], clients: OmadaClientInfo[]): RankedThreat[] {
+  const clientsByIp = new Map(clients.filter((client) => client.ip).map((client) => [client.ip, client]));
+  const groups = new Map<string, { threat: RankedThreat; newest: number; oldest: number }>();
+
+  // Threats arrive newest first, so the first occurrence of a signature is its latest.
+  threats.forEach((entry) => {
+    const key = String(entry.sid ?? entry.service ?? entry.classification ?? entry.id);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        threat: {
+          severity: toSeverity(entry.severity) ?? 'low',
+          classification: entry.classification,
+          service: entry.service,
+          attempts: 0,
+          sourceCountries: [],
+          affectedClients: [],
+          occurrences: []
+        },
+        newest: entry.time ?? 0,
+        oldest: entry.time ?? 0
+      };
+      groups.set(key, group);
+    }
+
+    const { threat } = group;
+    threat.attempts += 1;
+    group.newest = Math.max(group.newest, entry.time ?? 0);
+    group.oldest = Math.min(group.oldest, entry.time ?? group.oldest);
+    if (entry.srcCountry && !threat.sourceCountries.includes(entry.srcCountry)) {
+      threat.sourceCountries.push(entry.srcCountry);
+    }
+    for (const ip of [entry.srcIp, entry.dstIp]) {
+      const client = ip ? clientsByIp.get(ip) : undefined;
+      if (ip && client && !threat.affectedClients.some((affected) => affected.mac === client.mac)) {
+        threat.affectedClients.push({ mac: client.mac, name: client.name ?? client.hostName, ip });
+      }
+    }
+    if (threat.occurrences.length < MAX_OCCURRENCES) {
+      threat.occurrences.push({ id: entry.id, time: toIsoTimestamp(toMilliseconds(entry.time)) });
+    }
+  });
+
+  return [...groups.values()]
+    .map(({ threat, newest, oldest }) => ({
+      ...threat,
+      firstSeen: oldest > 0 ? toIsoTimestamp(toMilliseconds(oldest)) : undefined,
+      lastSeen: newest > 0 ? toIsoTimestamp(toMilliseconds(newest)) : undefined
+    }))
+    .sort(
+      (left, right) =>
+        THREAT_SEVERITIES.indexOf(left.severity) - THREAT_SEVERITIES.indexOf(right.severity) ||
+        right.affectedClients.length - left.affectedClients.length ||
+        right.attempts - left.attempts
+    );
+}
+
+function toIpsThreat(threat: ThreatResponse): IpsThreat {
+  return { ...threat, time: toIsoTimestamp(toMilliseconds(threat.time)), severity: toSeverity(threat.severity) };
+}
+
+function toSeverity(value: number | undefined): ThreatSeverity | undefined {
+  return value === undefined ? undefined : THREAT_SEVERITIES[value];
+}
+
+function toSignatureSuppression(suppression: ThreatOperation['suppression']): Record<string, unknown> {
+  if (!suppression) {
+    throw new Error('suppression is required to suppress threats.');
+  }
+
+  const result: Record<string, unknown> = {
+    type: SUPPRESSION_SCOPES.indexOf(suppression.scope),
+    direction: SUPPRESSION_DIRECTIONS.indexOf(suppression.direction ?? 'both')
+  };
+  if (suppression.scope === 'packet-tracking') {
+    if ((suppression.ip === undefined) === (suppression.subnet === undefined)) {
+      throw new Error('Packet tracking suppression needs either ip or subnet.');
+    }
+    Object.assign(result, suppression.ip ? { trackBy: 0, ip: suppression.ip } : { trackBy: 1, subnet: suppression.subnet });
+  }
+  return result;
+}
+
+function toEpochSeconds(time: string): number {
+  return Math.floor(parseTimeInput(time) / 1000);
+}
+
+function toMilliseconds(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+function toReportRange(range: TimeRange): { start: string; end: string } {
+  return { start: toIsoTimestamp(range.start) ?? '', end: toIsoTimestamp(range.end) ?? '' };
+}
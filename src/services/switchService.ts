@@ -0,0 +1,285 @@
+import type { OmadaActionResult, OmadaRequestOptions } from '../types/index.js';
+import { normalizeMac } from '../utils/mac.js';
+import { delay } from '../utils/rateLimit.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { DeviceService, ResolvedDevice } from './deviceService.js';
+
+export interface SwitchPort {
+  port: number;
+  name: string;
+  profileId: string;
+  profileName: string;
+  profileOverrideEnable: boolean;
+  /** 1: on (802.3at/af), 0: off. */
+  poeMode: number;
+  lagPort: boolean;
+  /** 1: on, 0: off; only set for ports outside a LAG. */
+  status?: number;
+}
+
+export interface SwitchPortsReport {
+  switch: { mac: string; name?: string; model?: string; siteId: string };
+  ports: SwitchPort[];
+}
+
+export interface SwitchVlanInterface {
+  id: string;
+  name?: string;
+  vlan: number;
+  status?: boolean;
+  /** Whether this is the management VLAN. */
+  mvlan: boolean;
+  /** DHCP mode: 0 none, 1 DHCP server, 2 DHCP relay. */
+  mode: number;
+  [key: string]: unknown;
+}
+
+export interface PortName {
+  port: number;
+  name: string;
+}
+
+export interface PowerCycleOptions {
+  /** How long PoE stays off. */
+  offSeconds?: number;
+  onProgress?: (step: number, totalSteps: number, message: string) => Promise<void>;
+}
+
+export const DEFAULT_POWER_CYCLE_OFF_SECONDS = 5;
+
+interface SwitchInfo {
+  mac: string;
+  model?: string;
+  portList?: SwitchPort[];
+}
+
+interface LanProfile {
+  id: string;
+  name: string;
+}
+
+export class SwitchService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly devices: DeviceService
+  ) {}
+
+  /** Port state of a switch; only the given ports when `ports` is set. */
+  public async getSwitchPorts(switchIdentifier: string, ports?: number[], siteId?: string): Promise<SwitchPortsReport> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const info = await this.api.execute<SwitchInfo>({ method: 'GET', url: this.switchPath(device, '') });
+
+    const portList = info?.portList ?? [];
+    const unknown = ports?.filter((port) => !portList.some((entry) => entry.port === port)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(`Switch ${device.name ?? device.mac} has no port ${unknown.join(', ')}.`);
+    }
+
+    return {
+      switch: { mac: device.mac, name: device.name, model: info?.model, siteId: device.siteId },
+      ports: ports ? portList.filter((entry) => ports.includes(entry.port)) : portList
+    };
+  }
+
+  /** VLAN interfaces of a switch with their IP settings and DHCP server or relay configuration. */
+  public async listVlanInterfaces(switchIdentifier: string, siteId?: string): Promise<SwitchVlanInterface[]> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    return this.api.fetchPaginated<SwitchVlanInterface>(this.switchPath(device, '/networks'));
+  }
+
+  public async setPortStatus(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const result = await this.putPorts(device, ports, 'status', { status: enabled ? 1 : 0 }, options);
+    return { action: 'setPortStatus', target: this.portTarget(device, ports, { enabled }), result };
+  }
+
+  public async setPortPoeMode(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const result = await this.putPorts(device, ports, 'poe-mode', { poeMode: enabled ? 1 : 0 }, options);
+    return { action: 'setPortPoeMode', target: this.portTarget(device, ports, { poe: enabled }), result };
+  }
+
+  /** Applies a LAN port profile (ID or name) to one port; the controller has no batch variant. */
+  public async setPortProfile(
+    switchIdentifier: string,
+    port: number,
+    profile: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const resolvedProfile = await this.resolveLanProfile(profile, device.siteId);
+    const result = await this.api.execute(
+      {
+        method: 'PUT',
+        url: this.switchPath(device, `/ports/${port}/profile`),
+        data: { profileId: resolvedProfile.id }
+      },
+      options
+    );
+
+    return {
+      action: 'setPortProfile',
+      target: this.portTarget(device, [port], { profileId: resolvedProfile.id, profileName: resolvedProfile.name }),
+      result
+    };
+  }
+
+  /** Allows (or stops allowing) port settings that differ from the port profile. */
+  public async setPortProfileOverride(
+    switchIdentifier: string,
+    ports: number[],
+    enabled: boolean,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const result = await this.putPorts(device, ports, 'profile-override', { profileOverrideEnable: enabled }, options);
+    return { action: 'setPortProfileOverride', target: this.portTarget(device, ports, { profileOverride: enabled }), result };
+  }
+
+  public async setPortNames(
+    switchIdentifier: string,
+    names: PortName[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const device = await this.resolveSwitch(switchIdentifier, siteId);
+    const result =
+      names.length === 1
+        ? await this.api.execute(
+            {
+              method: 'PUT',
+              url: this.switchPath(device, `/ports/${names[0].port}/name`),
+              data: { name: names[0].name }
+            },
+            options
+          )
+        : await this.api.execute(
+            { method: 'PUT', url: this.switchPath(device, '/multi-ports/name'), data: { portNameList: names } },
+            options
+          );
+
+    return {
+      action: 'setPortNames',
+      target: this.portTarget(
+        device,
+        names.map((entry) => entry.port),
+        { names }
+      ),
+      result
+    };
+  }
+
+  /**
+   * Turns PoE off on the given ports, waits, and turns it back on. Ports whose PoE is already off
+   * are rejected, since the cycle would end by powering them.
+   */
+  public async powerCyclePorts(
+    switchIdentifier: string,
+    ports: number[],
+    siteId?: string,
+    cycle: PowerCycleOptions = {},
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const offSeconds = cycle.offSeconds ?? DEFAULT_POWER_CYCLE_OFF_SECONDS;
+    const report = cycle.onProgress ?? (async () => undefined);
+    const { switch: target, ports: current } = await this.getSwitchPorts(switchIdentifier, ports, siteId);
+    const device = { mac: target.mac, name: target.name, siteId: target.siteId };
+
+    const unpowered = current.filter((entry) => entry.poeMode !== 1).map((entry) => entry.port);
+    if (unpowered.length > 0) {
+      throw new Error(`PoE is off on port ${unpowered.join(', ')}; power cycling would leave it on, so turn PoE on instead.`);
+    }
+
+    await report(1, 3, `Turning PoE off on port ${ports.join(', ')}`);
+    const off = await this.putPorts(device, ports, 'poe-mode', { poeMode: 0 }, options);
+
+    await report(2, 3, `Waiting ${offSeconds} seconds`);
+    await delay(offSeconds * 1000);
+
+    let on: unknown;
+    try {
+      on = await this.putPorts(device, ports, 'poe-mode', { poeMode: 1 }, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `PoE was turned off on port ${ports.join(', ')} of ${device.name ?? device.mac} but turning it back on failed: ${message}`
+      );
+    }
+    await report(3, 3, `PoE turned back on on port ${ports.join(', ')}`);
+
+    return {
+      action: 'powerCyclePorts',
+      target: this.portTarget(device, ports, { offSeconds }),
+      result: { off, on }
+    };
+  }
+
+  /** Looks up a switch by MAC or name and rejects devices of other types. */
+  private async resolveSwitch(identifier: string, siteId?: string): Promise<ResolvedDevice> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const device = await this.devices.getDevice(identifier, resolvedSiteId);
+    if (!device) {
+      throw new Error(`No switch matching "${identifier}" was found in site ${resolvedSiteId}.`);
+    }
+    if (device.type && device.type.toLowerCase() !== 'switch') {
+      throw new Error(`${device.name ?? device.mac} is not a switch (type: ${device.type}).`);
+    }
+
+    return { mac: normalizeMac(device.mac) ?? device.mac, name: device.name, siteId: resolvedSiteId };
+  }
+
+  private async resolveLanProfile(identifier: string, siteId: string): Promise<LanProfile> {
+    const profiles = await this.api.fetchPaginated<LanProfile>(
+      this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}/lan-profiles`)
+    );
+    const lowered = identifier.trim().toLowerCase();
+    const profile =
+      profiles.find((candidate) => candidate.id === identifier) ??
+      profiles.find((candidate) => candidate.name.toLowerCase() === lowered);
+    if (!profile) {
+      throw new Error(`No LAN profile matching "${identifier}" was found in site ${siteId}.`);
+    }
+    return profile;
+  }
+
+  /** Uses the single-port endpoint for one port and the `multi-ports` variant for several. */
+  private async putPorts(
+    device: ResolvedDevice,
+    ports: number[],
+    setting: 'status' | 'poe-mode' | 'profile-override',
+    data: Record<string, unknown>,
+    options?: OmadaRequestOptions
+  ): Promise<unknown> {
+    return ports.length === 1
+      ? this.api.execute({ method: 'PUT', url: this.switchPath(device, `/ports/${ports[0]}/${setting}`), data }, options)
+      : this.api.execute(
+          { method: 'PUT', url: this.switchPath(device, `/multi-ports/${setting}`), data: { ...data, portList: ports } },
+          options
+        );
+  }
+
+  private portTarget(device: ResolvedDevice, ports: number[], extra: Record<string, unknown>): Record<string, unknown> {
+    return { siteId: device.siteId, mac: device.mac, name: device.name, ports, ...extra };
+  }
+
+  private switchPath(device: ResolvedDevice, relativePath: string): string {
+    return this.api.buildOmadaPath(
+      `/sites/${encodeURIComponent(device.siteId)}/switches/${encodeURIComponent(device.mac)}${relativePath}`
+    );
+  }
+}
@@ -0,0 +1,582 @@
+import type { OmadaActionResult, OmadaRequestOptions } from '../types/index.js';
+
+import type { OmadaApiContext } from './apiContext.js';
+import type { DeviceService } from './deviceService.js';
+
+export const SSID_SECURITY_MODES = ['open', 'wpa-enterprise', 'wpa-personal'] as const;
+
+export type SsidSecurityMode = (typeof SSID_SECURITY_MODES)[number];
+
+export const WPA_VERSIONS = ['wpa', 'wpa2', 'wpa-wpa2', 'wpa3'] as const;
+
+export type WpaVersion = (typeof WPA_VERSIONS)[number];
+
+export const WIFI_BANDS = ['2.4GHz', '5GHz', '6GHz'] as const;
+
+export type WifiBand = (typeof WIFI_BANDS)[number];
+
+export interface WlanGroup {
+  wlanId: string;
+  name: string;
+  primary?: boolean;
+}
+
+export interface SsidSummary {
+  ssidId: string;
+  name: string;
+  wlanId: string;
+  wlanName: string;
+  band?: number;
+  security?: number;
+  broadcast?: boolean;
+  guestNetEnable?: boolean;
+  vlanEnable?: boolean;
+  vlanId?: number;
+  [key: string]: unknown;
+}
+
+/** Custom limits in Kbps, or a rate limit profile; omitted directions are unlimited. */
+export interface SsidRateLimit {
+  profileId?: string;
+  downloadKbps?: number;
+  uploadKbps?: number;
+}
+
+export interface SsidSettings {
+  name?: string;
+  security?: SsidSecurityMode;
+  /** WPA-Personal passphrase, 8 to 63 characters. */
+  passphrase?: string;
+  wpaVersion?: WpaVersion;
+  /** RADIUS profile for WPA-Enterprise. */
+  radiusProfileId?: string;
+  bands?: WifiBand[];
+  broadcast?: boolean;
+  guestNetwork?: boolean;
+  /** VLAN of the SSID; `null` puts it back on the default network. */
+  vlanId?: number | null;
+  rateLimit?: {
+    /** Limit applied to each client of the SSID. */
+    client?: SsidRateLimit;
+    /** Limit shared by all clients of the SSID. */
+    ssid?: SsidRateLimit;
+  };
+  schedule?: {
+    enabled: boolean;
+    /** Time range profile during which `action` applies. */
+    timeRangeProfileId?: string;
+    action?: 'radio-on' | 'radio-off';
+  };
+}
+
+export interface ResolvedSsid {
+  ssidId: string;
+  name: string;
+  wlanId: string;
+  siteId: string;
+}
+
+export interface ApSsidOverride {
+  /** SSID ID or name. */
+  ssid: string;
+  /** Turns the SSID on or off on this AP; defaults to its current state. */
+  enabled?: boolean;
+  /** Name broadcast by this AP instead of the SSID name. */
+  ssidName?: string;
+  /** Passphrase used by this AP instead of the SSID passphrase. */
+  passphrase?: string;
+  /** VLAN used by this AP instead of the SSID VLAN. */
+  vlanId?: number;
+}
+
+interface SsidOverrideRecord {
+  /** SSID entry ID of the AP, not the SSID ID of the WLAN group. */
+  ssidId: number;
+  ssidName: string;
+  ssidPassword?: string;
+  security?: number;
+  vlanEnable?: boolean;
+  vlanId?: number;
+  ssidEnable?: boolean;
+}
+
+/** Fields of the SSID detail that `update-basic-config` accepts. */
+const BASIC_CONFIG_FIELDS = [
+  'name',
+  'band',
+  'guestNetEnable',
+  'security',
+  'oweEnable',
+  'broadcast',
+  'vlanEnable',
+  'vlanId',
+  'pskSetting',
+  'entSetting',
+  'ppskSetting',
+  'mloEnable',
+  'pmfMode',
+  'enable11r',
+  'hidePwd',
+  'greEnable',
+  'vlanSetting',
+  'prohibitWifiShare'
+] as const;
+
+const SECURITY_CODES: Record<SsidSecurityMode, number> = { open: 0, 'wpa-enterprise': 2, 'wpa-personal': 3 };
+
+const WPA_VERSION_CODES: Record<WpaVersion, number> = { wpa: 1, wpa2: 2, 'wpa-wpa2': 3, wpa3: 4 };
+
+/** `encryptionPsk`/`encryptionEnt` AES, which every WPA version accepts. */
+const ENCRYPTION_AES = 3;
+
+/** `pmfMode`: WPA3 requires mandatory protected management frames. */
+const PMF_MANDATORY = 1;
+const PMF_CAPABLE = 2;
+
+/** `deviceType` bit for access points. */
+const DEVICE_TYPE_EAP = 1;
+
+function bandMask(bands: WifiBand[]): number {
+  return bands.reduce((mask, band) => mask | (1 << WIFI_BANDS.indexOf(band)), 0);
+}
+
+function toRateLimitSetting(limit: SsidRateLimit): Record<string, unknown> {
+  if (limit.profileId) {
+    return { profileId: limit.profileId };
+  }
+
+  return {
+    customSetting: {
+      downLimitEnable: limit.downloadKbps !== undefined,
+      downLimit: limit.downloadKbps,
+      downLimitType: 0,
+      upLimitEnable: limit.uploadKbps !== undefined,
+      upLimit: limit.uploadKbps,
+      upLimitType: 0
+    }
+  };
+}
+
+/**
+ * Applies the security fields of `settings` to an SSID body. Missing passphrases and RADIUS
+ * profiles are taken from `current` so that, for example, a WPA version change keeps the key.
+ */
+function applySecurity(
+  body: Record<string, unknown>,
+  settings: SsidSettings,
+  current: Record<string, unknown> = {}
+): void {
+  const security =
+    settings.security ??
+    (Object.keys(SECURITY_CODES) as SsidSecurityMode[]).find((mode) => SECURITY_CODES[mode] === current.security);
+  if (!security) {
+    throw new Error('This SSID uses PPSK security, which these tools cannot change; pass security explicitly.');
+  }
+  if (settings.passphrase !== undefined && security !== 'wpa-personal') {
+    throw new Error(`A passphrase only applies to WPA-Personal SSIDs, but the security mode is ${security}.`);
+  }
+
+  const version = settings.wpaVersion ? WPA_VERSION_CODES[settings.wpaVersion] : undefined;
+  body.security = SECURITY_CODES[security];
+
+  if (security === 'wpa-personal') {
+    const currentPsk = (current.pskSetting ?? {}) as Record<string, unknown>;
+    const securityKey = settings.passphrase ?? (currentPsk.securityKey as string | undefined);
+    if (!securityKey) {
+      throw new Error('WPA-Personal SSIDs require a passphrase of 8 to 63 characters.');
+    }
+    const versionPsk = version ?? (currentPsk.versionPsk as number | undefined) ?? WPA_VERSION_CODES.wpa2;
+    body.pskSetting = {
+      ...currentPsk,
+      securityKey,
+      versionPsk,
+      encryptionPsk: settings.wpaVersion ? ENCRYPTION_AES : currentPsk.encryptionPsk ?? ENCRYPTION_AES,
+      gikRekeyPskEnable: currentPsk.gikRekeyPskEnable ?? false
+    };
+    body.pmfMode = versionPsk === WPA_VERSION_CODES.wpa3 ? PMF_MANDATORY : current.pmfMode ?? PMF_CAPABLE;
+  } else if (security === 'wpa-enterprise') {
+    const currentEnt = (current.entSetting ?? {}) as Record<string, unknown>;
+    const radiusProfileId = settings.radiusProfileId ?? (currentEnt.radiusProfileId as string | undefined);
+    if (!radiusProfileId) {
+      throw new Error('WPA-Enterprise SSIDs require radiusProfileId.');
+    }
+    const versionEnt = version ?? (currentEnt.versionEnt as number | undefined) ?? WPA_VERSION_CODES.wpa2;
+    body.entSetting = {
+      ...currentEnt,
+      radiusProfileId,
+      versionEnt,
+      encryptionEnt: settings.wpaVersion ? ENCRYPTION_AES : currentEnt.encryptionEnt ?? ENCRYPTION_AES,
+      gikRekeyEntEnable: currentEnt.gikRekeyEntEnable ?? false
+    };
+    body.pmfMode = versionEnt === WPA_VERSION_CODES.wpa3 ? PMF_MANDATORY : current.pmfMode ?? PMF_CAPABLE;
+  } else {
+    delete body.pskSetting;
+    delete body.entSetting;
+    delete body.ppskSetting;
+    body.pmfMode = current.pmfMode ?? PMF_CAPABLE;
+  }
+}
+
+function applyVlan(body: Record<string, unknown>, vlanId: number | null): void {
+  body.vlanEnable = vlanId !== null;
+  body.vlanId = vlanId ?? undefined;
+  // The newer VLAN setting takes precedence over vlanEnable/vlanId, so drop the stale one.
+  delete body.vlanSetting;
+}
+
+export class WirelessService {
+  constructor(
+    private readonly api: OmadaApiContext,
+    private readonly devices: DeviceService
+  ) {}
+
+  public async listWlanGroups(siteId?: string): Promise<WlanGroup[]> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    return (
+      (await this.api.execute<WlanGroup[]>({
+        method: 'GET',
+        url: this.sitePath(resolvedSiteId, '/wireless-network/wlans')
+      })) ?? []
+    );
+  }
+
+  /** SSIDs of one WLAN group (ID or name), or of every group when `wlanGroup` is omitted. */
+  public async listSsids(wlanGroup?: string, siteId?: string): Promise<SsidSummary[]> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const groups = await this.listWlanGroups(resolvedSiteId);
+    const selected = wlanGroup ? [this.matchWlanGroup(groups, wlanGroup, resolvedSiteId)] : groups;
+
+    const lists = await Promise.all(
+      selected.map(async (group) => {
+        const ssids = await this.api.fetchPaginated<SsidSummary>(
+          this.sitePath(resolvedSiteId, `/wireless-network/wlans/${encodeURIComponent(group.wlanId)}/ssids`)
+        );
+        return ssids.map((ssid) => ({ ...ssid, wlanId: group.wlanId, wlanName: group.name }));
+      })
+    );
+    return lists.flat();
+  }
+
+  public async getSsid(ssid: string, wlanGroup?: string, siteId?: string): Promise<Record<string, unknown>> {
+    const resolved = await this.resolveSsid(ssid, wlanGroup, siteId);
+    const detail = await this.fetchSsidDetail(resolved);
+    return { ...detail, wlanId: resolved.wlanId };
+  }
+
+  /** Creates an SSID in the given WLAN group, or in the site's primary group. */
+  public async createSsid(
+    settings: SsidSettings & { name: string },
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const groups = await this.listWlanGroups(resolvedSiteId);
+    const group = wlanGroup
+      ? this.matchWlanGroup(groups, wlanGroup, resolvedSiteId)
+      : groups.find((candidate) => candidate.primary) ?? groups[0];
+    if (!group) {
+      throw new Error(`Site ${resolvedSiteId} has no WLAN group.`);
+    }
+
+    const body: Record<string, unknown> = {
+      name: settings.name,
+      deviceType: DEVICE_TYPE_EAP,
+      band: bandMask(settings.bands ?? ['2.4GHz', '5GHz']),
+      guestNetEnable: settings.guestNetwork ?? false,
+      broadcast: settings.broadcast ?? true,
+      enable11r: false,
+      mloEnable: false,
+      hidePwd: false
+    };
+    applySecurity(body, { ...settings, security: settings.security ?? (settings.passphrase ? 'wpa-personal' : 'open') });
+    applyVlan(body, settings.vlanId ?? null);
+
+    const ssidsPath = this.sitePath(resolvedSiteId, `/wireless-network/wlans/${encodeURIComponent(group.wlanId)}/ssids`);
+    const result = await this.api.execute({ method: 'POST', url: ssidsPath, data: body }, options);
+    const target = { siteId: resolvedSiteId, wlanId: group.wlanId, name: settings.name };
+    if (!settings.rateLimit && !settings.schedule) {
+      return { action: 'createSsid', target, result };
+    }
+
+    // Rate limits and schedules have their own endpoints, so apply them to the new SSID afterwards.
+    const created = (await this.api.fetchPaginated<SsidSummary>(ssidsPath)).find((ssid) => ssid.name === settings.name);
+    if (!created) {
+      throw new Error(`SSID ${settings.name} was created, but it was not found to apply its rate limit and schedule.`);
+    }
+    const resolved = { ssidId: created.ssidId, name: created.name, wlanId: group.wlanId, siteId: resolvedSiteId };
+    return {
+      action: 'createSsid',
+      target: { ...target, ssidId: created.ssidId },
+      result,
+      followUp: await this.applyPolicies(resolved, settings, options)
+    };
+  }
+
+  /**
+   * Changes the given settings of an SSID and keeps everything else. The controller's basic config
+   * endpoint replaces the whole configuration, so the current SSID detail is merged with the changes.
+   */
+  public async updateSsid(
+    ssid: string,
+    settings: SsidSettings,
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolved = await this.resolveSsid(ssid, wlanGroup, siteId);
+    const changed = Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key]) => key);
+    if (changed.length === 0) {
+      throw new Error('Pass at least one setting to change.');
+    }
+
+    const result: Record<string, unknown> = {};
+    const basicKeys = changed.filter((key) => key !== 'rateLimit' && key !== 'schedule');
+    if (basicKeys.length > 0) {
+      const current = await this.fetchSsidDetail(resolved);
+      const body: Record<string, unknown> = {};
+      for (const field of BASIC_CONFIG_FIELDS) {
+        if (current[field] !== undefined) {
+          body[field] = current[field];
+        }
+      }
+
+      if (settings.name !== undefined) {
+        body.name = settings.name;
+      }
+      if (settings.bands !== undefined) {
+        body.band = bandMask(settings.bands);
+      }
+      if (settings.broadcast !== undefined) {
+        body.broadcast = settings.broadcast;
+      }
+      if (settings.guestNetwork !== undefined) {
+        body.guestNetEnable = settings.guestNetwork;
+      }
+      if (settings.vlanId !== undefined) {
+        applyVlan(body, settings.vlanId);
+      }
+      if (['security', 'passphrase', 'wpaVersion', 'radiusProfileId'].some((key) => basicKeys.includes(key))) {
+        applySecurity(body, settings, current);
+      }
+
+      result.basicConfig = await this.api.execute(
+        { method: 'PATCH', url: this.ssidPath(resolved, '/update-basic-config'), data: body },
+        options
+      );
+    }
+
+    return {
+      action: 'updateSsid',
+      target: { siteId: resolved.siteId, wlanId: resolved.wlanId, ssidId: resolved.ssidId, name: resolved.name, changed },
+      result: { ...result, ...(await this.applyPolicies(resolved, settings, options)) }
+    };
+  }
+
+  public async deleteSsid(
+    ssid: string,
+    wlanGroup?: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const resolved = await this.resolveSsid(ssid, wlanGroup, siteId);
+    const result = await this.api.execute({ method: 'DELETE', url: this.ssidPath(resolved, '') }, options);
+    return { action: 'deleteSsid', target: { ...resolved }, result };
+  }
+
+  /** WLAN group and per-SSID overrides (name, passphrase, VLAN, on/off) of an access point. */
+  public async getApWlanConfig(apIdentifier: string, siteId?: string): Promise<Record<string, unknown>> {
+    const ap = await this.devices.resolveDevice(apIdentifier, siteId);
+    const [overview, overrides, groups] = await Promise.all([
+      this.api.execute<Record<string, unknown>>({
+        method: 'GET',
+        url: this.sitePath(ap.siteId, `/aps/${encodeURIComponent(ap.mac)}`)
+      }),
+      this.fetchOverrides(ap.siteId, ap.mac),
+      this.listWlanGroups(ap.siteId)
+    ]);
+
+    const wlanId = (overview?.wlanId ?? overview?.['wlan group id']) as string | undefined;
+    return {
+      ap: { mac: ap.mac, name: ap.name ?? overview?.name },
+      wlanGroup: groups.find((group) => group.wlanId === wlanId) ?? (wlanId ? { wlanId } : undefined),
+      ssidOverrides: overrides
+    };
+  }
+
+  /**
+   * Sets the overrides of the listed SSIDs on an AP. Each entry replaces the AP's override of that
+   * SSID: a name or passphrase that is not given falls back to the SSID's own, and so does the VLAN.
+   */
+  public async setApSsidOverrides(
+    apIdentifier: string,
+    overrides: ApSsidOverride[],
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const ap = await this.devices.resolveDevice(apIdentifier, siteId);
+    const current = await this.fetchOverrides(ap.siteId, ap.mac);
+
+    const ssidOverrides = overrides.map((override) => {
+      const lowered = override.ssid.trim().toLowerCase();
+      const entry =
+        current.find((record) => String(record.ssidId) === override.ssid.trim()) ??
+        current.find((record) => record.ssidName.toLowerCase() === lowered);
+      if (!entry) {
+        throw new Error(`AP ${ap.mac} does not broadcast an SSID matching "${override.ssid}".`);
+      }
+
+      const overrideSsid = override.ssidName !== undefined || override.passphrase !== undefined;
+      return {
+        ssidId: entry.ssidId,
+        overrideSsidEnable: overrideSsid,
+        overrideSsidName: override.ssidName ?? entry.ssidName,
+        overrideSsidPassword: overrideSsid ? override.passphrase ?? entry.ssidPassword : undefined,
+        overrideVlanEnable: override.vlanId !== undefined,
+        vlanId: override.vlanId,
+        ssidEnable: override.enabled ?? entry.ssidEnable ?? true
+      };
+    });
+
+    const result = await this.api.execute(
+      {
+        method: 'PATCH',
+        url: this.sitePath(ap.siteId, `/aps/${encodeURIComponent(ap.mac)}/override`),
+        data: { ssidOverrides }
+      },
+      options
+    );
+
+    return {
+      action: 'setApSsidOverrides',
+      target: { siteId: ap.siteId, mac: ap.mac, name: ap.name, ssids: overrides.map((override) => override.ssid) },
+      result
+    };
+  }
+
+  /** Moves an AP to another WLAN group (ID or name) of its site. */
+  public async setApWlanGroup(
+    apIdentifier: string,
+    wlanGroup: string,
+    siteId?: string,
+    options?: OmadaRequestOptions
+  ): Promise<OmadaActionResult> {
+    const ap = await this.devices.resolveDevice(apIdentifier, siteId);
+    const group = this.matchWlanGroup(await this.listWlanGroups(ap.siteId), wlanGroup, ap.siteId);
+    const result = await this.api.execute(
+      {
+        method: 'PATCH',
+        url: this.sitePath(ap.siteId, `/aps/${encodeURIComponent(ap.mac)}/wlan-group`),
+        data: { wlanGroupId: group.wlanId }
+      },
+      options
+    );
+
+    return {
+      action: 'setApWlanGroup',
+      target: { siteId: ap.siteId, mac: ap.mac, name: ap.name, wlanId: group.wlanId, wlanName: group.name },
+      result
+    };
+  }
+
+  /**
+   * Looks up an SSID by ID or name (case-insensitive), in one WLAN group or across all of them.
+   * Names used in several groups are rejected unless the group is given.
+   */
+  public async resolveSsid(ssid: string, wlanGroup?: string, siteId?: string): Promise<ResolvedSsid> {
+    const resolvedSiteId = this.api.resolveSiteId(siteId);
+    const ssids = await this.listSsids(wlanGroup, resolvedSiteId);
+    const lowered = ssid.trim().toLowerCase();
+
+    const byId = ssids.find((candidate) => candidate.ssidId === ssid);
+    const matches = byId ? [byId] : ssids.filter((candidate) => candidate.name.toLowerCase() === lowered);
+    if (matches.length === 0) {
+      throw new Error(`No SSID matching "${ssid}" was found in site ${resolvedSiteId}.`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `"${ssid}" matches SSIDs in ${matches.length} WLAN groups (${matches.map((match) => match.wlanName).join(', ')}); pass wlanGroup.`
+      );
+    }
+
+    const [match] = matches;
+    return { ssidId: match.ssidId, name: match.name, wlanId: match.wlanId, siteId: resolvedSiteId };
+  }
+
+  private async applyPolicies(
+    ssid: ResolvedSsid,
+    settings: SsidSettings,
+    options?: OmadaRequestOptions
+  ): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {};
+    if (settings.rateLimit) {
+      const { client, ssid: ssidLimit } = settings.rateLimit;
+      result.rateLimit = await this.api.execute(
+        {
+          method: 'PATCH',
+          url: this.ssidPath(ssid, '/update-rate-limit'),
+          data: {
+            clientRateLimit: toRateLimitSetting(client ?? {}),
+            ssidRateLimit: toRateLimitSetting(ssidLimit ?? {})
+          }
+        },
+        options
+      );
+    }
+    if (settings.schedule) {
+      const { enabled, timeRangeProfileId, action } = settings.schedule;
+      if (enabled && !timeRangeProfileId) {
+        throw new Error('Enabling a WLAN schedule requires timeRangeProfileId.');
+      }
+      result.schedule = await this.api.execute(
+        {
+          method: 'PATCH',
+          url: this.ssidPath(ssid, '/update-wlan-schedule'),
+          data: {
+            wlanScheduleEnable: enabled,
+            scheduleId: timeRangeProfileId,
+            action: enabled ? (action === 'radio-off' ? 0 : 1) : undefined
+          }
+        },
+        options
+      );
+    }
+    return result;
+  }
+
+  private async fetchSsidDetail(ssid: ResolvedSsid): Promise<Record<string, unknown>> {
+    return (await this.api.execute<Record<string, unknown>>({ method: 'GET', url: this.ssidPath(ssid, '') })) ?? {};
+  }
+
+  private async fetchOverrides(siteId: string, mac: string): Promise<SsidOverrideRecord[]> {
+    const result = await this.api.execute<{ ssidOverrides?: SsidOverrideRecord[] }>({
+      method: 'GET',
+      url: this.sitePath(siteId, `/aps/${encodeURIComponent(mac)}/override`)
+    });
+    return result?.ssidOverrides ?? [];
+  }
+
+  private matchWlanGroup(groups: WlanGroup[], identifier: string, siteId: string): WlanGroup {
+    const lowered = identifier.trim().toLowerCase();
+    const group =
+      groups.find((candidate) => candidate.wlanId === identifier) ??
+      groups.find((candidate) => candidate.name.toLowerCase() === lowered);
+    if (!group) {
+      throw new Error(`No WLAN group matching "${identifier}" was found in site ${siteId}.`);
+    }
+    return group;
+  }
+
+  private ssidPath(ssid: ResolvedSsid, relativePath: string): string {
+    return this.sitePath(
+      ssid.siteId,
+      `/wireless-network/wlans/${encodeURIComponent(ssid.wlanId)}/ssids/${encodeURIComponent(ssid.ssidId)}${relativePath}`
+    );
+  }
+
+  private sitePath(siteId: string, relativePath: string): string {
+    return this.api.buildOmadaPath(`/sites/${encodeURIComponent(siteId)}${relativePath}`);
+  }
+}
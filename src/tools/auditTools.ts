@@ -0,0 +1,39 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { auditTrail, DEFAULT_AUDIT_QUERY_LIMIT, scopeAuditQuery } from '../audit/auditTrail.js';
+import { getAuthorizationGrant } from '../authz/authorizationContext.js';
+
+import { timeInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const auditLogSchema = z.object({
+  since: timeInputSchema.optional().describe('Only entries at or after this time.'),
+  until: timeInputSchema.optional().describe('Only entries at or before this time.'),
+  tool: z.string().min(1).optional().describe('Tool name, e.g. omada.blockClient.'),
+  principal: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Authenticated principal; callers without the config-writes category only see their own entries.'),
+  type: z
+    .enum(['tool', 'controller'])
+    .optional()
+    .describe('Tool invocations or mutating controller requests.'),
+  outcome: z.enum(['success', 'error', 'denied']).optional(),
+  limit: z.number().int().min(1).max(1000).default(DEFAULT_AUDIT_QUERY_LIMIT)
+});
+
+export function registerAuditTools(server: McpServer): void {
+  server.registerTool(
+    'omada.auditLog',
+    {
+      description:
+        'Query the audit trail of this MCP server: tool invocations and mutating controller requests with their principal, sanitized arguments and outcome, newest first. Requires OMADA_AUDIT_FILE or OMADA_AUDIT_SQLITE_FILE.',
+      inputSchema: auditLogSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.auditLog', 'read', async (query, extra) =>
+      toToolResult(await auditTrail.query(scopeAuditQuery(query, getAuthorizationGrant(extra.authInfo))))
+    )
+  );
+}
@@ -0,0 +1,165 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+
+import { clientIdSchema, confirmSchema, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const clientActionSchema = clientIdSchema.extend({
+  confirm: confirmSchema
+});
+
+const rebootClientSchema = clientActionSchema.extend({
+  deviceId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Device ID of a VIGI device adopted in VMS; only needed for those devices.')
+});
+
+const renameClientSchema = clientActionSchema.extend({
+  name: z.string().min(1).max(128)
+});
+
+const rateLimitUnitSchema = z
+  .union([z.literal(1), z.literal(2)])
+  .describe('1: Kbps; 2: Mbps.');
+
+const rateLimitSchema = z.object({
+  rateLimitId: z.string().min(1).optional().describe('Rate limit profile ID; omit for a custom limit.'),
+  enable: z.boolean(),
+  upEnable: z.boolean().optional(),
+  upUnit: rateLimitUnitSchema.optional(),
+  upLimit: z.number().int().min(1).max(1024).optional(),
+  downEnable: z.boolean().optional(),
+  downUnit: rateLimitUnitSchema.optional(),
+  downLimit: z.number().int().min(1).max(1024).optional()
+});
+
+const batchConfigSchema = siteInputSchema.extend({
+  clientIds: z
+    .array(z.string().min(1))
+    .min(1, 'At least one client (MAC, hostname or name) is required'),
+  ipSetting: z
+    .object({
+      useFixedAddr: z.boolean(),
+      netId: z.string().min(1).optional().describe('Network ID the fixed addresses belong to.'),
+      ipList: z
+        .array(z.object({ clientId: z.string().min(1), ip: z.string().ip({ version: 'v4' }) }))
+        .optional()
+    })
+    .optional(),
+  rateLimit: rateLimitSchema.optional(),
+  lockToAp: z
+    .object({
+      enable: z.boolean(),
+      aps: z.array(z.string().min(1)).optional().describe('AP MAC addresses.')
+    })
+    .optional(),
+  confirm: confirmSchema
+});
+
+const deleteClientsSchema = siteInputSchema.extend({
+  start: z.number().int().optional().describe('Start timestamp in seconds.'),
+  end: z.number().int().optional().describe('End timestamp in seconds.'),
+  wireless: z.boolean().optional(),
+  guest: z.boolean().optional(),
+  rateLimit: z.boolean().optional(),
+  block: z.boolean().optional(),
+  connectSuccess: z.boolean().optional(),
+  searchKey: z.string().min(1).optional().describe('Match clients by MAC or name.'),
+  all: z
+    .boolean()
+    .default(false)
+    .describe('Delete every client record of the site; required when no other filter is given.'),
+  confirm: confirmSchema
+});
+
+export function registerClientTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.blockClient',
+    {
+      description: 'Block a client identified by MAC, hostname or name from the network.',
+      inputSchema: clientActionSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.blockClient', 'client-actions', async ({ controller, clientId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).blockClient(clientId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.unblockClient',
+    {
+      description: 'Unblock a previously blocked client.',
+      inputSchema: clientActionSchema.shape
+    },
+    wrapToolHandler('omada.unblockClient', 'client-actions', async ({ controller, clientId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).unblockClient(clientId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.reconnectClient',
+    {
+      description: 'Force a wireless client to reconnect.',
+      inputSchema: clientActionSchema.shape
+    },
+    wrapToolHandler('omada.reconnectClient', 'client-actions', async ({ controller, clientId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).reconnectClient(clientId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.rebootClient',
+    {
+      description: 'Reboot a client that supports remote reboot, such as a VIGI camera.',
+      inputSchema: rebootClientSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.rebootClient', 'client-actions', async ({ controller, clientId, deviceId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).rebootClient(clientId, deviceId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.renameClient',
+    {
+      description: 'Set the display name of a client.',
+      inputSchema: renameClientSchema.shape
+    },
+    wrapToolHandler('omada.renameClient', 'client-actions', async ({ controller, clientId, name, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).renameClient(clientId, name, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.batchConfigClients',
+    {
+      description: 'Apply fixed IP, rate limit and lock-to-AP settings to several clients at once.',
+      inputSchema: batchConfigSchema.shape
+    },
+    wrapToolHandler(
+      'omada.batchConfigClients', 'config-writes',
+      async ({ controller, clientIds, ipSetting, rateLimit, lockToAp, siteId, confirm }) =>
+        toToolResult(
+          await registry.get(controller).batchConfigClients(clientIds, { ipSetting, rateLimit, lockToAp }, siteId, {
+            confirmed: confirm
+          })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteClients',
+    {
+      description:
+        'Delete client records matching the given filters (time range, type, search key). At least one filter is required unless all is true.',
+      inputSchema: deleteClientsSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteClients', 'config-writes', async ({ controller, siteId, confirm, ...filter }) =>
+      toToolResult(await registry.get(controller).deleteClients(filter, siteId, { confirmed: confirm }))
+    )
+  );
+}
@@ -0,0 +1,198 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { AccessPolicyError } from '../accessPolicy.js';
+import { auditTrail } from '../audit/auditTrail.js';
+import { getAuthPrincipal } from '../auth/httpAuth.js';
+import { assertToolAllowed, getAuthorizationGrant, setToolCategory } from '../authz/authorizationContext.js';
+import { AuthorizationError, type ToolCategory } from '../authz/authorizationPolicy.js';
+import { toolDuration, toolInvocations } from '../metrics/omadaMetrics.js';
+import { OmadaClient } from '../omadaClient.js';
+import type { AuditEvent } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export function toToolResult(value: unknown) {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? '';
+
+  return {
+    content: text ? [{ type: 'text' as const, text }] : []
+  };
+}
+
+export const controllerInputSchema = z.object({
+  controller: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Name of the Omada controller to use; defaults to the primary controller.')
+});
+
+export const siteInputSchema = controllerInputSchema.extend({
+  siteId: z.string().min(1).optional()
+});
+
+export const clientIdSchema = siteInputSchema.extend({
+  clientId: z.string().min(1, 'clientId (MAC or client identifier) is required')
+});
+
+export const deviceIdSchema = siteInputSchema.extend({
+  deviceId: z.string().min(1, 'deviceId (MAC or device identifier) is required')
+});
+
+export const DEFAULT_LIST_LIMIT = 100;
+
+export const listOptionsSchema = z.object({
+  sortBy: z.string().min(1).optional().describe('Field to sort by, e.g. name, ip or status.'),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .default(DEFAULT_LIST_LIMIT)
+    .describe('Maximum number of items to return.'),
+  offset: z.number().int().min(0).optional().describe('Number of matching items to skip.'),
+  fields: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only return these keys for each item, e.g. ["name", "mac", "ip"].')
+});
+
+export const timeInputSchema = z
+  .string()
+  .min(1)
+  .describe('"now", a relative duration such as "2h", "last 30m" or "7 days ago", epoch seconds or milliseconds (10 digits or fewer are seconds), or an ISO 8601 timestamp.');
+
+export const confirmSchema = z
+  .boolean()
+  .optional()
+  .describe('Set to true to approve a mutating controller call when the server runs in confirm-writes mode.');
+
+export const dryRunSchema = z
+  .boolean()
+  .default(false)
+  .describe('Only return a summary of what would change, without calling the controller write endpoint.');
+
+/**
+ * Returns a function that sends `notifications/progress` for the current tool call, or a no-op when
+ * the client did not pass a `progressToken`. Values that do not increase are dropped, as the
+ * protocol requires progress to grow with every notification.
+ */
+export function createProgressReporter(extra: ToolExtra): (progress: number, message: string) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return async () => undefined;
+  }
+
+  let last = Number.NEGATIVE_INFINITY;
+  return async (progress, message) => {
+    if (progress <= last) {
+      return;
+    }
+
+    last = progress;
+    try {
+      await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message } });
+    } catch (error) {
+      logger.debug('Failed to send progress notification', { error });
+    }
+  };
+}
+
+export function toAccessDeniedResult(error: AccessPolicyError | AuthorizationError): CallToolResult {
+  const details = error.toJSON();
+
+  return {
+    isError: true,
+    content: [{ type: 'text' as const, text: JSON.stringify(details, null, 2) }],
+    structuredContent: details
+  };
+}
+
+export function safeSerialize(value: unknown) {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return '[unserializable]';
+  }
+}
+
+/**
+ * Wraps a tool handler with logging, auditing, authorization and access-policy error handling.
+ * `category` is the permission a caller's grant needs to see and call the tool.
+ */
+export function wrapToolHandler<Args extends z.ZodRawShape>(
+  name: string,
+  category: ToolCategory,
+  handler: (
+    args: z.objectOutputType<Args, z.ZodTypeAny>,
+    extra: ToolExtra
+  ) => Promise<CallToolResult>
+): (
+  args: z.objectOutputType<Args, z.ZodTypeAny>,
+  extra: ToolExtra
+) => Promise<CallToolResult> {
+  setToolCategory(name, category);
+
+  return async (
+    args: z.objectOutputType<Args, z.ZodTypeAny>,
+    extra: ToolExtra
+  ): Promise<CallToolResult> => {
+    const sessionId = extra.sessionId ?? 'unknown-session';
+    const sanitizedArgs = OmadaClient.sanitizePayload(args);
+    logger.info('Tool invoked', {
+      tool: name,
+      sessionId,
+      args: safeSerialize(sanitizedArgs)
+    });
+
+    const context = { sessionId: extra.sessionId, principal: getAuthPrincipal(extra.authInfo)?.id, tool: name };
+    const startedAt = Date.now();
+    const record = (outcome: AuditEvent['outcome'], error?: string) => {
+      toolInvocations.inc({ tool: name, outcome });
+      toolDuration.observe({ tool: name }, (Date.now() - startedAt) / 1000);
+      return auditTrail.record({
+        type: 'tool',
+        ...context,
+        args: sanitizedArgs,
+        outcome,
+        error,
+        durationMs: Date.now() - startedAt
+      });
+    };
+
+    return auditTrail.runWithContext(context, async () => {
+      try {
+        assertToolAllowed(getAuthorizationGrant(extra.authInfo), name);
+        const result = await handler(args, extra);
+        logger.info('Tool completed', { tool: name, sessionId });
+        await record(result.isError ? 'error' : 'success');
+        return result;
+      } catch (error) {
+        if (error instanceof AccessPolicyError) {
+          logger.warn('Tool blocked by access policy', { tool: name, sessionId, ...error.toJSON() });
+          await record('denied', error.message);
+          return toAccessDeniedResult(error);
+        }
+
+        if (error instanceof AuthorizationError) {
+          logger.warn('Tool blocked by authorization policy', { tool: name, sessionId, ...error.toJSON() });
+          await record('denied', error.message);
+          return toAccessDeniedResult(error);
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('Tool failed', { tool: name, sessionId, error: message });
+        await record('error', message);
+        throw error;
+      }
+    });
+  };
+}
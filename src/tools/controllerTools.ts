@@ -0,0 +1,42 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+
+import { controllerInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const diagnosticsSchema = controllerInputSchema.extend({
+  controller: controllerInputSchema.shape.controller.describe(
+    'Name of the controller to check; all controllers are checked when omitted.'
+  ),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe('Run the checks again instead of returning results from the last 10 seconds.')
+});
+
+export function registerControllerTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listControllers',
+    {
+      description:
+        'List the configured Omada controllers with their reachability, controller version, access mode and token state. Pass a name from this list as the `controller` argument of other tools.',
+      inputSchema: {},
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listControllers', 'read', async () => toToolResult(await registry.describe()))
+  );
+
+  server.registerTool(
+    'omada.diagnostics',
+    {
+      description:
+        'Check controller readiness: reachability and latency, authentication with the configured credentials, token expiry, TLS verification, proxy use and circuit breaker state. Failed checks are listed in `problems`.',
+      inputSchema: diagnosticsSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.diagnostics', 'read', async ({ controller, refresh }) =>
+      toToolResult(await registry.diagnose(controller, refresh))
+    )
+  );
+}
@@ -0,0 +1,179 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+
+import { confirmSchema, deviceIdSchema, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const deviceActionSchema = deviceIdSchema.extend({
+  confirm: confirmSchema
+});
+
+const locateDeviceSchema = deviceActionSchema.extend({
+  enable: z.boolean().default(true).describe('Turn the locate LED on (true) or off (false).')
+});
+
+const adoptCredentialsSchema = z.object({
+  username: z.string().min(1).max(64).describe('Device username used for adoption.'),
+  password: z.string().min(1).max(64).describe('Device password used for adoption.')
+});
+
+const adoptDeviceSchema = deviceActionSchema.merge(adoptCredentialsSchema);
+
+const deviceListSchema = z
+  .array(z.string().min(1))
+  .min(1, 'At least one device (MAC or name) is required');
+
+const batchAdoptSchema = siteInputSchema.merge(adoptCredentialsSchema).extend({
+  deviceIds: deviceListSchema,
+  confirm: confirmSchema
+});
+
+const forgetStatusSchema = siteInputSchema.extend({
+  forgetId: z.string().min(1, 'forgetId is required'),
+  deviceId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Device MAC or name; omit to fetch the status of the whole forget batch.')
+});
+
+const moveDevicesSchema = siteInputSchema.extend({
+  deviceIds: deviceListSchema,
+  targetSiteId: z.string().min(1, 'targetSiteId is required'),
+  stackIds: z.array(z.string().min(1)).optional(),
+  confirm: confirmSchema
+});
+
+const stackActionSchema = siteInputSchema.extend({
+  stackId: z.string().min(1, 'stackId is required'),
+  memberIds: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Stack member MACs or names; omit to target the entire stack.'),
+  confirm: confirmSchema
+});
+
+const locateStackSchema = stackActionSchema.extend({
+  enable: z.boolean().default(true)
+});
+
+export function registerDeviceTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.rebootDevice',
+    {
+      description: 'Reboot an Omada device identified by MAC or name.',
+      inputSchema: deviceActionSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.rebootDevice', 'device-actions', async ({ controller, deviceId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).rebootDevice(deviceId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.locateDevice',
+    {
+      description: 'Toggle the locate LED of an Omada device identified by MAC or name.',
+      inputSchema: locateDeviceSchema.shape
+    },
+    wrapToolHandler('omada.locateDevice', 'device-actions', async ({ controller, deviceId, enable, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).locateDevice(deviceId, enable, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.adoptDevice',
+    {
+      description: 'Start adopting a pending device and report the adopt result.',
+      inputSchema: adoptDeviceSchema.shape
+    },
+    wrapToolHandler('omada.adoptDevice', 'device-actions', async ({ controller, deviceId, username, password, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).adoptDevice(deviceId, { username, password }, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getDeviceAdoptResult',
+    {
+      description: 'Fetch the adopt result of a device.',
+      inputSchema: deviceIdSchema.shape
+    },
+    wrapToolHandler('omada.getDeviceAdoptResult', 'read', async ({ controller, deviceId, siteId }) =>
+      toToolResult(await registry.get(controller).getDeviceAdoptResult(deviceId, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.batchAdoptDevices',
+    {
+      description: 'Adopt several pending devices with shared credentials and report each adopt result.',
+      inputSchema: batchAdoptSchema.shape
+    },
+    wrapToolHandler('omada.batchAdoptDevices', 'device-actions', async ({ controller, deviceIds, username, password, siteId, confirm }) =>
+      toToolResult(
+        await registry.get(controller).batchAdoptDevices(deviceIds, { username, password }, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.forgetDevice',
+    {
+      description: 'Forget (remove) a device from the site. The device is reset to factory defaults when reachable.',
+      inputSchema: deviceActionSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.forgetDevice', 'device-actions', async ({ controller, deviceId, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).forgetDevice(deviceId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getDeviceForgetStatus',
+    {
+      description: 'Poll the progress of a device forget operation.',
+      inputSchema: forgetStatusSchema.shape
+    },
+    wrapToolHandler('omada.getDeviceForgetStatus', 'read', async ({ controller, forgetId, deviceId, siteId }) =>
+      toToolResult(await registry.get(controller).getDeviceForgetStatus(forgetId, deviceId, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.moveDevicesToSite',
+    {
+      description: 'Move devices (and optionally stacks) to another site.',
+      inputSchema: moveDevicesSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.moveDevicesToSite', 'device-actions', async ({ controller, deviceIds, targetSiteId, stackIds, siteId, confirm }) =>
+      toToolResult(
+        await registry.get(controller).moveDevicesToSite(deviceIds, targetSiteId, stackIds, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.rebootStack',
+    {
+      description: 'Reboot a switch stack or selected stack members.',
+      inputSchema: stackActionSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.rebootStack', 'device-actions', async ({ controller, stackId, memberIds, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).rebootStack(stackId, memberIds, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.locateStack',
+    {
+      description: 'Toggle the locate LED on a switch stack or selected stack members.',
+      inputSchema: locateStackSchema.shape
+    },
+    wrapToolHandler('omada.locateStack', 'device-actions', async ({ controller, stackId, enable, memberIds, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).locateStack(stackId, enable, memberIds, siteId, { confirmed: confirm }))
+    )
+  );
+}
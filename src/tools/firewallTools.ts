@@ -0,0 +1,422 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import {
+  ACL_BINDING_TYPES,
+  ACL_ENDPOINT_TYPES,
+  ACL_POLICIES,
+  ACL_PROTOCOLS,
+  ACL_TYPES,
+  type AclRuleSettings,
+  GATEWAY_ACL_MODES,
+  type OneToOneNatSettings,
+  PORT_FORWARD_PROTOCOLS,
+  type PortForwardSettings
+} from '../services/firewallService.js';
+
+import { confirmSchema, dryRunSchema, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const aclTypeSchema = z.enum(ACL_TYPES).describe('ACL kind: gateway, switch or eap.');
+
+const aclEndpointSchema = z.object({
+  type: z.enum(ACL_ENDPOINT_TYPES),
+  ids: z.array(z.string().min(1)).describe('LAN network, group or SSID IDs, depending on the type.')
+});
+
+const wanPortIdsSchema = z
+  .array(z.string().min(1))
+  .min(1)
+  .describe('WAN port IDs, as shown on existing rules or in the internet settings.');
+
+const aclSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  protocols: z
+    .array(z.union([z.enum(ACL_PROTOCOLS), z.number().int().min(0).max(256)]))
+    .min(1)
+    .optional()
+    .describe('Protocol names or IP protocol numbers; defaults to all.'),
+  direction: z
+    .object({
+      lanToWan: z.boolean().optional(),
+      lanToLan: z.boolean().optional().describe('Cannot be combined with other directions.'),
+      wanInIds: z.array(z.string().min(1)).optional().describe('WAN port IDs for inbound rules.'),
+      vpnInIds: z.array(z.string().min(1)).optional().describe('VPN IDs for inbound rules.')
+    })
+    .optional()
+    .describe('Gateway ACLs only: traffic directions the rule matches.'),
+  syslog: z.boolean().optional().describe('Gateway ACLs only: log matches to the remote syslog server.'),
+  timeRangeId: z.string().min(1).optional().describe('Gateway and switch ACLs: time range profile ID.'),
+  binding: z
+    .object({
+      type: z.enum(ACL_BINDING_TYPES),
+      ports: z
+        .array(
+          z.object({
+            mac: z.string().min(1),
+            portIds: z.array(z.number().int().min(1)).optional(),
+            lagIds: z.array(z.number().int().min(1)).optional()
+          })
+        )
+        .optional()
+        .describe('Switch ports for custom-ports bindings.'),
+      networkId: z.string().min(1).optional().describe('LAN network ID for vlan bindings.')
+    })
+    .optional()
+    .describe('Switch ACLs only: where the rule applies; defaults to all ports.')
+});
+
+const createAclSchema = siteInputSchema.merge(aclSettingsSchema).extend({
+  type: aclTypeSchema,
+  description: z.string().min(1).max(512),
+  policy: z.enum(ACL_POLICIES),
+  source: aclEndpointSchema,
+  destination: aclEndpointSchema,
+  biDirectional: z.boolean().optional().describe('Switch ACLs only: also match the reverse direction.'),
+  dryRun: dryRunSchema,
+  confirm: confirmSchema
+});
+
+const aclLookupSchema = siteInputSchema.extend({
+  type: aclTypeSchema,
+  acl: z.string().min(1, 'acl (ID or description) is required').describe('ACL rule ID or description.')
+});
+
+const updateAclSchema = aclLookupSchema.merge(aclSettingsSchema).extend({
+  description: z.string().min(1).max(512).optional().describe('New description.'),
+  policy: z.enum(ACL_POLICIES).optional(),
+  source: aclEndpointSchema.optional(),
+  destination: aclEndpointSchema.optional(),
+  dryRun: dryRunSchema,
+  confirm: confirmSchema
+});
+
+const portForwardSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  allowedSources: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Source addresses or subnets allowed to connect; an empty list allows any source.'),
+  wanPortIds: wanPortIdsSchema.optional(),
+  externalPort: z.string().min(1).optional().describe('Port or range on the WAN side, e.g. 443 or 8000-8080.'),
+  forwardIp: z.string().min(7).optional().describe('LAN address traffic is forwarded to.'),
+  forwardPort: z.string().min(1).optional().describe('Port or range on the LAN side; defaults to externalPort.'),
+  protocol: z.enum(PORT_FORWARD_PROTOCOLS).optional().describe('Defaults to all (TCP and UDP).'),
+  dmz: z.boolean().optional().describe('Forward all ports to forwardIp.')
+});
+
+const portForwardLookupSchema = siteInputSchema.extend({
+  rule: z.string().min(1, 'rule (ID or name) is required').describe('Port forwarding rule ID or name.')
+});
+
+const oneToOneNatSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  wanPortIds: wanPortIdsSchema.optional(),
+  internalIp: z.string().min(7).optional(),
+  externalIp: z.string().min(7).optional(),
+  dmz: z.boolean().optional(),
+  description: z.string().min(1).max(64).optional()
+});
+
+const oneToOneNatLookupSchema = siteInputSchema.extend({
+  rule: z.string().min(1, 'rule (ID or name) is required').describe('One-to-one NAT rule ID or name.')
+});
+
+const writeOptionsSchema = z.object({ dryRun: dryRunSchema, confirm: confirmSchema });
+
+function aclSettings(settings: z.infer<typeof aclSettingsSchema>): AclRuleSettings {
+  const { enabled, protocols, direction, syslog, timeRangeId, binding } = settings;
+  return { enabled, protocols, direction, syslog, timeRangeId, binding };
+}
+
+function portForwardSettings(settings: z.infer<typeof portForwardSettingsSchema>): PortForwardSettings {
+  const { enabled, allowedSources, wanPortIds, externalPort, forwardIp, forwardPort, protocol, dmz } = settings;
+  return { enabled, allowedSources, wanPortIds, externalPort, forwardIp, forwardPort, protocol, dmz };
+}
+
+function oneToOneNatSettings(settings: z.infer<typeof oneToOneNatSettingsSchema>): OneToOneNatSettings {
+  const { enabled, wanPortIds, internalIp, externalIp, dmz, description } = settings;
+  return { enabled, wanPortIds, internalIp, externalIp, dmz, description };
+}
+
+export function registerFirewallTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listAcls',
+    {
+      description:
+        'List the gateway, switch or EAP ACL rules of a site in evaluation order, each with a one-line summary such as `deny ALL network IoT -> network LAN [LAN->LAN] "Isolate IoT"`.',
+      inputSchema: siteInputSchema.extend({ type: aclTypeSchema }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listAcls', 'read', async ({ controller, siteId, type }) =>
+      toToolResult(await registry.get(controller).listAcls(type, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getGatewayAclMode',
+    {
+      description: 'Show whether gateway ACLs are managed through profiles or as custom rules.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getGatewayAclMode', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).getGatewayAclMode(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.setGatewayAclMode',
+    {
+      description: 'Switch gateway ACLs between profile-managed and custom rules.',
+      inputSchema: siteInputSchema.merge(writeOptionsSchema).extend({ mode: z.enum(GATEWAY_ACL_MODES) }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setGatewayAclMode', 'config-writes', async ({ controller, siteId, mode, dryRun, confirm }) =>
+      toToolResult(await registry.get(controller).setGatewayAclMode(mode, siteId, dryRun, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.createAcl',
+    {
+      description:
+        'Add an ACL rule at the end of the gateway, switch or EAP rule list. Returns a diff of the rule list before and after; run with dryRun: true first to review it.',
+      inputSchema: createAclSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.createAcl',
+      'config-writes',
+      async ({ controller, siteId, type, description, policy, source, destination, biDirectional, dryRun, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .createAcl(
+              type,
+              { ...aclSettings(settings), description, policy, source, destination, biDirectional },
+              siteId,
+              dryRun,
+              { confirmed: confirm }
+            )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateAcl',
+    {
+      description:
+        'Change settings of an ACL rule; settings that are not passed keep their current values. Returns a diff of the rule list before and after.',
+      inputSchema: updateAclSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.updateAcl',
+      'config-writes',
+      async ({ controller, siteId, type, acl, description, policy, source, destination, dryRun, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .updateAcl(
+              type,
+              acl,
+              { ...aclSettings(settings), description, policy, source, destination },
+              siteId,
+              dryRun,
+              { confirmed: confirm }
+            )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteAcl',
+    {
+      description: 'Delete an ACL rule. Returns a diff of the rule list before and after.',
+      inputSchema: aclLookupSchema.merge(writeOptionsSchema).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteAcl', 'config-writes', async ({ controller, siteId, type, acl, dryRun, confirm }) =>
+      toToolResult(await registry.get(controller).deleteAcl(type, acl, siteId, dryRun, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.listPortForwards',
+    {
+      description:
+        'List port forwarding rules with a one-line summary and their packet and byte counters. Set includeUpnp to also list mappings opened through UPnP.',
+      inputSchema: siteInputSchema.extend({ includeUpnp: z.boolean().default(false) }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listPortForwards', 'read', async ({ controller, siteId, includeUpnp }) =>
+      toToolResult(await registry.get(controller).listPortForwards(includeUpnp, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createPortForward',
+    {
+      description:
+        'Forward a WAN port or range to a LAN address, or all ports with dmz. Rules overlapping an enabled rule on the same WAN port are rejected. Returns a diff of the rule list before and after.',
+      inputSchema: siteInputSchema
+        .merge(portForwardSettingsSchema)
+        .merge(writeOptionsSchema)
+        .extend({ name: z.string().min(1).max(64), forwardIp: z.string().min(7), wanPortIds: wanPortIdsSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.createPortForward', 'config-writes', async ({ controller, siteId, name, dryRun, confirm, ...settings }) =>
+      toToolResult(
+        await registry
+          .get(controller)
+          .createPortForward({ ...portForwardSettings(settings), name }, siteId, dryRun, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.updatePortForward',
+    {
+      description:
+        'Change settings of a port forwarding rule; settings that are not passed keep their current values. Returns a diff of the rule list before and after.',
+      inputSchema: portForwardLookupSchema
+        .merge(portForwardSettingsSchema)
+        .merge(writeOptionsSchema)
+        .extend({ name: z.string().min(1).max(64).optional().describe('New rule name.') }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.updatePortForward',
+      'config-writes',
+      async ({ controller, siteId, rule, name, dryRun, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .updatePortForward(rule, { ...portForwardSettings(settings), name }, siteId, dryRun, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deletePortForward',
+    {
+      description: 'Delete a port forwarding rule. Returns a diff of the rule list before and after.',
+      inputSchema: portForwardLookupSchema.merge(writeOptionsSchema).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deletePortForward', 'config-writes', async ({ controller, siteId, rule, dryRun, confirm }) =>
+      toToolResult(await registry.get(controller).deletePortForward(rule, siteId, dryRun, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.listOneToOneNats',
+    {
+      description: 'List the one-to-one NAT rules of a site, each with a one-line summary.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listOneToOneNats', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listOneToOneNats(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createOneToOneNat',
+    {
+      description:
+        'Map a public address to a LAN address with one-to-one NAT. Returns a diff of the rule list before and after.',
+      inputSchema: siteInputSchema
+        .merge(oneToOneNatSettingsSchema)
+        .merge(writeOptionsSchema)
+        .extend({
+          name: z.string().min(1).max(64),
+          internalIp: z.string().min(7),
+          externalIp: z.string().min(7),
+          wanPortIds: wanPortIdsSchema
+        }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.createOneToOneNat', 'config-writes', async ({ controller, siteId, name, dryRun, confirm, ...settings }) =>
+      toToolResult(
+        await registry
+          .get(controller)
+          .createOneToOneNat({ ...oneToOneNatSettings(settings), name }, siteId, dryRun, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateOneToOneNat',
+    {
+      description:
+        'Change settings of a one-to-one NAT rule; settings that are not passed keep their current values. Returns a diff of the rule list before and after.',
+      inputSchema: oneToOneNatLookupSchema
+        .merge(oneToOneNatSettingsSchema)
+        .merge(writeOptionsSchema)
+        .extend({ name: z.string().min(1).max(64).optional().describe('New rule name.') }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.updateOneToOneNat',
+      'config-writes',
+      async ({ controller, siteId, rule, name, dryRun, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .updateOneToOneNat(rule, { ...oneToOneNatSettings(settings), name }, siteId, dryRun, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteOneToOneNat',
+    {
+      description: 'Delete a one-to-one NAT rule. Returns a diff of the rule list before and after.',
+      inputSchema: oneToOneNatLookupSchema.merge(writeOptionsSchema).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteOneToOneNat', 'config-writes', async ({ controller, siteId, rule, dryRun, confirm }) =>
+      toToolResult(await registry.get(controller).deleteOneToOneNat(rule, siteId, dryRun, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getNatAlg',
+    {
+      description: 'Show which NAT application layer gateways (FTP, H.323, PPTP, SIP, IPsec) are enabled.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getNatAlg', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).getNatAlg(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.setNatAlg',
+    {
+      description:
+        'Turn NAT application layer gateways on or off; ALGs that are not passed keep their state. Returns a diff before and after.',
+      inputSchema: siteInputSchema.merge(writeOptionsSchema).extend({
+        ftp: z.boolean().optional(),
+        h323: z.boolean().optional(),
+        pptp: z.boolean().optional(),
+        sip: z.boolean().optional(),
+        ipSec: z.boolean().optional()
+      }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.setNatAlg',
+      'config-writes',
+      async ({ controller, siteId, ftp, h323, pptp, sip, ipSec, dryRun, confirm }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .setNatAlg({ ftp, h323, pptp, sip, ipSec }, siteId, dryRun, { confirmed: confirm })
+        )
+    )
+  );
+}
@@ -0,0 +1,238 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import { FIRMWARE_CHANNELS, SCHEDULE_FREQUENCIES } from '../services/firmwareService.js';
+
+import {
+  confirmSchema,
+  controllerInputSchema,
+  dryRunSchema,
+  siteInputSchema,
+  timeInputSchema,
+  toToolResult,
+  wrapToolHandler
+} from './common.js';
+
+const siteListSchema = z.array(z.string().min(1)).describe('Site IDs or names.');
+
+const firmwareStatusSchema = controllerInputSchema.extend({
+  sites: siteListSchema.optional().describe('Site IDs or names; defaults to every accessible site.'),
+  includeCurrent: z.boolean().default(false).describe('Also list devices that already run the latest firmware.'),
+  channel: z.enum(FIRMWARE_CHANNELS).default('stable').describe('Firmware channel used for the latest versions.')
+});
+
+const releaseNotesSchema = controllerInputSchema.extend({
+  firmware: z
+    .string()
+    .min(1)
+    .describe('Firmware pool ID (`firmwareId` from omada.getFirmwareStatus) or a model such as "EAP225(EU) v3.0".'),
+  channel: z.enum(FIRMWARE_CHANNELS).default('stable')
+});
+
+const startAtSchema = timeInputSchema
+  .optional()
+  .describe('Start of the rollout as an ISO 8601 timestamp or epoch seconds or milliseconds; omit to upgrade immediately.');
+
+const createPlanSchema = controllerInputSchema.extend({
+  sites: siteListSchema.min(1, 'At least one site is required'),
+  models: z
+    .array(
+      z.object({
+        model: z.string().min(1).describe('Model as shown by omada.getFirmwareStatus, e.g. "EAP225(EU) v3.0".'),
+        targetVersion: z
+          .string()
+          .min(1)
+          .optional()
+          .describe('Defaults to the latest stable firmware in the controller firmware pool.')
+      })
+    )
+    .min(1, 'At least one model is required'),
+  startAt: startAtSchema,
+  dryRun: dryRunSchema,
+  confirm: confirmSchema
+});
+
+const planIdSchema = controllerInputSchema.extend({
+  planId: z.string().min(1, 'planId is required')
+});
+
+const updatePlanSchema = planIdSchema.extend({
+  sites: siteListSchema.min(1, 'At least one site is required'),
+  startAt: startAtSchema,
+  dryRun: dryRunSchema,
+  confirm: confirmSchema
+});
+
+const scheduleSchema = siteInputSchema.extend({
+  name: z.string().min(1).max(128),
+  enabled: z.boolean().default(true),
+  deviceIds: z.array(z.string().min(1)).min(1, 'At least one device (MAC or name) is required'),
+  runAt: timeInputSchema
+    .optional()
+    .describe('One-off execution time as an ISO 8601 timestamp or epoch seconds or milliseconds. Use either runAt or repeat.'),
+  repeat: z
+    .object({
+      frequency: z.enum(SCHEDULE_FREQUENCIES),
+      dayOfWeek: z.number().int().min(0).max(6).optional().describe('0 (Sunday) to 6 (Saturday); weekly only.'),
+      dayOfMonth: z.number().int().min(1).max(31).optional().describe('Monthly only.'),
+      hour: z.number().int().min(0).max(23),
+      minute: z.number().int().min(0).max(59)
+    })
+    .optional()
+    .describe('Recurrence in controller time. Use either runAt or repeat.'),
+  dryRun: dryRunSchema,
+  confirm: confirmSchema
+});
+
+const scheduleIdSchema = siteInputSchema.extend({
+  scheduleId: z.string().min(1, 'scheduleId is required')
+});
+
+const updateScheduleSchema = scheduleSchema.extend({
+  scheduleId: z.string().min(1, 'scheduleId is required')
+});
+
+export function registerFirmwareTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.getFirmwareStatus',
+    {
+      description:
+        'List devices across sites that have firmware upgrades available, with their current and latest firmware, grouped by model. Start here before planning an upgrade.',
+      inputSchema: firmwareStatusSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getFirmwareStatus', 'read', async ({ controller, sites, includeCurrent, channel }) =>
+      toToolResult(await registry.get(controller).getFirmwareStatus({ sites, includeCurrent, channel }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getFirmwareReleaseNotes',
+    {
+      description: 'Fetch the release notes of the latest firmware for a model.',
+      inputSchema: releaseNotesSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getFirmwareReleaseNotes', 'read', async ({ controller, firmware, channel }) =>
+      toToolResult(await registry.get(controller).getFirmwareReleaseNotes(firmware, channel))
+    )
+  );
+
+  server.registerTool(
+    'omada.listFirmwareUpgradePlans',
+    {
+      description: 'List the controller firmware upgrade plans with their models, sites, versions and start times.',
+      inputSchema: controllerInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listFirmwareUpgradePlans', 'read', async ({ controller }) =>
+      toToolResult(await registry.get(controller).listUpgradePlans())
+    )
+  );
+
+  server.registerTool(
+    'omada.createFirmwareUpgradePlan',
+    {
+      description:
+        'Plan a firmware upgrade of the given models in the given sites, now or at startAt. Run with dryRun: true first to review the affected devices, sites and time window.',
+      inputSchema: createPlanSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.createFirmwareUpgradePlan', 'device-actions', async ({ controller, sites, models, startAt, dryRun, confirm }) =>
+      toToolResult(
+        await registry.get(controller).createUpgradePlan({ sites, models, startAt }, dryRun, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateFirmwareUpgradePlan',
+    {
+      description:
+        'Change the sites and start time of a firmware upgrade plan. Run with dryRun: true first to review the affected devices.',
+      inputSchema: updatePlanSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.updateFirmwareUpgradePlan', 'device-actions', async ({ controller, planId, sites, startAt, dryRun, confirm }) =>
+      toToolResult(
+        await registry.get(controller).updateUpgradePlan(planId, { sites, startAt }, dryRun, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteFirmwareUpgradePlan',
+    {
+      description: 'Delete a firmware upgrade plan that has not run yet.',
+      inputSchema: planIdSchema.extend({ confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteFirmwareUpgradePlan', 'device-actions', async ({ controller, planId, confirm }) =>
+      toToolResult(await registry.get(controller).deleteUpgradePlan(planId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.listUpgradeSchedules',
+    {
+      description: 'List the firmware upgrade schedules of a site.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listUpgradeSchedules', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listUpgradeSchedules(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createUpgradeSchedule',
+    {
+      description:
+        'Create a one-off or recurring firmware upgrade schedule for devices of a site. Run with dryRun: true first to review the devices and time window.',
+      inputSchema: scheduleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.createUpgradeSchedule', 'device-actions', async ({ controller, siteId, name, enabled, deviceIds, runAt, repeat, dryRun, confirm }) =>
+      toToolResult(
+        await registry
+          .get(controller)
+          .createUpgradeSchedule({ name, enabled, devices: deviceIds, runAt, repeat }, siteId, dryRun, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateUpgradeSchedule',
+    {
+      description: 'Replace a firmware upgrade schedule of a site. Run with dryRun: true first to review the change.',
+      inputSchema: updateScheduleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.updateUpgradeSchedule', 'device-actions', async ({ controller, siteId, scheduleId, name, enabled, deviceIds, runAt, repeat, dryRun, confirm }) =>
+      toToolResult(
+        await registry
+          .get(controller)
+          .updateUpgradeSchedule(
+            scheduleId,
+            { name, enabled, devices: deviceIds, runAt, repeat },
+            siteId,
+            dryRun,
+            { confirmed: confirm }
+          )
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteUpgradeSchedule',
+    {
+      description: 'Delete a firmware upgrade schedule of a site.',
+      inputSchema: scheduleIdSchema.extend({ confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteUpgradeSchedule', 'device-actions', async ({ controller, siteId, scheduleId, confirm }) =>
+      toToolResult(await registry.get(controller).deleteUpgradeSchedule(scheduleId, siteId, { confirmed: confirm }))
+    )
+  );
+}
@@ -0,0 +1,212 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import {
+  TRAFFIC_LIMIT_FREQUENCIES,
+  VOUCHER_CODE_CHARACTERS,
+  VOUCHER_DURATION_TYPES,
+  VOUCHER_FORMATS,
+  VOUCHER_LIMIT_TYPES,
+  VOUCHER_TIMING_TYPES
+} from '../services/hotspotService.js';
+
+import { confirmSchema, siteInputSchema, timeInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const createVoucherGroupSchema = siteInputSchema.extend({
+  name: z.string().min(1).max(32),
+  count: z.number().int().min(1).max(5000).describe('Number of vouchers to create.'),
+  durationMinutes: z.number().int().min(1).max(14_400_000),
+  durationType: z
+    .enum(VOUCHER_DURATION_TYPES)
+    .optional()
+    .describe('client: each client gets the full duration; voucher: all clients share it. Defaults to client.'),
+  timing: z
+    .enum(VOUCHER_TIMING_TYPES)
+    .optional()
+    .describe('time: the duration runs from first use; usage: only online time counts. Defaults to time.'),
+  limit: z
+    .object({
+      type: z.enum(VOUCHER_LIMIT_TYPES),
+      count: z.number().int().min(1).max(999).optional().describe('Uses, or concurrent users, per voucher.')
+    })
+    .optional()
+    .describe('Defaults to a single use per voucher.'),
+  codeLength: z.number().int().min(6).max(10).optional().describe('Defaults to 8.'),
+  codeCharacters: z.enum(VOUCHER_CODE_CHARACTERS).optional().describe('Defaults to numbers.'),
+  rateLimit: z
+    .object({
+      profileId: z.string().min(1).optional().describe('Rate limit profile ID; overrides the custom limits.'),
+      downloadKbps: z.number().int().min(0).max(10_485_760).optional(),
+      uploadKbps: z.number().int().min(0).max(10_485_760).optional()
+    })
+    .optional()
+    .describe('Per-client rate limit; omitted directions are unlimited.'),
+  trafficLimit: z
+    .object({
+      megabytes: z.number().int().min(1).max(10_485_760),
+      frequency: z.enum(TRAFFIC_LIMIT_FREQUENCIES).optional().describe('Defaults to total.')
+    })
+    .optional(),
+  unitPrice: z.number().int().min(1).max(999_999_999).optional().describe('Price of one voucher; needs currency.'),
+  currency: z.string().length(3).optional().describe('Currency code such as USD or EUR.'),
+  portals: z.array(z.string().min(1)).min(1).optional().describe('Portal IDs; defaults to all portals.'),
+  validity: z
+    .object({
+      since: timeInputSchema.optional().describe('When the vouchers become usable; defaults to now.'),
+      until: timeInputSchema.describe('When unused and running vouchers expire.')
+    })
+    .optional()
+    .describe('Limit when the vouchers can be used; by default they never expire.'),
+  allowLogout: z.boolean().optional().describe('Let clients log out from the portal to save remaining time.'),
+  description: z.string().min(1).max(128).optional(),
+  printComments: z.string().min(1).max(128).optional().describe('Text printed on each voucher.'),
+  confirm: confirmSchema
+});
+
+const hotspotClientSchema = siteInputSchema.extend({
+  clientId: z.string().min(1, 'clientId (MAC or name) is required').describe('Client MAC, hostname or name.'),
+  confirm: confirmSchema
+});
+
+export function registerHotspotTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listVoucherGroups',
+    {
+      description:
+        'List the hotspot voucher groups of a site, newest first, with duration, limit, price and how many vouchers are unused, in use, used or expired.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listVoucherGroups', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listVoucherGroups(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createVoucherGroup',
+    {
+      description:
+        'Create a group of hotspot vouchers with a duration, usage limit, rate and traffic limits, and price. Fetch the codes afterwards with omada.getUnusedVouchers.',
+      inputSchema: createVoucherGroupSchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler(
+      'omada.createVoucherGroup',
+      'config-writes',
+      async ({ controller, siteId, confirm, name, count, durationMinutes, ...settings }) =>
+        toToolResult(
+          await registry.get(controller).createVoucherGroup(
+            {
+              name,
+              count,
+              durationMinutes,
+              durationType: settings.durationType,
+              timing: settings.timing,
+              limit: settings.limit,
+              codeLength: settings.codeLength,
+              codeCharacters: settings.codeCharacters,
+              rateLimit: settings.rateLimit,
+              trafficLimit: settings.trafficLimit,
+              unitPrice: settings.unitPrice,
+              currency: settings.currency,
+              portals: settings.portals,
+              validity: settings.validity,
+              allowLogout: settings.allowLogout,
+              description: settings.description,
+              printComments: settings.printComments
+            },
+            siteId,
+            { confirmed: confirm }
+          )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.getUnusedVouchers',
+    {
+      description:
+        'Fetch the unused voucher codes of some or all voucher groups for printing, as a plain-text table (default), CSV text or JSON.',
+      inputSchema: siteInputSchema.extend({
+        groups: z.array(z.string().min(1)).min(1).optional().describe('Voucher group IDs or names; defaults to all groups.'),
+        format: z.enum(VOUCHER_FORMATS).default('table')
+      }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getUnusedVouchers', 'read', async ({ controller, siteId, groups, format }) =>
+      toToolResult(await registry.get(controller).getUnusedVouchers(groups, format, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getVoucherStatistics',
+    {
+      description:
+        'Show voucher counts, durations and revenue: current, unused and all created vouchers. Set history to add usage over a time range.',
+      inputSchema: siteInputSchema.extend({
+        history: z.boolean().default(false),
+        since: timeInputSchema.optional().describe('Start of the history range; defaults to 30 days before `until`.'),
+        until: timeInputSchema.optional().describe('End of the history range; defaults to now.')
+      }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getVoucherStatistics', 'read', async ({ controller, siteId, history, since, until }) =>
+      toToolResult(await registry.get(controller).getVoucherStatistics({ history, since, until }, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listHotspotAuthRecords',
+    {
+      description:
+        'List hotspot portal authentications, newest first, with client, SSID or network, authentication type, voucher code and whether they are still valid.',
+      inputSchema: siteInputSchema.extend({
+        searchKey: z.string().min(1).optional().describe('Match client MAC or name, voucher code or user name.')
+      }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listHotspotAuthRecords', 'read', async ({ controller, siteId, searchKey }) =>
+      toToolResult(await registry.get(controller).listHotspotAuthRecords(searchKey, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.authorizeHotspotClient',
+    {
+      description: 'Let a client through the hotspot portal without authenticating.',
+      inputSchema: hotspotClientSchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler('omada.authorizeHotspotClient', 'client-actions', async ({ controller, siteId, clientId, confirm }) =>
+      toToolResult(await registry.get(controller).authorizeHotspotClient(clientId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.unauthorizeHotspotClient',
+    {
+      description: "Revoke a client's hotspot portal authentication so it has to authenticate again.",
+      inputSchema: hotspotClientSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.unauthorizeHotspotClient', 'client-actions', async ({ controller, siteId, clientId, confirm }) =>
+      toToolResult(await registry.get(controller).unauthorizeHotspotClient(clientId, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.disconnectHotspotClient',
+    {
+      description: 'Disconnect a hotspot client, identified by client MAC or authentication record ID.',
+      inputSchema: siteInputSchema.extend({
+        client: z.string().min(1).describe('Client MAC or authentication record ID.'),
+        confirm: confirmSchema
+      }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.disconnectHotspotClient', 'client-actions', async ({ controller, siteId, client, confirm }) =>
+      toToolResult(await registry.get(controller).disconnectHotspotClient(client, siteId, { confirmed: confirm }))
+    )
+  );
+}
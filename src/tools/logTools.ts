@@ -0,0 +1,113 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import {
+  DEFAULT_LOG_PAGE_SIZE,
+  LOG_LEVELS,
+  LOG_MODULES,
+  LOG_SCOPES,
+  MAX_LOG_PAGE_SIZE
+} from '../services/logService.js';
+
+import { confirmSchema, siteInputSchema, timeInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const timeRangeSchema = siteInputSchema.extend({
+  since: timeInputSchema.optional().describe('Start of the time range; defaults to 24 hours before `until`.'),
+  until: timeInputSchema.optional().describe('End of the time range; defaults to now.')
+});
+
+const logQuerySchema = timeRangeSchema.extend({
+  scope: z
+    .enum(LOG_SCOPES)
+    .default('site')
+    .describe('Query the logs of one site (default) or the global controller view.'),
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(MAX_LOG_PAGE_SIZE).default(DEFAULT_LOG_PAGE_SIZE)
+});
+
+const eventLogSchema = logQuerySchema.extend({
+  module: z.enum(LOG_MODULES).optional().describe('Client is only available for site logs.')
+});
+
+const alertLogSchema = eventLogSchema.extend({
+  resolved: z.boolean().optional(),
+  severity: z
+    .enum(LOG_LEVELS)
+    .optional()
+    .describe('Alert level. The controller cannot filter on it, so up to 10000 alerts of the range are scanned.')
+});
+
+const auditLogSchema = logQuerySchema.extend({
+  since: timeInputSchema.optional().describe('Start of the time range; audit logs are not limited by time when omitted.'),
+  severity: z.enum(LOG_LEVELS).optional(),
+  success: z.boolean().optional().describe('Only successful (true) or failed (false) operations.'),
+  auditTypes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Audit log types, e.g. ["Log", "Client"] (see the Open API Access Guide).'),
+  search: z.string().min(1).optional().describe('Fuzzy search over the log content.'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc')
+});
+
+const resolveAlertsSchema = timeRangeSchema.extend({
+  alertIds: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Alert log IDs from omada.listAlertLogs. Omit together with `module` to resolve all alerts in the range.'),
+  module: z.enum(['System', 'Device']).optional(),
+  confirm: confirmSchema
+});
+
+export function registerLogTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listEventLogs',
+    {
+      description:
+        'List event logs for a site or the whole controller within a time range (default: last 24 hours), optionally filtered by module. Timestamps are returned as ISO strings.',
+      inputSchema: eventLogSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listEventLogs', 'read', async ({ controller, siteId, ...query }) =>
+      toToolResult(await registry.get(controller).listEventLogs(query, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listAlertLogs',
+    {
+      description:
+        'List alert logs for a site or the whole controller within a time range (default: last 24 hours), filtered by module, resolved state or severity. Timestamps are returned as ISO strings.',
+      inputSchema: alertLogSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listAlertLogs', 'read', async ({ controller, siteId, severity, ...query }) =>
+      toToolResult(await registry.get(controller).listAlertLogs({ ...query, level: severity }, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listAuditLogs',
+    {
+      description:
+        'List audit logs (who changed what) for a site or the whole controller, newest first, with optional time range, severity, result, type and text filters.',
+      inputSchema: auditLogSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listAuditLogs', 'read', async ({ controller, siteId, severity, ...query }) =>
+      toToolResult(await registry.get(controller).listAuditLogs({ ...query, level: severity }, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.resolveAlerts',
+    {
+      description:
+        'Mark site alerts as resolved, either by alert ID or all alerts of a module within a time range (default: last 24 hours).',
+      inputSchema: resolveAlertsSchema.shape
+    },
+    wrapToolHandler('omada.resolveAlerts', 'config-writes', async ({ controller, siteId, confirm, ...request }) =>
+      toToolResult(await registry.get(controller).resolveAlerts(request, siteId, { confirmed: confirm }))
+    )
+  );
+}
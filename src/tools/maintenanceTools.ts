@@ -0,0 +1,247 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import {
+  type BackupLocation,
+  DEFAULT_MAINTENANCE_TIMEOUT_MS,
+  FILE_SERVER_PROTOCOLS,
+  type FileServerConfig,
+  type MaintenanceWaitOptions
+} from '../services/maintenanceService.js';
+
+import {
+  confirmSchema,
+  controllerInputSchema,
+  createProgressReporter,
+  type ToolExtra,
+  toToolResult,
+  wrapToolHandler
+} from './common.js';
+
+const fileServerSchema = z.object({
+  protocol: z.enum(FILE_SERVER_PROTOCOLS),
+  hostname: z.string().min(1).max(128),
+  port: z.number().int().min(1).max(65_535),
+  username: z.string().min(1).max(128).optional(),
+  password: z.string().min(1).max(128).optional()
+});
+
+const locationSchema = controllerInputSchema.extend({
+  location: z
+    .enum(['self-server', 'file-server'])
+    .default('self-server')
+    .describe('Store backups on the controller itself (self-server) or on a file server.'),
+  fileServer: fileServerSchema.optional().describe('File server settings; required when location is file-server.')
+});
+
+const waitSchema = z.object({
+  wait: z
+    .boolean()
+    .default(true)
+    .describe('Poll until the task finishes, sending progress notifications; false returns right after starting it.'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(10)
+    .max(3600)
+    .default(DEFAULT_MAINTENANCE_TIMEOUT_MS / 1000)
+    .describe('Stop waiting after this many seconds; the task keeps running on the controller.')
+});
+
+const backupControllerSchema = locationSchema.merge(waitSchema).extend({
+  filePath: z.string().min(1).max(128).optional().describe('Directory on the file server, e.g. /backup.'),
+  retainUser: z.boolean().default(true).describe('Include user accounts in the backup.'),
+  confirm: confirmSchema
+});
+
+const backupSitesSchema = locationSchema.merge(waitSchema).extend({
+  siteIds: z.array(z.string().min(1)).min(1).max(300),
+  filePath: z.string().min(1).max(128).optional().describe('Directory on the file server, e.g. /backup.'),
+  confirm: confirmSchema
+});
+
+const backupScopeSchema = controllerInputSchema.extend({
+  siteId: z.string().min(1).optional().describe('Site ID; omit for controller backups.')
+});
+
+const restoreConfirmSchema = z
+  .boolean()
+  .describe('Must be true. A restore overwrites the current configuration and cannot be undone.');
+
+const restoreControllerSchema = locationSchema.merge(waitSchema).extend({
+  file: z
+    .string()
+    .min(1)
+    .max(128)
+    .describe('Backup file name from omada.listBackupFiles, or the full file path on the file server.'),
+  skipDevice: z.boolean().default(false).describe('Do not import devices from a file-server backup.'),
+  confirm: restoreConfirmSchema
+});
+
+const restoreSitesSchema = locationSchema.extend({
+  sites: z
+    .array(
+      z.object({
+        siteId: z.string().min(1),
+        file: z
+          .string()
+          .min(1)
+          .max(128)
+          .describe('Site backup file name from omada.listBackupFiles, or the full file path on the file server.')
+      })
+    )
+    .min(1),
+  confirm: restoreConfirmSchema
+});
+
+function toBackupLocation(
+  location: 'self-server' | 'file-server',
+  fileServer: FileServerConfig | undefined,
+  filePath?: string
+): BackupLocation {
+  if (location === 'self-server') {
+    return { type: 'self-server' };
+  }
+  if (!fileServer) {
+    throw new Error('fileServer is required when location is file-server.');
+  }
+  return { type: 'file-server', server: fileServer, filePath };
+}
+
+function toWaitOptions(wait: boolean, timeoutSeconds: number, extra: ToolExtra): MaintenanceWaitOptions {
+  const report = createProgressReporter(extra);
+  return {
+    wait,
+    timeoutMs: timeoutSeconds * 1000,
+    onProgress: ({ elapsedSeconds, message }) => report(elapsedSeconds, message)
+  };
+}
+
+export function registerMaintenanceTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.backupController',
+    {
+      description:
+        'Back up the controller configuration and wait for the backup to finish, reporting progress. Take a backup before making configuration changes.',
+      inputSchema: backupControllerSchema.shape
+    },
+    wrapToolHandler(
+      'omada.backupController',
+      'config-writes',
+      async ({ controller, location, fileServer, filePath, retainUser, wait, timeoutSeconds, confirm }, extra) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .backupController(
+              toBackupLocation(location, fileServer, filePath),
+              retainUser,
+              toWaitOptions(wait, timeoutSeconds, extra),
+              { confirmed: confirm }
+            )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.backupSites',
+    {
+      description: 'Back up the configuration of up to 300 sites and wait for every site backup to finish, reporting progress.',
+      inputSchema: backupSitesSchema.shape
+    },
+    wrapToolHandler(
+      'omada.backupSites',
+      'config-writes',
+      async ({ controller, siteIds, location, fileServer, filePath, wait, timeoutSeconds, confirm }, extra) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .backupSites(
+              siteIds,
+              toBackupLocation(location, fileServer, filePath),
+              toWaitOptions(wait, timeoutSeconds, extra),
+              { confirmed: confirm }
+            )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.getBackupStatus',
+    {
+      description: 'Report whether a controller or site backup is running.',
+      inputSchema: backupScopeSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getBackupStatus', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).getBackupStatus(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listBackupFiles',
+    {
+      description: 'List the controller or site backup files stored on the controller, newest first.',
+      inputSchema: backupScopeSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listBackupFiles', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listBackupFiles(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.restoreController',
+    {
+      description:
+        'Restore the whole controller configuration from a backup and wait for the restore to finish. Overwrites the current configuration; requires confirm: true.',
+      inputSchema: restoreControllerSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.restoreController',
+      'config-writes',
+      async ({ controller, location, fileServer, file, skipDevice, wait, timeoutSeconds, confirm }, extra) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .restoreController(
+              toBackupLocation(location, fileServer),
+              file,
+              skipDevice,
+              toWaitOptions(wait, timeoutSeconds, extra),
+              { confirmed: confirm }
+            )
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.restoreSites',
+    {
+      description:
+        'Restore the configuration of one or more sites from backups. Overwrites the current site configuration; requires confirm: true.',
+      inputSchema: restoreSitesSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.restoreSites', 'config-writes', async ({ controller, location, fileServer, sites, confirm }) =>
+      toToolResult(
+        await registry
+          .get(controller)
+          .restoreSites(sites, toBackupLocation(location, fileServer), { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.getRestoreStatus',
+    {
+      description: 'Report the state of the last controller restore: finished, prepared, running or failed.',
+      inputSchema: controllerInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getRestoreStatus', 'read', async ({ controller }) =>
+      toToolResult(await registry.get(controller).getRestoreStatus())
+    )
+  );
+}
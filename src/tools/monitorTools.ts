@@ -0,0 +1,44 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import { DASHBOARD_METRICS, type DashboardMetric } from '../services/monitorService.js';
+
+import { siteInputSchema, timeInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const dashboardRangeSchema = siteInputSchema.extend({
+  since: timeInputSchema.optional().describe('Start of the time range; defaults to one hour before `until`.'),
+  until: timeInputSchema.optional().describe('End of the time range; defaults to now.')
+});
+
+export function registerMonitorTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.siteHealth',
+    {
+      description:
+        'Summarize the health of a site: device and client counts, Wi-Fi, switching, WAN, CPU/memory, interference, PoE and channel metrics, plus detected problems such as offline devices, high CPU, heavy interference or a PoE budget near its limit. Start here when investigating a site.',
+      inputSchema: dashboardRangeSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.siteHealth', 'read', async ({ controller, siteId, since, until }) =>
+      toToolResult(await registry.get(controller).getSiteHealth({ since, until }, siteId))
+    )
+  );
+
+  for (const [metric, definition] of Object.entries(DASHBOARD_METRICS) as [
+    DashboardMetric,
+    (typeof DASHBOARD_METRICS)[DashboardMetric]
+  ][]) {
+    const toolName = `omada.get${metric.charAt(0).toUpperCase()}${metric.slice(1)}`;
+    server.registerTool(
+      toolName,
+      {
+        description: `Site dashboard: ${definition.description}`,
+        inputSchema: definition.timeRange ? dashboardRangeSchema.shape : siteInputSchema.shape,
+        annotations: { readOnlyHint: true }
+      },
+      wrapToolHandler<typeof dashboardRangeSchema.shape>(toolName, 'read', async ({ controller, siteId, since, until }) =>
+        toToolResult(await registry.get(controller).getDashboardMetric(metric, { since, until }, siteId))
+      )
+    );
+  }
+}
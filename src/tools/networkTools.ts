@@ -0,0 +1,136 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import type { LanNetworkSettings } from '../services/networkService.js';
+
+import { confirmSchema, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const networkLookupSchema = siteInputSchema.extend({
+  network: z.string().min(1, 'network (ID, name or VLAN ID) is required').describe('LAN network ID, name or VLAN ID.')
+});
+
+const dhcpSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    rangeStart: z.string().min(7).optional().describe('First address handed out, e.g. 192.168.30.100.'),
+    rangeEnd: z.string().min(7).optional().describe('Last address handed out, e.g. 192.168.30.199.'),
+    dns: z
+      .array(z.string().min(7))
+      .max(2)
+      .optional()
+      .describe('Up to two DNS servers; an empty list hands out the gateway ("auto").'),
+    leaseTimeMinutes: z.number().int().min(2).max(10_080).optional()
+  })
+  .describe('DHCP server settings; only for networks with a gateway subnet.');
+
+const networkSettingsSchema = z.object({
+  gatewaySubnet: z
+    .string()
+    .min(9)
+    .optional()
+    .describe('Gateway address and prefix, e.g. 192.168.30.1/24. Routes the network through the gateway.'),
+  interfaceIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe('Gateway LAN port IDs; defaults to the ports of the primary network.'),
+  dhcp: dhcpSchema.optional(),
+  domain: z.string().min(1).max(64).optional(),
+  igmpSnooping: z.boolean().optional()
+});
+
+const createNetworkSchema = siteInputSchema.merge(networkSettingsSchema).extend({
+  name: z.string().min(1).max(128),
+  vlanId: z.number().int().min(1).max(4090),
+  confirm: confirmSchema
+});
+
+const updateNetworkSchema = networkLookupSchema.merge(networkSettingsSchema).extend({
+  name: z.string().min(1).max(128).optional().describe('New network name.'),
+  vlanId: z.number().int().min(1).max(4090).optional(),
+  confirm: confirmSchema
+});
+
+function networkSettings(settings: z.infer<typeof networkSettingsSchema>): LanNetworkSettings {
+  const { gatewaySubnet, interfaceIds, dhcp, domain, igmpSnooping } = settings;
+  return { gatewaySubnet, interfaceIds, dhcp, domain, igmpSnooping };
+}
+
+export function registerNetworkTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listLanNetworks',
+    {
+      description: 'List the LAN networks of a site with VLAN ID, gateway subnet, DHCP range, DNS servers and lease time.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listLanNetworks', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listLanNetworks(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getLanNetwork',
+    {
+      description: 'Fetch the full configuration of a LAN network by ID, name or VLAN ID.',
+      inputSchema: networkLookupSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getLanNetwork', 'read', async ({ controller, siteId, network }) =>
+      toToolResult(await registry.get(controller).getLanNetwork(network, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createLanNetwork',
+    {
+      description:
+        'Create a LAN network. With gatewaySubnet it is routed by the gateway and can run a DHCP server; without it, it is a switch-only VLAN. VLAN IDs and subnets already used by the site are rejected before anything is sent.',
+      inputSchema: createNetworkSchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler(
+      'omada.createLanNetwork',
+      'config-writes',
+      async ({ controller, siteId, name, vlanId, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .createLanNetwork({ ...networkSettings(settings), name, vlanId }, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateLanNetwork',
+    {
+      description:
+        'Change settings of a LAN network, such as its VLAN ID, subnet, DHCP range or DNS servers. Settings that are not passed keep their current values.',
+      inputSchema: updateNetworkSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.updateLanNetwork',
+      'config-writes',
+      async ({ controller, siteId, network, name, vlanId, confirm, ...settings }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .updateLanNetwork(network, { ...networkSettings(settings), name, vlanId }, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteLanNetwork',
+    {
+      description: 'Delete a LAN network. Devices and clients on its VLAN lose connectivity.',
+      inputSchema: networkLookupSchema.extend({ confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteLanNetwork', 'config-writes', async ({ controller, siteId, network, confirm }) =>
+      toToolResult(await registry.get(controller).deleteLanNetwork(network, siteId, { confirmed: confirm }))
+    )
+  );
+}
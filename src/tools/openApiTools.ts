@@ -0,0 +1,128 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import { loadOpenApiOperations, type OpenApiOperationDefinition } from '../openapi/loader.js';
+import { openApiSchemaToZod } from '../openapi/schemaToZod.js';
+import { logger } from '../utils/logger.js';
+
+import { confirmSchema, controllerInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+export interface OpenApiToolOptions {
+  groups?: string[];
+  directory?: string;
+}
+
+const BODY_ARGUMENT = 'body';
+const CONFIRM_ARGUMENT = 'confirm';
+const CONTROLLER_ARGUMENT = 'controller';
+
+export function registerOpenApiTools(
+  server: McpServer,
+  registry: ControllerRegistry,
+  options: OpenApiToolOptions
+): void {
+  if (!options.groups || options.groups.length === 0) {
+    return;
+  }
+
+  const operations = loadOpenApiOperations(options.groups, options.directory);
+  for (const operation of operations) {
+    registerOperationTool(server, registry, operation);
+  }
+
+  logger.info('Registered OpenAPI tools', { groups: options.groups, count: operations.length });
+}
+
+function registerOperationTool(
+  server: McpServer,
+  registry: ControllerRegistry,
+  operation: OpenApiOperationDefinition
+): void {
+  const inputShape = buildInputShape(operation);
+  // Classify with the primary controller's access policy so read-style POSTs count as reads.
+  const readOnly = registry.get().isReadOperation(operation.method, operation.path);
+
+  server.registerTool(
+    operation.toolName,
+    {
+      title: operation.summary,
+      description: `${operation.summary} (${operation.method.toUpperCase()} ${operation.path}; operationId ${operation.operationId}).`,
+      inputSchema: inputShape,
+      annotations: {
+        readOnlyHint: readOnly
+      }
+    },
+    wrapToolHandler<z.ZodRawShape>(
+      operation.toolName,
+      readOnly ? 'read' : 'config-writes',
+      async (args) => {
+        const pathParams: Record<string, string> = {};
+        for (const parameter of operation.pathParameters) {
+          const value = args[parameter.name];
+          if (value !== undefined) {
+            pathParams[parameter.name] = String(value);
+          }
+        }
+
+        const query: Record<string, unknown> = {};
+        for (const parameter of operation.queryParameters) {
+          const value = args[parameter.name];
+          if (value !== undefined) {
+            query[parameter.name] = value;
+          }
+        }
+
+        const controller = args[CONTROLLER_ARGUMENT];
+        const client = registry.get(typeof controller === 'string' ? controller : undefined);
+        const result = await client.invokeOperation({
+          method: operation.method,
+          path: operation.path,
+          pathParams,
+          query: Object.keys(query).length > 0 ? query : undefined,
+          body: operation.requestBody ? args[BODY_ARGUMENT] : undefined,
+          confirmed: args[CONFIRM_ARGUMENT] === true
+        });
+
+        return toToolResult(result);
+      }
+    )
+  );
+}
+
+function buildInputShape(operation: OpenApiOperationDefinition): z.ZodRawShape {
+  const shape: z.ZodRawShape = { ...controllerInputSchema.shape };
+
+  for (const parameter of operation.pathParameters) {
+    // The controller id is always injected by OmadaClient and the site falls back to the configured default.
+    if (parameter.name === 'omadacId') {
+      continue;
+    }
+
+    const schema = z.string().min(1).describe(parameter.description ?? parameter.name);
+    shape[parameter.name] = parameter.name === 'siteId' ? schema.optional() : schema;
+  }
+
+  for (const parameter of operation.queryParameters) {
+    if (parameter.name in shape) {
+      continue;
+    }
+
+    let schema = openApiSchemaToZod(parameter.schema, operation.components);
+    if (parameter.description) {
+      schema = schema.describe(parameter.description);
+    }
+    shape[parameter.name] = parameter.required ? schema : schema.optional();
+  }
+
+  if (operation.requestBody) {
+    const schema = openApiSchemaToZod(operation.requestBody, operation.components).describe('JSON request body');
+    shape[BODY_ARGUMENT] = operation.requestBodyRequired ? schema : schema.optional();
+  }
+
+  if (operation.method !== 'get') {
+    shape[CONFIRM_ARGUMENT] = confirmSchema;
+  }
+
+  return shape;
+}
@@ -0,0 +1,262 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import {
+  DEFAULT_THREAT_PAGE_SIZE,
+  SUPPRESSION_DIRECTIONS,
+  SUPPRESSION_SCOPES,
+  THREAT_ACTIONS,
+  THREAT_SCOPES,
+  THREAT_SEVERITIES
+} from '../services/securityService.js';
+
+import {
+  confirmSchema,
+  controllerInputSchema,
+  siteInputSchema,
+  timeInputSchema,
+  toToolResult,
+  wrapToolHandler
+} from './common.js';
+
+const rangeFields = {
+  since: timeInputSchema.optional().describe('Start of the time range; defaults to 7 days before `until`.'),
+  until: timeInputSchema.optional().describe('End of the time range; defaults to now.')
+};
+
+const scopeSchema = z
+  .enum(THREAT_SCOPES)
+  .default('site')
+  .describe('Threats of one site (default) or of every site of the controller.');
+
+const listThreatsSchema = siteInputSchema.extend({
+  ...rangeFields,
+  scope: scopeSchema,
+  severity: z.enum(THREAT_SEVERITIES).optional(),
+  archived: z.boolean().default(false).describe('List archived threats instead of current ones.'),
+  search: z.string().min(1).optional().describe('Fuzzy search over the threat description and classification.'),
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(1000).default(DEFAULT_THREAT_PAGE_SIZE)
+});
+
+const threatTimeSchema = timeInputSchema.describe('Time of the threat as listed, e.g. its ISO timestamp.');
+
+const handleThreatsSchema = siteInputSchema.extend({
+  threats: z
+    .array(z.object({ id: z.string().min(1), time: threatTimeSchema }))
+    .min(1, 'At least one threat is required')
+    .describe('Threats from omada.listThreats or the occurrences of omada.securityReport.'),
+  action: z
+    .enum(THREAT_ACTIONS)
+    .describe(
+      'block: block the threat source; isolate: cut off the affected device; suppress: stop reporting the signature; allow: allow the traffic.'
+    ),
+  blockName: z.string().min(1).max(64).optional().describe('Name of the block rule; required for block and isolate.'),
+  suppression: z
+    .object({
+      scope: z.enum(SUPPRESSION_SCOPES),
+      direction: z.enum(SUPPRESSION_DIRECTIONS).optional().describe('Defaults to both.'),
+      ip: z.string().min(1).optional().describe('Source IP to track, for packet tracking.'),
+      subnet: z.string().min(1).optional().describe('Source subnet to track, for packet tracking.')
+    })
+    .optional()
+    .describe('Required for suppress.'),
+  confirm: confirmSchema
+});
+
+const countrySchema = controllerInputSchema.extend({
+  country: z.string().min(1).describe('Country code, such as CN or RU.'),
+  sites: z.array(z.string().min(1)).min(1).optional().describe('Site IDs; defaults to the default site.'),
+  confirm: confirmSchema
+});
+
+export function registerSecurityTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.securityReport',
+    {
+      description:
+        'Summarize the security of a site over a time range (default: last 7 days): IPS threats grouped by signature and ranked by severity and affected clients (joined to the client list for names), rogue APs, wireless intrusion events and blocked countries. Start here for questions like "any threats this week?".',
+      inputSchema: siteInputSchema.extend(rangeFields).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.securityReport', 'read', async ({ controller, siteId, since, until }) =>
+      toToolResult(await registry.get(controller).getSecurityReport({ since, until }, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listThreats',
+    {
+      description:
+        'List IPS threats in a time range (default: last 7 days), newest first, with severity, classification, source and destination. Times are returned as ISO strings.',
+      inputSchema: listThreatsSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listThreats', 'read', async ({ controller, siteId, ...query }) =>
+      toToolResult(await registry.get(controller).listThreats(query, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getThreat',
+    {
+      description: 'Fetch the details of an IPS threat: addresses, countries, protocol, classification and data usage.',
+      inputSchema: siteInputSchema.extend({ threatId: z.string().min(1), time: threatTimeSchema }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getThreat', 'read', async ({ controller, siteId, threatId, time }) =>
+      toToolResult(await registry.get(controller).getThreat(threatId, time, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getThreatSummary',
+    {
+      description:
+        'Count IPS threats per severity across all sites, with the top source countries and classifications, for a time range (default: last 7 days).',
+      inputSchema: controllerInputSchema.extend(rangeFields).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getThreatSummary', 'read', async ({ controller, since, until }) =>
+      toToolResult(await registry.get(controller).getThreatSummary({ since, until }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getThreatMap',
+    {
+      description: 'Count threat attempts per attacked country, most attacked first, for a time range (default: last 7 days).',
+      inputSchema: siteInputSchema.extend({
+        ...rangeFields,
+        scope: scopeSchema,
+        severity: z.enum(THREAT_SEVERITIES).optional(),
+        country: z.string().min(1).optional().describe('Only this country.')
+      }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getThreatMap', 'read', async ({ controller, siteId, ...query }) =>
+      toToolResult(await registry.get(controller).getThreatMap(query, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.handleThreats',
+    {
+      description: 'Block, isolate, suppress or allow IPS threats of a site.',
+      inputSchema: handleThreatsSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.handleThreats',
+      'config-writes',
+      async ({ controller, siteId, threats, action, blockName, suppression, confirm }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .handleThreats({ threats, action, blockName, suppression }, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.listRogueAps',
+    {
+      description:
+        'List the neighbouring APs found by the last rogue AP scan, strongest signal first, with SSID, BSSID, band, channel, security and the AP that saw them.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listRogueAps', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listRogueAps(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.scanRogueAps',
+    {
+      description: 'Make the APs of a site scan for rogue APs. Read the results with omada.listRogueAps once the scan is done.',
+      inputSchema: siteInputSchema.extend({ confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler('omada.scanRogueAps', 'device-actions', async ({ controller, siteId, confirm }) =>
+      toToolResult(await registry.get(controller).scanRogueAps(siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.listWidsEvents',
+    {
+      description:
+        'List wireless intrusion detection events, newest first, with the offending station, the AP that detected it, channel, event type and level.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listWidsEvents', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listWidsEvents(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listWidsBlacklist',
+    {
+      description: 'List the stations blocked dynamically by wireless intrusion prevention.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listWidsBlacklist', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listWidsBlacklist(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.removeWidsBlacklistEntry',
+    {
+      description: 'Remove a station from the wireless intrusion prevention blacklist so it can connect again.',
+      inputSchema: siteInputSchema.extend({
+        stationMac: z.string().min(1).describe('MAC address of the blocked station.'),
+        confirm: confirmSchema
+      }).shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler('omada.removeWidsBlacklistEntry', 'client-actions', async ({ controller, siteId, stationMac, confirm }) =>
+      toToolResult(await registry.get(controller).removeWidsBlacklistEntry(stationMac, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.listBlockedCountries',
+    {
+      description: 'List the countries whose traffic is blocked for a site.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listBlockedCountries', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listBlockedCountries(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.blockCountry',
+    {
+      description: 'Block traffic from and to a country for some sites.',
+      inputSchema: countrySchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.blockCountry', 'config-writes', async ({ controller, country, sites, confirm }) =>
+      toToolResult(await registry.get(controller).setCountryBlocked(country, true, sites, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.unblockCountry',
+    {
+      description: 'Stop blocking a country for some sites.',
+      inputSchema: countrySchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler('omada.unblockCountry', 'config-writes', async ({ controller, country, sites, confirm }) =>
+      toToolResult(await registry.get(controller).setCountryBlocked(country, false, sites, { confirmed: confirm }))
+    )
+  );
+}
@@ -0,0 +1,173 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import { DEFAULT_POWER_CYCLE_OFF_SECONDS } from '../services/switchService.js';
+
+import { confirmSchema, createProgressReporter, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const switchSchema = siteInputSchema.extend({
+  switchId: z.string().min(1, 'switchId (MAC or name) is required').describe('Switch MAC or name.')
+});
+
+const portSchema = z.number().int().min(1).describe('Port number.');
+
+const portListSchema = z.array(portSchema).min(1, 'At least one port is required');
+
+const portToggleSchema = switchSchema.extend({
+  ports: portListSchema,
+  enabled: z.boolean(),
+  confirm: confirmSchema
+});
+
+const portProfileSchema = switchSchema.extend({
+  port: portSchema,
+  profile: z.string().min(1).describe('LAN port profile ID or name.'),
+  confirm: confirmSchema
+});
+
+const portNamesSchema = switchSchema.extend({
+  names: z
+    .array(z.object({ port: portSchema, name: z.string().min(1).max(128) }))
+    .min(1, 'At least one port name is required'),
+  confirm: confirmSchema
+});
+
+const powerCycleSchema = switchSchema.extend({
+  ports: portListSchema,
+  offSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(120)
+    .default(DEFAULT_POWER_CYCLE_OFF_SECONDS)
+    .describe('How long PoE stays off.'),
+  confirm: confirmSchema
+});
+
+export function registerSwitchTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.getSwitchPorts',
+    {
+      description:
+        'Show the ports of a switch with name, profile, profile override, PoE mode (1 on, 0 off), LAG membership and status (1 on, 0 off).',
+      inputSchema: switchSchema.extend({ ports: portListSchema.optional().describe('Only these ports.') }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getSwitchPorts', 'read', async ({ controller, siteId, switchId, ports }) =>
+      toToolResult(await registry.get(controller).getSwitchPorts(switchId, ports, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listSwitchVlanInterfaces',
+    {
+      description:
+        'List the VLAN interfaces of a switch with their IP settings, management VLAN flag and DHCP mode (0 none, 1 server, 2 relay).',
+      inputSchema: switchSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listSwitchVlanInterfaces', 'read', async ({ controller, siteId, switchId }) =>
+      toToolResult(await registry.get(controller).listSwitchVlanInterfaces(switchId, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.setSwitchPortStatus',
+    {
+      description: 'Enable or disable switch ports.',
+      inputSchema: portToggleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setSwitchPortStatus', 'device-actions', async ({ controller, siteId, switchId, ports, enabled, confirm }) =>
+      toToolResult(
+        await registry.get(controller).setSwitchPortStatus(switchId, ports, enabled, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.setSwitchPortPoe',
+    {
+      description: 'Turn PoE (802.3at/af) on or off on switch ports.',
+      inputSchema: portToggleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setSwitchPortPoe', 'device-actions', async ({ controller, siteId, switchId, ports, enabled, confirm }) =>
+      toToolResult(
+        await registry.get(controller).setSwitchPortPoeMode(switchId, ports, enabled, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.powerCyclePort',
+    {
+      description:
+        'Power-cycle PoE devices such as cameras or APs: turns PoE off on the ports, waits offSeconds, and turns it back on, reporting progress.',
+      inputSchema: powerCycleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.powerCyclePort',
+      'device-actions',
+      async ({ controller, siteId, switchId, ports, offSeconds, confirm }, extra) => {
+        const report = createProgressReporter(extra);
+        return toToolResult(
+          await registry.get(controller).powerCycleSwitchPorts(
+            switchId,
+            ports,
+            siteId,
+            { offSeconds, onProgress: (step, _totalSteps, message) => report(step, message) },
+            { confirmed: confirm }
+          )
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'omada.setSwitchPortProfile',
+    {
+      description: 'Apply a LAN port profile to a switch port.',
+      inputSchema: portProfileSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setSwitchPortProfile', 'config-writes', async ({ controller, siteId, switchId, port, profile, confirm }) =>
+      toToolResult(
+        await registry.get(controller).setSwitchPortProfile(switchId, port, profile, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.setSwitchPortProfileOverride',
+    {
+      description: 'Allow or stop allowing switch ports to use settings that differ from their port profile.',
+      inputSchema: portToggleSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.setSwitchPortProfileOverride',
+      'config-writes',
+      async ({ controller, siteId, switchId, ports, enabled, confirm }) =>
+        toToolResult(
+          await registry
+            .get(controller)
+            .setSwitchPortProfileOverride(switchId, ports, enabled, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.setSwitchPortNames',
+    {
+      description: 'Rename switch ports.',
+      inputSchema: portNamesSchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler('omada.setSwitchPortNames', 'config-writes', async ({ controller, siteId, switchId, names, confirm }) =>
+      toToolResult(await registry.get(controller).setSwitchPortNames(switchId, names, siteId, { confirmed: confirm }))
+    )
+  );
+}
@@ -0,0 +1,220 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import type { ControllerRegistry } from '../controllerRegistry.js';
+import { OmadaClient } from '../omadaClient.js';
+import { SSID_SECURITY_MODES, type SsidSettings, WIFI_BANDS, WPA_VERSIONS } from '../services/wirelessService.js';
+
+import { confirmSchema, siteInputSchema, toToolResult, wrapToolHandler } from './common.js';
+
+const wlanGroupSchema = z.string().min(1).describe('WLAN group ID or name.');
+
+const passphraseSchema = z.string().min(8).max(63);
+
+const ssidLookupSchema = siteInputSchema.extend({
+  ssid: z.string().min(1, 'ssid (SSID ID or name) is required').describe('SSID ID or name.'),
+  wlanGroup: wlanGroupSchema.optional().describe('WLAN group ID or name; only needed when several groups use the SSID name.')
+});
+
+const rateLimitSchema = z
+  .object({
+    profileId: z.string().min(1).optional().describe('Rate limit profile ID; overrides the custom limits.'),
+    downloadKbps: z.number().int().min(1).max(10_485_760).optional(),
+    uploadKbps: z.number().int().min(1).max(10_485_760).optional()
+  })
+  .describe('Omitted directions are unlimited.');
+
+const ssidSettingsSchema = z.object({
+  security: z.enum(SSID_SECURITY_MODES).optional(),
+  passphrase: passphraseSchema.optional().describe('WPA-Personal passphrase (8-63 characters). Masked in output and logs.'),
+  wpaVersion: z.enum(WPA_VERSIONS).optional(),
+  radiusProfileId: z.string().min(1).optional().describe('RADIUS profile for WPA-Enterprise.'),
+  bands: z.array(z.enum(WIFI_BANDS)).min(1).optional(),
+  broadcast: z.boolean().optional().describe('Broadcast the SSID name; false hides it.'),
+  guestNetwork: z.boolean().optional().describe('Isolate clients from the local networks.'),
+  rateLimit: z
+    .object({
+      client: rateLimitSchema.optional().describe('Limit applied to each client.'),
+      ssid: rateLimitSchema.optional().describe('Limit shared by all clients of the SSID.')
+    })
+    .optional(),
+  schedule: z
+    .object({
+      enabled: z.boolean(),
+      timeRangeProfileId: z.string().min(1).optional().describe('Time range profile; required when enabled.'),
+      action: z.enum(['radio-on', 'radio-off']).default('radio-on').describe('Whether the SSID is on or off during the time range.')
+    })
+    .optional()
+});
+
+const createSsidSchema = siteInputSchema.merge(ssidSettingsSchema).extend({
+  name: z.string().min(1).max(32),
+  wlanGroup: wlanGroupSchema.optional().describe('WLAN group ID or name; defaults to the primary group.'),
+  vlanId: z.number().int().min(1).max(4094).optional(),
+  confirm: confirmSchema
+});
+
+const updateSsidSchema = ssidLookupSchema.merge(ssidSettingsSchema).extend({
+  name: z.string().min(1).max(32).optional().describe('New SSID name.'),
+  vlanId: z.number().int().min(1).max(4094).nullable().optional().describe('VLAN ID, or null to remove the VLAN.'),
+  confirm: confirmSchema
+});
+
+const apSchema = siteInputSchema.extend({
+  apId: z.string().min(1, 'apId (MAC or name) is required').describe('AP MAC or name.')
+});
+
+const apOverridesSchema = apSchema.extend({
+  overrides: z
+    .array(
+      z.object({
+        ssid: z.string().min(1).describe('SSID name, or its entry ID (ssidId) from omada.getApWlanConfig.'),
+        enabled: z.boolean().optional().describe('Turn the SSID on or off on this AP.'),
+        ssidName: z.string().min(1).max(32).optional().describe('Name this AP broadcasts instead of the SSID name.'),
+        passphrase: passphraseSchema.optional().describe('Passphrase this AP uses instead of the SSID passphrase.'),
+        vlanId: z.number().int().min(1).max(4094).optional().describe('VLAN this AP uses instead of the SSID VLAN.')
+      })
+    )
+    .min(1),
+  confirm: confirmSchema
+});
+
+function ssidSettings(settings: z.infer<typeof ssidSettingsSchema>): SsidSettings {
+  const { security, passphrase, wpaVersion, radiusProfileId, bands, broadcast, guestNetwork, rateLimit, schedule } =
+    settings;
+  return { security, passphrase, wpaVersion, radiusProfileId, bands, broadcast, guestNetwork, rateLimit, schedule };
+}
+
+/** SSID details and overrides carry passphrases, which are masked like logged payloads. */
+function toMaskedToolResult(value: unknown) {
+  return toToolResult(OmadaClient.sanitizePayload(value));
+}
+
+export function registerWirelessTools(server: McpServer, registry: ControllerRegistry): void {
+  server.registerTool(
+    'omada.listWlanGroups',
+    {
+      description: 'List the WLAN groups of a site. APs broadcast the SSIDs of their WLAN group.',
+      inputSchema: siteInputSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listWlanGroups', 'read', async ({ controller, siteId }) =>
+      toToolResult(await registry.get(controller).listWlanGroups(siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.listSsids',
+    {
+      description: 'List the SSIDs of one WLAN group, or of every WLAN group of a site.',
+      inputSchema: siteInputSchema.extend({ wlanGroup: wlanGroupSchema.optional() }).shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.listSsids', 'read', async ({ controller, siteId, wlanGroup }) =>
+      toMaskedToolResult(await registry.get(controller).listSsids(wlanGroup, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.getSsid',
+    {
+      description: 'Fetch the full configuration of an SSID. Passphrases are masked.',
+      inputSchema: ssidLookupSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getSsid', 'read', async ({ controller, siteId, ssid, wlanGroup }) =>
+      toMaskedToolResult(await registry.get(controller).getSsid(ssid, wlanGroup, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.createSsid',
+    {
+      description:
+        'Create an SSID for access points: security mode and passphrase, VLAN, bands, rate limits and WLAN schedule. A passphrase without security creates a WPA-Personal SSID.',
+      inputSchema: createSsidSchema.shape,
+      annotations: { destructiveHint: false }
+    },
+    wrapToolHandler(
+      'omada.createSsid',
+      'config-writes',
+      async ({ controller, siteId, wlanGroup, confirm, name, vlanId, ...settings }) =>
+        toMaskedToolResult(
+          await registry
+            .get(controller)
+            .createSsid({ ...ssidSettings(settings), name, vlanId }, wlanGroup, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.updateSsid',
+    {
+      description:
+        'Change settings of an SSID, such as its passphrase, VLAN or rate limits. Settings that are not passed keep their current values.',
+      inputSchema: updateSsidSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler(
+      'omada.updateSsid',
+      'config-writes',
+      async ({ controller, siteId, ssid, wlanGroup, confirm, name, vlanId, ...settings }) =>
+        toMaskedToolResult(
+          await registry
+            .get(controller)
+            .updateSsid(ssid, { ...ssidSettings(settings), name, vlanId }, wlanGroup, siteId, { confirmed: confirm })
+        )
+    )
+  );
+
+  server.registerTool(
+    'omada.deleteSsid',
+    {
+      description: 'Delete an SSID. Clients connected to it are disconnected.',
+      inputSchema: ssidLookupSchema.extend({ confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.deleteSsid', 'config-writes', async ({ controller, siteId, ssid, wlanGroup, confirm }) =>
+      toToolResult(await registry.get(controller).deleteSsid(ssid, wlanGroup, siteId, { confirmed: confirm }))
+    )
+  );
+
+  server.registerTool(
+    'omada.getApWlanConfig',
+    {
+      description: "Show an AP's WLAN group and its per-SSID overrides (name, passphrase, VLAN, on/off). Passphrases are masked.",
+      inputSchema: apSchema.shape,
+      annotations: { readOnlyHint: true }
+    },
+    wrapToolHandler('omada.getApWlanConfig', 'read', async ({ controller, siteId, apId }) =>
+      toMaskedToolResult(await registry.get(controller).getApWlanConfig(apId, siteId))
+    )
+  );
+
+  server.registerTool(
+    'omada.setApSsidOverrides',
+    {
+      description:
+        "Override SSIDs on one AP: turn them on or off, or use another name, passphrase or VLAN. Each entry replaces the AP's override of that SSID; omitted values fall back to the SSID settings.",
+      inputSchema: apOverridesSchema.shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setApSsidOverrides', 'config-writes', async ({ controller, siteId, apId, overrides, confirm }) =>
+      toMaskedToolResult(
+        await registry.get(controller).setApSsidOverrides(apId, overrides, siteId, { confirmed: confirm })
+      )
+    )
+  );
+
+  server.registerTool(
+    'omada.setApWlanGroup',
+    {
+      description: 'Move an AP to another WLAN group of its site, changing the SSIDs it broadcasts.',
+      inputSchema: apSchema.extend({ wlanGroup: wlanGroupSchema, confirm: confirmSchema }).shape,
+      annotations: { destructiveHint: true }
+    },
+    wrapToolHandler('omada.setApWlanGroup', 'config-writes', async ({ controller, siteId, apId, wlanGroup, confirm }) =>
+      toToolResult(await registry.get(controller).setApWlanGroup(apId, wlanGroup, siteId, { confirmed: confirm }))
+    )
+  );
+}
@@ -4,3 +4,27 @@ export type { OmadaClientInfo } from './types/omadaClientInfo.js';
 export type { OmadaApiResponse } from './types/omadaApiResponse.js';
 export type { PaginatedResult } from './types/paginatedResult.js';
 export type { TokenResult } from './types/tokenResult.js';
+export type { OmadaRequestOptions } from './types/omadaRequestOptions.js';
+export type { OmadaActionResult } from './types/omadaActionResult.js';
+export type { ListPage } from './types/listPage.js';
+export type { OpenApiDocument } from './types/openApiDocument.js';
+export type { OpenApiOperation } from './types/openApiOperation.js';
+export type { OpenApiParameter } from './types/openApiParameter.js';
+export type { OpenApiSchema } from './types/openApiSchema.js';
+export type { OmadaTokenState } from './types/omadaTokenState.js';
+export type { OmadaControllerStatus } from './types/omadaControllerStatus.js';
+export type { ControllerDiagnostics } from './types/controllerDiagnostics.js';
+export type { DiagnosticProblem } from './types/diagnosticProblem.js';
+export type { OmadaLogEntry } from './types/omadaLogEntry.js';
+export type { LogPage } from './types/logPage.js';
+export type { HealthProblem } from './types/healthProblem.js';
+export type { SiteHealthReport } from './types/siteHealthReport.js';
+export type { FirmwareDeviceStatus } from './types/firmwareDeviceStatus.js';
+export type { FirmwareStatusReport } from './types/firmwareStatusReport.js';
+export type { FirmwareRolloutPreview } from './types/firmwareRolloutPreview.js';
+export type { UpgradeSchedulePreview } from './types/upgradeSchedulePreview.js';
+export type { AuthPrincipal } from './types/authPrincipal.js';
+export type { AuditEvent } from './types/auditEvent.js';
+export type { RuleSetDiff } from './types/ruleSetDiff.js';
+export type { RankedThreat } from './types/rankedThreat.js';
+export type { SecurityReport } from './types/securityReport.js';
@@ -0,0 +1,19 @@
+/** One entry of the audit trail: a tool invocation or a mutating controller request. */
+export interface AuditEvent {
+    /** ISO timestamp of when the invocation or request finished. */
+    timestamp: string;
+    type: 'tool' | 'controller';
+    outcome: 'success' | 'error' | 'denied';
+    sessionId?: string;
+    principal?: string;
+    tool?: string;
+    /** Sanitized tool arguments, or the sanitized request body for controller requests. */
+    args?: unknown;
+    controller?: string;
+    method?: string;
+    path?: string;
+    /** `errorCode` of the controller response. */
+    errorCode?: number;
+    error?: string;
+    durationMs?: number;
+}
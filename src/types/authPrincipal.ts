@@ -0,0 +1,13 @@
+/** Caller identity established by the HTTP transport authentication. */
+export interface AuthPrincipal {
+    /**
+     * Token name for static tokens, the `sub` claim (or client ID) for OAuth access tokens, or the
+     * value of the trusted identity header.
+     */
+    id: string;
+    method: 'token' | 'oauth' | 'header';
+    clientId: string;
+    scopes: string[];
+    /** Verified JWT claims for OAuth access tokens. */
+    claims?: Record<string, unknown>;
+}
@@ -0,0 +1,26 @@
+import type { DiagnosticProblem } from './diagnosticProblem.js';
+import type { OmadaTokenState } from './omadaTokenState.js';
+
+export interface ControllerDiagnostics {
+    name: string;
+    primary: boolean;
+    /** Reachable and authenticated, with the circuit breaker closed. */
+    ready: boolean;
+    checkedAt: string;
+    baseUrl: string;
+    reachable: boolean;
+    latencyMs?: number;
+    controllerVersion?: string;
+    authenticated: boolean;
+    token: OmadaTokenState;
+    /** Seconds until the access token expires. */
+    tokenExpiresIn?: number;
+    tls: {
+        enabled: boolean;
+        /** Whether the controller certificate is verified (`OMADA_STRICT_SSL`). */
+        verified: boolean;
+    };
+    proxy: boolean;
+    circuitState: 'closed' | 'open' | 'half-open';
+    problems: DiagnosticProblem[];
+}
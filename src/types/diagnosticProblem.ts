@@ -0,0 +1,5 @@
+/** A failed readiness check of a controller. */
+export interface DiagnosticProblem {
+    check: 'reachability' | 'authentication' | 'circuit';
+    message: string;
+}
@@ -0,0 +1,17 @@
+export interface FirmwareDeviceStatus {
+    siteId: string;
+    siteName?: string;
+    mac: string;
+    name?: string;
+    type?: string;
+    /** Model as shown in the controller UI, e.g. `EAP225(EU) v3.0`. */
+    showModel?: string;
+    /** Model identifier used by the upgrade endpoints. */
+    compoundModel?: string;
+    firmwareVersion?: string;
+    /** Latest stable firmware in the controller's firmware pool for this model. */
+    latestVersion?: string;
+    /** Firmware pool ID of the latest version; pass it to `omada.getFirmwareReleaseNotes`. */
+    firmwareId?: string;
+    upgradeAvailable: boolean;
+}
@@ -0,0 +1,27 @@
+/** What an upgrade plan would change, returned by dry runs and alongside committed plans. */
+export interface FirmwareRolloutPreview {
+    dryRun: boolean;
+    window: {
+        type: 'now' | 'scheduled';
+        /** Start of the rollout for scheduled plans, as ISO 8601. */
+        startsAt?: string;
+    };
+    sites: { siteId: string; name?: string; devices: number }[];
+    models: {
+        showModel: string;
+        compoundModel: string;
+        currentVersions: string[];
+        targetVersion: string;
+        devices: number;
+    }[];
+    devices: {
+        siteId: string;
+        siteName?: string;
+        mac: string;
+        name?: string;
+        model: string;
+        firmwareVersion?: string;
+        targetVersion: string;
+    }[];
+    warnings: string[];
+}
@@ -0,0 +1,17 @@
+import type { FirmwareDeviceStatus } from './firmwareDeviceStatus.js';
+
+export interface FirmwareStatusReport {
+    sites: { siteId: string; name?: string; devices: number; upgradeAvailable: number }[];
+    models: {
+        showModel?: string;
+        compoundModel?: string;
+        currentVersions: string[];
+        latestVersion?: string;
+        firmwareId?: string;
+        devices: number;
+        siteIds: string[];
+    }[];
+    devices: FirmwareDeviceStatus[];
+    /** Sites whose device list could not be read; the report is built from the remaining ones. */
+    unavailable: { siteId: string; error: string }[];
+}
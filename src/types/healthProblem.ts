@@ -0,0 +1,10 @@
+export interface HealthProblem {
+    severity: 'warning' | 'critical';
+    category: string;
+    message: string;
+    device?: {
+        name?: string;
+        mac?: string;
+    };
+    value?: number;
+}
@@ -4,3 +4,27 @@ export type { OmadaClientInfo } from './omadaClientInfo.js';
 export type { OmadaApiResponse } from './omadaApiResponse.js';
 export type { PaginatedResult } from './paginatedResult.js';
 export type { TokenResult } from './tokenResult.js';
+export type { OmadaRequestOptions } from './omadaRequestOptions.js';
+export type { OmadaActionResult } from './omadaActionResult.js';
+export type { ListPage } from './listPage.js';
+export type { OpenApiDocument } from './openApiDocument.js';
+export type { OpenApiOperation } from './openApiOperation.js';
+export type { OpenApiParameter } from './openApiParameter.js';
+export type { OpenApiSchema } from './openApiSchema.js';
+export type { OmadaTokenState } from './omadaTokenState.js';
+export type { OmadaControllerStatus } from './omadaControllerStatus.js';
+export type { ControllerDiagnostics } from './controllerDiagnostics.js';
+export type { DiagnosticProblem } from './diagnosticProblem.js';
+export type { OmadaLogEntry } from './omadaLogEntry.js';
+export type { LogPage } from './logPage.js';
+export type { HealthProblem } from './healthProblem.js';
+export type { SiteHealthReport } from './siteHealthReport.js';
+export type { FirmwareDeviceStatus } from './firmwareDeviceStatus.js';
+export type { FirmwareStatusReport } from './firmwareStatusReport.js';
+export type { FirmwareRolloutPreview } from './firmwareRolloutPreview.js';
+export type { UpgradeSchedulePreview } from './upgradeSchedulePreview.js';
+export type { AuthPrincipal } from './authPrincipal.js';
+export type { AuditEvent } from './auditEvent.js';
+export type { RuleSetDiff } from './ruleSetDiff.js';
+export type { RankedThreat } from './rankedThreat.js';
+export type { SecurityReport } from './securityReport.js';
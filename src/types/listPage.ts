@@ -0,0 +1,7 @@
+export interface ListPage<T> {
+    total: number;
+    offset: number;
+    limit?: number;
+    count: number;
+    items: T[];
+}
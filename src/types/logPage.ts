@@ -0,0 +1,10 @@
+import type { ListPage } from './listPage.js';
+
+export interface LogPage<T> extends ListPage<T> {
+    page: number;
+    timeRange?: {
+        start: string;
+        end: string;
+    };
+    stats?: Record<string, unknown>;
+}
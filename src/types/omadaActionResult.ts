@@ -0,0 +1,6 @@
+export interface OmadaActionResult<T = unknown, S = unknown> {
+    action: string;
+    target: Record<string, unknown>;
+    result: T;
+    followUp?: S;
+}
@@ -6,6 +6,11 @@ export interface OmadaClientInfo {
     deviceType?: string;
     ssid?: string;
     ip?: string;
+    vid?: number;
+    wireless?: boolean;
+    active?: boolean;
+    blocked?: boolean;
+    apMac?: string;
     siteId?: string;
     [key: string]: unknown;
 }
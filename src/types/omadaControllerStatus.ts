@@ -0,0 +1,17 @@
+import type { OmadaTokenState } from './omadaTokenState.js';
+
+export interface OmadaControllerStatus {
+    name: string;
+    primary: boolean;
+    baseUrl: string;
+    omadacId: string;
+    siteId?: string;
+    accessMode: string;
+    reachable: boolean;
+    latencyMs?: number;
+    controllerVersion?: string;
+    error?: string;
+    token: OmadaTokenState;
+    /** `open` while requests are suspended after repeated controller failures. */
+    circuitState: 'closed' | 'open' | 'half-open';
+}
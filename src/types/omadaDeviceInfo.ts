@@ -4,8 +4,10 @@ export interface OmadaDeviceInfo {
     deviceId?: string;
     type?: string;
     model?: string;
+    modelName?: string;
     ip?: string;
-    status?: string;
+    /** 0: Disconnected; 1: Connected; 2: Pending; 3: Heartbeat Missed; 4: Isolated. */
+    status?: number | string;
     siteId?: string;
     [key: string]: unknown;
 }
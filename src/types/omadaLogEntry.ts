@@ -0,0 +1,10 @@
+export interface OmadaLogEntry {
+    id?: string;
+    key?: string;
+    module?: string;
+    level?: string;
+    content?: string;
+    /** Epoch milliseconds as returned by the controller; tools normalize it to an ISO string. */
+    time?: number | string;
+    [key: string]: unknown;
+}
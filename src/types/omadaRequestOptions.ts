@@ -0,0 +1,6 @@
+export interface OmadaRequestOptions {
+    /** Explicit approval for mutating calls when the access mode is `confirm-writes`. */
+    confirmed?: boolean;
+    /** Set to `false` to send a GET to the controller even when the response cache is enabled. */
+    cache?: boolean;
+}
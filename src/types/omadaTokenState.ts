@@ -0,0 +1,6 @@
+export interface OmadaTokenState {
+    hasAccessToken: boolean;
+    hasRefreshToken: boolean;
+    expiresAt?: string;
+    expired: boolean;
+}
@@ -0,0 +1,11 @@
+import type { OpenApiOperation } from './openApiOperation.js';
+import type { OpenApiSchema } from './openApiSchema.js';
+
+export interface OpenApiDocument {
+    openapi: string;
+    info?: { title?: string; version?: string };
+    paths: Record<string, Record<string, OpenApiOperation>>;
+    components?: {
+        schemas?: Record<string, OpenApiSchema>;
+    };
+}
@@ -0,0 +1,15 @@
+import type { OpenApiParameter } from './openApiParameter.js';
+import type { OpenApiSchema } from './openApiSchema.js';
+
+export interface OpenApiOperation {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    deprecated?: boolean;
+    parameters?: OpenApiParameter[];
+    requestBody?: {
+        required?: boolean;
+        content?: Record<string, { schema?: OpenApiSchema }>;
+    };
+}
@@ -0,0 +1,9 @@
+import type { OpenApiSchema } from './openApiSchema.js';
+
+export interface OpenApiParameter {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    description?: string;
+    required?: boolean;
+    schema?: OpenApiSchema;
+}
@@ -0,0 +1,21 @@
+export interface OpenApiSchema {
+    $ref?: string;
+    type?: string;
+    format?: string;
+    description?: string;
+    enum?: unknown[];
+    items?: OpenApiSchema;
+    properties?: Record<string, OpenApiSchema>;
+    required?: string[];
+    additionalProperties?: boolean | OpenApiSchema;
+    allOf?: OpenApiSchema[];
+    anyOf?: OpenApiSchema[];
+    oneOf?: OpenApiSchema[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    [key: string]: unknown;
+}
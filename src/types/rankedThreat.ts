@@ -0,0 +1,21 @@
+export interface RankedThreat {
+    severity: 'critical' | 'major' | 'moderate' | 'minor' | 'low';
+    classification?: string;
+    /** The IPS signature description. */
+    service?: string;
+    attempts: number;
+    firstSeen?: string;
+    lastSeen?: string;
+    sourceCountries: string[];
+    /** Clients of the site whose IP address was the source or destination of the threat. */
+    affectedClients: {
+        mac: string;
+        name?: string;
+        ip: string;
+    }[];
+    /** The most recent occurrences, as accepted by `omada.handleThreats`. */
+    occurrences: {
+        id: string;
+        time?: string;
+    }[];
+}
@@ -0,0 +1,15 @@
+/** Before/after view of a firewall or NAT rule set, returned by dry runs and alongside committed writes. */
+export interface RuleSetDiff {
+    ruleSet: string;
+    dryRun: boolean;
+    /** True when the new rule set was computed locally instead of read back from the controller. */
+    predicted: boolean;
+    added: number;
+    removed: number;
+    changed: number;
+    /**
+     * The rule set in order, one rule per line, prefixed with `+ ` (added), `- ` (removed) or two
+     * spaces (unchanged). A changed rule is shown as its removed old line followed by its added new line.
+     */
+    lines: string[];
+}
@@ -0,0 +1,18 @@
+import type { RankedThreat } from './rankedThreat.js';
+
+export interface SecurityReport {
+    siteId: string;
+    /** `unknown` when the threat list could not be fetched. */
+    status: 'clear' | 'warning' | 'critical' | 'unknown';
+    timeRange: {
+        start: string;
+        end: string;
+    };
+    summary: Record<string, unknown>;
+    /** IPS threats grouped by signature, most severe and widespread first. */
+    threats: RankedThreat[];
+    rogueAps: Record<string, unknown>[];
+    widsEvents: Record<string, unknown>[];
+    /** Sources that failed; the report is built from the remaining ones. */
+    unavailable: { source: string; error: string }[];
+}
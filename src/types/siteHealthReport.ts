@@ -0,0 +1,14 @@
+import type { HealthProblem } from './healthProblem.js';
+
+export interface SiteHealthReport {
+    siteId: string;
+    status: 'healthy' | 'degraded' | 'critical';
+    timeRange: {
+        start: string;
+        end: string;
+    };
+    metrics: Record<string, unknown>;
+    problems: HealthProblem[];
+    /** Monitor endpoints that failed; the report is built from the remaining ones. */
+    unavailable: { metric: string; error: string }[];
+}
@@ -0,0 +1,22 @@
+/** What an upgrade schedule would do, returned by dry runs and alongside committed schedules. */
+export interface UpgradeSchedulePreview {
+    dryRun: boolean;
+    siteId: string;
+    name: string;
+    enabled: boolean;
+    window: {
+        type: 'once' | 'repeat';
+        /** Execution time of one-off schedules, as ISO 8601. */
+        runsAt?: string;
+        /** Recurrence of repeating schedules in controller time, e.g. `weekly on Sunday at 03:00`. */
+        recurrence?: string;
+    };
+    devices: {
+        mac: string;
+        name?: string;
+        model?: string;
+        firmwareVersion?: string;
+        upgradeAvailable?: boolean;
+    }[];
+    warnings: string[];
+}
@@ -0,0 +1,65 @@
+export interface Ipv4Cidr {
+    network: number;
+    prefixLength: number;
+}
+
+export function parseIpv4(value: string): number | undefined {
+    const parts = value.trim().split('.');
+    if (parts.length !== 4) {
+        return undefined;
+    }
+
+    let result = 0;
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part)) {
+            return undefined;
+        }
+
+        const octet = Number.parseInt(part, 10);
+        if (octet > 255) {
+            return undefined;
+        }
+
+        result = result * 256 + octet;
+    }
+
+    return result;
+}
+
+/**
+ * Parses `a.b.c.d/nn` (a bare address is treated as /32). The host bits are cleared.
+ */
+export function parseIpv4Cidr(value: string): Ipv4Cidr | undefined {
+    const [address, prefix, ...rest] = value.trim().split('/');
+    if (rest.length > 0) {
+        return undefined;
+    }
+
+    const parsedAddress = parseIpv4(address);
+    const prefixLength = prefix === undefined ? 32 : /^\d{1,2}$/.test(prefix) ? Number(prefix) : NaN;
+    if (parsedAddress === undefined || !Number.isInteger(prefixLength) || prefixLength > 32) {
+        return undefined;
+    }
+
+    return { network: applyMask(parsedAddress, prefixLength), prefixLength };
+}
+
+export function isIpv4InCidr(ip: string, cidr: Ipv4Cidr): boolean {
+    const parsed = parseIpv4(ip);
+    return parsed !== undefined && applyMask(parsed, cidr.prefixLength) === cidr.network;
+}
+
+/** Whether two CIDR blocks share at least one address. */
+export function cidrsOverlap(left: Ipv4Cidr, right: Ipv4Cidr): boolean {
+    const prefixLength = Math.min(left.prefixLength, right.prefixLength);
+    return applyMask(left.network, prefixLength) === applyMask(right.network, prefixLength);
+}
+
+function applyMask(address: number, prefixLength: number): number {
+    if (prefixLength === 0) {
+        return 0;
+    }
+
+    const hostBits = 2 ** (32 - prefixLength);
+    return Math.floor(address / hostBits) * hostBits;
+}
@@ -0,0 +1,67 @@
+import type { ListPage } from '../types/index.js';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions {
+    sortBy?: string;
+    sortOrder?: SortOrder;
+    limit?: number;
+    offset?: number;
+    fields?: string[];
+}
+
+/**
+ * Applies sorting, offset/limit paging and field projection to an already filtered list.
+ */
+export function applyListOptions<T extends object>(items: T[], options: ListOptions = {}): ListPage<Partial<T>> {
+    const sorted = options.sortBy ? sortBy(items, options.sortBy, options.sortOrder ?? 'asc') : items;
+    const offset = options.offset ?? 0;
+    const page = options.limit === undefined ? sorted.slice(offset) : sorted.slice(offset, offset + options.limit);
+    const projected = options.fields && options.fields.length > 0 ? page.map((item) => project(item, options.fields ?? [])) : page;
+
+    return {
+        total: items.length,
+        offset,
+        limit: options.limit,
+        count: projected.length,
+        items: projected
+    };
+}
+
+export function includesText(value: unknown, needle: string): boolean {
+    return typeof value === 'string' && value.toLowerCase().includes(needle.toLowerCase());
+}
+
+function sortBy<T extends object>(items: T[], key: string, order: SortOrder): T[] {
+    const direction = order === 'desc' ? -1 : 1;
+
+    return [...items].sort((left, right) => {
+        const leftValue = (left as Record<string, unknown>)[key];
+        const rightValue = (right as Record<string, unknown>)[key];
+
+        // Missing values always sort last regardless of direction.
+        if (leftValue === undefined || leftValue === null) {
+            return rightValue === undefined || rightValue === null ? 0 : 1;
+        }
+        if (rightValue === undefined || rightValue === null) {
+            return -1;
+        }
+
+        if (typeof leftValue === 'number' && typeof rightValue === 'number') {
+            return (leftValue - rightValue) * direction;
+        }
+
+        return String(leftValue).localeCompare(String(rightValue), undefined, { numeric: true }) * direction;
+    });
+}
+
+function project<T extends object>(item: T, fields: string[]): Partial<T> {
+    const projected: Partial<T> = {};
+    for (const field of fields) {
+        if (field in item) {
+            projected[field as keyof T] = item[field as keyof T];
+        }
+    }
+
+    return projected;
+}
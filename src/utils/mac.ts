@@ -0,0 +1,23 @@
+const MAC_PATTERN = /^[0-9a-f]{12}$/;
+
+/**
+ * Normalizes a MAC address written with `:`, `-`, `.` or no separators into the
+ * `AA-BB-CC-DD-EE-FF` form expected by the Omada OpenAPI. Returns `undefined` for non-MAC input.
+ */
+export function normalizeMac(value: string): string | undefined {
+    const compact = value.trim().toLowerCase().replace(/[:.-]/g, '');
+    if (!MAC_PATTERN.test(compact)) {
+        return undefined;
+    }
+
+    return compact.toUpperCase().match(/.{2}/g)?.join('-');
+}
+
+export function isSameMac(left: string | undefined, right: string | undefined): boolean {
+    if (!left || !right) {
+        return false;
+    }
+
+    const normalizedLeft = normalizeMac(left);
+    return normalizedLeft !== undefined && normalizedLeft === normalizeMac(right);
+}
@@ -0,0 +1,30 @@
+/**
+ * Strips the `/openapi/v{n}/{omadacId}` (or `/openapi/v{n}/msp/{mspId}`) prefix, the query string
+ * and trailing slashes from a controller URL so it can be matched against relative path patterns.
+ */
+export function toRelativeOmadaPath(url: string): string {
+    const [path] = url.split('?');
+    return path.replace(/^\/openapi\/v\d+\/(msp\/)?[^/]+/, '').replace(/\/+$/, '');
+}
+
+const MAC_SEGMENT = /^[0-9A-Fa-f]{2}([-:]?[0-9A-Fa-f]{2}){5}$/;
+const ID_SEGMENT = /^(\d+|[0-9A-Fa-f]{16,}|[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12})$/;
+
+/**
+ * Collapses the variable segments of a relative controller path so it can be used as a metric
+ * label: site IDs become `{siteId}`, MAC addresses `{mac}`, and numeric, hex or UUID IDs `{id}`.
+ */
+export function toOmadaPathTemplate(url: string): string {
+    const segments = toRelativeOmadaPath(url).split('/');
+    return segments
+        .map((segment, index) => {
+            if (index > 0 && segments[index - 1] === 'sites') {
+                return '{siteId}';
+            }
+            if (MAC_SEGMENT.test(segment)) {
+                return '{mac}';
+            }
+            return ID_SEGMENT.test(segment) ? '{id}' : segment;
+        })
+        .join('/');
+}
@@ -0,0 +1,97 @@
+/**
+ * Token bucket holding up to `capacity` tokens that refill continuously at `refillPerSecond`.
+ */
+export class TokenBucket {
+    private tokens: number;
+
+    private updatedAt = Date.now();
+
+    constructor(
+        private readonly capacity: number,
+        private readonly refillPerSecond: number
+    ) {
+        this.tokens = capacity;
+    }
+
+    /** Takes a token if one is available. */
+    public tryTake(): boolean {
+        this.refill();
+        if (this.tokens < 1) {
+            return false;
+        }
+
+        this.tokens -= 1;
+        return true;
+    }
+
+    /** Waits until a token is available and takes it. */
+    public async take(): Promise<void> {
+        while (!this.tryTake()) {
+            await delay(this.msUntilNextToken());
+        }
+    }
+
+    /** Milliseconds until the next token is available; 0 when one is available now. */
+    public msUntilNextToken(): number {
+        this.refill();
+        return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+
+    public get full(): boolean {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+        this.updatedAt = now;
+    }
+}
+
+/**
+ * One token bucket per key (client IP, session ID, ...) allowing `perMinute` requests per minute
+ * with bursts of the same size. Buckets that have refilled completely are dropped periodically.
+ */
+export class KeyedRateLimiter {
+    private readonly buckets = new Map<string, TokenBucket>();
+
+    private lastPrunedAt = Date.now();
+
+    constructor(private readonly perMinute: number) {}
+
+    /** Returns 0 when the request is allowed, otherwise the milliseconds until it would be. */
+    public consume(key: string): number {
+        this.prune();
+
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(this.perMinute, this.perMinute / 60);
+            this.buckets.set(key, bucket);
+        }
+
+        return bucket.tryTake() ? 0 : bucket.msUntilNextToken();
+    }
+
+    public delete(key: string): void {
+        this.buckets.delete(key);
+    }
+
+    private prune(): void {
+        const now = Date.now();
+        if (now - this.lastPrunedAt < 60_000) {
+            return;
+        }
+
+        this.lastPrunedAt = now;
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.full) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+export function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
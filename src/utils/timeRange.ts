@@ -0,0 +1,96 @@
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface TimeRangeInput {
+    since?: string;
+    until?: string;
+}
+
+const UNIT_MS: Record<string, number> = {
+    s: 1_000,
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+    sec: 's',
+    secs: 's',
+    second: 's',
+    seconds: 's',
+    min: 'm',
+    mins: 'm',
+    minute: 'm',
+    minutes: 'm',
+    hr: 'h',
+    hrs: 'h',
+    hour: 'h',
+    hours: 'h',
+    day: 'd',
+    days: 'd',
+    week: 'w',
+    weeks: 'w'
+};
+
+const RELATIVE_PATTERN = /^(?:last\s+)?(\d+)\s*([a-z]+)(?:\s+ago)?$/;
+
+/**
+ * Parses a point in time given as `now`, a relative duration (`2h`, `last 30m`, `7 days ago`),
+ * epoch seconds or milliseconds, or an ISO 8601 timestamp. Returns epoch milliseconds.
+ */
+export function parseTimeInput(value: string, now = Date.now()): number {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'now') {
+        return now;
+    }
+
+    const relative = RELATIVE_PATTERN.exec(normalized);
+    if (relative) {
+        const unit = UNIT_ALIASES[relative[2]] ?? relative[2];
+        const unitMs = UNIT_MS[unit];
+        if (unitMs) {
+            return now - Number.parseInt(relative[1], 10) * unitMs;
+        }
+    }
+
+    if (/^\d+$/.test(normalized)) {
+        const numeric = Number.parseInt(normalized, 10);
+        // Ten digits or fewer is epoch seconds until the year 2286.
+        return normalized.length <= 10 ? numeric * 1000 : numeric;
+    }
+
+    const parsed = Date.parse(value.trim());
+    if (Number.isNaN(parsed)) {
+        throw new Error(
+            `Invalid time "${value}". Use "now", a relative duration such as "2h" or "last 30m", epoch seconds or milliseconds, or an ISO 8601 timestamp.`
+        );
+    }
+
+    return parsed;
+}
+
+/**
+ * Resolves `since`/`until` into an epoch millisecond range. `since` defaults to `defaultWindowMs`
+ * before `until`, which defaults to now.
+ */
+export function resolveTimeRange(input: TimeRangeInput, defaultWindowMs: number, now = Date.now()): TimeRange {
+    const end = input.until ? parseTimeInput(input.until, now) : now;
+    const start = input.since ? parseTimeInput(input.since, now) : end - defaultWindowMs;
+
+    if (start > end) {
+        throw new Error(`Invalid time range: ${toIsoTimestamp(start)} is after ${toIsoTimestamp(end)}`);
+    }
+
+    return { start, end };
+}
+
+export function toIsoTimestamp(value: unknown): string | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return undefined;
+    }
+
+    return new Date(value).toISOString();
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AccessPolicy, AccessPolicyError } from '../src/accessPolicy.js';
+import { loadConfigFromEnv } from '../src/config.js';
+import { OmadaClient } from '../src/omadaClient.js';
+
+const SITE_STATISTICS = '/openapi/v1/omadac/sites/statistic';
+const REBOOT_DEVICE = '/openapi/v1/omadac/sites/site-1/devices/AA-BB-CC-DD-EE-FF/reboot';
+
+describe('AccessPolicy.isReadOperation', () => {
+  const policy = new AccessPolicy();
+
+  it('treats safe methods as reads', () => {
+    for (const method of ['GET', 'get', 'HEAD', 'OPTIONS']) {
+      assert.equal(policy.isReadOperation(method, REBOOT_DEVICE), true, method);
+    }
+  });
+
+  it('treats PUT, PATCH and DELETE as writes', () => {
+    for (const method of ['PUT', 'PATCH', 'DELETE']) {
+      assert.equal(policy.isReadOperation(method, SITE_STATISTICS), false, method);
+    }
+  });
+
+  it('accepts POSTs on the read-only allowlist', () => {
+    assert.equal(policy.isReadOperation('POST', SITE_STATISTICS), true);
+    assert.equal(policy.isReadOperation('post', '/openapi/v1/omadac/sites/site-1/aps/ports/capability'), true);
+    assert.equal(policy.isReadOperation('POST', '/openapi/v1/msp/msp-1/customers/client-count'), true);
+  });
+
+  it('ignores query strings and trailing slashes', () => {
+    assert.equal(policy.isReadOperation('POST', `${SITE_STATISTICS}/?page=1`), true);
+  });
+
+  it('treats other POSTs as writes', () => {
+    assert.equal(policy.isReadOperation('POST', REBOOT_DEVICE), false);
+    assert.equal(policy.isReadOperation('POST', `${SITE_STATISTICS}/export`), false);
+  });
+
+  it('adds configured patterns to the allowlist', () => {
+    const extended = new AccessPolicy('read-only', [/^\/sites\/[^/]+\/devices\/[^/]+\/reboot$/]);
+
+    assert.equal(extended.isReadOperation('POST', REBOOT_DEVICE), true);
+    assert.equal(extended.isReadOperation('POST', SITE_STATISTICS), true);
+  });
+});
+
+describe('AccessPolicy.assertAllowed', () => {
+  it('allows everything in full mode', () => {
+    const policy = new AccessPolicy('full');
+
+    assert.doesNotThrow(() => policy.assertAllowed('POST', REBOOT_DEVICE));
+    assert.doesNotThrow(() => policy.assertAllowed('DELETE', REBOOT_DEVICE));
+  });
+
+  it('blocks writes in read-only mode even when confirmed', () => {
+    const policy = new AccessPolicy('read-only');
+
+    assert.doesNotThrow(() => policy.assertAllowed('GET', REBOOT_DEVICE));
+    assert.doesNotThrow(() => policy.assertAllowed('POST', SITE_STATISTICS));
+    assert.throws(
+      () => policy.assertAllowed('post', REBOOT_DEVICE, { confirmed: true }),
+      (error: unknown) =>
+        error instanceof AccessPolicyError &&
+        error.mode === 'read-only' &&
+        error.method === 'POST' &&
+        error.path === REBOOT_DEVICE &&
+        error.toJSON().error === 'ACCESS_DENIED'
+    );
+  });
+
+  it('requires confirmation for writes in confirm-writes mode', () => {
+    const policy = new AccessPolicy('confirm-writes');
+
+    assert.doesNotThrow(() => policy.assertAllowed('GET', REBOOT_DEVICE));
+    assert.doesNotThrow(() => policy.assertAllowed('POST', SITE_STATISTICS));
+    assert.throws(
+      () => policy.assertAllowed('PUT', REBOOT_DEVICE),
+      (error: unknown) => error instanceof AccessPolicyError && /confirm: true/.test(error.reason)
+    );
+    assert.doesNotThrow(() => policy.assertAllowed('PUT', REBOOT_DEVICE, { confirmed: true }));
+  });
+});
+
+describe('OMADA_READ_ONLY_ALLOWLIST', () => {
+  function clientConfig(allowlist: string) {
+    return loadConfigFromEnv({
+      OMADA_BASE_URL: 'https://omada.example.com',
+      OMADA_CLIENT_ID: 'client',
+      OMADA_CLIENT_SECRET: 'secret',
+      OMADA_OMADAC_ID: 'omadac',
+      OMADA_ACCESS_MODE: 'read-only',
+      OMADA_READ_ONLY_ALLOWLIST: allowlist
+    });
+  }
+
+  it('extends the allowlist of the client access policy', () => {
+    const client = new OmadaClient(clientConfig('^/sites/[^/]+/devices/[^/]+/reboot$'));
+
+    assert.equal(client.isReadOperation('POST', REBOOT_DEVICE), true);
+    assert.equal(client.isReadOperation('POST', REBOOT_DEVICE.replace(/reboot$/, 'locate')), false);
+  });
+
+  it('rejects invalid patterns with the offending pattern in the message', () => {
+    assert.throws(
+      () => new OmadaClient(clientConfig('^/sites/(unclosed')),
+      /Invalid OMADA_READ_ONLY_ALLOWLIST pattern "\^\/sites\/\(unclosed"/
+    );
+  });
+});
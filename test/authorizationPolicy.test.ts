@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AuthorizationError, type AuthorizationGrant, resolveGrantedSite } from '../src/authz/authorizationPolicy.js';
+
+const siteA: AuthorizationGrant = { principal: 'helpdesk', controllers: ['*'], sites: ['A'], categories: ['read'] };
+
+const path = (relativePath: string) => `/openapi/v1/omadac${relativePath}`;
+
+describe('resolveGrantedSite', () => {
+  it('allows every path for an all-sites grant', () => {
+    assert.equal(resolveGrantedSite({ ...siteA, sites: ['*'] }, 'POST', path('/security/blocked-country')), undefined);
+  });
+
+  it('allows granted site IDs and the site list', () => {
+    assert.equal(resolveGrantedSite(siteA, 'GET', path('/sites/A/devices?page=1')), undefined);
+    assert.equal(resolveGrantedSite(siteA, 'GET', path('/sites')), undefined);
+  });
+
+  it('returns other site IDs so they can be matched by name', () => {
+    assert.equal(resolveGrantedSite(siteA, 'GET', path('/sites/B/devices')), 'B');
+    assert.equal(resolveGrantedSite(siteA, 'GET', path('/sites/Main%20Office/devices')), 'Main Office');
+  });
+
+  it('rejects controller-level endpoints', () => {
+    assert.throws(() => resolveGrantedSite(siteA, 'GET', path('/security/threat-management')), AuthorizationError);
+    assert.throws(() => resolveGrantedSite(siteA, 'POST', path('/sites')), AuthorizationError);
+  });
+
+  it('rejects dot segments that would leave the granted site', () => {
+    for (const sitePath of ['/sites/A/../B/devices', '/sites/A/%2e%2e/B/devices', '/sites/A/%2E./B', '/sites/A\\..\\B', '/sites/./B']) {
+      assert.throws(() => resolveGrantedSite(siteA, 'GET', path(sitePath)), AuthorizationError, sitePath);
+    }
+  });
+
+  it('rejects encoded separators in site IDs', () => {
+    for (const siteId of ['A%2F..%2FB', 'A%2fB', 'A%2EB', 'A%5CB']) {
+      assert.throws(() => resolveGrantedSite(siteA, 'GET', path(`/sites/${siteId}/devices`)), AuthorizationError, siteId);
+    }
+  });
+
+  it('checks the path a backslash resolves to', () => {
+    assert.equal(resolveGrantedSite(siteA, 'GET', path('/sites/B\\devices')), 'B');
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { diffRuleSets, parsePortRange, type RuleSet } from '../src/services/firewallService.js';
+
+interface Rule {
+  id: string;
+  name: string;
+  action: string;
+}
+
+const rules: RuleSet<Rule> = {
+  name: 'test rules',
+  load: async () => [],
+  key: (rule) => rule.id,
+  describe: (rule) => `${rule.name}: ${rule.action}`,
+  numbered: true
+};
+
+const rule = (id: string, action = 'allow'): Rule => ({ id, name: `rule ${id}`, action });
+
+describe('parsePortRange', () => {
+  it('parses single ports and ranges', () => {
+    assert.deepEqual(parsePortRange('443', 'port'), [443, 443]);
+    assert.deepEqual(parsePortRange(' 8000-8080 ', 'port'), [8000, 8080]);
+    assert.deepEqual(parsePortRange('1-65535', 'port'), [1, 65_535]);
+  });
+
+  it('rejects ports outside 1-65535, reversed ranges and other text', () => {
+    for (const value of ['0', '65536', '8080-8000', '80,443', 'http', '', '-80']) {
+      assert.throws(() => parsePortRange(value, 'externalPort'), /externalPort/, value);
+    }
+  });
+});
+
+describe('diffRuleSets', () => {
+  it('lists unchanged, added, removed and changed rules in order', () => {
+    const diff = diffRuleSets(rules, [rule('a'), rule('b'), rule('c')], [rule('a'), rule('c', 'deny'), rule('d')], false, false);
+
+    assert.deepEqual(diff.lines, [
+      '  1. rule a: allow',
+      '- 2. rule b: allow',
+      '- 3. rule c: allow',
+      '+ 2. rule c: deny',
+      '+ 3. rule d: allow'
+    ]);
+    assert.deepEqual([diff.added, diff.removed, diff.changed], [1, 1, 1]);
+  });
+
+  it('does not report renumbered rules as changes', () => {
+    const diff = diffRuleSets(rules, [rule('a'), rule('b'), rule('c')], [rule('b'), rule('c')], true, true);
+
+    assert.deepEqual(diff.lines, ['- 1. rule a: allow', '  1. rule b: allow', '  2. rule c: allow']);
+    assert.deepEqual([diff.added, diff.removed, diff.changed], [0, 1, 0]);
+    assert.equal(diff.dryRun, true);
+    assert.equal(diff.predicted, true);
+  });
+
+  it('keeps removed rules at the end of the diff', () => {
+    const diff = diffRuleSets(rules, [rule('a'), rule('b')], [rule('a')], false, false);
+
+    assert.deepEqual(diff.lines, ['  1. rule a: allow', '- 2. rule b: allow']);
+  });
+});
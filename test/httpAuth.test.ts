@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { HttpAuthenticator, HttpAuthError, loadHttpAuthConfig, PROXY_SECRET_HEADER } from '../src/auth/httpAuth.js';
+
+const SECRET = 'proxy-secret-0123456789';
+
+function request(remoteAddress: string, headers: Record<string, string>): IncomingMessage {
+  return { headers, socket: { remoteAddress } } as unknown as IncomingMessage;
+}
+
+function headerAuthenticator(env: NodeJS.ProcessEnv): HttpAuthenticator {
+  return new HttpAuthenticator(
+    loadHttpAuthConfig({ MCP_HTTP_AUTH_MODE: 'header', MCP_HTTP_AUTH_IDENTITY_HEADER: 'X-Forwarded-User', ...env })
+  );
+}
+
+describe('header authentication', () => {
+  it('requires a proxy secret or trusted proxies', () => {
+    assert.throws(
+      () => loadHttpAuthConfig({ MCP_HTTP_AUTH_MODE: 'header', MCP_HTTP_AUTH_IDENTITY_HEADER: 'X-Forwarded-User' }),
+      /MCP_HTTP_AUTH_PROXY_SECRET or MCP_HTTP_AUTH_TRUSTED_PROXIES/
+    );
+    assert.throws(() => headerAuthenticator({ MCP_HTTP_AUTH_TRUSTED_PROXIES: '10.0.0.0/33' }), /10\.0\.0\.0\/33/);
+  });
+
+  it('accepts the identity from trusted proxy addresses only', async () => {
+    const auth = headerAuthenticator({ MCP_HTTP_AUTH_TRUSTED_PROXIES: '10.0.0.0/24,::1' });
+
+    for (const address of ['10.0.0.7', '::ffff:10.0.0.7', '::1']) {
+      const info = await auth.authenticate(request(address, { 'x-forwarded-user': 'alice' }));
+      assert.equal(info?.clientId, 'alice', address);
+    }
+    await assert.rejects(auth.authenticate(request('10.0.1.7', { 'x-forwarded-user': 'alice' })), HttpAuthError);
+  });
+
+  it('requires the proxy secret when configured', async () => {
+    const auth = headerAuthenticator({ MCP_HTTP_AUTH_PROXY_SECRET: SECRET });
+
+    const info = await auth.authenticate(
+      request('192.0.2.1', { 'x-forwarded-user': 'alice', [PROXY_SECRET_HEADER]: SECRET })
+    );
+    assert.equal(info?.clientId, 'alice');
+    await assert.rejects(auth.authenticate(request('192.0.2.1', { 'x-forwarded-user': 'alice' })), HttpAuthError);
+    await assert.rejects(
+      auth.authenticate(request('192.0.2.1', { 'x-forwarded-user': 'alice', [PROXY_SECRET_HEADER]: 'wrong' })),
+      HttpAuthError
+    );
+  });
+});
+
+describe('OAuth authentication', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwksFile = path.join(mkdtempSync(path.join(tmpdir(), 'omada-jwks-')), 'jwks.json');
+  writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1' }] }));
+
+  const auth = new HttpAuthenticator(
+    loadHttpAuthConfig({
+      MCP_HTTP_AUTH_MODE: 'oauth',
+      MCP_HTTP_OAUTH_ISSUER: 'https://auth.example.com',
+      MCP_HTTP_OAUTH_AUDIENCE: 'https://mcp.example.com/mcp',
+      MCP_HTTP_OAUTH_JWKS_FILE: jwksFile
+    })
+  );
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signed = (header: unknown, payload: unknown) => {
+    const input = `${encode(header)}.${encode(payload)}`;
+    const signature = sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${input}.${signature.toString('base64url')}`;
+  };
+  const bearer = (token: string) => request('192.0.2.1', { authorization: `Bearer ${token}` });
+  const claims = { iss: 'https://auth.example.com', aud: 'https://mcp.example.com/mcp', sub: 'alice', exp: 4_102_444_800 };
+
+  it('accepts a valid token', async () => {
+    const info = await auth.authenticate(bearer(signed({ alg: 'ES256', kid: 'k1' }, claims)));
+    assert.equal(info?.clientId, 'alice');
+  });
+
+  it('rejects header and payload segments that are not JSON objects', async () => {
+    const tokens = [
+      'bnVsbA.e30.x',
+      `${encode(42)}.e30.x`,
+      `${encode(['ES256'])}.e30.x`,
+      signed({ alg: 'ES256', kid: 'k1' }, null),
+      signed({ alg: 'ES256', kid: 'k1' }, 'alice')
+    ];
+    for (const token of tokens) {
+      await assert.rejects(auth.authenticate(bearer(token)), HttpAuthError, token);
+    }
+  });
+
+  it('rejects algorithms that do not fit the key', async () => {
+    for (const alg of ['PS256', 'RS256', 'EdDSA']) {
+      await assert.rejects(auth.authenticate(bearer(signed({ alg, kid: 'k1' }, claims))), HttpAuthError, alg);
+    }
+  });
+});
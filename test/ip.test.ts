@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { cidrsOverlap, isIpv4InCidr, parseIpv4, parseIpv4Cidr } from '../src/utils/ip.js';
+
+describe('parseIpv4', () => {
+  it('parses dotted quads', () => {
+    assert.equal(parseIpv4('10.0.0.1'), 167_772_161);
+    assert.equal(parseIpv4('255.255.255.255'), 4_294_967_295);
+  });
+
+  it('rejects malformed addresses', () => {
+    for (const value of ['10.0.0', '10.0.0.256', '10.0.0.-1', '10.0.0.1.2', 'a.b.c.d', '']) {
+      assert.equal(parseIpv4(value), undefined, value);
+    }
+  });
+});
+
+describe('parseIpv4Cidr', () => {
+  it('clears host bits and treats bare addresses as /32', () => {
+    assert.deepEqual(parseIpv4Cidr('192.168.1.77/24'), parseIpv4Cidr('192.168.1.0/24'));
+    assert.deepEqual(parseIpv4Cidr('192.168.1.77'), { network: parseIpv4('192.168.1.77'), prefixLength: 32 });
+    assert.deepEqual(parseIpv4Cidr('8.8.8.8/0'), { network: 0, prefixLength: 0 });
+  });
+
+  it('rejects invalid prefixes', () => {
+    for (const value of ['10.0.0.0/33', '10.0.0.0/-1', '10.0.0.0/', '10.0.0.0/24abc', '10.0.0.0/8/8', '10.0.0/8']) {
+      assert.equal(parseIpv4Cidr(value), undefined, value);
+    }
+  });
+});
+
+describe('isIpv4InCidr', () => {
+  const cidr = parseIpv4Cidr('10.1.0.0/16')!;
+
+  it('matches addresses inside the block', () => {
+    assert.equal(isIpv4InCidr('10.1.0.0', cidr), true);
+    assert.equal(isIpv4InCidr('10.1.255.255', cidr), true);
+  });
+
+  it('rejects addresses outside the block and invalid addresses', () => {
+    assert.equal(isIpv4InCidr('10.2.0.1', cidr), false);
+    assert.equal(isIpv4InCidr('10.1.0', cidr), false);
+  });
+});
+
+describe('cidrsOverlap', () => {
+  const overlap = (left: string, right: string) => cidrsOverlap(parseIpv4Cidr(left)!, parseIpv4Cidr(right)!);
+
+  it('detects nested and identical blocks', () => {
+    assert.equal(overlap('10.0.0.0/8', '10.20.0.0/16'), true);
+    assert.equal(overlap('10.20.0.0/16', '10.0.0.0/8'), true);
+    assert.equal(overlap('192.168.1.0/24', '192.168.1.128/25'), true);
+    assert.equal(overlap('192.168.1.5', '192.168.1.0/24'), true);
+    assert.equal(overlap('0.0.0.0/0', '172.16.0.0/12'), true);
+  });
+
+  it('separates adjacent blocks', () => {
+    assert.equal(overlap('192.168.0.0/24', '192.168.1.0/24'), false);
+    assert.equal(overlap('192.168.1.0/25', '192.168.1.128/25'), false);
+  });
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { OmadaClient } from '../src/omadaClient.js';
+
+describe('OmadaClient.sanitizePayload', () => {
+  it('masks passwords and passphrases completely', () => {
+    assert.deepEqual(
+      OmadaClient.sanitizePayload({
+        name: 'Guest',
+        passphrase: 'correct-horse',
+        wpa: { securityKey: 'hunter22hunter' },
+        users: [{ password: 'p@ssw0rd-long' }]
+      }),
+      {
+        name: 'Guest',
+        passphrase: '********',
+        wpa: { securityKey: '********' },
+        users: [{ password: '********' }]
+      }
+    );
+  });
+
+  it('keeps the ends of long tokens and masks short ones', () => {
+    assert.deepEqual(OmadaClient.sanitizePayload({ accessToken: 'AT-1234567890-XYZ', token: 'short' }), {
+      accessToken: 'AT-1…-XYZ',
+      token: '********'
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { KeyedRateLimiter, TokenBucket } from '../src/utils/rateLimit.js';
+
+let now = 1_700_000_000_000;
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('allows a burst up to its capacity', () => {
+    const bucket = new TokenBucket(3, 1);
+
+    assert.deepEqual(
+      [bucket.tryTake(), bucket.tryTake(), bucket.tryTake(), bucket.tryTake()],
+      [true, true, true, false]
+    );
+    assert.equal(bucket.msUntilNextToken(), 1000);
+  });
+
+  it('refills continuously without exceeding its capacity', () => {
+    const bucket = new TokenBucket(2, 2);
+    bucket.tryTake();
+    bucket.tryTake();
+
+    now += 250;
+    assert.equal(bucket.tryTake(), false);
+    assert.equal(bucket.msUntilNextToken(), 250);
+
+    now += 250;
+    assert.equal(bucket.tryTake(), true);
+
+    now += 60_000;
+    assert.equal(bucket.full, true);
+    assert.equal(bucket.tryTake(), true);
+    assert.equal(bucket.tryTake(), true);
+    assert.equal(bucket.tryTake(), false);
+  });
+
+  it('limits each key of a keyed limiter separately', () => {
+    const limiter = new KeyedRateLimiter(2);
+
+    assert.deepEqual(
+      [limiter.consume('a'), limiter.consume('a'), limiter.consume('b')],
+      [0, 0, 0]
+    );
+    assert.equal(limiter.consume('a'), 30_000);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ControllerRegistry } from '../src/controllerRegistry.js';
+import { ResourceSubscriptionManager } from '../src/resources/resourceSubscriptions.js';
+
+function managerWith(listDevices: () => Promise<unknown[]>) {
+  const registry = { get: () => ({ listDevices }) } as unknown as ControllerRegistry;
+  const notified: string[] = [];
+  const manager = new ResourceSubscriptionManager(registry, async (uri) => {
+    notified.push(uri);
+  }, 60_000);
+  return { manager, subscriptions: (manager as unknown as { subscriptions: Map<string, unknown> }).subscriptions };
+}
+
+describe('ResourceSubscriptionManager', () => {
+  it('drops the subscription when the initial state cannot be read', async () => {
+    const { manager, subscriptions } = managerWith(async () => {
+      throw new Error('controller unreachable');
+    });
+
+    await assert.rejects(manager.subscribe('omada://sites/A/devices'), /controller unreachable/);
+    assert.equal(subscriptions.size, 0);
+    manager.stop();
+  });
+
+  it('keeps an earlier subscription of the same resource', async () => {
+    let fail = false;
+    const { manager, subscriptions } = managerWith(async () => {
+      if (fail) {
+        throw new Error('controller unreachable');
+      }
+      return [];
+    });
+
+    await manager.subscribe('omada://sites/A/devices');
+    fail = true;
+    await assert.rejects(manager.subscribe('omada://sites/A/devices'));
+    assert.equal(subscriptions.size, 1);
+    manager.stop();
+  });
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ResponseCache } from '../src/responseCache.js';
+
+const url = '/openapi/v1/omadac/sites/A/devices';
+
+describe('ResponseCache', () => {
+  it('serves cached responses as copies', async () => {
+    const cache = new ResponseCache({ defaultTtlMs: 60_000 });
+    let loads = 0;
+    const load = async () => {
+      loads += 1;
+      return { errorCode: 0, result: [{ name: 'ap' }] };
+    };
+
+    const first = await cache.getOrLoad(url, undefined, load);
+    first.result[0].name = 'changed';
+    const [second, third] = await Promise.all([cache.getOrLoad(url, undefined, load), cache.getOrLoad(url, undefined, load)]);
+
+    assert.equal(loads, 1);
+    assert.equal(second.result[0].name, 'ap');
+    assert.notEqual(second, third);
+  });
+
+  it('gives coalesced callers their own copy', async () => {
+    const cache = new ResponseCache({ defaultTtlMs: 60_000 });
+    const load = async () => ({ errorCode: 0, result: [{ name: 'ap' }] });
+
+    const [first, second] = await Promise.all([cache.getOrLoad(url, undefined, load), cache.getOrLoad(url, undefined, load)]);
+    first.result[0].name = 'changed';
+
+    assert.equal(second.result[0].name, 'ap');
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { rankThreats } from '../src/services/securityService.js';
+
+const clients = [
+  { mac: 'AA-AA-AA-AA-AA-01', name: 'laptop', ip: '192.168.0.10' },
+  { mac: 'AA-AA-AA-AA-AA-02', hostName: 'printer', ip: '192.168.0.11' }
+];
+
+describe('rankThreats', () => {
+  it('groups threats by signature and joins the affected clients', () => {
+    const [threat] = rankThreats(
+      [
+        { id: 't2', sid: 7, time: 1_700_000_100, severity: 3, srcIp: '203.0.113.5', dstIp: '192.168.0.10', srcCountry: 'NL' },
+        { id: 't1', sid: 7, time: 1_700_000_000, severity: 3, srcIp: '192.168.0.11', dstIp: '203.0.113.5', srcCountry: 'DE' }
+      ],
+      clients
+    );
+
+    assert.equal(threat.severity, 'minor');
+    assert.equal(threat.attempts, 2);
+    assert.deepEqual(threat.sourceCountries, ['NL', 'DE']);
+    assert.deepEqual(
+      threat.affectedClients.map((client) => client.name),
+      ['laptop', 'printer']
+    );
+    assert.deepEqual(
+      threat.occurrences.map((occurrence) => occurrence.id),
+      ['t2', 't1']
+    );
+    assert.equal(threat.firstSeen, new Date(1_700_000_000_000).toISOString());
+    assert.equal(threat.lastSeen, new Date(1_700_000_100_000).toISOString());
+  });
+
+  it('ranks by severity, then affected clients, then attempts', () => {
+    const ranked = rankThreats(
+      [
+        { id: '1', sid: 1, severity: 4 },
+        { id: '2', sid: 2, severity: 2, srcIp: '198.51.100.1' },
+        { id: '3', sid: 2, severity: 2, srcIp: '198.51.100.1' },
+        { id: '4', sid: 3, severity: 2, dstIp: '192.168.0.10' },
+        { id: '5', sid: 4, severity: 0 }
+      ],
+      clients
+    );
+
+    assert.deepEqual(
+      ranked.map((threat) => [threat.severity, threat.occurrences[0]?.id]),
+      [
+        ['critical', '5'],
+        ['moderate', '4'],
+        ['moderate', '2'],
+        ['low', '1']
+      ]
+    );
+  });
+});
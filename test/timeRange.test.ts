@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseTimeInput, resolveTimeRange } from '../src/utils/timeRange.js';
+
+const now = Date.parse('2025-06-01T12:00:00.000Z');
+
+describe('parseTimeInput', () => {
+  it('returns the current time for "now"', () => {
+    assert.equal(parseTimeInput(' NOW ', now), now);
+  });
+
+  it('parses relative durations', () => {
+    assert.equal(parseTimeInput('2h', now), now - 2 * 3_600_000);
+    assert.equal(parseTimeInput('last 30m', now), now - 30 * 60_000);
+    assert.equal(parseTimeInput('7 days ago', now), now - 7 * 86_400_000);
+    assert.equal(parseTimeInput('1 Week', now), now - 604_800_000);
+    assert.equal(parseTimeInput('90 secs ago', now), now - 90_000);
+  });
+
+  it('reads ten digits or fewer as epoch seconds and longer values as milliseconds', () => {
+    assert.equal(parseTimeInput('1748779200', now), 1_748_779_200_000);
+    assert.equal(parseTimeInput('1748779200000', now), 1_748_779_200_000);
+    assert.equal(parseTimeInput('0', now), 0);
+  });
+
+  it('parses ISO 8601 timestamps', () => {
+    assert.equal(parseTimeInput('2025-05-31T08:30:00Z', now), Date.parse('2025-05-31T08:30:00Z'));
+    assert.equal(parseTimeInput('2025-05-31T10:30:00+02:00', now), Date.parse('2025-05-31T08:30:00Z'));
+  });
+
+  it('rejects input it cannot parse', () => {
+    for (const value of ['yesterday', '2 fortnights', 'last', '-5m', '']) {
+      assert.throws(() => parseTimeInput(value, now), /Invalid time/, value);
+    }
+  });
+});
+
+describe('resolveTimeRange', () => {
+  it('defaults to the window before now', () => {
+    assert.deepEqual(resolveTimeRange({}, 3_600_000, now), { start: now - 3_600_000, end: now });
+  });
+
+  it('places the default window before an explicit until', () => {
+    assert.deepEqual(resolveTimeRange({ until: '1h' }, 3_600_000, now), {
+      start: now - 2 * 3_600_000,
+      end: now - 3_600_000
+    });
+  });
+
+  it('resolves since and until independently', () => {
+    assert.deepEqual(resolveTimeRange({ since: '1748736000', until: 'now' }, 3_600_000, now), {
+      start: 1_748_736_000_000,
+      end: now
+    });
+  });
+
+  it('rejects a since later than until', () => {
+    assert.throws(
+      () => resolveTimeRange({ since: '1h', until: '2h' }, 3_600_000, now),
+      /Invalid time range: 2025-06-01T11:00:00.000Z is after 2025-06-01T10:00:00.000Z/
+    );
+  });
+});